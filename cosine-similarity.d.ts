@@ -3,10 +3,11 @@
 declare module 'cosine-similarity' {
     /**
      * Calculates the cosine similarity between two vectors (arrays of numbers).
+     * Sparse vectors keyed by term (e.g. TF-IDF weights) are also accepted.
      * @param vec1 The first vector.
      * @param vec2 The second vector.
-     * @returns The cosine similarity score (a number between -1 and 1).
+     * @returns The cosine similarity score (a number between -1 and 1), or false if either vector has zero magnitude.
      */
-    function cosineSimilarity(vec1: number[], vec2: number[]): number;
+    function cosineSimilarity(vec1: number[] | Record<string, number>, vec2: number[] | Record<string, number>): number | false;
     export default cosineSimilarity; // Assuming it's a default export
   }
\ No newline at end of file
@@ -8,6 +8,13 @@ import pdfParse from 'pdf-parse';
 const pdfSourceRelativePath = path.join('test', 'data', '05-versions-space.pdf');
 // Output path for the generated JSON relative to the project root
 const outputRelativePath = path.join('src', 'generated', 'pdf-content.json');
+// Version of the generated JSON schema (see src/lib/handbook.ts)
+const SCHEMA_VERSION = 2;
+// Target size of each retrieval chunk (characters) and how much consecutive chunks overlap
+const CHUNK_SIZE = 1200;
+const CHUNK_OVERLAP = 200;
+// Running header printed at the top of every page of the handbook, followed by the page number
+const PAGE_HEADER_REGEX = /^\s*Formulas and Calculations\s*\n\s*(\d+)\s*\n/;
 // --------------------
 
 // Resolve absolute paths
@@ -15,6 +22,218 @@ const pdfPath = path.resolve(pdfSourceRelativePath);
 const outputPath = path.resolve(outputRelativePath);
 const outputDir = path.dirname(outputPath);
 
+/**
+ * Same text reconstruction as pdf-parse's default renderer, but keeps each page separately.
+ */
+function createPageCollector(pages) {
+  return function renderPage(pageData) {
+    return pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false })
+      .then((textContent) => {
+        let lastY;
+        let text = '';
+        for (const item of textContent.items) {
+          if (lastY == item.transform[5] || !lastY) text += item.str;
+          else text += '\n' + item.str;
+          lastY = item.transform[5];
+        }
+        pages.push({ index: pageData.pageIndex + 1, text });
+        return text;
+      });
+  };
+}
+
+// --- Table of Contents Parsing ---
+
+/**
+ * Merges wrapped TOC title lines until the number of titles matches the numbered entries.
+ * Lines ending in a connector ("and", "&", "/") are joined first, then single-word lines.
+ */
+function mergeWrappedTitles(titles, expectedCount) {
+  const merged = [...titles];
+  const joinAt = (i) => merged.splice(i - 1, 2, `${merged[i - 1]} ${merged[i]}`.replace(/\/\s+/g, '/ ').trim());
+  while (merged.length > expectedCount) {
+    let i = merged.findIndex((title, idx) => idx > 0 && /(\band|&|\/|-)$/i.test(merged[idx - 1]));
+    if (i === -1) i = merged.findIndex((title, idx) => idx > 0 && !/\s/.test(title));
+    if (i === -1) break;
+    joinAt(i);
+  }
+  return merged;
+}
+
+/**
+ * Parses the CONTENTS pages into a chapter -> section tree.
+ * e.g. "Chapter 4Pressure ControlP. 81" followed by "1." ... "7." and the section titles.
+ */
+function parseTableOfContents(pages) {
+  const contentsStart = pages.findIndex(p => /^\s*CONTENTS\s*$/m.test(p.text));
+  if (contentsStart === -1) {
+    console.warn('Warning: CONTENTS page not found. Section tree will be empty.');
+    return [];
+  }
+
+  const tocLines = [];
+  for (let i = contentsStart; i < pages.length; i++) {
+    const lines = pages[i].text.replace(PAGE_HEADER_REGEX, '').split('\n').map(l => l.trim()).filter(Boolean);
+    if (i > contentsStart && !lines.some(l => /^Chapter\s*\d+/i.test(l) || /P\.\s*\d+$/.test(l))) break;
+    tocLines.push(...lines.filter(l => l !== 'CONTENTS'));
+    if (lines.some(l => /^Index\s*P\.\s*\d+$/i.test(l))) break;
+  }
+
+  const sections = [];
+  let current = null;
+  const finishChapter = () => {
+    if (!current) return;
+    const titles = mergeWrappedTitles(current.rawTitles, current.expectedCount);
+    current.node.children = titles.map((title, i) => ({
+      id: `${current.node.id}.${i + 1}`,
+      kind: 'section',
+      number: i + 1,
+      title,
+      page: null, // Filled in once the heading is located in the body
+    }));
+    current = null;
+  };
+
+  for (const line of tocLines) {
+    const chapterMatch = line.match(/^Chapter\s*(\d+)\s*(.+?)\s*P\.\s*(\d+)$/i);
+    const otherMatch = line.match(/^(Appendix\s*[A-Z]|Index)\s*P\.\s*(\d+)$/i);
+    if (chapterMatch) {
+      finishChapter();
+      const node = { id: `ch${chapterMatch[1]}`, kind: 'chapter', number: Number(chapterMatch[1]), title: chapterMatch[2], page: Number(chapterMatch[3]), children: [] };
+      sections.push(node);
+      current = { node, expectedCount: 0, rawTitles: [] };
+    } else if (otherMatch) {
+      finishChapter();
+      const label = otherMatch[1].replace(/^Appendix\s*/i, 'Appendix ');
+      sections.push({ id: label.toLowerCase().replace(/\s+/g, '-'), kind: /^index$/i.test(label) ? 'index' : 'appendix', number: null, title: label, page: Number(otherMatch[2]), children: [] });
+    } else if (current && /^\d+\.$/.test(line)) {
+      current.expectedCount++;
+    } else if (current) {
+      // Split titles the PDF merged onto one line, e.g. "Buoyancy Factor 12. Hydrostatic Pressure Decrease POOH"
+      current.rawTitles.push(...line.split(/\s+\d+\.\s+/).map(t => t.trim()).filter(Boolean));
+    }
+  }
+  finishChapter();
+  return sections;
+}
+
+// --- Page and Section Mapping ---
+
+const HEADING_STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'from']);
+// "Sub-sea" and "Subsea" should compare equal, as should "Work-over" and "Workover"
+const significantWords = (text) => new Set((text.toLowerCase().replace(/(\w)-(\w)/g, '$1$2').match(/[a-z]{3,}/g) || []).filter(w => !HEADING_STOP_WORDS.has(w)));
+
+/**
+ * Finds a numbered section heading (e.g. "4.      Pressure Analysis") in a page's text.
+ * By default the heading number must match and at least half of the words must overlap (headings
+ * may wrap onto a second line or be worded slightly differently from CONTENTS). With `anyNumber`,
+ * any numbered line whose words exactly match the title is accepted, for where the book's
+ * numbering differs from CONTENTS. Headings already claimed by another section are skipped.
+ * Returns the character offset of the heading line, or -1.
+ */
+function findHeadingOffset(pageText, section, isClaimed, anyNumber = false) {
+  const titleWords = significantWords(section.title);
+  const headingRegex = new RegExp(`^[ \\t]*${anyNumber ? '\\d+' : section.number}\\.[ \\t]+(.+)$`, 'gm');
+  let match;
+  while ((match = headingRegex.exec(pageText)) !== null) {
+    if (isClaimed(match.index)) continue;
+    const headingWords = significantWords(match[1]);
+    const shared = [...titleWords].filter(w => headingWords.has(w)).length;
+    const matches = anyNumber
+      ? shared === titleWords.size && shared === headingWords.size
+      : shared / Math.min(titleWords.size, headingWords.size) >= 0.5;
+    if (titleWords.size > 0 && headingWords.size > 0 && matches) return match.index;
+  }
+  return -1;
+}
+
+/**
+ * Locates where each section begins in the body and splits pages into section-tagged spans.
+ */
+function mapSpansToSections(pages, sections) {
+  const pageByNumber = new Map(pages.filter(p => p.number !== null).map(p => [p.number, p]));
+  // Each boundary: { pageIndex, offset, sectionId }, kept in reading order
+  const boundaries = [];
+
+  sections.forEach((node, i) => {
+    const startPage = pageByNumber.get(node.page);
+    if (!startPage) {
+      console.warn(`Warning: start page ${node.page} of '${node.title}' not found in the PDF.`);
+      return;
+    }
+    boundaries.push({ pageIndex: startPage.index, offset: 0, sectionId: node.id });
+
+    const nextNode = sections[i + 1];
+    const endIndex = nextNode && pageByNumber.get(nextNode.page) ? pageByNumber.get(nextNode.page).index : pages[pages.length - 1].index + 1;
+    let cursor = startPage.index;
+    for (const child of node.children) {
+      for (const anyNumber of [false, true]) {
+        for (let pageIndex = cursor; pageIndex < endIndex && child.page === null; pageIndex++) {
+          const page = pages[pageIndex - 1];
+          const isClaimed = (offset) => boundaries.some(b => b.pageIndex === pageIndex && b.offset === offset);
+          const offset = findHeadingOffset(page.text, child, isClaimed, anyNumber);
+          if (offset !== -1) {
+            child.page = page.number;
+            boundaries.push({ pageIndex, offset, sectionId: child.id });
+            cursor = pageIndex;
+          }
+        }
+        if (child.page !== null) break;
+      }
+      if (child.page === null) console.warn(`Warning: heading for section ${child.id} '${child.title}' not found in the body.`);
+    }
+  });
+
+  boundaries.sort((a, b) => a.pageIndex - b.pageIndex || a.offset - b.offset);
+
+  const spans = [];
+  let activeSection = null;
+  let b = 0;
+  for (const page of pages) {
+    let spanStart = 0;
+    while (b < boundaries.length && boundaries[b].pageIndex === page.index) {
+      const { offset, sectionId } = boundaries[b++];
+      if (offset > spanStart && page.text.slice(spanStart, offset).trim()) {
+        spans.push({ page: page.index, start: spanStart, end: offset, sectionId: activeSection });
+      }
+      spanStart = Math.max(spanStart, offset);
+      activeSection = sectionId;
+    }
+    if (page.text.slice(spanStart).trim()) {
+      spans.push({ page: page.index, start: spanStart, end: page.text.length, sectionId: activeSection });
+    }
+  }
+  return spans;
+}
+
+// --- Chunking ---
+
+/**
+ * Splits each span into overlapping chunks for retrieval at request time.
+ * Chunks never cross a page or section boundary and end on a line break where possible.
+ */
+function chunkSpans(pages, spans) {
+  const chunks = [];
+  for (const span of spans) {
+    const text = pages[span.page - 1].text;
+    let start = span.start;
+    while (start < span.end) {
+      let end = Math.min(start + CHUNK_SIZE, span.end);
+      if (end < span.end) {
+        // Prefer to cut at the last newline in the final third of the window
+        const lastBreak = text.lastIndexOf('\n', end);
+        if (lastBreak > start + CHUNK_SIZE * 0.66) end = lastBreak;
+      }
+      if (text.slice(start, end).trim().length > 0) {
+        chunks.push({ id: `c${chunks.length}`, page: span.page, start, end, sectionId: span.sectionId });
+      }
+      if (end >= span.end) break;
+      start = Math.max(end - CHUNK_OVERLAP, start + 1);
+    }
+  }
+  return chunks;
+}
+
 async function run() {
   console.log(`Starting PDF text extraction from: ${pdfPath}`);
   try {
@@ -32,21 +251,50 @@ async function run() {
     const dataBuffer = await fs.readFile(pdfPath);
     console.log(`Read ${dataBuffer.byteLength} bytes from PDF.`);
 
-    // Parse the PDF
-    const data = await pdfParse(dataBuffer);
-    const content = data.text || ''; // Use extracted text or empty string
+    // Parse the PDF, collecting the text of each page
+    const rawPages = [];
+    const data = await pdfParse(dataBuffer, { pagerender: createPageCollector(rawPages) });
+    rawPages.sort((a, b) => a.index - b.index);
+
+    // Printed page numbers come from the running header; the header itself is dropped
+    const pages = rawPages.map(({ index, text }) => {
+      const headerMatch = text.match(PAGE_HEADER_REGEX);
+      return {
+        index,
+        number: headerMatch ? Number(headerMatch[1]) : null,
+        text: headerMatch ? text.slice(headerMatch[0].length) : text,
+      };
+    });
 
-    console.log(`Extracted text length: ${content.length}`);
-    if (content.length === 0) {
+    const totalLength = pages.reduce((sum, p) => sum + p.text.length, 0);
+    console.log(`Extracted ${pages.length} of ${data.numpages} pages. Text length: ${totalLength}`);
+    if (totalLength === 0) {
          console.warn(`Warning: Extracted text is empty. Check the PDF content.`);
     }
 
+    // Build the chapter -> section tree and tag every span of text with its section
+    const sections = parseTableOfContents(pages);
+    console.log(`Parsed ${sections.length} top-level entries and ${sections.reduce((n, s) => n + s.children.length, 0)} sections from CONTENTS.`);
+    const spans = mapSpansToSections(pages, sections);
+
+    // Chunk the text for the retrieval index used by /api/chat
+    const chunks = chunkSpans(pages, spans);
+    console.log(`Created ${chunks.length} chunks (size ${CHUNK_SIZE}, overlap ${CHUNK_OVERLAP}) over ${spans.length} spans.`);
+
     // Ensure the output directory exists
     await fs.mkdir(outputDir, { recursive: true });
     console.log(`Ensured output directory exists: ${outputDir}`);
 
     // Prepare the data to be saved as JSON
-    const jsonData = JSON.stringify({ content: content }, null, 2); // Pretty print JSON
+    const jsonData = JSON.stringify({
+      version: SCHEMA_VERSION,
+      source: path.basename(pdfPath),
+      pageCount: pages.length,
+      pages,
+      sections,
+      spans,
+      chunks,
+    }, null, 2); // Pretty print JSON
 
     // Write content to the JSON file
     await fs.writeFile(outputPath, jsonData);
@@ -60,4 +308,4 @@ async function run() {
 }
 
 // Execute the script
-run();
\ No newline at end of file
+run();
@@ -0,0 +1,75 @@
+// src/app/api/calc/route.ts
+import { NextResponse } from 'next/server';
+import { FORMULAS, getFormula, resolveFormulaInputs, evaluateFormula, formulaUnit } from '@/lib/formulas';
+import { UnitSystem, DEFAULT_UNIT_SYSTEM, isUnitSystem, convertValue } from '@/lib/units';
+import { parseWellProfile, getProfileDefaults } from '@/lib/wellProfile';
+
+// --- GET: List the available formulas and their inputs ---
+// Query: ?unitSystem=si lists input and output units in SI
+export async function GET(request: Request) {
+    const requested = new URL(request.url).searchParams.get('unitSystem');
+    const unitSystem: UnitSystem = isUnitSystem(requested) ? requested : DEFAULT_UNIT_SYSTEM;
+    const formulas = FORMULAS.map(formula => ({
+        id: formula.id,
+        title: formula.title,
+        description: formula.description,
+        inputs: formula.inputs.map(input => {
+            const unit = formulaUnit(formula, input.unit, unitSystem);
+            const convert = (value?: number) => (value === undefined ? undefined : convertValue(value, input.unit, unit));
+            return { ...input, unit, defaultValue: convert(input.defaultValue), min: convert(input.min), max: convert(input.max) };
+        }),
+        output: { ...formula.output, unit: formulaUnit(formula, formula.output.unit, unitSystem) },
+        reference: formula.reference,
+    }));
+    return NextResponse.json({ unitSystem, formulas });
+}
+
+// --- POST: Evaluate one formula ---
+// Body: { "formulaId": "hydrostatic-pressure", "inputs": { "mudWeight": 13.5, "tvd": 12000 }, "unitSystem": "oilfield" }
+// With "unitSystem": "si" the inputs are read, and the result reported, in SI units.
+// An optional "wellProfile" (oilfield units) supplies inputs that are left out.
+export async function POST(request: Request) {
+    console.log("Received POST request to /api/calc");
+    try {
+        let body: { formulaId?: unknown; inputs?: unknown; unitSystem?: unknown; wellProfile?: unknown };
+        try {
+            body = await request.json();
+        } catch {
+            return NextResponse.json({ error: 'Invalid request body', details: 'Request body must be JSON.' }, { status: 400 });
+        }
+
+        if (typeof body?.formulaId !== 'string') {
+            return NextResponse.json({ error: 'Invalid request body', details: "Missing 'formulaId' string." }, { status: 400 });
+        }
+        const formula = getFormula(body.formulaId);
+        if (!formula) {
+            return NextResponse.json({ error: 'Unknown formula', details: `No formula with id '${body.formulaId}'. Available: ${FORMULAS.map(f => f.id).join(', ')}.` }, { status: 404 });
+        }
+
+        if (body.unitSystem !== undefined && !isUnitSystem(body.unitSystem)) {
+            return NextResponse.json({ error: 'Invalid request body', details: "'unitSystem' must be 'oilfield' or 'si'." }, { status: 400 });
+        }
+        const unitSystem: UnitSystem = body.unitSystem ?? DEFAULT_UNIT_SYSTEM;
+
+        const wellProfile = parseWellProfile(body.wellProfile);
+        const { values, errors } = resolveFormulaInputs(formula, body.inputs, unitSystem, wellProfile ? getProfileDefaults(wellProfile, formula) : {});
+        if (errors.length > 0) {
+            console.warn(`Invalid inputs for ${formula.id}:`, errors);
+            return NextResponse.json({ error: 'Invalid inputs', details: errors.join(' '), errors }, { status: 400 });
+        }
+
+        try {
+            const result = evaluateFormula(formula, values, unitSystem);
+            console.log(`Calculated ${formula.id}: ${result.result.value} ${result.result.unit}`);
+            return NextResponse.json(result);
+        } catch (evaluationError) {
+            const details = evaluationError instanceof Error ? evaluationError.message : 'Calculation failed.';
+            return NextResponse.json({ error: 'Invalid inputs', details }, { status: 400 });
+        }
+
+    } catch (error: unknown) {
+        console.error('--- Fatal Error in /api/calc POST handler ---:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred';
+        return NextResponse.json({ error: 'Internal Server Error', details: errorMessage }, { status: 500 });
+    }
+}
@@ -3,14 +3,28 @@ import { NextResponse } from 'next/server';
 // REMOVED: No longer importing pdf-parse here for runtime execution
 // import pdfParse from 'pdf-parse';
 import pdfData from '@/generated/pdf-content.json'; // Import the pre-extracted data
+import { parseHandbookData, getHandbookLength, getSpanText, getSectionPath, formatSectionLabel, HandbookDocument, HandbookSource } from '@/lib/handbook';
+import { buildHandbookIndex, retrievePassages, HandbookIndex, RetrievedPassage } from '@/lib/retrieval';
+import { getCalculatorTools, executeToolCall, toolResultMessage, CalculationTrace, KILL_SHEET_TOOL_NAME, getKillSheetTool, executeKillSheetCall, getToolTitle } from '@/lib/calcTools';
+import type { KillSheetPrefill } from '@/lib/killSheet';
+import { UnitSystem, DEFAULT_UNIT_SYSTEM, isUnitSystem } from '@/lib/units';
+import { WellProfile, parseWellProfile, describeWellProfile } from '@/lib/wellProfile';
+import { verifyAnswerArithmetic } from '@/lib/verification';
+import { ChatStreamEvent, SSE_CONTENT_TYPE, encodeStreamEvent } from '@/lib/chatStream';
+import { ProviderMessage, CompletionResponse, getLlmConfig, createLlmProvider, resolveModel, isToolsUnsupportedError } from '@/lib/llmProviders';
+import { CompletionAttempt, completeWithFallback } from '@/lib/llmResilience';
+import { ConversationTurn, budgetConversation, getHistoryBudget } from '@/lib/contextBudget';
+import { DataBlockKind, getDepthKey } from '@/lib/dataSchema';
+import { DataRepairReport, findInvalidDataBlocks, buildRepairMessages, applyDataBlockRepairs } from '@/lib/dataRepair';
+import { ResponseEnvelope, ResponsePart, EnvelopeSource, RESPONSE_ENVELOPE_VERSION, getEnvelopeResponseFormat, parseStructuredAnswer, splitMarkedAnswer, finishDraftPart, getMarkdownText, createPartStreamReader } from '@/lib/responseEnvelope';
 
 // --- PDF Content Handling (Using Pre-extracted Data) ---
-// Caching might be less critical now, but can still prevent repeated string access
-let pdfContentCache: string | null = null;
+// Caching might be less critical now, but can still prevent repeated validation
+let pdfContentCache: HandbookDocument | null = null;
 let pdfCacheTimestamp: number | null = null;
 const PDF_CACHE_DURATION = 10 * 60 * 1000; // Cache for 10 minutes (optional)
 
-async function extractPdfContent(): Promise<string> {
+async function extractPdfContent(): Promise<HandbookDocument> {
     const now = Date.now();
     // Optional: Keep cache for performance if needed
     if (pdfContentCache && pdfCacheTimestamp && (now - pdfCacheTimestamp < PDF_CACHE_DURATION)) {
@@ -20,22 +34,16 @@ async function extractPdfContent(): Promise<string> {
 
     console.log("Loading pre-extracted PDF content from generated JSON...");
     try {
-        // Access the content directly from the imported JSON
-        // Make sure the structure matches what extract-pdf-text.mjs creates ({ "content": "..." })
-        const content = pdfData.content;
+        // Validate the imported JSON against the versioned schema (the legacy { content } shape is also accepted)
+        const handbook = parseHandbookData(pdfData as unknown);
 
-        if (typeof content !== 'string') {
-             console.error("Invalid or missing 'content' key in src/generated/pdf-content.json");
-             throw new Error("Pre-extracted PDF content is invalid or missing 'content' key.");
-        }
-
-        if (content.length === 0) {
+        if (getHandbookLength(handbook) === 0) {
              console.warn("Warning: Pre-extracted PDF content loaded from JSON is empty.");
         }
 
-        pdfContentCache = content;
+        pdfContentCache = handbook;
         pdfCacheTimestamp = now; // Update cache timestamp if using cache
-        console.log(`PDF content loaded from JSON. Length: ${pdfContentCache?.length ?? 0}`);
+        console.log(`PDF content loaded from JSON (schema v${handbook.version}). Pages: ${handbook.pages.length}, sections: ${handbook.sectionsById.size}, length: ${getHandbookLength(handbook)}`);
         return pdfContentCache;
 
     } catch (error) {
@@ -56,14 +64,159 @@ async function extractPdfContent(): Promise<string> {
     }
 }
 
+// --- Handbook Retrieval (TF-IDF over build-time chunks) ---
+let handbookIndexCache: HandbookIndex | null = null;
+const MAX_PASSAGES = 6;
+
+async function getHandbookIndex(): Promise<HandbookIndex> {
+    if (handbookIndexCache) return handbookIndexCache;
+
+    const handbook = await extractPdfContent();
+    console.log(`Building handbook retrieval index over ${handbook.chunks.length} chunks...`);
+    handbookIndexCache = buildHandbookIndex(handbook.chunks.map(chunk => ({ id: chunk.id, text: getSpanText(handbook, chunk) })));
+    return handbookIndexCache;
+}
+
+/**
+ * Attaches page and section metadata to retrieved passages, tagged S1, S2, ... for citation.
+ */
+function buildSources(handbook: HandbookDocument, passages: RetrievedPassage[]): HandbookSource[] {
+    const chunksById = new Map(handbook.chunks.map(chunk => [chunk.id, chunk]));
+    return passages.map((passage, i) => {
+        const chunk = chunksById.get(passage.id)!;
+        const path = getSectionPath(handbook, chunk.sectionId);
+        const chapter = path.length > 0 ? path[0] : undefined;
+        const section = path.length > 1 ? path[path.length - 1] : undefined;
+        return {
+            id: `S${i + 1}`,
+            chunkId: chunk.id,
+            page: handbook.pages[chunk.page - 1].number,
+            pdfPage: chunk.page,
+            sectionId: chunk.sectionId,
+            section: section ? formatSectionLabel(section, path[path.length - 2]) : null,
+            chapter: chapter ? formatSectionLabel(chapter) : null,
+            excerpt: passage.text,
+            score: passage.score,
+        };
+    });
+}
+
+/**
+ * Formats the tagged passages for the system prompt.
+ */
+function formatPassages(sources: HandbookSource[]): string {
+    if (sources.length === 0) {
+        return 'No handbook passages matched this question.';
+    }
+    return sources.map(source => {
+        const location = [source.chapter, source.section, source.page !== null ? `p. ${source.page}` : null].filter(Boolean).join(' | ');
+        return `[${source.id}] ${location}\n${source.excerpt}`;
+    }).join('\n\n');
+}
+
+/**
+ * Returns the sources the answer cites (e.g. "[S1]" or "[S1, S3]"), or every source
+ * if the model did not cite any, so the answer is always tagged with its context.
+ */
+function selectCitedSources(content: string, sources: HandbookSource[]): HandbookSource[] {
+    const citedIds = new Set<string>();
+    for (const match of content.matchAll(/\[(S\d+(?:\s*,\s*S\d+)*)\]/g)) {
+        match[1].split(',').forEach(id => citedIds.add(id.trim()));
+    }
+    const cited = sources.filter(source => citedIds.has(source.id));
+    return cited.length > 0 ? cited : sources;
+}
+
+/**
+ * Tells the model which unit system to answer in.
+ */
+function unitSystemInstructions(unitSystem: UnitSystem): string {
+    if (unitSystem === 'si') {
+        return `The user works in SI units. Give every quantity in SI: m (depths, lengths), mm (diameters), kPa (pressures), kg/m3 or SG (densities), kPa/m (gradients), m3 (volumes), m3/m (capacities), m3/stk (pump output), L/min (flow rates), m/min (velocities), °C, kW. The handbook passages are in oilfield units (psi, ppg, ft, bbl): convert their values before quoting them, and state the oilfield value in brackets where that helps the user check the book. The calculator tools already take and return SI units.`;
+    }
+    return `The user works in oilfield units, as the handbook does: ft, in, psi, ppg (or lb/ft3, SG), psi/ft, bbl, bbl/ft, bbl/stk, gpm, ft/min, °F, hp. If the user gives values in SI, convert them to oilfield units before using the handbook formulas.`;
+}
+
+/**
+ * Describes the user's active well so questions about it need not restate it.
+ */
+function wellContextInstructions(profile: WellProfile | null, unitSystem: UnitSystem): string {
+    if (!profile) {
+        return `No well profile is active. Ask for any well data a calculation needs.`;
+    }
+    return `The user's questions refer to this well unless they say otherwise:
+${describeWellProfile(profile, unitSystem)}
+Use these values when the user asks about "my well", "the hole" or "current mud weight" without restating them. Calculator parameters whose description lists a default "from the active well profile" may be omitted; the profile value is used. Say which profile values an answer relied on.`;
+}
+
+// --- Completion Calls ---
+const MAX_TOOL_ROUNDS = 4; // Calculator round trips allowed before the model must answer
+
+// Appended to the system prompt when the answer is requested as an envelope (structured output)
+const STRUCTURED_OUTPUT_INSTRUCTIONS = `**RESPONSE ENVELOPE (replaces the data marker rules above):**
+Reply with one JSON object and nothing else: {"parts": [...]}, the parts in reading order. Each part is one of:
+- {"type": "markdown", "text": "..."} for explanations, following all the formatting rules above (LaTeX for math, citations, Markdown lists).
+- {"type": "graph", "graph": {...}} with the GRAPH DATA JSON described above.
+- {"type": "table", "table": {...}} with the TABLE DATA JSON described above.
+Put each chart or table right after the text that explains it. Do NOT write <!--GRAPH_DATA--> or <!--TABLE_DATA--> markers; earlier answers in the conversation show them only because that is how their charts and tables are stored.`;
+
+// --- Streaming Response ---
+
+type ChatOutcome =
+    | { ok: true; payload: Record<string, unknown> }
+    | { ok: false; status: number; error: string; details: string; code?: number };
+
+/**
+ * Runs the chat as a server-sent event stream: the answer text as it arrives, then a `done`
+ * event with the full response body. Closing the connection (Stop) aborts the upstream request.
+ */
+function streamChatResponse(complete: (emit: (event: ChatStreamEvent) => void, signal: AbortSignal) => Promise<ChatOutcome>, requestSignal: AbortSignal): Response {
+    const encoder = new TextEncoder();
+    const upstream = new AbortController();
+    requestSignal.addEventListener('abort', () => upstream.abort());
+
+    const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (event: ChatStreamEvent) => {
+                if (!upstream.signal.aborted) controller.enqueue(encoder.encode(encodeStreamEvent(event)));
+            };
+            try {
+                const outcome = await complete(send, upstream.signal);
+                if (outcome.ok) {
+                    send({ type: 'done', response: outcome.payload });
+                } else {
+                    send({ type: 'error', error: outcome.error, details: outcome.details, status: outcome.status });
+                }
+            } catch (error) {
+                if (upstream.signal.aborted) {
+                    console.log("Chat stream stopped by the client.");
+                } else {
+                    console.error('--- Error while streaming /api/chat response ---:', error);
+                    send({ type: 'error', error: 'Internal Server Error', details: error instanceof Error ? error.message : 'An unknown server error occurred', status: 500 });
+                }
+            } finally {
+                // Also after Stop, so the response always ends; a stream the client cancelled is already closed
+                try {
+                    controller.close();
+                } catch { /* Cancelled by the client */ }
+            }
+        },
+        cancel() {
+            upstream.abort();
+        },
+    });
+
+    return new Response(body, { headers: { 'Content-Type': SSE_CONTENT_TYPE, 'Cache-Control': 'no-cache, no-transform', 'Connection': 'keep-alive' } });
+}
+
 
 // --- Enhanced Data Processing and Formatting ---
 
 /**
- * Sanitizes graph data: corrects keys (incl. scatter x/y mapping), ensures numeric types.
+ * Sanitizes graph data: corrects keys (incl. scatter x/y mapping and the depth key of depth
+ * charts), ensures numeric types.
  */
 function sanitizeGraphData(graphData: any): any {
-    // --- (This function remains exactly as it was) ---
     if (!graphData || typeof graphData !== 'object' || !graphData.type || !Array.isArray(graphData.data)) {
         console.warn("[sanitizeGraphData] Invalid graph data structure passed.");
         return graphData;
@@ -80,6 +233,8 @@ function sanitizeGraphData(graphData: any): any {
     const firstPoint = dataArray[0];
     let categoryKey = ''; // Primarily for non-scatter/pie charts
     let keyMappingNote = ""; // To track notes about key changes
+    let scatterKeyMap: Record<string, string> = {}; // Source keys renamed to 'x'/'y', for the units map
+    let depthKeySource = ''; // Depth charts: the key holding each point's depth, before sanitizing
 
     // --- Scatter Plot Specific Key Mapping ---
     if (graphType === 'scatter') {
@@ -147,6 +302,7 @@ function sanitizeGraphData(graphData: any): any {
                  }
                  return newDataPoint;
             });
+             scatterKeyMap = { [xAxisKeySource]: 'x', [yAxisKeySource]: 'y' };
              keyMappingNote = `Keys mapped: '${xAxisKeySource}' -> 'x', '${yAxisKeySource}' -> 'y'.${keyMappingNote}`;
              console.log(`[sanitizeGraphData] Scatter plot data keys mapped: ${keyMappingNote}`);
               // Update axis labels in options if they were generic 'X'/'Y' but we used hints
@@ -156,6 +312,13 @@ function sanitizeGraphData(graphData: any): any {
     } else {
          // --- Identify Category Key for other chart types ---
          if (graphType === 'pie') categoryKey = 'name';
+         else if (graphType === 'depth') {
+             // No category: the depth is numeric like the curves, so it is sanitized with them
+             const depthKeyHint = getDepthKey(graphData.options);
+             depthKeySource = firstPoint.hasOwnProperty(depthKeyHint) ? depthKeyHint : Object.keys(firstPoint).find(key => /depth|tvd|\bmd\b/i.test(key)) || '';
+             if (depthKeySource && depthKeySource !== depthKeyHint) console.log(`Using '${depthKeySource}' as the depth key of the depth chart`);
+             else if (!depthKeySource) console.warn(`Could not determine the depth key of the depth chart (expected '${depthKeyHint}')`);
+         }
          else if (firstPoint.hasOwnProperty('name')) categoryKey = 'name';
          else { // Fallback for line/bar/area/composed without 'name'
              categoryKey = Object.keys(firstPoint).find(key => typeof firstPoint[key] === 'string') || '';
@@ -234,14 +397,54 @@ function sanitizeGraphData(graphData: any): any {
           );
       }
 
-    return { ...graphData, data: finalSanitizedData };
+    // Series on the secondary axis are named by their data keys too
+    if (Array.isArray(graphData.options?.y2Axis?.series)) {
+        graphData.options.y2Axis = {
+            ...graphData.options.y2Axis,
+            series: graphData.options.y2Axis.series.map((key: unknown) => (typeof key === 'string' && key !== categoryKey ? key.replace(/[\s.\-]+/g, '_') : key)),
+        };
+    }
+
+    // Keep unit metadata keyed like the sanitized data
+    const units = graphData.units && typeof graphData.units === 'object' && !Array.isArray(graphData.units)
+        ? Object.fromEntries(Object.entries(graphData.units)
+            .filter(([, unit]) => typeof unit === 'string' && unit)
+            .map(([key, unit]) => [scatterKeyMap[key] || (key === categoryKey || key === 'value' ? key : key.replace(/[\s.\-]+/g, '_')), unit]))
+        : undefined;
+
+    const sanitized = { ...graphData, data: finalSanitizedData, ...(units ? { units } : {}) };
+    return graphType === 'depth' ? sanitizeDepthOptions(sanitized, depthKeySource) : sanitized;
+}
+
+/**
+ * Depth charts: points the depth key and window curves at the sanitized data keys, makes shoe
+ * depths numeric and orders the points by depth so each curve is drawn downhole.
+ */
+function sanitizeDepthOptions<T extends { data: unknown[]; options?: Record<string, unknown> }>(graphData: T, depthKeySource: string): T {
+    const toDataKey = (key: unknown) => (typeof key === 'string' ? key.replace(/[\s.\-]+/g, '_') : key);
+    const options: Record<string, unknown> = { ...(graphData.options || {}) };
+    if (depthKeySource) options.depthKey = toDataKey(depthKeySource);
+    const depthKey = getDepthKey(options);
+
+    if (Array.isArray(options.windows)) {
+        options.windows = options.windows.map((band: Record<string, unknown> | null) => (band && typeof band === 'object' ? { ...band, lower: toDataKey(band.lower), upper: toDataKey(band.upper) } : band));
+    }
+    if (Array.isArray(options.casingShoes)) {
+        options.casingShoes = options.casingShoes.map((shoe: Record<string, unknown> | null) => (shoe && typeof shoe.depth === 'string' && !isNaN(parseFloat(shoe.depth)) ? { ...shoe, depth: parseFloat(shoe.depth) } : shoe));
+    }
+
+    const data = [...(graphData.data as Record<string, unknown>[])].sort((a, b) => {
+        const depthA = a?.[depthKey];
+        const depthB = b?.[depthKey];
+        return typeof depthA === 'number' && typeof depthB === 'number' ? depthA - depthB : 0;
+    });
+    return { ...graphData, data, options };
 }
 
 /**
  * Sanitizes table data: ensures row length consistency.
  */
  function sanitizeTableData(tableData: any): any {
-    // --- (This function remains exactly as it was) ---
     if (!tableData || typeof tableData !== 'object' || !Array.isArray(tableData.headers) || !Array.isArray(tableData.rows)) {
         console.warn("[sanitizeTableData] Invalid table data structure passed.");
         return tableData;
@@ -249,11 +452,13 @@ function sanitizeGraphData(graphData: any): any {
 
     const headerCount = tableData.headers.length;
     let issuesFound = false;
+    const paddedCells: [number, number][] = []; // Shown highlighted, so filled-in blanks are not mistaken for answers
 
     const sanitizedRows = tableData.rows.map((row: any, index: number) => {
         if (!Array.isArray(row)) {
             console.warn(`[sanitizeTableData] Table row ${index} is not an array, replacing with nulls.`);
             issuesFound = true;
+            for (let i = 0; i < headerCount; i++) paddedCells.push([index, i]);
             return new Array(headerCount).fill(null);
         }
         if (row.length !== headerCount) {
@@ -263,6 +468,7 @@ function sanitizeGraphData(graphData: any): any {
             for (let i = 0; i < Math.min(row.length, headerCount); i++) {
                 correctedRow[i] = row[i];
             }
+            for (let i = row.length; i < headerCount; i++) paddedCells.push([index, i]);
             return correctedRow;
         }
         return row;
@@ -273,102 +479,73 @@ function sanitizeGraphData(graphData: any): any {
         tableData.options.note = "Table rows were corrected for consistency.";
     }
 
-    return { ...tableData, rows: sanitizedRows };
+    // Keep column units aligned with the headers
+    const units = Array.isArray(tableData.units)
+        ? tableData.headers.map((_: unknown, i: number) => (typeof tableData.units[i] === 'string' && tableData.units[i] ? tableData.units[i] : null))
+        : undefined;
+
+    return { ...tableData, rows: sanitizedRows, ...(units ? { units } : {}), ...(paddedCells.length > 0 ? { paddedCells } : {}) };
 }
 
+// The clean-up every block goes through, including corrections from a repair request
+const prepareDataBlock = (kind: DataBlockKind, data: unknown): unknown => (kind === 'graph' ? sanitizeGraphData(data) : sanitizeTableData(data));
+
 /**
- * Processes AI response content to find, format, and sanitize graph/table data.
- * Attempts to add missing markers if valid JSON is found.
+ * Fallback for answers that wrote chart/table JSON without markers: wraps each such block in
+ * its marker where it stands. Answers that use markers are returned unchanged; the blocks are
+ * cleaned up and validated when the answer is split into parts.
  */
-function processAndEnsureDataFormatting(content: string): string {
-    // --- (This function remains exactly as it was) ---
-    const graphMarkerRegex = /<!--GRAPH_DATA:([\s\S]*?)-->/;
-    const tableMarkerRegex = /<!--TABLE_DATA:([\s\S]*?)-->/;
-
-    let graphMatch = content.match(graphMarkerRegex);
-    let tableMatch = content.match(tableMarkerRegex);
-
-    // Case 1: Correct markers exist
-    if (graphMatch) {
-        console.log("Found existing GRAPH_DATA marker. Processing...");
+function wrapUnmarkedDataBlocks(content: string): string {
+    if (/<!--(GRAPH|TABLE)_DATA:/.test(content)) return content;
+
+    // Search for unmarked JSON
+    console.log("No data markers found. Searching for potential unmarked JSON...");
+    const potentialJsonRegex = /^\s*(\{[\s\S]*?(?:"type"|"data"|"options"|"title"|"headers"|"rows")[\s\S]*?\})\s*$|^\s*(\[[\s\S]*?(?:"name"|"value"|"x"|"y"|"label")[\s\S]*?\])\s*$/gm;
+    const matches: { data: Record<string, unknown>; originalString: string; type: 'graph' | 'table' }[] = [];
+    let potentialMatch;
+    potentialJsonRegex.lastIndex = 0;
+
+    while ((potentialMatch = potentialJsonRegex.exec(content)) !== null) {
+        const jsonString = (potentialMatch[1] || potentialMatch[2]).trim();
         try {
-            let graphDataStr = graphMatch[1].trim();
-            let graphData = JSON.parse(graphDataStr);
-            graphData = sanitizeGraphData(graphData); // Apply enhanced sanitization
-            return content.replace(graphMarkerRegex, `<!--GRAPH_DATA:${JSON.stringify(graphData, null, 2)}-->`);
-        } catch (error) {
-            console.warn("Failed to parse/sanitize existing graph data marker content:", error);
-            return content;
-        }
-    } else if (tableMatch) {
-        console.log("Found existing TABLE_DATA marker. Processing...");
-        try {
-            let tableDataStr = tableMatch[1].trim();
-            let tableData = JSON.parse(tableDataStr);
-            tableData = sanitizeTableData(tableData);
-            return content.replace(tableMarkerRegex, `<!--TABLE_DATA:${JSON.stringify(tableData, null, 2)}-->`);
-        } catch (error) {
-            console.warn("Failed to parse/sanitize existing table data marker content:", error);
-            return content;
-        }
-    } else {
-        // Case 2: No markers, search for unmarked JSON
-        console.log("No data markers found. Searching for potential unmarked JSON...");
-        const potentialJsonRegex = /^\s*(\{[\s\S]*?(?:"type"|"data"|"options"|"title"|"headers"|"rows")[\s\S]*?\})\s*$|^\s*(\[[\s\S]*?(?:"name"|"value"|"x"|"y"|"label")[\s\S]*?\])\s*$/gm;
-        let bestMatch: { data: any; originalString: string; type: 'graph' | 'table' } | null = null;
-        let potentialMatch;
-        potentialJsonRegex.lastIndex = 0;
-
-        while ((potentialMatch = potentialJsonRegex.exec(content)) !== null) {
-            const jsonString = (potentialMatch[1] || potentialMatch[2]).trim();
-            try {
-                const parsedData = JSON.parse(jsonString);
-                if (parsedData && typeof parsedData === 'object') {
-                    if (parsedData.type && parsedData.data && Array.isArray(parsedData.data)) {
-                        console.log("Found potential unmarked graph JSON.");
-                        bestMatch = { data: parsedData, originalString: jsonString, type: 'graph' };
-                        break;
-                    } else if (parsedData.headers && parsedData.rows && Array.isArray(parsedData.headers) && Array.isArray(parsedData.rows)) {
-                        console.log("Found potential unmarked table JSON.");
-                        bestMatch = { data: parsedData, originalString: jsonString, type: 'table' };
-                        break;
-                    }
-                }
-            } catch (e) { /* Ignore parsing errors for this segment */ }
-        }
-
-        // Case 3: Found valid unmarked data
-        if (bestMatch) {
-            console.log(`Processing and formatting unmarked ${bestMatch.type} data.`);
-            try {
-                const sanitizedData = bestMatch.type === 'graph'
-                    ? sanitizeGraphData(bestMatch.data) // Apply enhanced sanitization
-                    : sanitizeTableData(bestMatch.data);
-
-                const marker = bestMatch.type === 'graph' ? '<!--GRAPH_DATA:' : '<!--TABLE_DATA:';
-                const formattedBlock = `\n\n${marker}${JSON.stringify(sanitizedData, null, 2)}-->`;
-                const cleanedContent = content.replace(bestMatch.originalString, '').trim();
-                return cleanedContent + formattedBlock;
-            } catch (processingError) {
-                console.error(`Error processing/formatting the found unmarked ${bestMatch.type} data:`, processingError);
-                return content;
+            const parsedData: unknown = JSON.parse(jsonString);
+            if (!parsedData || typeof parsedData !== 'object' || Array.isArray(parsedData)) continue;
+            const data = parsedData as Record<string, unknown>;
+            if (data.type && Array.isArray(data.data)) {
+                console.log("Found potential unmarked graph JSON.");
+                matches.push({ data, originalString: jsonString, type: 'graph' });
+            } else if (Array.isArray(data.headers) && Array.isArray(data.rows)) {
+                console.log("Found potential unmarked table JSON.");
+                matches.push({ data, originalString: jsonString, type: 'table' });
             }
-        } else {
-            // Case 4: No markers, no suitable unmarked JSON
-            console.log("No suitable unmarked JSON found to format.");
-            return content;
-        }
+        } catch { /* Ignore parsing errors for this segment */ }
+    }
+
+    // No suitable unmarked JSON
+    if (matches.length === 0) {
+        console.log("No suitable unmarked JSON found to format.");
+        return content;
+    }
+
+    // Found valid unmarked data - wrap each block in its marker where it stands
+    let formattedContent = content;
+    for (const match of matches) {
+        console.log(`Wrapping unmarked ${match.type} data in its marker.`);
+        const marker = match.type === 'graph' ? '<!--GRAPH_DATA:' : '<!--TABLE_DATA:';
+        formattedContent = formattedContent.replace(match.originalString, `${marker}${JSON.stringify(match.data, null, 2)}-->`);
     }
+    return formattedContent.trim();
 }
 
 
 // --- API Route Handler ---
 export async function POST(request: Request) {
-    // --- (This POST handler function remains exactly the same as before) ---
-    // It will now call the *new* extractPdfContent which reads the JSON.
     console.log("Received POST request to /api/chat");
     try {
-        const { messages } = await request.json();
+        const { messages, unitSystem: requestedUnitSystem, wellProfile: requestedWellProfile, model: requestedModel, stream } = await request.json();
+        const unitSystem: UnitSystem = isUnitSystem(requestedUnitSystem) ? requestedUnitSystem : DEFAULT_UNIT_SYSTEM;
+        const wellProfile = parseWellProfile(requestedWellProfile);
+        if (wellProfile) console.log(`Using well profile "${wellProfile.name}"`);
 
         // Input Validation (Keep as is)
         if (!messages || !Array.isArray(messages) || messages.length === 0) {
@@ -381,23 +558,28 @@ export async function POST(request: Request) {
             return NextResponse.json({ error: 'Invalid message sequence', details: 'Last message must be from user' }, { status: 400 });
         }
 
-        // Get PDF Context (Uses the NEW JSON-reading function)
-        console.log("Ensuring PDF context is available...");
-        const pdfContent = await extractPdfContent(); // <-- Reads from imported JSON
-
-        const maxContextChars = 8000; // Limit context size
-        const contextSnippet = pdfContent.substring(0, maxContextChars);
-        if (pdfContent.length > maxContextChars) {
-            console.log(`PDF context truncated to ${maxContextChars} characters.`);
+        // Provider configuration (throws if the environment is incomplete) and the model to use
+        const llmConfig = getLlmConfig();
+        const modelToUse = resolveModel(llmConfig, requestedModel);
+        if (!modelToUse) {
+            console.error(`Requested model is not allowed: ${String(requestedModel)}`);
+            return NextResponse.json({ error: 'Invalid model', details: `Model '${String(requestedModel)}' is not available. Choose one of: ${llmConfig.models.join(', ')}.` }, { status: 400 });
         }
+        const provider = createLlmProvider(llmConfig);
+
+        // Get PDF Context: retrieve the passages most relevant to the conversation
+        console.log("Ensuring PDF context is available...");
+        const handbookIndex = await getHandbookIndex();
+        const passages = retrievePassages(handbookIndex, messages, MAX_PASSAGES);
+        console.log(`Retrieved ${passages.length} handbook passages: ${passages.map(p => `${p.id} (${p.score.toFixed(3)})`).join(', ')}`);
+        const sources = buildSources(await extractPdfContent(), passages);
+        const contextSnippet = formatPassages(sources);
 
-        // --- System Prompt (Keep as is) ---
-        // Ensure your full system prompt is pasted within the backticks
-           // --- System Prompt (Keep your existing detailed prompt) ---
+        // --- System Prompt ---
            const systemMessage = {
             role: "system",
             // --- PASTE YOUR FULL SYSTEM PROMPT HERE ---
-             content: `You are an expert assistant specializing in oil engineering formulas, calculations, data visualization (graphs), and data presentation (tables), using knowledge from the provided PDF context. If the answer isn't in the context, clearly state that. Be concise and accurate.
+             content: `You are an expert assistant specializing in oil engineering formulas, calculations, data visualization (graphs), and data presentation (tables), using knowledge from the provided PDF context. The context consists of the handbook passages most relevant to the conversation, not the whole book. If the answer isn't in the context, clearly state that. Be concise and accurate.
 
             **CRITICAL FORMATTING RULES:**
 
@@ -406,25 +588,46 @@ export async function POST(request: Request) {
             3.  **NO HTML:** Do NOT use HTML tags (<br>, <p>, <strong> etc.). Use standard Markdown newlines.
             4.  **Plain Text Explanations:** Use standard English. Use Markdown lists (* or -) ONLY for non-formula points.
             5.  **Variable Consistency:** Use $ $ for variables in text, e.g., "where $MW$ is mud weight."
+            6.  **Cite the Handbook:** Each passage in the PDF context is tagged like [S1]. After any formula, number or statement taken from a passage, cite its tag in square brackets, e.g. "Kill weight mud is $SIDPP \\div 0.052 \\div TVD + OMW$ [S2]." Only cite tags that appear in the context.
+
+            **CALCULATOR TOOLS:**
+
+            You can call server-side calculators (tools named \`calc_*\`) that implement the handbook formulas exactly.
+            1.  Whenever the user gives numbers for a formula a calculator covers, CALL THE TOOL instead of doing the arithmetic yourself. Call several tools if the answer needs several steps.
+            2.  Pass numbers only, in the units stated in each parameter description. Omit optional parameters you have no value for.
+            3.  Use the returned \`result\` value and unit verbatim; never recompute or round it differently. Show the returned \`working_latex\` block as the worked solution.
+            4.  If a tool returns an \`error\`, fix the arguments and call it again, or explain which input is missing.
+            5.  When the user reports a kick or asks how to kill a well, call \`${KILL_SHEET_TOOL_NAME}\` with the kick data they gave (SIDPP, SICP, pit gain, depths, mud weight, kill rate pressure, pump output, string and annulus capacities). It opens a pre-filled kill sheet in the app; then explain the next steps and what is still missing.
+
+            **UNIT SYSTEM:**
+
+            ${unitSystemInstructions(unitSystem)}
+            Tag the numeric series of every graph and the numeric columns of every table with their units (the \`units\` fields below) so the app can convert them if the user switches unit system.
+
+            **WELL CONTEXT:**
+
+            ${wellContextInstructions(wellProfile, unitSystem)}
 
             **DATA VISUALIZATION & PRESENTATION:**
 
             If asked for a graph, chart, plot, or table:
             1.  Determine the appropriate output type based on the request (supported graph or table).
-            2.  **Supported Graph Types:** "line", "bar", "pie", "scatter", "area", "composed".
+            2.  **Supported Graph Types:** "line", "bar", "pie", "scatter", "area", "composed", "depth". Use "depth" for anything plotted against depth (pressure, gradient, mud weight/ECD or temperature vs depth).
             3.  Unsupported Graph Types: If asked for a graph type not listed above (e.g., radar, treemap, funnel), state clearly that you cannot generate that specific visual type. Offer to present the data as a table or a different supported chart type if appropriate, otherwise just provide the textual information.
             4.  Generate reasonable sample data if specific data isn't provided or calculable from the context.
             5.  Format the data STRICTLY according to the JSON structure specified below for the chosen type (graph or table).
             6.  Include a brief text explanation BEFORE the data block.
-            7.  Place the *entire* data block *after* your text explanation. **Crucially, use the EXACT markers** \`<!--GRAPH_DATA: ... -->\` for graphs/charts OR \`<!--TABLE_DATA: ... -->\` for tables. **NO OTHER MARKERS (like \`<!--PIE_DATA: ... -->\`) WILL WORK.** Use ONLY ONE data block per response.
+            7.  Place each *entire* data block *after* the text that explains it. **Crucially, use the EXACT markers** \`<!--GRAPH_DATA: ... -->\` for graphs/charts OR \`<!--TABLE_DATA: ... -->\` for tables. **NO OTHER MARKERS (like \`<!--PIE_DATA: ... -->\`) WILL WORK.**
+            8.  **Several Blocks:** A response may contain several data blocks, e.g. "the kill schedule as a table and a chart" is a TABLE_DATA block and a GRAPH_DATA block. Give each block its own marker, on its own lines, at the point in the answer where it belongs; never put two objects in one marker and never nest markers.
 
             **GRAPH DATA JSON FORMAT (MUST use \`<!--GRAPH_DATA: ... -->\` marker):**
 
             <!--GRAPH_DATA:
             {
-              "type": "string", // MUST be one of: "line", "bar", "pie", "scatter", "area", "composed"
+              "type": "string", // MUST be one of: "line", "bar", "pie", "scatter", "area", "composed", "depth"
               "data": [ /* Array of data objects, format depends on type. See below */ ],
-              "options": { /* Optional customization, e.g., labels, axis names */ },
+              "options": { /* Optional customization, e.g., labels, axis titles and scales, reference lines. See below */ },
+              "units": { "dataKey": "unit" }, // Optional: unit of each numeric data key, e.g. { "Pressure": "psi", "Depth": "ft" }
               "title": "Optional Chart Title" // String
             }
             -->
@@ -460,6 +663,50 @@ export async function POST(request: Request) {
 
             *   **Composed Chart Options:** Requires \`"chartConfig": [ { "type": "line|bar|area", "dataKey": "keyName" }, ... ]\` within \`options\`. Ensure \`dataKey\`s in chartConfig exist in the main \`data\` array objects and that their corresponding values **are JSON numbers**.
 
+            *   **Depth Chart (pressure vs depth):** Depth is drawn on a vertical axis increasing downward, with one curve per other numeric key. Every point has a numeric \`"depth"\` (no "Depth 1000" labels) and the curve values at that depth; use \`null\` where a curve has no value. Optional \`options\`: \`"windows"\` shades the band between two curves (e.g. the drilling window from pore pressure to fracture gradient), \`"casingShoes"\` marks casing shoe depths, \`"depthKey"\` names the depth key if it is not "depth". Give the unit of the depth and of every curve in \`units\`; all curves should share one unit (e.g. all in ppg EMW or all in psi).
+                \`\`\`json
+                {
+                  "type": "depth",
+                  "data": [
+                    {"depth": 0, "Pore_Pressure": 8.6, "Mud_Weight": 9.2, "Fracture_Gradient": 11.8},
+                    {"depth": 5000, "Pore_Pressure": 9.1, "Mud_Weight": 9.8, "Fracture_Gradient": 13.2},
+                    {"depth": 10000, "Pore_Pressure": 11.4, "Mud_Weight": 12.0, "Fracture_Gradient": 14.6}
+                  ],
+                  "options": {
+                    "windows": [{"lower": "Pore_Pressure", "upper": "Fracture_Gradient", "label": "Drilling window"}],
+                    "casingShoes": [{"depth": 4500, "label": "13 3/8 in shoe"}, {"depth": 9000, "label": "9 5/8 in shoe"}]
+                  },
+                  "units": {"depth": "ft", "Pore_Pressure": "ppg", "Mud_Weight": "ppg", "Fracture_Gradient": "ppg"},
+                  "title": "Pore Pressure and Fracture Gradient vs Depth"
+                }
+                \`\`\`
+
+            *   **Axes, Scales and Reference Marks (all graph types except pie):** Set these in \`options\`; every value is in the units of its axis.
+                *   \`"xAxis"\`, \`"yAxis"\`: \`{"name": "Pressure", "unit": "psi", "scale": "linear" | "log"}\`. Always give axis names. The unit is shown after the name and defaults to the unit the axis's keys share in \`units\`, so do not repeat it in the name. On a depth chart, \`xAxis\` is the curve axis along the top and \`yAxis\` the depth axis.
+                *   \`"y2Axis"\`: a secondary Y axis on the right for line, bar, area and composed charts, e.g. \`{"name": "Temperature", "series": ["Temperature"]}\`. The listed series are plotted against it; use it when series have different units or very different magnitudes.
+                *   Use \`"scale": "log"\` for quantities spanning decades (rheology: shear stress vs shear rate; d-exponent, resistivity). A log axis cannot show zero or negative values; such points are left out. The category axis of line, bar, area and composed charts cannot be logarithmic.
+                *   \`"referenceLines"\`: \`[{"axis": "y", "value": 1850, "label": "MAASP"}, {"axis": "x", "value": "Day 3", "label": "Bit trip"}]\`. \`"axis": "y"\` draws a horizontal line at a Y value (\`"y2"\` on the secondary axis), \`"axis": "x"\` a vertical line at an X value or category label. On a depth chart \`"axis": "y"\` marks a depth and \`"axis": "x"\` a curve value (e.g. the kick tolerance limit).
+                *   \`"annotations"\`: \`[{"x": 4500, "y": 2100, "label": "LOT"}]\` marks and labels a point at those axis coordinates (\`"axis": "y2"\` when \`y\` is on the secondary axis; \`x\` may be a category label).
+                \`\`\`json
+                {
+                  "type": "line",
+                  "data": [
+                    {"name": "0", "Casing_Pressure": 650, "Pit_Gain": 0},
+                    {"name": "20", "Casing_Pressure": 980, "Pit_Gain": 12},
+                    {"name": "40", "Casing_Pressure": 1420, "Pit_Gain": 20}
+                  ],
+                  "options": {
+                    "xAxis": {"name": "Time", "unit": "min"},
+                    "yAxis": {"name": "Casing Pressure"},
+                    "y2Axis": {"name": "Pit Gain", "series": ["Pit_Gain"]},
+                    "referenceLines": [{"axis": "y", "value": 1850, "label": "MAASP"}],
+                    "annotations": [{"x": "40", "y": 1420, "label": "Gas at surface"}]
+                  },
+                  "units": {"Casing_Pressure": "psi", "Pit_Gain": "bbl"},
+                  "title": "Casing Pressure and Pit Gain During the Kill"
+                }
+                \`\`\`
+
             **LINE GRAPH SPECIFIC INSTRUCTIONS:**
             For line graphs, ensure that:
             1. Each data point has a 'name' property (string) for X-axis labels.
@@ -469,7 +716,7 @@ export async function POST(request: Request) {
                INCORRECT: {"name": "Point 1", "series 1": 100, "series.2": 200}
             4. ALL numeric values MUST be actual numbers (not strings).
             5. Set appropriate options for readability:
-                * Include "xAxis" and "yAxis" labels in options
+                * Include "xAxis" and "yAxis" names in options
                 * Consider adding a legend if multiple lines are present
 
             Line graph example with multiple series:
@@ -477,16 +724,16 @@ export async function POST(request: Request) {
             {
               "type": "line",
               "data": [
-                {"name": "Depth 1000", "Pressure": 350.5, "Temperature": 45.2},
-                {"name": "Depth 2000", "Pressure": 712.3, "Temperature": 65.8},
-                {"name": "Depth 3000", "Pressure": 1045.7, "Temperature": 85.1}
+                {"name": "Day 1", "ROP": 85.5, "WOB": 25.2},
+                {"name": "Day 2", "ROP": 62.3, "WOB": 30.8},
+                {"name": "Day 3", "ROP": 48.7, "WOB": 35.1}
               ],
               "options": {
-                "xAxis": {"name": "Measurement Depth (ft)"},
+                "xAxis": {"name": "Day"},
                 "yAxis": {"name": "Values"},
                 "legend": true
               },
-              "title": "Pressure and Temperature vs Depth"
+              "title": "ROP and WOB by Day"
             }
             \`\`\`
 
@@ -499,6 +746,7 @@ export async function POST(request: Request) {
                 ["Row1Val1", 123, ...], // Cell values can be strings or numbers
                 ["Row2Val1", 45.6, ...]
               ],
+              "units": ["unit1", null, ...], // Optional: unit of each column, parallel to headers (null for text columns), e.g. ["ft", "psi"]
               "title": "Optional Table Title" // String
             }
             -->
@@ -511,112 +759,209 @@ export async function POST(request: Request) {
             // --- END OF SYSTEM PROMPT ---
         };
 
-        const messagesWithContext = [systemMessage, ...messages];
-
-        // Environment Variable Check (Keep as is)
-        if (!process.env.OPENROUTER_API_KEY) {
-            console.error("CRITICAL: OPENROUTER_API_KEY environment variable is not set.");
-            throw new Error("Server configuration error: API Key is missing.");
+        // --- Context Budget: compact older turns so the history fits beside the prompt, tools and answer ---
+        // Only role, content and chart/table data are forwarded; other client-side fields (sources, traces) are not for the provider
+        const tools = [...getCalculatorTools(unitSystem, wellProfile), getKillSheetTool(unitSystem)];
+        const structuredFormat = getEnvelopeResponseFormat(llmConfig.structuredOutput);
+        const historyBudget = getHistoryBudget(llmConfig.contextTokens, llmConfig.maxTokens, [systemMessage.content, JSON.stringify(tools), ...(structuredFormat ? [STRUCTURED_OUTPUT_INSTRUCTIONS] : [])]);
+        const turns: ConversationTurn[] = messages.map((m: ConversationTurn) => ({ role: m.role, content: typeof m.content === 'string' ? m.content : '', parts: m.parts, graphData: m.graphData, tableData: m.tableData }));
+        const { messages: history, summary, report: contextReport } = budgetConversation(turns, historyBudget);
+        if (contextReport.compacted.length > 0) {
+            console.log(`Compacted ${contextReport.compacted.length} of ${turns.length} messages to fit ${historyBudget} tokens: ${contextReport.compacted.map(c => `${c.index}:${c.action}`).join(', ')}`);
         }
-
-        // API Call Configuration (Keep as is)
-        const openRouterUrl = 'https://openrouter.ai/api/v1/chat/completions';
-        const apiKey = process.env.OPENROUTER_API_KEY;
-        const siteUrlEnv = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000';
-        const siteName = process.env.NEXT_PUBLIC_SITE_NAME || 'Drilling Assistant';
-        const modelToUse = 'nvidia/llama-3.1-nemotron-70b-instruct:free';
-        const maxTokensToRequest = 4096;
-
-        console.log(`Sending request to OpenRouter model: ${modelToUse} (Max Tokens: ${maxTokensToRequest})`);
-
-        // Perform API Call (Keep as is)
-        const response = await fetch(openRouterUrl, {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${apiKey}`,
-                'HTTP-Referer': siteUrlEnv,
-                'X-Title': siteName,
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-                model: modelToUse,
-                messages: messagesWithContext,
-                max_tokens: maxTokensToRequest,
-            }),
-        });
-        console.log(`OpenRouter response status: ${response.status}`);
-
-        // Robust Response Handling (Keep as is)
-        let responseData;
-        const contentType = response.headers.get("content-type");
-
-        if (!contentType || !contentType.includes("application/json")) {
-             const responseText = await response.text().catch(() => '[Could not read response text]');
-             console.error(`OpenRouter API returned non-JSON response. Status: ${response.status}. Content-Type: ${contentType}. Body: ${responseText}`);
-             return NextResponse.json({ error: 'API Error', details: `Upstream API returned unexpected content type '${contentType}'. Status: ${response.status}.` }, { status: 502 });
+        if (contextReport.historyTokens > historyBudget) {
+            console.warn(`The latest message alone (~${contextReport.historyTokens} tokens) exceeds the history budget of ${historyBudget} tokens.`);
         }
-
-        try {
-            responseData = await response.json();
-        } catch (e) {
-            console.error("Failed to parse OpenRouter response JSON:", e);
-            const responseText = await response.text().catch(() => '[Could not read response text]');
-            console.error("Raw response text (if available):", responseText);
-            return NextResponse.json({ error: 'API Error', details: `Upstream API returned invalid JSON. Status: ${response.status}.` }, { status: 502 });
+        if (summary) {
+            systemMessage.content += `\n\n--- Earlier Conversation (summarised to fit the context) ---\n${summary}\n--- End of Earlier Conversation ---`;
         }
+        const structuredSystemMessage = { ...systemMessage, content: `${systemMessage.content}\n\n${STRUCTURED_OUTPUT_INSTRUCTIONS}` };
+
+        // --- Tool Loop: let the model call the handbook calculators until it writes its answer ---
+        // With `emit` the answer is streamed to the client as it arrives, along with tool activity
+        const completeChat = async (emit?: (event: ChatStreamEvent) => void, signal?: AbortSignal): Promise<ChatOutcome> => {
+            // The answer is requested as an envelope where the provider supports it, otherwise as text with markers
+            let structured = structuredFormat !== undefined;
+            const conversation: ProviderMessage[] = [structured ? structuredSystemMessage : systemMessage, ...history];
+            const calculations: CalculationTrace[] = [];
+            let killSheet: KillSheetPrefill | undefined;
+            let toolsEnabled = true;
+            let toolRounds = 0;
+            let responseData: CompletionResponse | undefined;
+            // The chosen model, then the configured fallbacks; later rounds start from the model that last answered
+            let modelChain = [modelToUse, ...llmConfig.fallbackModels.filter(model => model !== modelToUse)];
+            let answeredModel = modelToUse;
+            const attempts: CompletionAttempt[] = [];
+
+            // Streamed text is turned into a preview of the parts; a reset starts a new preview
+            const startPreview = () => emit
+                ? createPartStreamReader(structured ? 'structured' : 'markers', {
+                    onText: content => emit({ type: 'delta', content }),
+                    onPart: draft => emit({ type: 'part', part: finishDraftPart(draft, prepareDataBlock) }),
+                    onPending: () => emit({ type: 'pending' }),
+                })
+                : undefined;
+            let preview = startPreview();
+            const resetPreview = () => {
+                emit?.({ type: 'reset' });
+                preview = startPreview();
+            };
+
+            while (!responseData) {
+                console.log(`Sending request to ${provider.id} model: ${modelChain[0]} (Max Tokens: ${llmConfig.maxTokens}, tool round ${toolRounds}${toolsEnabled ? '' : ', tools disabled'}${structured ? ', structured output' : ''})`);
+                const outcome = await completeWithFallback(provider, llmConfig, modelChain, {
+                    messages: conversation,
+                    // Once the round limit is reached the tools stay declared (the history references them) but can no longer be called
+                    ...(toolsEnabled ? { tools, tool_choice: toolRounds < MAX_TOOL_ROUNDS ? 'auto' : 'none' } : {}),
+                    ...(structured ? { response_format: structuredFormat } : {}),
+                }, {
+                    signal,
+                    onDelta: emit ? content => preview?.(content) : undefined,
+                    onRetry: notice => {
+                        if (notice.streamed) resetPreview();
+                        emit?.({ type: 'retry', model: notice.nextModel, reason: notice.reason, delayMs: notice.delayMs });
+                    },
+                });
+                attempts.push(...outcome.attempts);
+
+                if (!outcome.ok) {
+                    // Not every model or server supports structured output; fall back to data markers in the text
+                    if (structured && /response_format|json_schema|json mode|structured output/i.test(outcome.details)) {
+                        console.warn(`Model ${outcome.model} rejected structured output (${outcome.details}). Retrying with data markers.`);
+                        structured = false;
+                        conversation[0] = systemMessage;
+                        resetPreview();
+                        continue;
+                    }
+                    // Some free models have no tool support; answer without the calculators rather than fail
+                    if (toolsEnabled && toolRounds === 0 && isToolsUnsupportedError(outcome)) {
+                        console.warn(`Model ${outcome.model} rejected tool calling (${outcome.details}). Retrying without calculator tools.`);
+                        toolsEnabled = false;
+                        continue;
+                    }
+                    return outcome;
+                }
+                answeredModel = outcome.model;
+                modelChain = modelChain.slice(modelChain.indexOf(outcome.model));
+
+                const message = outcome.responseData.choices?.[0]?.message;
+                const toolCalls = message?.tool_calls;
+                if (toolsEnabled && toolRounds < MAX_TOOL_ROUNDS && toolCalls && toolCalls.length > 0) {
+                    toolRounds++;
+                    conversation.push({ role: 'assistant', content: message?.content ?? '', tool_calls: toolCalls });
+                    if (message?.content) resetPreview();
+                    for (const call of toolCalls) {
+                        emit?.({ type: 'tool', name: call.function?.name ?? '', title: getToolTitle(call.function?.name ?? '') });
+                        if (call.function?.name === KILL_SHEET_TOOL_NAME) {
+                            const killSheetCall = executeKillSheetCall(call, unitSystem, wellProfile);
+                            killSheet = { ...killSheet, ...killSheetCall.prefill };
+                            console.log(`Tool ${KILL_SHEET_TOOL_NAME} opened a kill sheet with: ${Object.keys(killSheetCall.prefill).join(', ') || 'no values'}`);
+                            conversation.push(killSheetCall.message);
+                            continue;
+                        }
+                        const trace = executeToolCall(call, unitSystem, wellProfile);
+                        console.log(trace.error
+                            ? `Tool ${trace.tool} failed: ${trace.error}`
+                            : `Tool ${trace.tool} -> ${trace.result?.result.value} ${trace.result?.result.unit}`);
+                        calculations.push(trace);
+                        conversation.push(toolResultMessage(trace));
+                    }
+                    continue;
+                }
+                // Still calling calculators after the last round: ask once more with the tools withdrawn
+                if (toolsEnabled && !message?.content && toolCalls && toolCalls.length > 0) {
+                    console.warn(`Model ${outcome.model} still called tools after ${MAX_TOOL_ROUNDS} rounds. Asking for the answer without calculator tools.`);
+                    toolsEnabled = false;
+                    continue;
+                }
+                responseData = outcome.responseData;
+            }
 
-        // Handle OpenRouter's structured errors (Keep as is)
-        if (responseData && responseData.error) {
-            console.error('OpenRouter returned an error in the response body:', responseData.error);
-            let statusCode = 502;
-             const errorCode = responseData.error.code;
-             const errorType = responseData.error.type;
-             if (errorCode === 400 || errorType === 'invalid_request_error') statusCode = 400;
-             else if (errorCode === 401 || errorType === 'authentication_error') statusCode = 401;
-             else if (errorCode === 402 || errorType === 'billing_error') statusCode = 402;
-             else if (errorCode === 429 || errorType === 'rate_limit_error') statusCode = 429;
-             else if (errorCode >= 500 || errorType === 'api_error') statusCode = 502;
-            const detailMessage = responseData.error.message || 'Unknown error from API provider.';
-            return NextResponse.json({ error: 'API Request Failed', details: detailMessage, code: errorCode }, { status: statusCode });
-        }
+            // Validate response structure; an answer that never came after calculator calls gives their results instead
+            const finalMessage = responseData.choices?.[0]?.message;
+            const answerText = finalMessage?.content
+                || (calculations.length > 0 ? `No written answer was returned after ${toolRounds} rounds of calculator calls. The calculator results are below.` : '');
+            if (!answerText) {
+                console.error(`Received successful status, but unexpected response structure from ${provider.id}:`, responseData);
+                return { ok: false, status: 500, error: 'API Response Error', details: 'Received an unexpected response format from the AI provider.' };
+            }
 
-        // Handle general non-OK HTTP responses (Keep as is)
-        if (!response.ok) {
-             console.error(`OpenRouter API HTTP error: ${response.status} ${response.statusText}. Body: ${JSON.stringify(responseData)}`);
-             const status = response.status >= 500 ? 502 : response.status;
-             return NextResponse.json({ error: 'API Communication Error', details: `Upstream API request failed with status ${response.status}. ${responseData?.error?.message || response.statusText}` }, { status });
-        }
+            // --- Split the answer into parts: the envelope the model wrote, or its text at the data markers ---
+            let drafts = structured && finalMessage?.content ? parseStructuredAnswer(finalMessage.content) : null;
+            const envelopeSource: EnvelopeSource = drafts ? 'structured' : 'markers';
+            if (!drafts) {
+                if (structured && finalMessage?.content) console.warn("The answer is not a valid envelope despite structured output; reading it as text with data markers.");
+                drafts = splitMarkedAnswer(wrapUnmarkedDataBlocks(answerText));
+            }
+            let parts = drafts.map(draft => finishDraftPart(draft, prepareDataBlock)); // Cleans up and validates each chart and table
+            console.log(`Answer read from ${envelopeSource === 'structured' ? 'the structured envelope' : 'data markers'}: ${parts.map(part => part.type).join(', ') || 'no parts'}.`);
+
+            // --- Repair data blocks that still fail the schema: one request, with the validator's errors ---
+            let dataRepair: DataRepairReport | undefined;
+            const invalidBlocks = findInvalidDataBlocks(parts);
+            if (invalidBlocks.length > 0) {
+                console.warn(`${invalidBlocks.length} data block(s) failed validation; requesting a repair:`, invalidBlocks.map(b => `${b.kind} #${b.index}: ${b.errors.join('; ')}`));
+                emit?.({ type: 'repair', blocks: invalidBlocks.length });
+                const repairOutcome = await completeWithFallback(provider, llmConfig, modelChain, { messages: buildRepairMessages(invalidBlocks) }, { signal });
+                const reply = repairOutcome.ok ? repairOutcome.responseData.choices?.[0]?.message?.content : null;
+                if (reply) {
+                    const repaired = applyDataBlockRepairs(parts, invalidBlocks, reply, prepareDataBlock);
+                    parts = repaired.parts;
+                    dataRepair = { model: repairOutcome.model, blocks: repaired.repairs };
+                } else {
+                    const error = repairOutcome.ok ? 'The repair reply was empty.' : repairOutcome.details;
+                    dataRepair = { model: repairOutcome.model, error, blocks: invalidBlocks.map(b => ({ index: b.index, kind: b.kind, errors: b.errors, repaired: false })) };
+                }
+                const repairedCount = dataRepair.blocks.filter(b => b.repaired).length;
+                console.log(`Data block repair: ${repairedCount} of ${invalidBlocks.length} corrected${dataRepair.error ? ` (request failed: ${dataRepair.error})` : ''}.`);
+            }
 
-        // Validate response structure (Keep as is)
-        if (!responseData?.choices?.[0]?.message?.content) {
-            console.error("Received successful status, but unexpected response structure from OpenRouter:", responseData);
-            return NextResponse.json({ error: 'API Response Error', details: 'Received an unexpected response format from the AI provider.' }, { status: 500 });
-        }
+            // --- Verify the arithmetic in the answer's LaTeX ---
+            const markdown = getMarkdownText(parts);
+            const warnings = verifyAnswerArithmetic(markdown);
+            if (warnings.length > 0) {
+                console.warn(`Arithmetic check flagged ${warnings.length} result(s):`, warnings.map(w => `${w.expression} = ${w.stated} (${w.message})`));
+            }
 
-        // --- Apply Enhanced Formatting and Sanitization --- (Keep as is)
-        console.log("--- Applying Enhanced Formatting/Sanitization ---");
-        let originalContent = responseData.choices[0].message.content;
-        let processedContent = processAndEnsureDataFormatting(originalContent);
-        responseData.choices[0].message.content = processedContent;
-        console.log("--- Finished Formatting/Sanitization ---");
-
-        // --- Success --- (Keep as is)
-        console.log("Successfully received and processed valid response from OpenRouter.");
-        if (process.env.NODE_ENV === 'development') {
-             if (originalContent !== processedContent) {
-                 console.log("--- Content Modified by Formatting ---");
-                 console.log("Processed:\n", processedContent);
-                 console.log("--- End Content Modification ---");
-             } else {
-                  console.log("Content unchanged by formatting.")
-             }
-        }
+            // --- Success ---
+            console.log(`Successfully received and processed valid response from ${provider.id}.`);
+
+            const citedSources = selectCitedSources(markdown, sources);
+            console.log(`Attaching ${citedSources.length} handbook sources: ${citedSources.map(s => s.id).join(', ')}`);
 
-        return NextResponse.json(responseData);
+            if (calculations.length > 0) {
+                console.log(`Attaching ${calculations.length} calculation traces from ${toolRounds} tool round(s).`);
+            }
+
+            if (answeredModel !== modelToUse) {
+                console.warn(`Answered by fallback model ${answeredModel} instead of ${modelToUse} (${attempts.length} attempts).`);
+            }
+            const answeredBy = { provider: provider.id, model: answeredModel, requestedModel: modelToUse, attempts: attempts.length };
+
+            const envelope: ResponseEnvelope = {
+                version: RESPONSE_ENVELOPE_VERSION,
+                source: envelopeSource,
+                parts: [
+                    ...parts,
+                    ...calculations.map((calculation): ResponsePart => ({ type: 'calculation', calculation })),
+                    ...(citedSources.length > 0 ? [{ type: 'sources', sources: citedSources } as ResponsePart] : []),
+                ],
+            };
+            return { ok: true, payload: { ...responseData, envelope, warnings, answeredBy, context: contextReport, ...(dataRepair ? { dataRepair } : {}), ...(killSheet ? { killSheet } : {}) } };
+        };
+
+        if (stream === true) {
+            return streamChatResponse(completeChat, request.signal);
+        }
+        const outcome = await completeChat();
+        if (!outcome.ok) {
+            return NextResponse.json({ error: outcome.error, details: outcome.details, ...(outcome.code !== undefined ? { code: outcome.code } : {}) }, { status: outcome.status });
+        }
+        return NextResponse.json(outcome.payload);
 
     } catch (error: unknown) {
-        // --- Fatal Error Catch Block (Keep as is) ---
-        // Should now only catch errors from JSON loading, API key, or OpenRouter call
+        // --- Fatal Error Catch Block ---
+        // Should now only catch errors from JSON loading, provider configuration, or the provider call
         console.error('--- Fatal Error in /api/chat POST handler ---:', error);
         let errorMessage = 'An unknown server error occurred';
         let status = 500;
@@ -625,8 +970,8 @@ export async function POST(request: Request) {
             errorMessage = error.message;
              if (errorMessage.startsWith('Failed to load required PDF context')) {
                  console.error("Pre-extracted PDF Loading Error (caught by handler):", errorMessage);
-             } else if (errorMessage.includes("API Key is missing")) {
-                  console.error("API Key Configuration Error (caught by handler):", errorMessage);
+             } else if (errorMessage.startsWith("Server configuration error")) {
+                  console.error("LLM Provider Configuration Error (caught by handler):", errorMessage);
              } else {
                  console.error(`Caught unexpected error in POST handler: ${errorMessage}`);
                  console.error('Stack Trace (if available):', error.stack);
@@ -0,0 +1,69 @@
+// src/app/api/conversations/[id]/route.ts
+// Every request needs the conversation's owner key (X-Conversation-Key); others read it only
+// through an active share link.
+import { NextResponse } from 'next/server';
+import {
+    STORAGE_OFF_RESPONSE, authorizeConversation, authorizeConversationUpload, getConversationStorage, hashOwnerKey,
+    parseConversationInput, toConversationResponse,
+} from '@/lib/serverConversations';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// --- GET: One conversation with its messages ---
+export async function GET(request: Request, { params }: RouteContext) {
+    try {
+        const storage = getConversationStorage();
+        if (!storage) return NextResponse.json(STORAGE_OFF_RESPONSE, { status: 404 });
+        const authorized = await authorizeConversation(storage, (await params).id, request);
+        if (!authorized.ok) return NextResponse.json(authorized.body, { status: authorized.status });
+        return NextResponse.json(toConversationResponse(authorized.conversation));
+    } catch (error: unknown) {
+        console.error('--- Error in /api/conversations/[id] GET handler ---:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred';
+        return NextResponse.json({ error: 'Internal Server Error', details: errorMessage }, { status: 500 });
+    }
+}
+
+// --- PUT: Create or replace a conversation under this id ---
+// Body: { "title": "ECD at 10,000 ft", "messages": [...] }. Response: the stored conversation.
+// The app uploads a conversation this way (under its browser id) before sharing it; the key sent
+// the first time owns it. With another key the id answers 404, as if it did not exist.
+export async function PUT(request: Request, { params }: RouteContext) {
+    try {
+        const storage = getConversationStorage();
+        if (!storage) return NextResponse.json(STORAGE_OFF_RESPONSE, { status: 404 });
+        const { id } = await params;
+        const authorized = await authorizeConversationUpload(storage, id, request);
+        if (!authorized.ok) return NextResponse.json(authorized.body, { status: authorized.status });
+
+        let body: unknown;
+        try {
+            body = await request.json();
+        } catch {
+            return NextResponse.json({ error: 'Invalid request body', details: 'Request body must be JSON.' }, { status: 400 });
+        }
+        const input = parseConversationInput(body);
+        if (!input.ok) return NextResponse.json({ error: 'Invalid request body', details: input.error }, { status: 400 });
+        return NextResponse.json(toConversationResponse(await storage.put(id, input.value, hashOwnerKey(authorized.key))));
+    } catch (error: unknown) {
+        console.error('--- Error in /api/conversations/[id] PUT handler ---:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred';
+        return NextResponse.json({ error: 'Internal Server Error', details: errorMessage }, { status: 500 });
+    }
+}
+
+// --- DELETE: Remove a conversation and revoke its share links ---
+export async function DELETE(request: Request, { params }: RouteContext) {
+    try {
+        const storage = getConversationStorage();
+        if (!storage) return NextResponse.json(STORAGE_OFF_RESPONSE, { status: 404 });
+        const authorized = await authorizeConversation(storage, (await params).id, request);
+        if (!authorized.ok) return NextResponse.json(authorized.body, { status: authorized.status });
+        await storage.delete(authorized.conversation.id);
+        return NextResponse.json({ deleted: authorized.conversation.id });
+    } catch (error: unknown) {
+        console.error('--- Error in /api/conversations/[id] DELETE handler ---:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred';
+        return NextResponse.json({ error: 'Internal Server Error', details: errorMessage }, { status: 500 });
+    }
+}
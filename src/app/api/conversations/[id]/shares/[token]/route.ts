@@ -0,0 +1,24 @@
+// src/app/api/conversations/[id]/shares/[token]/route.ts
+import { NextResponse } from 'next/server';
+import { STORAGE_OFF_RESPONSE, authorizeConversation, getConversationStorage } from '@/lib/serverConversations';
+
+type RouteContext = { params: Promise<{ id: string; token: string }> };
+
+// --- DELETE: Revoke a share link (owner key required); the page at /share/<token> stops working at once ---
+// Response: the link with its "revokedAt" time.
+export async function DELETE(request: Request, { params }: RouteContext) {
+    try {
+        const storage = getConversationStorage();
+        if (!storage) return NextResponse.json(STORAGE_OFF_RESPONSE, { status: 404 });
+        const { id, token } = await params;
+        const authorized = await authorizeConversation(storage, id, request);
+        if (!authorized.ok) return NextResponse.json(authorized.body, { status: authorized.status });
+        const link = await storage.revokeShare(id, token);
+        if (!link) return NextResponse.json({ error: 'Not found', details: `No share link '${token}' for conversation '${id}'.` }, { status: 404 });
+        return NextResponse.json(link);
+    } catch (error: unknown) {
+        console.error('--- Error in /api/conversations/[id]/shares/[token] DELETE handler ---:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred';
+        return NextResponse.json({ error: 'Internal Server Error', details: errorMessage }, { status: 500 });
+    }
+}
@@ -0,0 +1,53 @@
+// src/app/api/conversations/[id]/shares/route.ts
+import { NextResponse } from 'next/server';
+import { MAX_SHARE_DAYS, STORAGE_OFF_RESPONSE, authorizeConversation, getConversationStorage } from '@/lib/serverConversations';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// --- GET: The conversation's share links, including revoked and expired ones (owner key required) ---
+// Response: { "shares": [{ "token": "...", "conversationId": "...", "createdAt": ..., "expiresAt": null, "revokedAt": null }] }
+export async function GET(request: Request, { params }: RouteContext) {
+    try {
+        const storage = getConversationStorage();
+        if (!storage) return NextResponse.json(STORAGE_OFF_RESPONSE, { status: 404 });
+        const authorized = await authorizeConversation(storage, (await params).id, request);
+        if (!authorized.ok) return NextResponse.json(authorized.body, { status: authorized.status });
+        const { id } = authorized.conversation;
+        return NextResponse.json({ shares: await storage.listShares(id) });
+    } catch (error: unknown) {
+        console.error('--- Error in /api/conversations/[id]/shares GET handler ---:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred';
+        return NextResponse.json({ error: 'Internal Server Error', details: errorMessage }, { status: 500 });
+    }
+}
+
+// --- POST: Create a read-only link to the conversation (/share/<token>; owner key required) ---
+// Body: { "expiresInDays": 7 } or {} for a link that lasts until revoked. Response (201): the link.
+export async function POST(request: Request, { params }: RouteContext) {
+    try {
+        const storage = getConversationStorage();
+        if (!storage) return NextResponse.json(STORAGE_OFF_RESPONSE, { status: 404 });
+        const authorized = await authorizeConversation(storage, (await params).id, request);
+        if (!authorized.ok) return NextResponse.json(authorized.body, { status: authorized.status });
+        const { id } = authorized.conversation;
+
+        let body: { expiresInDays?: unknown } = {};
+        try {
+            body = await request.json();
+        } catch {
+            // An empty body asks for a link without expiry
+        }
+        const days = body?.expiresInDays;
+        if (days !== undefined && days !== null && !(typeof days === 'number' && days > 0 && days <= MAX_SHARE_DAYS)) {
+            return NextResponse.json({ error: 'Invalid request body', details: `'expiresInDays' must be a number of days greater than 0 and at most ${MAX_SHARE_DAYS}.` }, { status: 400 });
+        }
+        const link = await storage.createShare(id, typeof days === 'number' ? Date.now() + days * DAY_MS : null);
+        return NextResponse.json(link, { status: 201 });
+    } catch (error: unknown) {
+        console.error('--- Error in /api/conversations/[id]/shares POST handler ---:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred';
+        return NextResponse.json({ error: 'Internal Server Error', details: errorMessage }, { status: 500 });
+    }
+}
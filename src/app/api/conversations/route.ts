@@ -0,0 +1,51 @@
+// src/app/api/conversations/route.ts
+import { NextResponse } from 'next/server';
+import { STORAGE_OFF_RESPONSE, getConversationStorage, hashOwnerKey, isConversationId, parseConversationInput, readOwnerKey, toConversationResponse } from '@/lib/serverConversations';
+import { OWNER_KEY_HEADER } from '@/lib/conversationKeys';
+
+// --- GET: Whether the server keeps conversations ---
+// Response: { "enabled": true }; 404 while server-side conversations are off, which is how the
+// app knows sharing is unavailable. Stored conversations are never listed.
+export async function GET() {
+    try {
+        if (!getConversationStorage()) return NextResponse.json(STORAGE_OFF_RESPONSE, { status: 404 });
+        return NextResponse.json({ enabled: true });
+    } catch (error: unknown) {
+        console.error('--- Error in /api/conversations GET handler ---:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred';
+        return NextResponse.json({ error: 'Internal Server Error', details: errorMessage }, { status: 500 });
+    }
+}
+
+// --- POST: Store a new conversation, owned by the key in the X-Conversation-Key header ---
+// Body: { "id": "optional-client-id", "title": "ECD at 10,000 ft", "messages": [...] }
+// Without an id the server assigns one. Response (201): the stored conversation.
+export async function POST(request: Request) {
+    try {
+        const storage = getConversationStorage();
+        if (!storage) return NextResponse.json(STORAGE_OFF_RESPONSE, { status: 404 });
+        const key = readOwnerKey(request);
+        if (!key) return NextResponse.json({ error: 'Unauthorized', details: `Send an owner key for the conversation in the ${OWNER_KEY_HEADER} header.` }, { status: 401 });
+
+        let body: { id?: unknown };
+        try {
+            body = await request.json();
+        } catch {
+            return NextResponse.json({ error: 'Invalid request body', details: 'Request body must be JSON.' }, { status: 400 });
+        }
+        const input = parseConversationInput(body);
+        if (!input.ok) return NextResponse.json({ error: 'Invalid request body', details: input.error }, { status: 400 });
+        if (body.id !== undefined && (typeof body.id !== 'string' || !isConversationId(body.id))) {
+            return NextResponse.json({ error: 'Invalid request body', details: "'id' must be 1-100 letters, digits, '-' or '_'." }, { status: 400 });
+        }
+        const id = typeof body.id === 'string' ? body.id : crypto.randomUUID();
+        if (await storage.get(id)) {
+            return NextResponse.json({ error: 'Conflict', details: `A conversation with id '${id}' exists; its owner can update it with PUT /api/conversations/${id}.` }, { status: 409 });
+        }
+        return NextResponse.json(toConversationResponse(await storage.put(id, input.value, hashOwnerKey(key))), { status: 201 });
+    } catch (error: unknown) {
+        console.error('--- Error in /api/conversations POST handler ---:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred';
+        return NextResponse.json({ error: 'Internal Server Error', details: errorMessage }, { status: 500 });
+    }
+}
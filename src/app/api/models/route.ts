@@ -0,0 +1,16 @@
+// src/app/api/models/route.ts
+import { NextResponse } from 'next/server';
+import { getLlmConfig } from '@/lib/llmProviders';
+
+// --- GET: The configured provider and the models the chat may use ---
+// Response: { "provider": "openai-compatible", "defaultModel": "llama3.1:8b", "models": ["llama3.1:8b", "qwen2.5:14b"] }
+export async function GET() {
+    try {
+        const { provider, defaultModel, models } = getLlmConfig();
+        return NextResponse.json({ provider, defaultModel, models });
+    } catch (error: unknown) {
+        console.error('--- Error in /api/models GET handler ---:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred';
+        return NextResponse.json({ error: 'Internal Server Error', details: errorMessage }, { status: 500 });
+    }
+}
@@ -0,0 +1,178 @@
+// src/app/components/ChartEditor.tsx
+'use client';
+
+import React, { useState } from 'react';
+import GraphRenderer from './GraphRenderer';
+import { GraphData, GraphType, GRAPH_TYPES, GRAPH_TYPE_LABELS, AxisId, AXIS_OPTION_FIELDS, getSecondarySeries, validateGraphData } from '@/lib/dataSchema';
+import { canReorderPoints, changeGraphType, getEditableSeries, getLabelKey, movePoint, renameAxis, setPointValue, toggleSeries } from '@/lib/chartEditing';
+import { ArrowDownIcon, ArrowUturnLeftIcon, ArrowUpIcon, CheckIcon, ExclamationTriangleIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+const AXIS_LABELS: Record<AxisId, string> = { x: 'X axis', y: 'Y axis', y2: 'Right Y axis' };
+
+type ChartEditorProps = {
+    graph: GraphData; // As displayed, i.e. in the current unit system
+    darkMode: boolean;
+    canRevert: boolean; // The chart has been edited before
+    onSave: (graph: GraphData) => void;
+    onCancel: () => void;
+    onRevert: () => void;
+};
+
+export default function ChartEditor({ graph, darkMode, canRevert, onSave, onCancel, onRevert }: ChartEditorProps) {
+    const [draft, setDraft] = useState<GraphData>(graph);
+    // The grid cell being typed in, so partial numbers like "12." are not reformatted
+    const [editingCell, setEditingCell] = useState<{ index: number; key: string; text: string } | null>(null);
+
+    const validation = validateGraphData(draft);
+    const type = draft.type.toLowerCase();
+    const series = getEditableSeries(draft);
+    const hiddenSeries = draft.options?.hiddenSeries ?? [];
+    const labelKey = getLabelKey(draft);
+    const columns = Array.from(new Set(draft.data.flatMap(point => Object.keys(point))));
+    const axes: AxisId[] = type === 'pie' ? [] : getSecondarySeries(draft.options).length > 0 ? ['x', 'y', 'y2'] : ['x', 'y'];
+    const reorderable = canReorderPoints(draft);
+
+    const inputClass = `px-2 py-1 rounded border text-sm ${darkMode ? 'bg-slate-900 border-slate-600 text-slate-100' : 'bg-white border-slate-300 text-slate-900'}`;
+    const buttonClass = (primary: boolean) => `inline-flex items-center gap-1 px-3 py-1 rounded-md text-sm border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+        primary
+            ? darkMode ? 'bg-indigo-700 border-indigo-600 text-white hover:bg-indigo-600' : 'bg-indigo-600 border-indigo-600 text-white hover:bg-indigo-700'
+            : darkMode ? 'bg-slate-800 border-slate-600 text-slate-200 hover:bg-slate-700' : 'bg-white border-slate-300 text-slate-700 hover:bg-slate-100'
+    }`;
+    const iconButtonClass = `p-0.5 rounded disabled:opacity-30 ${darkMode ? 'hover:bg-slate-700' : 'hover:bg-slate-200'}`;
+
+    const seriesLabel = (key: string): string => {
+        const labels = draft.options?.labels as Record<string, unknown> | undefined;
+        return typeof labels?.[key] === 'string' ? labels[key] as string : key;
+    };
+    const cellText = (index: number, key: string): string => {
+        if (editingCell && editingCell.index === index && editingCell.key === key) return editingCell.text;
+        const value = draft.data[index][key];
+        return value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    };
+
+    return (
+        <div className={`mt-4 mb-2 p-4 rounded-lg border shadow-sm text-sm ${darkMode ? 'bg-slate-800 border-indigo-700 text-slate-200' : 'bg-white border-indigo-300 text-slate-800'}`} style={{ whiteSpace: 'normal' }}>
+            {/* Header */}
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                <h3 className="font-semibold">Edit chart{draft.title ? `: ${draft.title}` : ''}</h3>
+                <div className="flex flex-wrap gap-2">
+                    {canRevert && (
+                        <button type="button" onClick={onRevert} className={buttonClass(false)} title="Discard all edits and show the chart as answered">
+                            <ArrowUturnLeftIcon className="h-4 w-4" /> Revert to original
+                        </button>
+                    )}
+                    <button type="button" onClick={onCancel} className={buttonClass(false)}>
+                        <XMarkIcon className="h-4 w-4" /> Cancel
+                    </button>
+                    <button type="button" onClick={() => validation.ok && onSave(validation.value)} disabled={!validation.ok} className={buttonClass(true)}>
+                        <CheckIcon className="h-4 w-4" /> Save
+                    </button>
+                </div>
+            </div>
+
+            {/* Type and axis titles */}
+            <div className="flex flex-wrap items-end gap-3 mb-3">
+                <label className="flex flex-col gap-1">
+                    <span className="text-xs font-semibold">Chart type</span>
+                    <select value={type} onChange={e => setDraft(changeGraphType(draft, e.target.value as GraphType))} className={inputClass}>
+                        {GRAPH_TYPES.map(option => <option key={option} value={option}>{GRAPH_TYPE_LABELS[option]}</option>)}
+                    </select>
+                </label>
+                {axes.map(axis => (
+                    <label key={axis} className="flex flex-col gap-1">
+                        <span className="text-xs font-semibold">{AXIS_LABELS[axis]} title</span>
+                        <input
+                            type="text"
+                            value={draft.options?.[AXIS_OPTION_FIELDS[axis]]?.name ?? ''}
+                            onChange={e => setDraft(renameAxis(draft, axis, e.target.value))}
+                            className={inputClass}
+                        />
+                    </label>
+                ))}
+            </div>
+
+            {/* Series toggles */}
+            {series.length > 1 && (
+                <div className="flex flex-wrap items-center gap-3 mb-3">
+                    <span className="text-xs font-semibold">Series</span>
+                    {series.map(key => (
+                        <label key={key} className="inline-flex items-center gap-1">
+                            <input type="checkbox" checked={!hiddenSeries.includes(key)} onChange={() => setDraft(toggleSeries(draft, key))} />
+                            {seriesLabel(key)}
+                        </label>
+                    ))}
+                </div>
+            )}
+
+            {/* Live preview */}
+            {validation.ok ? (
+                <GraphRenderer
+                    type={draft.type}
+                    data={draft.data}
+                    options={draft.options}
+                    units={draft.units}
+                    title={draft.title}
+                    darkMode={darkMode}
+                />
+            ) : (
+                <div className={`mt-3 mb-2 p-3 rounded-lg border ${darkMode ? 'bg-amber-950/40 border-amber-800 text-amber-200' : 'bg-amber-50 border-amber-300 text-amber-900'}`}>
+                    <p className="flex items-center gap-1 font-semibold">
+                        <ExclamationTriangleIcon className="h-4 w-4" />
+                        This chart cannot be drawn yet
+                    </p>
+                    <ul className="mt-1 list-disc pl-5 text-xs">
+                        {validation.errors.map((error, i) => <li key={i} className="font-mono">{error}</li>)}
+                    </ul>
+                </div>
+            )}
+
+            {/* Value grid */}
+            <div className={`mt-3 max-h-72 overflow-auto rounded border ${darkMode ? 'border-slate-700' : 'border-slate-200'}`}>
+                <table className="min-w-full text-xs">
+                    <thead className={`sticky top-0 ${darkMode ? 'bg-slate-900' : 'bg-slate-100'}`}>
+                        <tr>
+                            {reorderable && <th className="px-2 py-1 w-12"><span className="sr-only">Order</span></th>}
+                            {columns.map(key => (
+                                <th key={key} scope="col" className="px-2 py-1 text-left font-semibold whitespace-nowrap">
+                                    {key}{draft.units?.[key] ? ` (${draft.units[key]})` : ''}
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody className={`divide-y ${darkMode ? 'divide-slate-700' : 'divide-slate-200'}`}>
+                        {draft.data.map((point, index) => (
+                            <tr key={index}>
+                                {reorderable && (
+                                    <td className="px-2 py-1 whitespace-nowrap">
+                                        <button type="button" onClick={() => setDraft(movePoint(draft, index, -1))} disabled={index === 0} className={iconButtonClass} aria-label="Move up">
+                                            <ArrowUpIcon className="h-3 w-3" />
+                                        </button>
+                                        <button type="button" onClick={() => setDraft(movePoint(draft, index, 1))} disabled={index === draft.data.length - 1} className={iconButtonClass} aria-label="Move down">
+                                            <ArrowDownIcon className="h-3 w-3" />
+                                        </button>
+                                    </td>
+                                )}
+                                {columns.map(key => (
+                                    <td key={key} className="px-1 py-0.5">
+                                        <input
+                                            type="text"
+                                            inputMode={key === labelKey ? 'text' : 'decimal'}
+                                            value={cellText(index, key)}
+                                            onChange={e => {
+                                                setEditingCell({ index, key, text: e.target.value });
+                                                setDraft(setPointValue(draft, index, key, e.target.value));
+                                            }}
+                                            onBlur={() => setEditingCell(null)}
+                                            className={`w-24 ${inputClass} text-xs ${key === labelKey ? '' : 'text-right'}`}
+                                            aria-label={`${key} of point ${index + 1}`}
+                                        />
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,233 @@
+// src/app/components/ChatMessageContent.tsx
+'use client';
+
+import React, { useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import GraphRenderer from './GraphRenderer';
+import ChartEditor from './ChartEditor';
+import TableRenderer from './TableRenderer';
+import type { HandbookSource } from '@/lib/handbook';
+import type { CalculationTrace } from '@/lib/calcTools';
+import type { GraphData } from '@/lib/dataSchema';
+import type { ContentPart } from '@/lib/responseEnvelope';
+import { VerificationWarning, highlightVerificationWarnings } from '@/lib/verification';
+import { UnitSystem, convertGraphData, convertTableData } from '@/lib/units';
+import { ArrowUturnLeftIcon, BookOpenIcon, CalculatorIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+
+// Short chip label, e.g. "p. 84 · 4.1 Kill Sheets & Related Calculations"
+const formatSourceLabel = (source: HandbookSource): string => {
+    const page = source.page !== null ? `p. ${source.page}` : `PDF p. ${source.pdfPage}`;
+    const where = source.section || source.chapter;
+    return where ? `${page} · ${where}` : page;
+};
+
+// --- ChatMessageContent Component ---
+// An assistant message as the chat shows it. Also renders shared conversations and report
+// previews, read-only: without onPartChange and onAddChart.
+export default function ChatMessageContent({ content, parts, sources, calculations, warnings, unitSystem, darkMode, onPartChange, onAddChart }: {
+    content: string;
+    parts?: ContentPart[];
+    sources?: HandbookSource[];
+    calculations?: CalculationTrace[];
+    warnings?: VerificationWarning[];
+    unitSystem: UnitSystem;
+    darkMode: boolean;
+    onPartChange?: (partIndex: number, part: ContentPart) => void; // Charts can be edited when given
+    onAddChart?: (graph: GraphData) => void; // Tables can be plotted into a new message when given
+}) {
+    const [openSourceId, setOpenSourceId] = useState<string | null>(null);
+    const [editingPart, setEditingPart] = useState<number | null>(null);
+    const openSource = sources?.find(s => s.id === openSourceId);
+
+    // Messages without parts (e.g. errors) are plain markdown
+    const body: ContentPart[] = parts ?? [{ type: 'markdown', text: content }];
+
+    const renderMarkdown = (text: string, key: string) => text.trim() && (
+        <ReactMarkdown
+            key={key}
+            remarkPlugins={[remarkMath]}
+            rehypePlugins={[rehypeKatex]}
+            components={{
+                a: ({ node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" className={`${darkMode ? 'text-blue-400 hover:underline' : 'text-blue-600 hover:underline'}`} />,
+            }}
+        >
+            {warnings ? highlightVerificationWarnings(text.trim(), warnings) : text.trim()}
+        </ReactMarkdown>
+    );
+
+    // Unit-tagged data is stored as answered and shown in the current unit system. An edited
+    // chart is saved as shown (its units tagged), with the chart as answered kept to revert to.
+    const renderPart = (part: ContentPart, key: string, index: number) => {
+        if (part.type === 'markdown') return renderMarkdown(part.text, key);
+        if (part.type === 'graph') {
+            const graphData = convertGraphData(part.graph, unitSystem);
+            const revert = () => {
+                if (part.original) onPartChange?.(index, { type: 'graph', graph: part.original });
+                setEditingPart(null);
+            };
+            if (onPartChange && editingPart === index) {
+                return (
+                    <ChartEditor
+                        key={key}
+                        graph={graphData}
+                        darkMode={darkMode}
+                        canRevert={!!part.original}
+                        onSave={graph => {
+                            onPartChange(index, { type: 'graph', graph, original: part.original ?? part.graph });
+                            setEditingPart(null);
+                        }}
+                        onCancel={() => setEditingPart(null)}
+                        onRevert={revert}
+                    />
+                );
+            }
+            // data-part-index lets a report find the drawn chart of this part
+            return (
+                <div key={key} data-part-index={index}>
+                    <GraphRenderer
+                        type={graphData.type}
+                        data={graphData.data}
+                        options={{
+                            ...(graphData.options || {}),
+                            // Optionally add dark mode specific chart options here
+                            // For example: darkMode ? { backgroundColor: '#1e293b' } : {}
+                        }}
+                        units={graphData.units}
+                        title={graphData.title}
+                        darkMode={darkMode}
+                        onEdit={onPartChange ? () => setEditingPart(index) : undefined}
+                    />
+                    {onPartChange && part.original && (
+                        <p className={`mb-2 flex items-center gap-1 text-xs italic ${darkMode ? 'text-slate-400' : 'text-slate-500'}`} style={{ whiteSpace: 'normal' }}>
+                            Edited chart ·
+                            <button type="button" onClick={revert} className={`inline-flex items-center gap-0.5 not-italic hover:underline ${darkMode ? 'text-blue-400' : 'text-blue-600'}`}>
+                                <ArrowUturnLeftIcon className="h-3 w-3" /> Revert to original
+                            </button>
+                        </p>
+                    )}
+                </div>
+            );
+        }
+        if (part.type === 'table') {
+            return <TableRenderer key={key} tableData={convertTableData(part.table, unitSystem)} darkMode={darkMode} onPlot={onAddChart} />;
+        }
+        return (
+            <div key={key} className={`mt-3 mb-2 p-3 rounded-lg border text-sm ${darkMode ? 'bg-amber-950/40 border-amber-800 text-amber-200' : 'bg-amber-50 border-amber-300 text-amber-900'}`} style={{ whiteSpace: 'normal' }}>
+                <p className="flex items-center gap-1 font-semibold">
+                    <ExclamationTriangleIcon className="h-4 w-4" />
+                    {part.kind === 'graph' ? 'This chart could not be drawn' : 'This table could not be shown'}
+                </p>
+                <ul className="mt-1 list-disc pl-5 text-xs">
+                    {part.errors.map((error, i) => <li key={i} className="font-mono">{error}</li>)}
+                </ul>
+                <details className="mt-2 text-xs">
+                    <summary className="cursor-pointer">Data as received</summary>
+                    <pre className={`mt-1 max-h-48 overflow-auto p-2 rounded ${darkMode ? 'bg-slate-900' : 'bg-white'}`}>{part.source}</pre>
+                </details>
+            </div>
+        );
+    };
+
+    return (
+        <div className={`max-w-none ${darkMode ? 'text-slate-100' : 'text-slate-900'}`} style={{ whiteSpace: 'pre-wrap' }}>
+            {/* Render the answer's parts: markdown, with each graph or table where it appeared */}
+            {body.map((part, i) => renderPart(part, `part-${i}`, i))}
+
+            {/* Render Arithmetic Warnings */}
+            {warnings && warnings.length > 0 && (
+                <div className={`mt-3 p-3 rounded-lg border text-xs ${darkMode ? 'bg-red-950/40 border-red-800 text-red-200' : 'bg-red-50 border-red-200 text-red-800'}`} style={{ whiteSpace: 'normal' }}>
+                    <p className="flex items-center gap-1 font-semibold">
+                        <ExclamationTriangleIcon className="h-4 w-4" />
+                        Arithmetic check: {warnings.length} {warnings.length === 1 ? 'result does' : 'results do'} not recompute
+                    </p>
+                    <ul className="mt-1 space-y-1">
+                        {warnings.map((warning, i) => (
+                            <li key={i} className="overflow-x-auto">
+                                <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+                                    {`$${warning.expression}$: ${warning.message}`}
+                                </ReactMarkdown>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {/* Render Calculation Trace */}
+            {calculations && calculations.length > 0 && (
+                <details className={`mt-3 rounded-lg border text-sm ${darkMode ? 'bg-slate-800 border-slate-600' : 'bg-white border-slate-200'}`} style={{ whiteSpace: 'normal' }}>
+                    <summary className={`flex items-center gap-1 px-3 py-2 cursor-pointer select-none text-xs font-semibold ${darkMode ? 'text-slate-200' : 'text-slate-800'}`}>
+                        <CalculatorIcon className="h-4 w-4" />
+                        Calculation trace ({calculations.length} {calculations.length === 1 ? 'call' : 'calls'})
+                    </summary>
+                    <ol className={`divide-y ${darkMode ? 'divide-slate-700' : 'divide-slate-200'}`}>
+                        {calculations.map(calc => (
+                            <li key={calc.id} className="px-3 py-2">
+                                <p className={`font-semibold ${darkMode ? 'text-slate-200' : 'text-slate-800'}`}>
+                                    {calc.title}
+                                    {calc.result && (
+                                        <span className={`ml-2 font-mono ${darkMode ? 'text-emerald-300' : 'text-emerald-700'}`}>
+                                            = {calc.result.result.value} {calc.result.result.unit}
+                                        </span>
+                                    )}
+                                </p>
+                                <p className={`text-xs font-mono ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                                    {calc.tool}({Object.entries(calc.inputs).map(([name, value]) => `${name}=${String(value)}`).join(', ')})
+                                    {calc.result && ` · Handbook p. ${calc.result.reference.page}`}
+                                </p>
+                                {calc.error && (
+                                    <p className={`mt-1 text-xs ${darkMode ? 'text-red-300' : 'text-red-700'}`}>{calc.error}</p>
+                                )}
+                                {calc.result && (
+                                    <div className="overflow-x-auto">
+                                        <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+                                            {calc.result.latex.markdown}
+                                        </ReactMarkdown>
+                                    </div>
+                                )}
+                            </li>
+                        ))}
+                    </ol>
+                </details>
+            )}
+
+            {/* Render Handbook Citations */}
+            {sources && sources.length > 0 && (
+                <div className="mt-3" style={{ whiteSpace: 'normal' }}>
+                    <div className="flex flex-wrap gap-2">
+                        {sources.map(source => (
+                            <button
+                                key={source.id}
+                                type="button"
+                                onClick={() => setOpenSourceId(openSourceId === source.id ? null : source.id)}
+                                className={`inline-flex items-center gap-1 px-2 py-1 text-xs rounded-full border transition-colors duration-100 ${
+                                    openSourceId === source.id
+                                        ? darkMode ? 'bg-indigo-800 border-indigo-600 text-indigo-100' : 'bg-indigo-100 border-indigo-400 text-indigo-800'
+                                        : darkMode ? 'bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-600' : 'bg-white border-slate-300 text-slate-700 hover:bg-slate-200'
+                                }`}
+                                aria-expanded={openSourceId === source.id}
+                                title={source.chapter || undefined}
+                            >
+                                <BookOpenIcon className="h-3.5 w-3.5" />
+                                <span className="font-semibold">{source.id}</span>
+                                <span>{formatSourceLabel(source)}</span>
+                            </button>
+                        ))}
+                    </div>
+
+                    {/* Excerpt of the selected source */}
+                    {openSource && (
+                        <div className={`mt-2 p-3 rounded-lg border text-xs ${darkMode ? 'bg-slate-800 border-slate-600 text-slate-300' : 'bg-white border-slate-200 text-slate-700'}`}>
+                            <p className={`mb-2 font-semibold ${darkMode ? 'text-slate-200' : 'text-slate-800'}`}>
+                                [{openSource.id}] {[openSource.chapter, openSource.section].filter(Boolean).join(' › ') || 'Handbook'}
+                                {openSource.page !== null ? `, page ${openSource.page}` : `, PDF page ${openSource.pdfPage}`}
+                            </p>
+                            <pre className="whitespace-pre-wrap font-mono max-h-64 overflow-y-auto">{openSource.excerpt}</pre>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -2,13 +2,36 @@
 'use client';
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import ReactMarkdown from 'react-markdown';
-import remarkMath from 'remark-math';
-import rehypeKatex from 'rehype-katex';
-import GraphRenderer from './GraphRenderer'; // Adjust path if needed
+import ChatMessageContent from './ChatMessageContent';
+import KillSheet from './KillSheet';
+import WellProfileEditor from './WellProfileEditor';
+import ConversationSidebar from './ConversationSidebar';
+import ShareDialog from './ShareDialog';
+import ReportExporter from './ReportExporter';
+import { formatNumber } from '@/lib/formulas';
+import { KillSheetPrefill, KillSheetInputs, KillSheetResult } from '@/lib/killSheet';
+import { WellProfile, parseWellProfile, getKillSheetPrefill } from '@/lib/wellProfile';
+import { SSE_CONTENT_TYPE, readChatStream } from '@/lib/chatStream';
+import { ContextCompaction, CONTEXT_COMPACTION_LABELS } from '@/lib/contextBudget';
+import type { GraphData } from '@/lib/dataSchema';
+import { ContentPart, getMarkdownText } from '@/lib/responseEnvelope';
+import {
+    Message, ResponseEnvelopeInput, isContextCompaction, readEnvelope, readStoredMessages,
+    sanitizeAnsweredBy, sanitizeCalculations, sanitizeKillSheet, sanitizeSources, sanitizeWarnings,
+} from '@/lib/storedMessages';
+import { Conversation, DEFAULT_CONVERSATION_TITLE, createConversation, deleteConversation, loadConversations, saveConversation, sortConversations, titleFromMessages } from '@/lib/conversationStore';
+import { OWNER_KEY_HEADER, forgetConversationKey, getConversationKey } from '@/lib/conversationKeys';
+import { UnitSystem, DEFAULT_UNIT_SYSTEM, UNIT_SYSTEM_LABELS, isUnitSystem, toUnitSystem } from '@/lib/units';
 import { 
+    ArchiveBoxIcon,
+    Bars3Icon,
     ChartBarIcon, 
+    ClipboardDocumentListIcon,
+    DocumentTextIcon,
+    ExclamationTriangleIcon,
+    MapPinIcon,
     PaperAirplaneIcon, 
+    StopIcon,
     SparklesIcon, 
     SunIcon, 
     MoonIcon, 
@@ -19,107 +42,73 @@ import {
 // import 'katex/dist/katex.min.css';
 
 // --- Type Definitions ---
-type GraphData = {
-    type: string;
-    data: any;
-    options?: any;
-    title?: string;
+// Body of a successful /api/chat response (or of the stream's final event)
+type ChatApiResponse = {
+    envelope?: ResponseEnvelopeInput;
+    killSheet?: unknown;
+    warnings?: unknown;
+    answeredBy?: unknown;
+    context?: { compacted?: unknown };
+    error?: string;
+    details?: string;
 };
 
-type TableData = {
-    headers: string[];
-    rows: any[][];
-    title?: string;
-};
-
-type Message = {
-    role: 'user' | 'assistant';
-    content: string;
-    graphData?: GraphData;
-    tableData?: TableData;
+// Reads the server's compaction report as message index -> how that message was shortened
+const readCompactions = (context: ChatApiResponse['context']): Map<number, ContextCompaction> => {
+    const compactions = new Map<number, ContextCompaction>();
+    if (!Array.isArray(context?.compacted)) return compactions;
+    for (const entry of context.compacted) {
+        if (typeof entry?.index === 'number' && isContextCompaction(entry.action)) compactions.set(entry.index, entry.action);
+    }
+    return compactions;
 };
 
 // --->>> Define Visualization Types <<<---
 type VizType = 'pie chart' | 'line graph' | 'table' | 'bar chart' | 'scatter plot';
 const VIZ_OPTIONS: VizType[] = ['pie chart', 'line graph', 'bar chart', 'scatter plot', 'table'];
 
-// --- ChatMessageContent Component ---
-function ChatMessageContent({ content, graphData, tableData, darkMode }: {
-    content: string;
-    graphData?: GraphData;
-    tableData?: TableData;
-    darkMode: boolean;
-}) {
-    return (
-        <div className={`max-w-none ${darkMode ? 'text-slate-100' : 'text-slate-900'}`} style={{ whiteSpace: 'pre-wrap' }}>
-            {/* Render Markdown Content */}
-            <ReactMarkdown
-                remarkPlugins={[remarkMath]}
-                rehypePlugins={[rehypeKatex]}
-                components={{
-                    a: ({ node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" className={`${darkMode ? 'text-blue-400 hover:underline' : 'text-blue-600 hover:underline'}`} />,
-                }}
-            >
-                {content}
-            </ReactMarkdown>
-
-            {/* Render Graph */}
-            {graphData && (
-                <GraphRenderer
-                    type={graphData.type}
-                    data={graphData.data}
-                    options={{
-                        ...(graphData.options || {}),
-                        // Optionally add dark mode specific chart options here
-                        // For example: darkMode ? { backgroundColor: '#1e293b' } : {}
-                    }}
-                    title={graphData.title}
-                />
-            )}
-
-            {/* Render Table */}
-            {tableData && tableData.headers && tableData.rows && (
-                <div className={`mt-4 mb-2 overflow-x-auto ${darkMode ? 'bg-slate-800' : 'bg-white'} p-4 rounded-lg ${darkMode ? 'border border-slate-700' : 'border border-slate-200'} shadow-sm`}>
-                    {tableData.title && <h4 className={`text-md font-semibold text-center mb-3 ${darkMode ? 'text-slate-200' : 'text-slate-800'}`}>{tableData.title}</h4>}
-                    <table className={`min-w-full divide-y ${darkMode ? 'divide-slate-700 border border-slate-700' : 'divide-slate-300 border border-slate-200'}`}>
-                        <thead className={darkMode ? 'bg-slate-900' : 'bg-slate-100'}>
-                            <tr>
-                                {tableData.headers.map((header, hIndex) => (
-                                    <th key={hIndex} scope="col" className={`px-4 py-2 text-left text-sm font-semibold ${darkMode ? 'text-slate-200' : 'text-slate-900'}`}>
-                                        {header}
-                                    </th>
-                                ))}
-                            </tr>
-                        </thead>
-                        <tbody className={`divide-y ${darkMode ? 'divide-slate-700 bg-slate-800' : 'divide-slate-200 bg-white'}`}>
-                            {tableData.rows.map((row, rIndex) => (
-                                <tr key={rIndex} className={darkMode ? 'hover:bg-slate-900' : 'hover:bg-slate-50'}>
-                                    {row.map((cell, cIndex) => (
-                                        <td key={cIndex} className={`whitespace-nowrap px-4 py-2 text-sm ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>
-                                            {typeof cell === 'object' && cell !== null ? JSON.stringify(cell) : String(cell)}
-                                        </td>
-                                    ))}
-                                </tr>
-                            ))}
-                        </tbody>
-                    </table>
-                </div>
-            )}
-        </div>
-    );
-}
-
 // --- Main Chatbot Component ---
 export default function Chatbot() {
-    const CHAT_HISTORY_KEY = 'chatbot_history_v3';
+    const ACTIVE_CONVERSATION_KEY = 'chatbot_active_conversation';
     const DARK_MODE_KEY = 'chatbot_dark_mode';
+    const UNIT_SYSTEM_KEY = 'chatbot_unit_system';
+    const WELL_PROFILES_KEY = 'chatbot_well_profiles';
+    const MODEL_KEY = 'chatbot_model';
     
     const [messages, setMessages] = useState<Message[]>([]);
     const [isHydrated, setIsHydrated] = useState(false);
+    // Conversations (IndexedDB); the active one's messages are `messages`
+    const [conversations, setConversations] = useState<Conversation[]>([]);
+    const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+    const [showSidebar, setShowSidebar] = useState(true);
+    const [storageError, setStorageError] = useState<string | null>(null);
+    const storageUnavailable = useRef(false); // No IndexedDB (e.g. some private windows): conversations are kept in memory only
+    const openedMessagesRef = useRef<Message[]>([]); // Messages as opened, so opening is not saved as a change
+    const unsavedConversationIds = useRef(new Set<string>());
+    // Share links need server-side storage (CONVERSATION_STORE); null while unknown
+    const [serverSharing, setServerSharing] = useState<boolean | null>(null);
+    const [sharingConversation, setSharingConversation] = useState<Conversation | null>(null);
+    const [showReport, setShowReport] = useState(false);
     const [input, setInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
+    const [streamingParts, setStreamingParts] = useState<ContentPart[] | null>(null); // Answer arriving from the stream
+    const [streamingPending, setStreamingPending] = useState(false); // A chart or table is arriving
+    const isStreaming = !!streamingParts && (streamingParts.length > 0 || streamingPending);
+    const [streamStatus, setStreamStatus] = useState<string | null>(null); // e.g. "Running Hydrostatic Pressure…"
+    const abortControllerRef = useRef<AbortController | null>(null);
     const [darkMode, setDarkMode] = useState(false);
+    const [unitSystem, setUnitSystem] = useState<UnitSystem>(DEFAULT_UNIT_SYSTEM);
     const [showConfirmClear, setShowConfirmClear] = useState(false);
+    // Kill sheet panel: null when closed; the key remounts it when opened with a new prefill
+    const [killSheet, setKillSheet] = useState<{ key: number; prefill?: KillSheetPrefill } | null>(null);
+    // Well profiles; the active one is sent with every question
+    const [wellProfiles, setWellProfiles] = useState<WellProfile[]>([]);
+    const [activeWellId, setActiveWellId] = useState<string | null>(null);
+    const [showWellProfiles, setShowWellProfiles] = useState(false);
+    const activeWell = wellProfiles.find(profile => profile.id === activeWellId) ?? null;
+    // Models the server allows; null selects the server's default
+    const [availableModels, setAvailableModels] = useState<string[]>([]);
+    const [selectedModel, setSelectedModel] = useState<string | null>(null);
     
     const messagesEndRef = useRef<HTMLDivElement>(null);
     
@@ -130,6 +119,7 @@ export default function Chatbot() {
     
     // Load history and theme preference effect
     useEffect(() => {
+        let savedActiveId: string | null = null;
         try {
             // Load dark mode preference
             const savedDarkMode = localStorage.getItem(DARK_MODE_KEY);
@@ -142,41 +132,114 @@ export default function Chatbot() {
                 localStorage.setItem(DARK_MODE_KEY, prefersDark.toString());
             }
             
-            // Load chat history
-            const savedHistory = localStorage.getItem(CHAT_HISTORY_KEY);
-            if (savedHistory) {
-                const parsedHistory: Message[] = JSON.parse(savedHistory);
-                if (Array.isArray(parsedHistory) && parsedHistory.every(m => m.role && typeof m.content === 'string')) {
-                    console.log("Loaded chat history from localStorage.");
-                    setMessages(parsedHistory);
-                } else {
-                    console.warn("localStorage history was malformed. Starting fresh.");
-                    localStorage.removeItem(CHAT_HISTORY_KEY);
+            // Load unit system preference
+            const savedUnitSystem = localStorage.getItem(UNIT_SYSTEM_KEY);
+            if (isUnitSystem(savedUnitSystem)) setUnitSystem(savedUnitSystem);
+
+            // Load model choice (checked against the server's list once it arrives)
+            const savedModel = localStorage.getItem(MODEL_KEY);
+            if (savedModel) setSelectedModel(savedModel);
+
+            // Load well profiles (kept separate so a bad entry does not cost the chat history)
+            try {
+                const savedWells = localStorage.getItem(WELL_PROFILES_KEY);
+                if (savedWells) {
+                    const parsedWells = JSON.parse(savedWells);
+                    const profiles: WellProfile[] = (Array.isArray(parsedWells?.profiles) ? parsedWells.profiles : [])
+                        .map(parseWellProfile)
+                        .filter((p: WellProfile | null): p is WellProfile => p !== null);
+                    setWellProfiles(profiles);
+                    setActiveWellId(profiles.some(p => p.id === parsedWells.activeId) ? parsedWells.activeId : null);
                 }
+            } catch (error) {
+                console.error("Failed to load well profiles:", error);
+                localStorage.removeItem(WELL_PROFILES_KEY);
             }
+
+            // The conversation open last time
+            savedActiveId = localStorage.getItem(ACTIVE_CONVERSATION_KEY);
         } catch (error) {
-            console.error("Failed to load/parse chat history or theme preference:", error);
-            localStorage.removeItem(CHAT_HISTORY_KEY);
-        } finally {
-            setIsHydrated(true);
+            console.error("Failed to load preferences:", error);
         }
+
+        // Load conversations (the history kept in localStorage before is imported on first use)
+        loadConversations()
+            .then(stored => {
+                console.log(`Loaded ${stored.length} conversations.`);
+                const list = stored.length > 0 ? stored : [createConversation()];
+                if (stored.length === 0) unsavedConversationIds.current.add(list[0].id);
+                setConversations(list);
+                openConversation(list.find(c => c.id === savedActiveId) ?? list[0]);
+            })
+            .catch(error => {
+                console.error("Failed to load conversations:", error);
+                storageUnavailable.current = true;
+                setStorageError("Conversations cannot be saved in this browser. This one lasts until the page is closed.");
+                const conversation = createConversation();
+                setConversations([conversation]);
+                openConversation(conversation);
+            })
+            .finally(() => setIsHydrated(true));
+    }, []);
+
+    // Fetch the models the server allows
+    useEffect(() => {
+        fetch('/api/models')
+            .then(response => (response.ok ? response.json() : Promise.reject(new Error(`API error ${response.status}`))))
+            .then((data: { models?: unknown }) => {
+                const models = Array.isArray(data.models) ? data.models.filter((m): m is string => typeof m === 'string') : [];
+                setAvailableModels(models);
+                setSelectedModel(prev => (prev && models.includes(prev) ? prev : null));
+            })
+            .catch(error => console.error("Failed to load available models:", error));
+    }, []);
+
+    // Check whether the server keeps conversations (404 while it does not)
+    useEffect(() => {
+        fetch('/api/conversations')
+            .then(response => setServerSharing(response.ok))
+            .catch(error => {
+                console.error("Failed to check for server-side conversations:", error);
+                setServerSharing(false);
+            });
     }, []);
 
     // Scroll effect
     useEffect(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-    }, [messages]);
+    }, [messages, streamingParts]);
 
-    // Save history effect
+    // Keep the active conversation's messages (and its title, until named) in step with the chat
     useEffect(() => {
-        if (isHydrated) {
+        if (!isHydrated || !activeConversationId || messages === openedMessagesRef.current) return;
+        openedMessagesRef.current = messages;
+        unsavedConversationIds.current.add(activeConversationId);
+        setConversations(prev => prev.map(c => (c.id === activeConversationId
+            ? { ...c, messages, updatedAt: Date.now(), title: c.title === DEFAULT_CONVERSATION_TITLE ? titleFromMessages(messages) ?? c.title : c.title }
+            : c)));
+    }, [messages, isHydrated, activeConversationId]);
+
+    // Save conversations that changed
+    useEffect(() => {
+        if (!isHydrated || storageUnavailable.current || unsavedConversationIds.current.size === 0) return;
+        const changed = conversations.filter(c => unsavedConversationIds.current.has(c.id));
+        unsavedConversationIds.current.clear();
+        changed.forEach(conversation => saveConversation(conversation).catch(error => {
+            console.error("Failed to save conversation:", error);
+            setStorageError("The latest changes could not be saved. The browser may be out of storage space.");
+        }));
+    }, [conversations, isHydrated]);
+
+    // Remember the open conversation
+    useEffect(() => {
+        if (isHydrated && activeConversationId) {
             try {
-                localStorage.setItem(CHAT_HISTORY_KEY, JSON.stringify(messages));
+                localStorage.setItem(ACTIVE_CONVERSATION_KEY, activeConversationId);
             } catch (error) {
-                console.error("Failed to save chat history:", error);
+                console.error("Failed to save the open conversation:", error);
             }
         }
-    }, [messages, isHydrated]);
+    }, [activeConversationId, isHydrated]);
 
     // Save dark mode preference
     useEffect(() => {
@@ -189,6 +252,40 @@ export default function Chatbot() {
         }
     }, [darkMode, isHydrated]);
 
+    // Save unit system preference
+    useEffect(() => {
+        if (isHydrated) {
+            try {
+                localStorage.setItem(UNIT_SYSTEM_KEY, unitSystem);
+            } catch (error) {
+                console.error("Failed to save unit system preference:", error);
+            }
+        }
+    }, [unitSystem, isHydrated]);
+
+    // Save well profiles
+    useEffect(() => {
+        if (isHydrated) {
+            try {
+                localStorage.setItem(WELL_PROFILES_KEY, JSON.stringify({ profiles: wellProfiles, activeId: activeWellId }));
+            } catch (error) {
+                console.error("Failed to save well profiles:", error);
+            }
+        }
+    }, [wellProfiles, activeWellId, isHydrated]);
+
+    // Save model choice
+    useEffect(() => {
+        if (isHydrated) {
+            try {
+                if (selectedModel) localStorage.setItem(MODEL_KEY, selectedModel);
+                else localStorage.removeItem(MODEL_KEY);
+            } catch (error) {
+                console.error("Failed to save model choice:", error);
+            }
+        }
+    }, [selectedModel, isHydrated]);
+
     // Effect to close dropdowns when clicking outside
     useEffect(() => {
         function handleClickOutside(event: MouseEvent) {
@@ -217,83 +314,212 @@ export default function Chatbot() {
         setDarkMode(prev => !prev);
     };
 
-    // Clear chat history
+    // Toggle between oilfield and SI units
+    const toggleUnitSystem = () => {
+        setUnitSystem(prev => (prev === 'oilfield' ? 'si' : 'oilfield'));
+    };
+
+    // Open the kill sheet panel, optionally pre-filled
+    const openKillSheet = (prefill?: KillSheetPrefill) => {
+        setKillSheet({ key: Date.now(), prefill });
+    };
+
+    // Replace one part of a message, e.g. a chart saved from the chart editor (kept in the history)
+    const updateMessagePart = (messageIndex: number, partIndex: number, part: ContentPart) => {
+        setMessages(prev => prev.map((message, i) => (i === messageIndex && message.parts
+            ? { ...message, parts: message.parts.map((existing, j) => (j === partIndex ? part : existing)) }
+            : message)));
+    };
+
+    // Post a chart plotted from a table into the conversation as an assistant message
+    const addTableChartToChat = (graph: GraphData) => {
+        const text = `Chart of the table${graph.title ? ` "${graph.title}"` : ''}, plotted from its values.`;
+        setMessages(prev => [...prev, {
+            role: 'assistant',
+            content: text,
+            parts: [
+                { type: 'markdown', text },
+                { type: 'graph', graph },
+            ],
+        }]);
+    };
+
+    // Post a completed kill sheet into the conversation as an assistant message
+    const addKillSheetToChat = (inputs: KillSheetInputs, result: KillSheetResult) => {
+        const report = (value: number, unit: string) => {
+            const converted = toUnitSystem(value, unit, unitSystem);
+            return `${formatNumber(converted.value)} ${converted.unit}`;
+        };
+        const summary = [
+            `**Kill sheet** (Handbook p. ${result.reference.page})`,
+            '',
+            `- Kill weight mud: **${report(result.killMudWeightRounded, 'ppg')}**`,
+            `- Initial circulating pressure: **${report(result.icp, 'psi')}**`,
+            `- Final circulating pressure: **${report(result.fcp, 'psi')}**`,
+            `- Strokes to bit: **${result.strokesToBit} stk**`,
+            ...result.warnings.map(warning => `- ⚠️ ${warning}`),
+            '',
+            result.latex,
+        ].join('\n');
+        setMessages(prev => [...prev, {
+            role: 'assistant',
+            content: summary,
+            parts: [
+                { type: 'markdown', text: summary },
+                { type: 'graph', graph: result.graph },
+                { type: 'table', table: result.table },
+            ],
+            killSheet: inputs,
+        }]);
+        setKillSheet(null);
+    };
+
+    // Clear the open conversation's messages (the conversation itself stays)
     const clearChatHistory = () => {
         setMessages([]);
         setShowConfirmClear(false);
-        try {
-            localStorage.removeItem(CHAT_HISTORY_KEY);
-        } catch (error) {
-            console.error("Failed to clear chat history from localStorage:", error);
+    };
+
+    // --- Conversations ---
+    // Switching is disabled while an answer arrives, so it always lands in the conversation it was asked in
+    function openConversation(conversation: Conversation) {
+        const restored = readStoredMessages(conversation.messages);
+        openedMessagesRef.current = restored;
+        setMessages(restored);
+        setActiveConversationId(conversation.id);
+        setShowConfirmClear(false);
+    }
+
+    const createNewConversation = () => {
+        const active = conversations.find(c => c.id === activeConversationId);
+        if (active && active.messages.length === 0 && messages.length === 0) return; // Already on an empty one
+        const conversation = createConversation();
+        unsavedConversationIds.current.add(conversation.id);
+        setConversations(prev => [conversation, ...prev]);
+        openConversation(conversation);
+    };
+
+    const updateConversation = (id: string, changes: Partial<Pick<Conversation, 'title' | 'pinned'>>) => {
+        unsavedConversationIds.current.add(id);
+        setConversations(prev => prev.map(c => (c.id === id ? { ...c, ...changes } : c)));
+    };
+
+    const removeConversation = (id: string) => {
+        const remaining = conversations.filter(c => c.id !== id);
+        const replacement = remaining.length === 0 ? createConversation() : null; // There is always one to chat in
+        if (replacement) unsavedConversationIds.current.add(replacement.id);
+        setConversations(replacement ? [replacement] : remaining);
+        if (id === activeConversationId) openConversation(replacement ?? sortConversations(remaining)[0]);
+        if (!storageUnavailable.current) deleteConversation(id).catch(error => console.error("Failed to delete conversation:", error));
+        // A shared copy goes too, which revokes its links (only conversations shared from here have a key)
+        const ownerKey = serverSharing ? getConversationKey(id) : null;
+        if (ownerKey) {
+            fetch(`/api/conversations/${encodeURIComponent(id)}`, { method: 'DELETE', headers: { [OWNER_KEY_HEADER]: ownerKey } })
+                .then(response => {
+                    if (!response.ok && response.status !== 404) throw new Error(`API error ${response.status}`);
+                    forgetConversationKey(id);
+                })
+                .catch(error => console.error("Failed to delete the shared copy:", error));
         }
     };
 
     // --- Shared API Call Logic ---
+    // The answer streams into `streamingParts`; Stop aborts the request and keeps what has arrived
     const callChatApi = useCallback(async (currentMessages: Message[]) => {
         setIsLoading(true);
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        let partial: ContentPart[] = [];
         try {
             const response = await fetch('/api/chat', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ messages: currentMessages }),
+                body: JSON.stringify({ messages: currentMessages, unitSystem, wellProfile: activeWell ?? undefined, model: selectedModel ?? undefined, stream: true }),
+                signal: controller.signal,
             });
 
-            const responseData = await response.json();
-
-            if (!response.ok) {
-                const errorDetails = responseData?.details || responseData?.error || `API error ${response.status}`;
-                console.error("API Error Response:", responseData);
-                throw new Error(errorDetails);
+            let responseData: ChatApiResponse | undefined;
+            if (response.ok && response.body && response.headers.get('content-type')?.includes(SSE_CONTENT_TYPE)) {
+                setStreamingParts([]);
+                for await (const event of readChatStream(response.body)) {
+                    if (event.type === 'delta') {
+                        // Continue the last markdown part, or start one after a chart or table
+                        const last = partial[partial.length - 1];
+                        partial = last?.type === 'markdown'
+                            ? [...partial.slice(0, -1), { type: 'markdown', text: last.text + event.content }]
+                            : [...partial, { type: 'markdown', text: event.content }];
+                        setStreamingParts(partial);
+                        setStreamStatus(null);
+                    } else if (event.type === 'part') {
+                        partial = [...partial, event.part];
+                        setStreamingParts(partial);
+                        setStreamingPending(false);
+                    } else if (event.type === 'pending') {
+                        setStreamingPending(true);
+                    } else if (event.type === 'reset') {
+                        partial = [];
+                        setStreamingParts([]);
+                        setStreamingPending(false);
+                    } else if (event.type === 'tool') {
+                        setStreamStatus(`Running ${event.title}…`);
+                    } else if (event.type === 'retry') {
+                        setStreamStatus(event.delayMs > 0 ? `Model busy, retrying ${event.model} in ${Math.ceil(event.delayMs / 1000)} s…` : `Trying ${event.model}…`);
+                    } else if (event.type === 'repair') {
+                        setStreamStatus(`Correcting ${event.blocks === 1 ? 'an invalid chart or table' : `${event.blocks} invalid charts or tables`}…`);
+                    } else if (event.type === 'error') {
+                        console.error("API Error Event:", event);
+                        throw new Error(event.details || event.error);
+                    } else if (event.type === 'done') {
+                        responseData = event.response as ChatApiResponse;
+                    }
+                }
+                if (!responseData) throw new Error("The response stream ended before the answer was complete.");
+            } else {
+                responseData = await response.json() as ChatApiResponse;
+                if (!response.ok) {
+                    const errorDetails = responseData?.details || responseData?.error || `API error ${response.status}`;
+                    console.error("API Error Response:", responseData);
+                    throw new Error(errorDetails);
+                }
             }
 
-            if (!responseData.choices?.[0]?.message?.content) {
+            const answer = readEnvelope(responseData.envelope);
+            if (answer.parts.length === 0) {
                 console.error("Unexpected successful API response format:", responseData);
                 throw new Error("Received unexpected data format from the assistant.");
             }
 
-            let content = responseData.choices[0].message.content;
-            let graphData: GraphData | undefined = undefined;
-            let tableData: TableData | undefined = undefined;
-
-            // Parse Graph Data
-            const graphDataMatch = content.match(/<!--GRAPH_DATA:(.*?)-->/s);
-            if (graphDataMatch?.[1]) {
-                try {
-                    const potentialGraphData = JSON.parse(graphDataMatch[1]);
-                    if (potentialGraphData?.type && potentialGraphData?.data) {
-                        graphData = potentialGraphData;
-                        content = content.replace(/<!--GRAPH_DATA:(.*?)-->/s, '').trim();
-                        console.log("Parsed graph data:", graphData);
-                    } else { console.warn("Found graph marker but content invalid:", graphDataMatch[1]); }
-                } catch (error) { console.error("Failed to parse graph data JSON:", error, "\nData:", graphDataMatch[1]); }
-            }
-
-            // Parse Table Data (only if graph not found)
-            if (!graphData) {
-                const tableDataMatch = content.match(/<!--TABLE_DATA:(.*?)-->/s);
-                if (tableDataMatch?.[1]) {
-                    try {
-                        const potentialTableData = JSON.parse(tableDataMatch[1]);
-                        if (potentialTableData?.headers && Array.isArray(potentialTableData.headers) &&
-                            potentialTableData?.rows && Array.isArray(potentialTableData.rows)) {
-                            tableData = potentialTableData;
-                            content = content.replace(/<!--TABLE_DATA:(.*?)-->/s, '').trim();
-                            console.log("Parsed table data:", tableData);
-                        } else { console.warn("Found table marker but content invalid:", tableDataMatch[1]); }
-                    } catch (error) { console.error("Failed to parse table data JSON:", error, "\nData:", tableDataMatch[1]); }
-                }
-            }
-
             const assistantMessage: Message = {
                 role: 'assistant',
-                content: content.trim(),
-                graphData: graphData,
-                tableData: tableData,
+                content: getMarkdownText(answer.parts),
+                parts: answer.parts,
+                sources: sanitizeSources(answer.sources),
+                calculations: sanitizeCalculations(answer.calculations),
+                killSheet: sanitizeKillSheet(responseData.killSheet),
+                warnings: sanitizeWarnings(responseData.warnings),
+                answeredBy: sanitizeAnsweredBy(responseData.answeredBy),
             };
 
-            setMessages(prev => [...prev, assistantMessage]);
+            // Mark the messages the server shortened to fit the model context for this answer
+            const compactions = readCompactions(responseData.context);
+            setMessages(prev => [
+                ...prev.map((m, i) => (i < currentMessages.length && m.contextCompaction !== compactions.get(i) ? { ...m, contextCompaction: compactions.get(i) } : m)),
+                assistantMessage,
+            ]);
+            if (assistantMessage.killSheet) {
+                setKillSheet({ key: Date.now(), prefill: assistantMessage.killSheet });
+            }
 
         } catch (error) {
+            if (controller.signal.aborted) {
+                // Stopped by the user: keep the partial answer
+                console.log("Response stopped by the user.");
+                const parts = partial.map(part => (part.type === 'markdown' ? { ...part, text: part.text.trim() } : part)).filter(part => part.type !== 'markdown' || part.text);
+                if (parts.length > 0) {
+                    setMessages(prev => [...prev, { role: 'assistant', content: getMarkdownText(parts), parts, stopped: true }]);
+                }
+                return;
+            }
             console.error('Error sending message or processing response:', error);
             const displayError = error instanceof Error ? error.message : 'An unknown error occurred.';
             setMessages(prev => [
@@ -301,11 +527,20 @@ export default function Chatbot() {
                 { role: 'assistant', content: `Sorry, there was an error processing the request: ${displayError}` }
             ]);
         } finally {
+            abortControllerRef.current = null;
+            setStreamingParts(null);
+            setStreamingPending(false);
+            setStreamStatus(null);
             setIsLoading(false);
             // Refocus on text input after any API call completes
             document.querySelector<HTMLInputElement>('input[aria-label="Chat input"]')?.focus();
         }
-    }, []); // Dependencies for useCallback
+    }, [unitSystem, activeWell, selectedModel]); // Dependencies for useCallback
+
+    // Stop the response in progress
+    const stopResponse = () => {
+        abortControllerRef.current?.abort();
+    };
 
     // --- Handle Submit (for typed user input) ---
     const handleSubmit = async (e: React.FormEvent) => {
@@ -346,252 +581,503 @@ export default function Chatbot() {
 
     // --- JSX Structure ---
     return (
-        <div className={`flex flex-col h-[750px] w-full max-w-4xl mx-auto border rounded-lg shadow-xl overflow-hidden ${
+        <div className={`relative flex h-[750px] w-full ${showSidebar ? 'max-w-6xl' : 'max-w-4xl'} mx-auto border rounded-lg shadow-xl overflow-hidden ${
             darkMode 
                 ? 'bg-slate-900 border-slate-700 text-white' 
                 : 'bg-slate-50 border-slate-300 text-slate-900'
         }`}>
-            {/* Header */}
-            <div className={`p-4 flex items-center justify-between border-b shadow-sm ${
-                darkMode
-                    ? 'border-slate-700 bg-gradient-to-r from-slate-900 to-slate-800'
-                    : 'border-slate-200 bg-gradient-to-r from-slate-700 to-slate-900 text-white'
-            }`}>
-                <div className="flex items-center space-x-2">
-                    {/* Theme Toggle Button */}
+            {/* Conversations Sidebar */}
+            {showSidebar && (
+                <ConversationSidebar
+                    conversations={sortConversations(conversations)}
+                    activeId={activeConversationId}
+                    darkMode={darkMode}
+                    disabled={isLoading || !isHydrated}
+                    onSelect={id => {
+                        const conversation = conversations.find(c => c.id === id);
+                        if (conversation && id !== activeConversationId) openConversation(conversation);
+                    }}
+                    onCreate={createNewConversation}
+                    onRename={(id, title) => updateConversation(id, { title })}
+                    onDelete={removeConversation}
+                    onTogglePin={id => updateConversation(id, { pinned: !conversations.find(c => c.id === id)?.pinned })}
+                    onShare={serverSharing ? id => setSharingConversation(conversations.find(c => c.id === id) ?? null) : undefined}
+                />
+            )}
+
+            <div className="flex flex-col flex-1 min-w-0">
+                {/* Header */}
+                <div className={`p-4 flex items-center justify-between border-b shadow-sm ${
+                    darkMode
+                        ? 'border-slate-700 bg-gradient-to-r from-slate-900 to-slate-800'
+                        : 'border-slate-200 bg-gradient-to-r from-slate-700 to-slate-900 text-white'
+                }`}>
+                    <div className="flex items-center space-x-2">
+                        {/* Sidebar Toggle Button */}
+                        <button
+                            onClick={() => setShowSidebar(prev => !prev)}
+                            className={`p-2 rounded-full focus:outline-none focus:ring-2 focus:ring-offset-2 ${
+                                darkMode
+                                    ? 'text-slate-300 hover:bg-slate-800 focus:ring-blue-500'
+                                    : 'text-slate-200 hover:bg-slate-800 focus:ring-blue-400'
+                            }`}
+                            aria-label={showSidebar ? "Hide conversations" : "Show conversations"}
+                            aria-expanded={showSidebar}
+                            title={showSidebar ? "Hide conversations" : "Show conversations"}
+                        >
+                            <Bars3Icon className="h-5 w-5" />
+                        </button>
+
+                        {/* Theme Toggle Button */}
+                        <button
+                            onClick={toggleDarkMode}
+                            className={`p-2 rounded-full focus:outline-none focus:ring-2 focus:ring-offset-2 ${
+                                darkMode 
+                                    ? 'text-yellow-300 hover:bg-slate-800 focus:ring-yellow-400' 
+                                    : 'text-yellow-400 hover:bg-slate-800 focus:ring-yellow-400'
+                            }`}
+                            aria-label={darkMode ? "Switch to light mode" : "Switch to dark mode"}
+                            title={darkMode ? "Switch to light mode" : "Switch to dark mode"}
+                        >
+                            {darkMode ? <SunIcon className="h-5 w-5" /> : <MoonIcon className="h-5 w-5" />}
+                        </button>
+
+                        {/* Unit System Toggle */}
+                        <button
+                            onClick={toggleUnitSystem}
+                            className={`px-3 py-1 text-xs font-semibold rounded-full border focus:outline-none focus:ring-2 focus:ring-offset-2 ${
+                                darkMode
+                                    ? 'border-slate-600 text-slate-200 hover:bg-slate-800 focus:ring-blue-500'
+                                    : 'border-slate-500 text-white hover:bg-slate-800 focus:ring-blue-400'
+                            }`}
+                            aria-label={`Units: ${UNIT_SYSTEM_LABELS[unitSystem]}. Switch to ${UNIT_SYSTEM_LABELS[unitSystem === 'oilfield' ? 'si' : 'oilfield']} units`}
+                            title={`Switch to ${UNIT_SYSTEM_LABELS[unitSystem === 'oilfield' ? 'si' : 'oilfield']} units`}
+                        >
+                            {UNIT_SYSTEM_LABELS[unitSystem]}
+                        </button>
+
+                        {/* Kill Sheet Button */}
+                        <button
+                            onClick={() => openKillSheet(activeWell ? getKillSheetPrefill(activeWell) : undefined)}
+                            className={`p-2 rounded-full focus:outline-none focus:ring-2 focus:ring-offset-2 ${
+                                darkMode
+                                    ? 'text-red-300 hover:bg-slate-800 focus:ring-red-500'
+                                    : 'text-red-300 hover:bg-slate-800 focus:ring-red-400'
+                            }`}
+                            aria-label="Open kill sheet"
+                            title="Open kill sheet"
+                        >
+                            <ClipboardDocumentListIcon className="h-5 w-5" />
+                        </button>
+
+                        {/* Well Profile Button */}
+                        <button
+                            onClick={() => setShowWellProfiles(true)}
+                            className={`inline-flex items-center gap-1 max-w-[10rem] px-3 py-1 text-xs font-semibold rounded-full border focus:outline-none focus:ring-2 focus:ring-offset-2 ${
+                                darkMode
+                                    ? 'border-slate-600 text-slate-200 hover:bg-slate-800 focus:ring-blue-500'
+                                    : 'border-slate-500 text-white hover:bg-slate-800 focus:ring-blue-400'
+                            }`}
+                            aria-label={activeWell ? `Active well: ${activeWell.name}. Edit well profiles` : 'No active well. Edit well profiles'}
+                            title="Well profiles"
+                        >
+                            <MapPinIcon className="h-4 w-4 flex-shrink-0" />
+                            <span className="truncate">{activeWell ? activeWell.name : 'No well'}</span>
+                        </button>
+
+                        {/* Model Picker (only when the server allows a choice) */}
+                        {availableModels.length > 1 && (
+                            <select
+                                value={selectedModel ?? availableModels[0]}
+                                onChange={e => setSelectedModel(e.target.value === availableModels[0] ? null : e.target.value)}
+                                disabled={isLoading}
+                                className={`max-w-[10rem] truncate px-2 py-1 text-xs font-semibold rounded-full border bg-transparent focus:outline-none focus:ring-2 focus:ring-offset-2 ${
+                                    darkMode
+                                        ? 'border-slate-600 text-slate-200 hover:bg-slate-800 focus:ring-blue-500'
+                                        : 'border-slate-500 text-white hover:bg-slate-800 focus:ring-blue-400'
+                                }`}
+                                aria-label="Model"
+                                title="Model used for answers"
+                            >
+                                {availableModels.map(model => (
+                                    <option key={model} value={model} className="text-slate-900">{model}</option>
+                                ))}
+                            </select>
+                        )}
+                    </div>
+
+                    {/* Title */}
+                    <h2 className="text-lg font-semibold text-center tracking-wide flex-1">
+                        Drilling Formula, Graph & Table Assistant
+                    </h2>
+
+                    {/* Export Report Button */}
                     <button
-                        onClick={toggleDarkMode}
-                        className={`p-2 rounded-full focus:outline-none focus:ring-2 focus:ring-offset-2 ${
-                            darkMode 
-                                ? 'text-yellow-300 hover:bg-slate-800 focus:ring-yellow-400' 
-                                : 'text-yellow-400 hover:bg-slate-800 focus:ring-yellow-400'
+                        onClick={() => setShowReport(true)}
+                        disabled={messages.length === 0 || isLoading}
+                        className={`p-2 rounded-full focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:cursor-not-allowed ${
+                            darkMode
+                                ? 'text-slate-300 hover:bg-slate-800 focus:ring-blue-500 disabled:text-slate-700'
+                                : 'text-slate-200 hover:bg-slate-800 focus:ring-blue-400 disabled:text-slate-400'
                         }`}
-                        aria-label={darkMode ? "Switch to light mode" : "Switch to dark mode"}
-                        title={darkMode ? "Switch to light mode" : "Switch to dark mode"}
+                        aria-label="Export report"
+                        title={messages.length === 0 ? "No messages to export" : "Export as a report (HTML, Markdown or PDF)"}
                     >
-                        {darkMode ? <SunIcon className="h-5 w-5" /> : <MoonIcon className="h-5 w-5" />}
+                        <DocumentTextIcon className="h-5 w-5" />
                     </button>
+
+                    {/* Clear History Button / Confirmation */}
+                    <div className="relative">
+                        {showConfirmClear ? (
+                            <div className={`absolute right-0 top-0 p-2 rounded-md shadow-lg ${
+                                darkMode ? 'bg-slate-800 border border-slate-700' : 'bg-white border border-slate-200'
+                            }`}>
+                                <p className={`text-xs mb-2 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>
+                                    Clear this conversation?
+                                </p>
+                                <div className="flex space-x-1">
+                                    <button
+                                        onClick={clearChatHistory}
+                                        className="px-2 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-700"
+                                    >
+                                        Yes
+                                    </button>
+                                    <button
+                                        onClick={() => setShowConfirmClear(false)}
+                                        className={`px-2 py-1 text-xs rounded ${
+                                            darkMode 
+                                                ? 'bg-slate-700 text-slate-200 hover:bg-slate-600' 
+                                                : 'bg-slate-200 text-slate-800 hover:bg-slate-300'
+                                        }`}
+                                    >
+                                        No
+                                    </button>
+                                </div>
+                            </div>
+                        ) : (
+                            <button
+                                onClick={() => messages.length > 0 && setShowConfirmClear(true)}
+                                disabled={messages.length === 0}
+                                className={`p-2 rounded-full focus:outline-none focus:ring-2 focus:ring-offset-2 ${
+                                    darkMode 
+                                        ? messages.length === 0 
+                                            ? 'text-slate-700 cursor-not-allowed' 
+                                            : 'text-red-400 hover:bg-slate-800 focus:ring-red-500' 
+                                        : messages.length === 0 
+                                            ? 'text-slate-400 cursor-not-allowed' 
+                                            : 'text-red-500 hover:bg-slate-800 focus:ring-red-500'
+                                }`}
+                                aria-label="Clear this conversation"
+                                title={messages.length === 0 ? "No messages to clear" : "Clear this conversation"}
+                            >
+                                <TrashIcon className="h-5 w-5" />
+                            </button>
+                        )}
+                    </div>
                 </div>
 
-                {/* Title */}
-                <h2 className="text-lg font-semibold text-center tracking-wide flex-1">
-                    Drilling Formula, Graph & Table Assistant
-                </h2>
-
-                {/* Clear History Button / Confirmation */}
-                <div className="relative">
-                    {showConfirmClear ? (
-                        <div className={`absolute right-0 top-0 p-2 rounded-md shadow-lg ${
-                            darkMode ? 'bg-slate-800 border border-slate-700' : 'bg-white border border-slate-200'
-                        }`}>
-                            <p className={`text-xs mb-2 ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>
-                                Clear history?
+                {/* Storage Warning */}
+                {storageError && (
+                    <p className={`flex items-center gap-1 px-4 py-2 text-xs border-b ${darkMode ? 'bg-amber-950/40 border-amber-800 text-amber-200' : 'bg-amber-50 border-amber-300 text-amber-900'}`}>
+                        <ExclamationTriangleIcon className="h-4 w-4 flex-shrink-0" />
+                        {storageError}
+                    </p>
+                )}
+
+                {/* Messages Area */}
+                <div className={`flex-1 p-5 md:p-8 space-y-5 overflow-y-auto custom-scrollbar ${
+                    darkMode ? 'bg-slate-800' : 'bg-white'
+                }`}>
+                    {!isHydrated ? (
+                        <div className={`text-center mt-12 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                            <p>Loading chat...</p>
+                        </div>
+                    ) : messages.length === 0 && !isLoading ? (
+                        <div className={`text-center mt-12 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                             <SparklesIcon className={`h-12 w-12 mx-auto mb-2 ${darkMode ? 'text-slate-500' : 'text-slate-400'}`} />
+                            <p className={`mt-3 text-lg font-medium ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>
+                                Welcome!
+                            </p>
+                            <p className={darkMode ? 'text-slate-400' : 'text-slate-500'}>
+                                Ask for calculations, concepts, graphs, or tables.
+                            </p>
+                            <p className={`mt-4 text-sm italic ${darkMode ? 'text-slate-500' : 'text-slate-400'}`}>
+                                e.g., "Calculate ECD", "Show pressure vs depth as a line chart", "Create a table of mud properties"
+                            </p>
+                            <p className={`mt-2 text-sm italic ${darkMode ? 'text-slate-500' : 'text-slate-400'}`}>
+                                Or use the <ChartBarIcon className="inline h-4 w-4 align-text-bottom" /> button to visualize current chat data.
                             </p>
-                            <div className="flex space-x-1">
-                                <button
-                                    onClick={clearChatHistory}
-                                    className="px-2 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-700"
-                                >
-                                    Yes
-                                </button>
-                                <button
-                                    onClick={() => setShowConfirmClear(false)}
-                                    className={`px-2 py-1 text-xs rounded ${
-                                        darkMode 
-                                            ? 'bg-slate-700 text-slate-200 hover:bg-slate-600' 
-                                            : 'bg-slate-200 text-slate-800 hover:bg-slate-300'
-                                    }`}
-                                >
-                                    No
-                                </button>
-                            </div>
                         </div>
                     ) : (
-                        <button
-                            onClick={() => messages.length > 0 && setShowConfirmClear(true)}
-                            disabled={messages.length === 0}
-                            className={`p-2 rounded-full focus:outline-none focus:ring-2 focus:ring-offset-2 ${
-                                darkMode 
-                                    ? messages.length === 0 
-                                        ? 'text-slate-700 cursor-not-allowed' 
-                                        : 'text-red-400 hover:bg-slate-800 focus:ring-red-500' 
-                                    : messages.length === 0 
-                                        ? 'text-slate-400 cursor-not-allowed' 
-                                        : 'text-red-500 hover:bg-slate-800 focus:ring-red-500'
-                            }`}
-                            aria-label="Clear chat history"
-                            title={messages.length === 0 ? "No history to clear" : "Clear chat history"}
-                        >
-                            <TrashIcon className="h-5 w-5" />
-                        </button>
+                        // Render Messages
+                        messages.map((message, index) => (
+                            <div key={index} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                                <div className={`px-4 py-3 rounded-xl shadow-sm max-w-xl md:max-w-2xl lg:max-w-[85%] break-words ${
+                                    message.role === 'user' 
+                                        ? 'bg-blue-600 text-white' 
+                                        : darkMode 
+                                            ? 'bg-slate-700 text-slate-100 border border-slate-600' 
+                                            : 'bg-slate-100 text-slate-900 border border-slate-200'
+                                }`}>
+                                    {message.role === 'assistant' ? (
+                                        <ChatMessageContent
+                                            content={message.content}
+                                            parts={message.parts}
+                                            sources={message.sources}
+                                            calculations={message.calculations}
+                                            warnings={message.warnings}
+                                            unitSystem={unitSystem}
+                                            darkMode={darkMode}
+                                            onPartChange={(partIndex, part) => updateMessagePart(index, partIndex, part)}
+                                            onAddChart={addTableChartToChat}
+                                        />
+                                    ) : (
+                                        <span style={{ whiteSpace: 'pre-wrap' }}>{message.content}</span>
+                                    )}
+                                    {message.stopped && (
+                                        <p className={`mt-2 text-xs italic ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>Stopped before the answer was complete.</p>
+                                    )}
+                                    {message.contextCompaction && (
+                                        <p className={`mt-2 flex items-center gap-1 text-xs italic ${
+                                            message.role === 'user' ? 'text-blue-100' : darkMode ? 'text-slate-400' : 'text-slate-500'
+                                        }`}>
+                                            <ArchiveBoxIcon className="h-3.5 w-3.5 flex-shrink-0" />
+                                            {CONTEXT_COMPACTION_LABELS[message.contextCompaction]}
+                                        </p>
+                                    )}
+                                    {message.answeredBy && (
+                                        <p
+                                            className={`mt-2 text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}
+                                            title={`${message.answeredBy.provider ? `${message.answeredBy.provider}, ` : ''}${message.answeredBy.attempts} attempt${message.answeredBy.attempts === 1 ? '' : 's'}`}
+                                        >
+                                            Answered by {message.answeredBy.model}
+                                            {message.answeredBy.model !== message.answeredBy.requestedModel && (
+                                                <span className={darkMode ? 'text-amber-300' : 'text-amber-700'}> (fallback; {message.answeredBy.requestedModel} was unavailable)</span>
+                                            )}
+                                        </p>
+                                    )}
+                                    {message.killSheet && (
+                                        <button
+                                            type="button"
+                                            onClick={() => openKillSheet(message.killSheet)}
+                                            className={`mt-3 inline-flex items-center gap-1 px-3 py-1 text-xs font-medium rounded-full border ${
+                                                darkMode
+                                                    ? 'border-red-700 text-red-300 hover:bg-red-900/40'
+                                                    : 'border-red-300 text-red-700 hover:bg-red-50'
+                                            }`}
+                                        >
+                                            <ClipboardDocumentListIcon className="h-4 w-4" />
+                                            Open kill sheet
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        ))
                     )}
-                </div>
-            </div>
 
-            {/* Messages Area */}
-            <div className={`flex-1 p-5 md:p-8 space-y-5 overflow-y-auto custom-scrollbar ${
-                darkMode ? 'bg-slate-800' : 'bg-white'
-            }`}>
-                {!isHydrated ? (
-                    <div className={`text-center mt-12 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
-                        <p>Loading chat...</p>
-                    </div>
-                ) : messages.length === 0 && !isLoading ? (
-                    <div className={`text-center mt-12 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
-                         <SparklesIcon className={`h-12 w-12 mx-auto mb-2 ${darkMode ? 'text-slate-500' : 'text-slate-400'}`} />
-                        <p className={`mt-3 text-lg font-medium ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}>
-                            Welcome!
-                        </p>
-                        <p className={darkMode ? 'text-slate-400' : 'text-slate-500'}>
-                            Ask for calculations, concepts, graphs, or tables.
-                        </p>
-                        <p className={`mt-4 text-sm italic ${darkMode ? 'text-slate-500' : 'text-slate-400'}`}>
-                            e.g., "Calculate ECD", "Show pressure vs depth as a line chart", "Create a table of mud properties"
-                        </p>
-                        <p className={`mt-2 text-sm italic ${darkMode ? 'text-slate-500' : 'text-slate-400'}`}>
-                            Or use the <ChartBarIcon className="inline h-4 w-4 align-text-bottom" /> button to visualize current chat data.
-                        </p>
-                    </div>
-                ) : (
-                    // Render Messages
-                    messages.map((message, index) => (
-                        <div key={index} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                    {/* Streaming Answer */}
+                    {isStreaming && (
+                        <div className="flex justify-start">
                             <div className={`px-4 py-3 rounded-xl shadow-sm max-w-xl md:max-w-2xl lg:max-w-[85%] break-words ${
-                                message.role === 'user' 
-                                    ? 'bg-blue-600 text-white' 
-                                    : darkMode 
-                                        ? 'bg-slate-700 text-slate-100 border border-slate-600' 
-                                        : 'bg-slate-100 text-slate-900 border border-slate-200'
+                                darkMode
+                                    ? 'bg-slate-700 text-slate-100 border border-slate-600'
+                                    : 'bg-slate-100 text-slate-900 border border-slate-200'
                             }`}>
-                                {message.role === 'assistant' ? (
-                                    <ChatMessageContent
-                                        content={message.content}
-                                        graphData={message.graphData}
-                                        tableData={message.tableData}
-                                        darkMode={darkMode}
-                                    />
-                                ) : (
-                                    <span style={{ whiteSpace: 'pre-wrap' }}>{message.content}</span>
+                                <ChatMessageContent
+                                    content={getMarkdownText(streamingParts ?? [])}
+                                    parts={streamingParts ?? []}
+                                    unitSystem={unitSystem}
+                                    darkMode={darkMode}
+                                />
+                                {streamingPending && (
+                                    <p className={`mt-2 text-xs italic animate-pulse ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>Preparing chart or table…</p>
                                 )}
                             </div>
                         </div>
-                    ))
-                )}
+                    )}
 
-                {/* Loading Indicator */}
-                {isLoading && (
-                    <div className="flex justify-start">
-                        <div className={`px-4 py-3 rounded-xl shadow-sm animate-pulse ${
-                            darkMode 
-                                ? 'bg-slate-700 text-slate-100 border border-slate-600' 
-                                : 'bg-slate-100 text-slate-900 border border-slate-200'
-                        }`}>
-                            <div className="flex space-x-1 items-center">
-                                <div className={`h-2 w-2 rounded-full animate-bounce [animation-delay:-0.3s] ${
-                                    darkMode ? 'bg-slate-500' : 'bg-slate-400'
-                                }`}></div>
-                                <div className={`h-2 w-2 rounded-full animate-bounce [animation-delay:-0.15s] ${
-                                    darkMode ? 'bg-slate-500' : 'bg-slate-400'
-                                }`}></div>
-                                <div className={`h-2 w-2 rounded-full animate-bounce ${
-                                    darkMode ? 'bg-slate-500' : 'bg-slate-400'
-                                }`}></div>
+                    {/* Loading Indicator */}
+                    {isLoading && !isStreaming && (
+                        <div className="flex justify-start">
+                            <div className={`px-4 py-3 rounded-xl shadow-sm animate-pulse ${
+                                darkMode 
+                                    ? 'bg-slate-700 text-slate-100 border border-slate-600' 
+                                    : 'bg-slate-100 text-slate-900 border border-slate-200'
+                            }`}>
+                                <div className="flex space-x-1 items-center">
+                                    <div className={`h-2 w-2 rounded-full animate-bounce [animation-delay:-0.3s] ${
+                                        darkMode ? 'bg-slate-500' : 'bg-slate-400'
+                                    }`}></div>
+                                    <div className={`h-2 w-2 rounded-full animate-bounce [animation-delay:-0.15s] ${
+                                        darkMode ? 'bg-slate-500' : 'bg-slate-400'
+                                    }`}></div>
+                                    <div className={`h-2 w-2 rounded-full animate-bounce ${
+                                        darkMode ? 'bg-slate-500' : 'bg-slate-400'
+                                    }`}></div>
+                                    {streamStatus && (
+                                        <span className={`pl-2 text-xs ${darkMode ? 'text-slate-300' : 'text-slate-600'}`}>{streamStatus}</span>
+                                    )}
+                                </div>
                             </div>
                         </div>
-                    </div>
-                )}
-                <div ref={messagesEndRef} />
-            </div>
+                    )}
+                    <div ref={messagesEndRef} />
+                </div>
 
-            {/* Input Form Area */}
-            <div className={`p-4 border-t ${
-                darkMode ? 'bg-slate-900 border-slate-700' : 'bg-slate-100 border-slate-200'
-            }`}>
-                <form onSubmit={handleSubmit} className="flex items-center space-x-3 relative">
-                     {/* Visualize Button */}
-                     <div className="relative">
-                         <button
-                            ref={vizButtonRef}
-                            type="button"
-                            onClick={() => setShowVizOptions(!showVizOptions)}
-                            className={`p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-offset-2 transition duration-150 ease-in-out ${
-                                isLoading || !isHydrated || messages.length === 0
-                                    ? darkMode 
-                                        ? 'bg-slate-800 text-slate-600 cursor-not-allowed border-slate-700'
-                                        : 'bg-slate-300 text-slate-500 cursor-not-allowed border-slate-400'
-                                    : darkMode
-                                        ? 'bg-indigo-900 text-indigo-400 hover:bg-indigo-800 border-indigo-700 focus:ring-indigo-700' 
-                                        : 'bg-indigo-100 text-indigo-700 hover:bg-indigo-200 border-indigo-300 focus:ring-indigo-500'
-                            }`}
-                            disabled={isLoading || !isHydrated || messages.length === 0}
-                            aria-label="Visualize chat data"
-                            title={messages.length === 0 ? "Chat history needed to visualize" : "Visualize chat data"}
-                        >
-                            <ChartBarIcon className="h-5 w-5" />
-                        </button>
+                {/* Input Form Area */}
+                <div className={`p-4 border-t ${
+                    darkMode ? 'bg-slate-900 border-slate-700' : 'bg-slate-100 border-slate-200'
+                }`}>
+                    <form onSubmit={handleSubmit} className="flex items-center space-x-3 relative">
+                         {/* Visualize Button */}
+                         <div className="relative">
+                             <button
+                                ref={vizButtonRef}
+                                type="button"
+                                onClick={() => setShowVizOptions(!showVizOptions)}
+                                className={`p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-offset-2 transition duration-150 ease-in-out ${
+                                    isLoading || !isHydrated || messages.length === 0
+                                        ? darkMode 
+                                            ? 'bg-slate-800 text-slate-600 cursor-not-allowed border-slate-700'
+                                            : 'bg-slate-300 text-slate-500 cursor-not-allowed border-slate-400'
+                                        : darkMode
+                                            ? 'bg-indigo-900 text-indigo-400 hover:bg-indigo-800 border-indigo-700 focus:ring-indigo-700' 
+                                            : 'bg-indigo-100 text-indigo-700 hover:bg-indigo-200 border-indigo-300 focus:ring-indigo-500'
+                                }`}
+                                disabled={isLoading || !isHydrated || messages.length === 0}
+                                aria-label="Visualize chat data"
+                                title={messages.length === 0 ? "Chat history needed to visualize" : "Visualize chat data"}
+                            >
+                                <ChartBarIcon className="h-5 w-5" />
+                            </button>
+
+                            {/* Visualization Options Dropdown */}
+                            {showVizOptions && (
+                                <div
+                                    ref={vizOptionsRef}
+                                    className={`absolute bottom-full left-0 mb-2 w-48 rounded-md shadow-lg z-10 overflow-hidden ${
+                                        darkMode 
+                                            ? 'bg-slate-800 border border-slate-700'
+                                            : 'bg-white border border-slate-300'
+                                    }`}
+                                >
+                                    <ul className={`divide-y ${darkMode ? 'divide-slate-700' : 'divide-slate-200'}`}>
+                                        {VIZ_OPTIONS.map((vizType) => (
+                                            <li key={vizType}>
+                                                <button
+                                                    type="button"
+                                                    onClick={() => handleVisualizeRequest(vizType)}
+                                                    className={`w-full text-left px-4 py-2 text-sm capitalize transition-colors duration-100 ease-in-out ${
+                                                        darkMode 
+                                                            ? 'text-slate-300 hover:bg-indigo-900 hover:text-indigo-300'
+                                                            : 'text-slate-700 hover:bg-indigo-50 hover:text-indigo-800'
+                                                    }`}
+                                                >
+                                                    {vizType}
+                                                </button>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+                         </div>
 
-                        {/* Visualization Options Dropdown */}
-                        {showVizOptions && (
-                            <div
-                                ref={vizOptionsRef}
-                                className={`absolute bottom-full left-0 mb-2 w-48 rounded-md shadow-lg z-10 overflow-hidden ${
+                        {/* Input */}
+                        <input
+                            type="text"
+                            value={input}
+                            onChange={(e) => setInput(e.target.value)}
+                            placeholder={isHydrated ? "Ask a question..." : "Loading..."}
+                            className={`flex-1 px-4 py-3 border rounded-lg focus:outline-none focus:ring-2 focus:border-transparent disabled:cursor-not-allowed transition duration-150 ease-in-out ${
+                                darkMode 
+                                    ? 'bg-slate-800 border-slate-700 text-slate-200 placeholder:text-slate-500 focus:ring-blue-600 disabled:bg-slate-900'
+                                    : 'bg-white border-slate-300 text-slate-900 placeholder:text-slate-400 focus:ring-blue-500 disabled:bg-slate-200'
+                            }`}
+                            disabled={isLoading || !isHydrated}
+                            aria-label="Chat input"
+                            autoComplete="off"
+                        />
+                    
+                        {/* Stop Button (while answering) / Send Button */}
+                        {isLoading ? (
+                            <button
+                                type="button"
+                                onClick={stopResponse}
+                                className={`inline-flex items-center justify-center p-3 border-transparent rounded-lg focus:outline-none focus:ring-2 focus:ring-offset-2 transition duration-150 ease-in-out ${
+                                    darkMode
+                                        ? 'bg-red-700 hover:bg-red-800 text-white focus:ring-red-600'
+                                        : 'bg-red-600 hover:bg-red-700 text-white focus:ring-red-500'
+                                }`}
+                                aria-label="Stop response"
+                                title="Stop response"
+                            >
+                                <StopIcon className="h-5 w-5" />
+                            </button>
+                        ) : (
+                            <button
+                                type="submit"
+                                className={`inline-flex items-center justify-center p-3 border-transparent rounded-lg focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition duration-150 ease-in-out ${
                                     darkMode 
-                                        ? 'bg-slate-800 border border-slate-700'
-                                        : 'bg-white border border-slate-300'
+                                        ? 'bg-blue-700 hover:bg-blue-800 text-white focus:ring-blue-600'
+                                        : 'bg-blue-600 hover:bg-blue-700 text-white focus:ring-blue-500'
                                 }`}
+                                disabled={isLoading || !input.trim() || !isHydrated}
+                                aria-label="Send message"
                             >
-                                <ul className={`divide-y ${darkMode ? 'divide-slate-700' : 'divide-slate-200'}`}>
-                                    {VIZ_OPTIONS.map((vizType) => (
-                                        <li key={vizType}>
-                                            <button
-                                                type="button"
-                                                onClick={() => handleVisualizeRequest(vizType)}
-                                                className={`w-full text-left px-4 py-2 text-sm capitalize transition-colors duration-100 ease-in-out ${
-                                                    darkMode 
-                                                        ? 'text-slate-300 hover:bg-indigo-900 hover:text-indigo-300'
-                                                        : 'text-slate-700 hover:bg-indigo-50 hover:text-indigo-800'
-                                                }`}
-                                            >
-                                                {vizType}
-                                            </button>
-                                        </li>
-                                    ))}
-                                </ul>
-                            </div>
+                                <PaperAirplaneIcon className="h-5 w-5" />
+                            </button>
                         )}
-                     </div>
-
-                    {/* Input */}
-                    <input
-                        type="text"
-                        value={input}
-                        onChange={(e) => setInput(e.target.value)}
-                        placeholder={isHydrated ? "Ask a question..." : "Loading..."}
-                        className={`flex-1 px-4 py-3 border rounded-lg focus:outline-none focus:ring-2 focus:border-transparent disabled:cursor-not-allowed transition duration-150 ease-in-out ${
-                            darkMode 
-                                ? 'bg-slate-800 border-slate-700 text-slate-200 placeholder:text-slate-500 focus:ring-blue-600 disabled:bg-slate-900'
-                                : 'bg-white border-slate-300 text-slate-900 placeholder:text-slate-400 focus:ring-blue-500 disabled:bg-slate-200'
-                        }`}
-                        disabled={isLoading || !isHydrated}
-                        aria-label="Chat input"
-                        autoComplete="off"
-                    />
-                    
-                    {/* Send Button */}
-                    <button
-                        type="submit"
-                        className={`inline-flex items-center justify-center p-3 border-transparent rounded-lg focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition duration-150 ease-in-out ${
-                            darkMode 
-                                ? 'bg-blue-700 hover:bg-blue-800 text-white focus:ring-blue-600'
-                                : 'bg-blue-600 hover:bg-blue-700 text-white focus:ring-blue-500'
-                        }`}
-                        disabled={isLoading || !input.trim() || !isHydrated}
-                        aria-label="Send message"
-                    >
-                        <PaperAirplaneIcon className="h-5 w-5" />
-                    </button>
-                </form>
+                    </form>
+                </div>
             </div>
+
+            {/* Well Profiles Panel */}
+            {showWellProfiles && (
+                <WellProfileEditor
+                    profiles={wellProfiles}
+                    activeId={activeWellId}
+                    unitSystem={unitSystem}
+                    darkMode={darkMode}
+                    onChange={(profiles, activeId) => {
+                        setWellProfiles(profiles);
+                        setActiveWellId(activeId);
+                    }}
+                    onClose={() => setShowWellProfiles(false)}
+                />
+            )}
+
+            {/* Report Export Panel */}
+            {showReport && (
+                <ReportExporter
+                    title={conversations.find(c => c.id === activeConversationId)?.title ?? DEFAULT_CONVERSATION_TITLE}
+                    messages={messages}
+                    wellName={activeWell?.name ?? null}
+                    unitSystem={unitSystem}
+                    darkMode={darkMode}
+                    onClose={() => setShowReport(false)}
+                />
+            )}
+
+            {/* Share Links Panel */}
+            {sharingConversation && (
+                <ShareDialog
+                    conversation={sharingConversation}
+                    darkMode={darkMode}
+                    onClose={() => setSharingConversation(null)}
+                />
+            )}
+
+            {/* Kill Sheet Panel */}
+            {killSheet && (
+                <KillSheet
+                    key={killSheet.key}
+                    prefill={killSheet.prefill}
+                    unitSystem={unitSystem}
+                    darkMode={darkMode}
+                    onClose={() => setKillSheet(null)}
+                    onAddToChat={addKillSheetToChat}
+                />
+            )}
         </div>
     );
 }
\ No newline at end of file
@@ -0,0 +1,130 @@
+// src/app/components/ConversationSidebar.tsx
+'use client';
+
+import React, { useState } from 'react';
+import type { Conversation } from '@/lib/conversationStore';
+import { CheckIcon, LinkIcon, PencilIcon, PlusIcon, StarIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+type ConversationSidebarProps = {
+    conversations: Conversation[]; // In display order (pinned first)
+    activeId: string | null;
+    darkMode: boolean;
+    disabled: boolean; // While an answer is arriving, so it cannot land in another conversation
+    onSelect: (id: string) => void;
+    onCreate: () => void;
+    onRename: (id: string, title: string) => void;
+    onDelete: (id: string) => void;
+    onTogglePin: (id: string) => void;
+    onShare?: (id: string) => void; // Only when the server can keep conversations
+};
+
+export default function ConversationSidebar({ conversations, activeId, darkMode, disabled, onSelect, onCreate, onRename, onDelete, onTogglePin, onShare }: ConversationSidebarProps) {
+    const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+    const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+    const finishRename = () => {
+        if (renaming && renaming.title.trim()) onRename(renaming.id, renaming.title.trim());
+        setRenaming(null);
+    };
+
+    const iconButtonClass = `p-1 rounded disabled:opacity-40 disabled:cursor-not-allowed ${darkMode ? 'text-slate-400 hover:bg-slate-700 hover:text-slate-200' : 'text-slate-500 hover:bg-slate-200 hover:text-slate-800'}`;
+
+    return (
+        <aside className={`flex flex-col w-60 flex-shrink-0 border-r ${darkMode ? 'bg-slate-900 border-slate-700' : 'bg-slate-100 border-slate-300'}`} aria-label="Conversations">
+            <div className={`p-3 border-b ${darkMode ? 'border-slate-700' : 'border-slate-300'}`}>
+                <button
+                    type="button"
+                    onClick={onCreate}
+                    disabled={disabled}
+                    className={`w-full inline-flex items-center justify-center gap-1 px-3 py-2 text-sm font-medium rounded-md border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                        darkMode ? 'border-slate-600 text-slate-200 hover:bg-slate-800' : 'border-slate-300 bg-white text-slate-700 hover:bg-slate-50'
+                    }`}
+                >
+                    <PlusIcon className="h-4 w-4" /> New conversation
+                </button>
+            </div>
+
+            <ul className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-1">
+                {conversations.map(conversation => {
+                    const isActive = conversation.id === activeId;
+                    return (
+                        <li
+                            key={conversation.id}
+                            className={`group rounded-md text-sm ${
+                                isActive
+                                    ? darkMode ? 'bg-slate-700 text-white' : 'bg-white text-slate-900 shadow-sm'
+                                    : darkMode ? 'text-slate-300 hover:bg-slate-800' : 'text-slate-700 hover:bg-slate-200'
+                            }`}
+                        >
+                            {renaming?.id === conversation.id ? (
+                                <form onSubmit={e => { e.preventDefault(); finishRename(); }} className="flex items-center gap-1 p-1">
+                                    <input
+                                        type="text"
+                                        value={renaming.title}
+                                        onChange={e => setRenaming({ id: conversation.id, title: e.target.value })}
+                                        onKeyDown={e => e.key === 'Escape' && setRenaming(null)}
+                                        autoFocus
+                                        className={`flex-1 min-w-0 px-2 py-1 rounded border text-sm ${darkMode ? 'bg-slate-900 border-slate-600 text-slate-100' : 'bg-white border-slate-300 text-slate-900'}`}
+                                        aria-label="Conversation name"
+                                    />
+                                    <button type="submit" className={iconButtonClass} aria-label="Save name"><CheckIcon className="h-4 w-4" /></button>
+                                    <button type="button" onClick={() => setRenaming(null)} className={iconButtonClass} aria-label="Cancel"><XMarkIcon className="h-4 w-4" /></button>
+                                </form>
+                            ) : confirmDeleteId === conversation.id ? (
+                                <div className="flex items-center justify-between gap-1 px-2 py-1.5">
+                                    <span className="text-xs">Delete this conversation?</span>
+                                    <div className="flex gap-1">
+                                        <button
+                                            type="button"
+                                            onClick={() => { onDelete(conversation.id); setConfirmDeleteId(null); }}
+                                            className="px-2 py-0.5 text-xs bg-red-600 text-white rounded hover:bg-red-700"
+                                        >
+                                            Yes
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => setConfirmDeleteId(null)}
+                                            className={`px-2 py-0.5 text-xs rounded ${darkMode ? 'bg-slate-700 text-slate-200 hover:bg-slate-600' : 'bg-slate-200 text-slate-800 hover:bg-slate-300'}`}
+                                        >
+                                            No
+                                        </button>
+                                    </div>
+                                </div>
+                            ) : (
+                                <div className="flex items-center gap-1 pl-2 pr-1">
+                                    {conversation.pinned && <StarIcon className={`h-3.5 w-3.5 flex-shrink-0 ${darkMode ? 'text-amber-300' : 'text-amber-500'}`} aria-label="Pinned" />}
+                                    <button
+                                        type="button"
+                                        onClick={() => onSelect(conversation.id)}
+                                        disabled={disabled && !isActive}
+                                        className="flex-1 min-w-0 py-2 text-left truncate disabled:cursor-not-allowed"
+                                        title={conversation.title}
+                                        aria-current={isActive ? 'true' : undefined}
+                                    >
+                                        {conversation.title}
+                                    </button>
+                                    <div className={`flex-shrink-0 flex ${isActive ? '' : 'opacity-0 group-hover:opacity-100 focus-within:opacity-100'}`}>
+                                        <button type="button" onClick={() => onTogglePin(conversation.id)} className={iconButtonClass} aria-label={conversation.pinned ? 'Unpin' : 'Pin'} title={conversation.pinned ? 'Unpin' : 'Pin to the top'}>
+                                            <StarIcon className="h-4 w-4" />
+                                        </button>
+                                        {onShare && (
+                                            <button type="button" onClick={() => onShare(conversation.id)} disabled={disabled && isActive} className={iconButtonClass} aria-label="Share" title="Share a read-only link">
+                                                <LinkIcon className="h-4 w-4" />
+                                            </button>
+                                        )}
+                                        <button type="button" onClick={() => setRenaming({ id: conversation.id, title: conversation.title })} className={iconButtonClass} aria-label="Rename" title="Rename">
+                                            <PencilIcon className="h-4 w-4" />
+                                        </button>
+                                        <button type="button" onClick={() => setConfirmDeleteId(conversation.id)} disabled={disabled && isActive} className={iconButtonClass} aria-label="Delete" title="Delete">
+                                            <TrashIcon className="h-4 w-4" />
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+                        </li>
+                    );
+                })}
+            </ul>
+        </aside>
+    );
+}
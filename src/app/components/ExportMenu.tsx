@@ -0,0 +1,97 @@
+// src/app/components/ExportMenu.tsx
+'use client';
+
+import React, { useState, useRef, useEffect } from 'react';
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+
+export type ExportAction = {
+    label: string;
+    run: () => void | Promise<void>;
+    done?: string; // Shown briefly after the action succeeds, e.g. "Copied"
+};
+
+type ExportMenuProps = {
+    actions: ExportAction[];
+    darkMode: boolean;
+    title?: string; // Tooltip of the button
+};
+
+export default function ExportMenu({ actions, darkMode, title = 'Export' }: ExportMenuProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [status, setStatus] = useState<{ text: string; error: boolean } | null>(null);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    // Close when clicking outside the menu
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClickOutside = (event: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) setIsOpen(false);
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    // Status messages fade after a few seconds
+    useEffect(() => {
+        if (!status) return;
+        const timer = setTimeout(() => setStatus(null), status.error ? 6000 : 2000);
+        return () => clearTimeout(timer);
+    }, [status]);
+
+    const runAction = async (action: ExportAction) => {
+        setIsOpen(false);
+        try {
+            await action.run();
+            if (action.done) setStatus({ text: action.done, error: false });
+        } catch (error) {
+            console.error(`[ExportMenu] "${action.label}" failed:`, error);
+            setStatus({ text: error instanceof Error ? error.message : 'Export failed.', error: true });
+        }
+    };
+
+    return (
+        <div ref={menuRef} className="relative flex items-center gap-2">
+            {status && (
+                <span className={`text-xs ${status.error ? (darkMode ? 'text-red-300' : 'text-red-700') : (darkMode ? 'text-emerald-300' : 'text-emerald-700')}`}>
+                    {status.text}
+                </span>
+            )}
+            <button
+                type="button"
+                onClick={() => setIsOpen(open => !open)}
+                className={`p-1 rounded-md transition-colors ${darkMode ? 'text-slate-400 hover:bg-slate-700 hover:text-slate-200' : 'text-slate-500 hover:bg-slate-100 hover:text-slate-800'}`}
+                aria-label={title}
+                aria-haspopup="menu"
+                aria-expanded={isOpen}
+                title={title}
+            >
+                <ArrowDownTrayIcon className="h-4 w-4" />
+            </button>
+            {isOpen && (
+                <div
+                    role="menu"
+                    className={`absolute right-0 top-full mt-1 w-44 rounded-md shadow-lg z-10 overflow-hidden ${darkMode ? 'bg-slate-800 border border-slate-700' : 'bg-white border border-slate-300'}`}
+                >
+                    <ul className={`divide-y ${darkMode ? 'divide-slate-700' : 'divide-slate-200'}`}>
+                        {actions.map(action => (
+                            <li key={action.label}>
+                                <button
+                                    type="button"
+                                    role="menuitem"
+                                    onClick={() => runAction(action)}
+                                    className={`w-full text-left px-3 py-2 text-sm transition-colors duration-100 ease-in-out ${
+                                        darkMode
+                                            ? 'text-slate-300 hover:bg-indigo-900 hover:text-indigo-300'
+                                            : 'text-slate-700 hover:bg-indigo-50 hover:text-indigo-800'
+                                    }`}
+                                >
+                                    {action.label}
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,19 +1,29 @@
 // src/app/components/GraphRenderer.tsx
 'use client';
 
-import React from 'react';
+import React, { useRef } from 'react';
 import {
     LineChart, Line, BarChart, Bar, PieChart, Pie, ScatterChart, Scatter,
     AreaChart, Area, ComposedChart, XAxis, YAxis, CartesianGrid, Tooltip,
-    Legend, ResponsiveContainer, Cell
+    Legend, ResponsiveContainer, Cell, ReferenceLine, ReferenceDot
 } from 'recharts';
+import {
+    AxisId, AXIS_OPTION_FIELDS, CasingShoe, DepthWindow, GraphAnnotation, GraphReferenceLine,
+    getAxisKeys, getAxisUnit, getDepthKey, getSecondarySeries
+} from '@/lib/dataSchema';
+import { EXPORT_THEMES, buildChartSvg, downloadBlob, downloadDelimited, graphToCsv, svgToPng, toFileName, withUnit } from '@/lib/dataExport';
+import ExportMenu from './ExportMenu';
+import { PencilSquareIcon } from '@heroicons/react/24/outline';
 
 // Type definition for the props
 type GraphRendererProps = {
     type: string;
     data: any[]; // Expecting an array of objects
     options?: Record<string, any>; // Can be refined if options structure is known
+    units?: Record<string, string>; // Unit of each data key, for the axis titles
     title?: string;
+    darkMode?: boolean; // Theme of exported images
+    onEdit?: () => void; // Shows an edit button that opens the chart editor
 };
 
 // Helper to safely get keys from an item, returning an empty array for non-objects/null
@@ -26,7 +36,8 @@ const safeGetKeys = (item: any): string[] => {
     return [];
 };
 
-export default function GraphRenderer({ type, data, options = {}, title }: GraphRendererProps) {
+export default function GraphRenderer({ type, data, options = {}, units, title, darkMode = false, onEdit }: GraphRendererProps) {
+    const chartRef = useRef<HTMLDivElement>(null);
     console.log("[GraphRenderer] Rendering:", { type, dataSize: data?.length, options, title });
 
     // 1. Initial Data Validation (Keep as is - looks good)
@@ -49,7 +60,8 @@ export default function GraphRenderer({ type, data, options = {}, title }: Graph
      }
 
     const colors = [ '#8884d8', '#82ca9d', '#ffc658', '#ff7300', '#0088fe', '#00c49f', '#ffbb28', '#ff8042', '#a4de6c', '#d0ed57', '#ff4d4d', '#4dffff', '#ffa64d', '#cc4dff', '#4d79ff', '#4dff4d' ];
-    const chartHeight = typeof options?.height === 'number' && options.height > 50 ? options.height : 300;
+    const defaultHeight = type?.toLowerCase() === 'depth' ? 420 : 300; // Depth tracks read better tall
+    const chartHeight = typeof options?.height === 'number' && options.height > 50 ? options.height : defaultHeight;
 
     // --- REVISED Section 2: Dynamic Key Identification & Validation ---
     let categoryKey = ''; // Key used for X-axis labels (typically 'name')
@@ -92,6 +104,20 @@ export default function GraphRenderer({ type, data, options = {}, title }: Graph
                     }
                     break;
 
+                case 'depth':
+                    // Depth is numeric (drawn downward on the Y axis); every other numeric key is a curve
+                    categoryKey = getDepthKey(options);
+                    if (typeof firstItem[categoryKey] !== 'number') {
+                        validationError = `Depth chart data requires a numeric '${categoryKey}' on every point. Found keys: ${firstItemKeys.join(', ')}.`;
+                        break;
+                    }
+                    dataKeys = Array.from(new Set(data.flatMap(item => safeGetKeys(item))))
+                        .filter(key => key !== categoryKey && data.some(item => typeof item?.[key] === 'number'));
+                    if (dataKeys.length === 0) {
+                        validationError = `No numeric curves found for the depth chart besides '${categoryKey}'. Found keys: ${firstItemKeys.join(', ')}.`;
+                    }
+                    break;
+
                 case 'line':
                 case 'bar':
                 case 'area':
@@ -145,7 +171,7 @@ export default function GraphRenderer({ type, data, options = {}, title }: Graph
                     break;
 
                 default:
-                    validationError = `Unsupported chart type: '${type}'. Supported: line, bar, pie, scatter, area, composed.`;
+                    validationError = `Unsupported chart type: '${type}'. Supported: line, bar, pie, scatter, area, composed, depth.`;
             }
         }
     } catch (err: any) {
@@ -154,12 +180,22 @@ export default function GraphRenderer({ type, data, options = {}, title }: Graph
     }
     // --- END REVISED Section 2 ---
 
+    // Series switched off in the chart editor are not drawn (pie and scatter charts have one series)
+    const hiddenSeries: string[] = Array.isArray(options?.hiddenSeries) ? options.hiddenSeries : [];
+    if (!validationError && hiddenSeries.length > 0 && chartTypeLower !== 'pie' && chartTypeLower !== 'scatter') {
+        dataKeys = dataKeys.filter(key => !hiddenSeries.includes(key));
+        const visibleConfig = chartTypeLower === 'composed' ? options.chartConfig.filter((config: { dataKey?: string } | null) => !hiddenSeries.includes(config?.dataKey ?? '')) : dataKeys;
+        if (dataKeys.length === 0 || visibleConfig.length === 0) {
+            validationError = 'All series of this chart are hidden. Edit the chart to show at least one.';
+        }
+    }
+
 
     // Log identified keys (Essential for debugging!)
     console.log(`[GraphRenderer] Keys Identified - Type: ${chartTypeLower}, Category Key ('${categoryKey}'), Data Keys: [${dataKeys.join(', ')}], Validation Error: ${validationError || 'None'}`);
 
     // 3. Render Title Helper (Keep as is)
-    const renderTitle = () => title ? <h3 className="text-lg font-semibold text-center mb-3 text-slate-800 dark:text-slate-200">{title}</h3> : null;
+    const renderTitle = () => title ? <h3 className={`text-lg font-semibold text-center mb-3 ${onEdit ? 'px-16' : 'px-8'} text-slate-800 dark:text-slate-200`}>{title}</h3> : null;
 
     // 4. Return Validation Error if any (Keep as is)
     if (validationError) {
@@ -178,28 +214,87 @@ export default function GraphRenderer({ type, data, options = {}, title }: Graph
         const tickStyle = { fill: axisStroke, fontSize: 11 };
         const legendStyle = { fontSize: '12px', paddingTop: '10px', lineHeight: '1.5' };
 
+        // --- Axes: titles with units, log scales, the secondary Y axis and reference marks ---
+        const graph = { type: chartTypeLower, data, options, units };
+        const axisKeys = getAxisKeys(graph);
+        const isLogAxis = (axis: AxisId) => options?.[AXIS_OPTION_FIELDS[axis]]?.scale === 'log';
+        const axisTitle = (axis: AxisId): string | undefined => {
+            const name = options?.[AXIS_OPTION_FIELDS[axis]]?.name;
+            const unit = getAxisUnit(graph, axis);
+            if (typeof name === 'string' && name) return withUnit(name, unit);
+            return unit;
+        };
+        const xTitle = axisTitle('x');
+        const yTitle = axisTitle('y');
+        const secondaryKeys = getSecondarySeries(options).filter(key => dataKeys.includes(key));
+        const seriesAxisId = (key: string) => (secondaryKeys.includes(key) ? 'right' : undefined);
+
+        // Log axes cannot show zero or negative values; those points are left out of the series
+        const logKeys = (['x', 'y', 'y2'] as AxisId[]).filter(isLogAxis).flatMap(axis => axisKeys[axis]);
+        const plotData = logKeys.length === 0 ? data : data.map(item => Object.fromEntries(Object.entries(item)
+            .map(([key, value]) => [key, logKeys.includes(key) && typeof value === 'number' && value <= 0 ? null : value])));
+        const logScale = (axis: AxisId) => (isLogAxis(axis) ? { scale: 'log' as const, domain: ['auto', 'auto'] as [string, string], allowDataOverflow: true } : {});
+
+        // Axis elements, for charts whose X axis is `xProps` (category or numeric) and Y axes are numeric
+        const xLabel = xTitle ? { value: xTitle, position: 'insideBottom' as const, offset: 0, fill: axisStroke, fontSize: 12 } : undefined;
+        const yLabel = (value: string | undefined, side: 'left' | 'right') => (value
+            ? { value, angle: side === 'left' ? -90 : 90, position: side === 'left' ? 'insideLeft' as const : 'insideRight' as const, fill: axisStroke, fontSize: 12, style: { textAnchor: 'middle' } }
+            : undefined);
+        const chartMargin = { top: 5, right: secondaryKeys.length > 0 ? 5 : 30, left: yTitle ? 10 : 5, bottom: 5 };
+        const renderYAxes = (extraProps: Record<string, unknown> = {}) => (
+            <>
+                <YAxis stroke={axisStroke} tick={tickStyle} label={yLabel(yTitle, 'left')} {...extraProps} {...logScale('y')}/>
+                {secondaryKeys.length > 0 && (
+                    <YAxis yAxisId="right" orientation="right" stroke={axisStroke} tick={tickStyle} label={yLabel(axisTitle('y2'), 'right')} {...logScale('y2')}/>
+                )}
+            </>
+        );
+
+        // Reference lines across an axis and labelled points, in the axis units
+        const referenceLines: GraphReferenceLine[] = Array.isArray(options?.referenceLines) ? options.referenceLines.filter((line: GraphReferenceLine | null) => line && line.value !== undefined) : [];
+        const annotations: GraphAnnotation[] = Array.isArray(options?.annotations) ? options.annotations.filter((note: GraphAnnotation | null) => note && note.x !== undefined && typeof note.y === 'number') : [];
+        const onSecondary = (axis: AxisId | undefined) => (axis === 'y2' && secondaryKeys.length > 0 ? 'right' : undefined);
+        const renderReferenceMarks = () => [
+            ...referenceLines.map((line, index) => {
+                const color = line.color || '#dc2626'; // Tailwind red-600
+                return (
+                    <ReferenceLine key={`reference-${index}`} {...(line.axis === 'x' ? { x: line.value } : { y: line.value })} yAxisId={onSecondary(line.axis)} stroke={color} strokeDasharray="4 4" ifOverflow="extendDomain"
+                        label={line.label ? { value: line.label, position: line.axis === 'x' ? 'insideTopRight' : 'insideTopLeft', fill: color, fontSize: 11 } : undefined} />
+                );
+            }),
+            ...annotations.map((note, index) => {
+                const color = note.color || '#1e293b'; // Tailwind slate-800
+                return (
+                    <ReferenceDot key={`annotation-${index}`} x={note.x} y={note.y} yAxisId={onSecondary(note.axis)} r={4} fill={color} stroke="#fff" ifOverflow="extendDomain"
+                        label={{ value: note.label, position: 'top', fill: color, fontSize: 11 }} />
+                );
+            }),
+        ];
+
         try {
             switch (chartTypeLower) {
                 // **CHECK**: Ensure XAxis uses `categoryKey` correctly where applicable
                 // **CHECK**: Ensure Line/Bar/Area/etc. use `dataKey` from the identified `dataKeys` array
                 case 'line':
                     // Uses `categoryKey` for XAxis, iterates `dataKeys` for Lines. Looks OK.
-                    return ( <ResponsiveContainer width="100%" height={chartHeight}><LineChart data={data} margin={{ top: 5, right: 30, left: 5, bottom: 5 }}>
+                    return ( <ResponsiveContainer width="100%" height={chartHeight}><LineChart data={plotData} margin={chartMargin}>
                         <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" className="dark:stroke-slate-700"/>
-                        <XAxis dataKey={categoryKey} stroke={axisStroke} tick={tickStyle} interval={'preserveStartEnd'} />
-                        <YAxis stroke={axisStroke} tick={tickStyle}/>
+                        <XAxis dataKey={categoryKey} stroke={axisStroke} tick={tickStyle} interval={'preserveStartEnd'} label={xLabel} height={xTitle ? 45 : undefined} />
+                        {renderYAxes()}
                         <Tooltip contentStyle={tooltipStyle}/>
                         <Legend wrapperStyle={legendStyle} />
-                        {dataKeys.map((key, index) => ( <Line key={key} type={options?.lineType || "monotone"} dataKey={key} stroke={colors[index % colors.length]} activeDot={{ r: 6 }} name={options?.labels?.[key] || key} strokeWidth={2} dot={data.length < 50} connectNulls={options?.connectNulls ?? false} /> ))}
+                        {dataKeys.map((key, index) => ( <Line key={key} yAxisId={seriesAxisId(key)} type={options?.lineType || "monotone"} dataKey={key} stroke={colors[index % colors.length]} activeDot={{ r: 6 }} name={options?.labels?.[key] || key} strokeWidth={2} dot={data.length < 50} connectNulls={options?.connectNulls ?? false} /> ))}
+                        {renderReferenceMarks()}
                     </LineChart></ResponsiveContainer> );
                 case 'bar':
                     // Handles vertical layout correctly. Uses `categoryKey` for XAxis/YAxis (depending on layout), iterates `dataKeys` for Bars. Looks OK.
-                     return ( <ResponsiveContainer width="100%" height={chartHeight}><BarChart data={data} margin={{ top: 5, right: 30, left: 5, bottom: 5 }} layout={options?.layout ?? 'horizontal'}>
+                     return ( <ResponsiveContainer width="100%" height={chartHeight}><BarChart data={plotData} margin={chartMargin} layout={options?.layout ?? 'horizontal'}>
                         <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" className="dark:stroke-slate-700"/>
-                        {options?.layout === 'vertical' ? ( <> <XAxis type="number" stroke={axisStroke} tick={tickStyle}/> <YAxis dataKey={categoryKey} type="category" stroke={axisStroke} tick={tickStyle} width={options?.yAxisWidth ?? 80} interval={0} /> </> ) : ( <> <XAxis dataKey={categoryKey} stroke={axisStroke} tick={tickStyle} interval={options?.xAxisInterval ?? 'preserveStartEnd'}/> <YAxis stroke={axisStroke} tick={tickStyle}/> </> )}
+                        {options?.layout === 'vertical' ? ( <> <XAxis type="number" stroke={axisStroke} tick={tickStyle} label={yTitle ? { ...xLabel, value: yTitle } : undefined} height={yTitle ? 45 : undefined} {...logScale('y')}/> <YAxis dataKey={categoryKey} type="category" stroke={axisStroke} tick={tickStyle} width={options?.yAxisWidth ?? 80} interval={0} label={yLabel(xTitle, 'left')} /> </> ) : ( <> <XAxis dataKey={categoryKey} stroke={axisStroke} tick={tickStyle} interval={options?.xAxisInterval ?? 'preserveStartEnd'} label={xLabel} height={xTitle ? 45 : undefined}/> {renderYAxes()} </> )}
                         <Tooltip contentStyle={tooltipStyle}/>
                         <Legend wrapperStyle={legendStyle} />
-                        {dataKeys.map((key, index) => ( <Bar key={key} dataKey={key} fill={colors[index % colors.length]} name={options?.labels?.[key] || key} radius={options?.barRadius === undefined ? [4, 4, 0, 0] : options.barRadius} maxBarSize={options?.maxBarSize ?? 50} stackId={options?.stacked ? "stack1" : undefined} /> ))}
+                        {dataKeys.map((key, index) => ( <Bar key={key} yAxisId={options?.layout === 'vertical' ? undefined : seriesAxisId(key)} dataKey={key} fill={colors[index % colors.length]} name={options?.labels?.[key] || key} radius={options?.barRadius === undefined ? [4, 4, 0, 0] : options.barRadius} maxBarSize={options?.maxBarSize ?? 50} stackId={options?.stacked ? "stack1" : undefined} /> ))}
+                        {renderReferenceMarks()}
                      </BarChart></ResponsiveContainer> );
                 case 'pie':
                     // Uses hardcoded 'name' and 'value' via nameKey/dataKey props. Independent of dynamic keys. Looks OK.
@@ -215,42 +310,80 @@ export default function GraphRenderer({ type, data, options = {}, title }: Graph
                     // Uses hardcoded 'x' and 'y' in axis/scatter props. Independent of dynamic keys. Looks OK.
                     return ( <ResponsiveContainer width="100%" height={chartHeight}><ScatterChart margin={{ top: 20, right: 30, left: 5, bottom: 20 }}>
                         <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" className="dark:stroke-slate-700"/>
-                        <XAxis dataKey="x" type="number" name={options?.xAxisLabel || 'X'} stroke={axisStroke} tick={tickStyle} domain={options?.xDomain ?? ['auto', 'auto']} />
-                        <YAxis dataKey="y" type="number" name={options?.yAxisLabel || 'Y'} stroke={axisStroke} tick={tickStyle} domain={options?.yDomain ?? ['auto', 'auto']} />
+                        <XAxis dataKey="x" type="number" name={options?.xAxisLabel || 'X'} stroke={axisStroke} tick={tickStyle} domain={options?.xDomain ?? ['auto', 'auto']} label={xLabel} height={xTitle ? 45 : undefined} {...logScale('x')} />
+                        {renderYAxes({ dataKey: 'y', type: 'number', name: options?.yAxisLabel || 'Y', domain: options?.yDomain ?? ['auto', 'auto'] })}
                         <Tooltip cursor={{ strokeDasharray: '3 3' }} contentStyle={tooltipStyle}/>
                         <Legend wrapperStyle={legendStyle}/>
-                        <Scatter name={options?.seriesName || 'Points'} data={data} fill={options?.scatterColor || colors[0]} shape={options?.shape || 'circle'}/>
+                        <Scatter name={options?.seriesName || 'Points'} data={plotData.filter(point => point.x !== null && point.y !== null)} fill={options?.scatterColor || colors[0]} shape={options?.shape || 'circle'}/>
+                        {renderReferenceMarks()}
                     </ScatterChart></ResponsiveContainer> );
                 case 'area':
                     // Uses `categoryKey` for XAxis, iterates `dataKeys` for Areas. Looks OK.
-                     return ( <ResponsiveContainer width="100%" height={chartHeight}><AreaChart data={data} margin={{ top: 5, right: 30, left: 5, bottom: 5 }}>
+                     return ( <ResponsiveContainer width="100%" height={chartHeight}><AreaChart data={plotData} margin={chartMargin}>
                         <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" className="dark:stroke-slate-700"/>
-                        <XAxis dataKey={categoryKey} stroke={axisStroke} tick={tickStyle}/>
-                        <YAxis stroke={axisStroke} tick={tickStyle}/>
+                        <XAxis dataKey={categoryKey} stroke={axisStroke} tick={tickStyle} label={xLabel} height={xTitle ? 45 : undefined}/>
+                        {renderYAxes()}
                         <Tooltip contentStyle={tooltipStyle}/>
                         <Legend wrapperStyle={legendStyle}/>
-                        {dataKeys.map((key, index) => ( <Area key={key} type={options?.areaType || "monotone"} dataKey={key} stackId={options?.stacked ? "1" : undefined} stroke={colors[index % colors.length]} fillOpacity={options?.fillOpacity ?? 0.6} fill={colors[index % colors.length]} name={options?.labels?.[key] || key} connectNulls={options?.connectNulls ?? false} /> ))}
+                        {dataKeys.map((key, index) => ( <Area key={key} yAxisId={seriesAxisId(key)} baseValue={isLogAxis(secondaryKeys.includes(key) ? 'y2' : 'y') ? 'dataMin' : undefined} type={options?.areaType || "monotone"} dataKey={key} stackId={options?.stacked ? "1" : undefined} stroke={colors[index % colors.length]} fillOpacity={options?.fillOpacity ?? 0.6} fill={colors[index % colors.length]} name={options?.labels?.[key] || key} connectNulls={options?.connectNulls ?? false} /> ))}
+                        {renderReferenceMarks()}
                      </AreaChart></ResponsiveContainer> );
                 case 'composed':
                     // Uses `categoryKey` for XAxis. Uses `chartConfig` to iterate and render components, using `config.dataKey`. Looks OK, relies on chartConfig being correct.
-                     return ( <ResponsiveContainer width="100%" height={chartHeight}><ComposedChart data={data} margin={{ top: 5, right: 30, left: 5, bottom: 5 }}>
+                     return ( <ResponsiveContainer width="100%" height={chartHeight}><ComposedChart data={plotData} margin={chartMargin}>
                         <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" className="dark:stroke-slate-700"/>
-                        <XAxis dataKey={categoryKey} stroke={axisStroke} tick={tickStyle} />
-                        <YAxis stroke={axisStroke} tick={tickStyle} />
+                        <XAxis dataKey={categoryKey} stroke={axisStroke} tick={tickStyle} label={xLabel} height={xTitle ? 45 : undefined} />
+                        {renderYAxes()}
                         <Tooltip contentStyle={tooltipStyle}/>
                         <Legend wrapperStyle={legendStyle}/>
                          {options.chartConfig.map((config: any, index: number) => {
                              if (!config || !config.type || !config.dataKey || !firstItem.hasOwnProperty(config.dataKey)) { console.warn("[GraphRenderer] Invalid/missing item in composed chartConfig:", config); return <React.Fragment key={index}></React.Fragment>; }
+                             if (hiddenSeries.includes(config.dataKey)) return <React.Fragment key={index}></React.Fragment>;
                              const color = config.color || colors[index % colors.length];
                              const name = config.name || options?.labels?.[config.dataKey] || config.dataKey; // Use label from options if available
                              switch (config.type.toLowerCase()) {
-                                 case 'bar': return <Bar key={`${config.dataKey}-${index}`} dataKey={config.dataKey} fill={color} name={name} radius={config.radius ?? options?.barRadius ?? [4, 4, 0, 0]} maxBarSize={options?.maxBarSize ?? 50} stackId={config.stackId ?? (options?.stacked ? "stack1" : undefined)} />;
-                                 case 'line': return <Line key={`${config.dataKey}-${index}`} type={config.lineType ?? options?.lineType ?? "monotone"} dataKey={config.dataKey} stroke={color} name={name} strokeWidth={config.strokeWidth ?? 2} dot={data.length < 50} connectNulls={options?.connectNulls ?? false} activeDot={{ r: 6 }} />;
-                                 case 'area': return <Area key={`${config.dataKey}-${index}`} type={config.areaType ?? options?.areaType ?? "monotone"} dataKey={config.dataKey} fill={color} stroke={color} name={name} fillOpacity={config.fillOpacity ?? options?.fillOpacity ?? 0.6} stackId={config.stackId ?? (options?.stacked ? "stack1" : undefined)} connectNulls={options?.connectNulls ?? false} />;
+                                 case 'bar': return <Bar key={`${config.dataKey}-${index}`} yAxisId={seriesAxisId(config.dataKey)} dataKey={config.dataKey} fill={color} name={name} radius={config.radius ?? options?.barRadius ?? [4, 4, 0, 0]} maxBarSize={options?.maxBarSize ?? 50} stackId={config.stackId ?? (options?.stacked ? "stack1" : undefined)} />;
+                                 case 'line': return <Line key={`${config.dataKey}-${index}`} yAxisId={seriesAxisId(config.dataKey)} type={config.lineType ?? options?.lineType ?? "monotone"} dataKey={config.dataKey} stroke={color} name={name} strokeWidth={config.strokeWidth ?? 2} dot={data.length < 50} connectNulls={options?.connectNulls ?? false} activeDot={{ r: 6 }} />;
+                                 case 'area': return <Area key={`${config.dataKey}-${index}`} yAxisId={seriesAxisId(config.dataKey)} type={config.areaType ?? options?.areaType ?? "monotone"} dataKey={config.dataKey} fill={color} stroke={color} name={name} fillOpacity={config.fillOpacity ?? options?.fillOpacity ?? 0.6} stackId={config.stackId ?? (options?.stacked ? "stack1" : undefined)} connectNulls={options?.connectNulls ?? false} />;
                                  default: console.warn(`Unsupported type '${config.type}' in composed config.`); return <React.Fragment key={index}></React.Fragment>;
                              }
                          })}
+                        {renderReferenceMarks()}
                      </ComposedChart></ResponsiveContainer> );
+                case 'depth': {
+                    // Vertical layout: depth runs down the Y axis, the curves across a top X axis.
+                    // Each window is a range area between its two curves; casing shoes are reference lines.
+                    const windows: DepthWindow[] = Array.isArray(options?.windows)
+                        ? options.windows.filter((band: DepthWindow | null) => dataKeys.includes(band?.lower ?? '') && dataKeys.includes(band?.upper ?? ''))
+                        : [];
+                    const casingShoes: CasingShoe[] = Array.isArray(options?.casingShoes)
+                        ? options.casingShoes.filter((shoe: CasingShoe | null) => typeof shoe?.depth === 'number')
+                        : [];
+                    const depthData = plotData
+                        .filter(item => typeof item?.[categoryKey] === 'number')
+                        .sort((a, b) => a[categoryKey] - b[categoryKey])
+                        .map(item => {
+                            const row: Record<string, unknown> = { ...item };
+                            windows.forEach((band, index) => {
+                                const low = item[band.lower];
+                                const high = item[band.upper];
+                                row[`__window${index}`] = typeof low === 'number' && typeof high === 'number' ? [low, high] : null;
+                            });
+                            return row;
+                        });
+                    const shoeStroke = "#475569"; // Tailwind slate-600
+                    return ( <ResponsiveContainer width="100%" height={chartHeight}><ComposedChart layout="vertical" data={depthData} margin={chartMargin}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" className="dark:stroke-slate-700"/>
+                        <XAxis type="number" orientation="top" stroke={axisStroke} tick={tickStyle} domain={options?.xDomain ?? ['auto', 'auto']} label={xLabel ? { ...xLabel, position: 'insideTop' } : undefined} height={xTitle ? 45 : undefined} {...logScale('x')} />
+                        <YAxis dataKey={categoryKey} type="number" reversed stroke={axisStroke} tick={tickStyle} width={options?.yAxisWidth ?? 60} domain={options?.depthDomain ?? [0, 'auto']} label={yLabel(yTitle, 'left')} {...logScale('y')} />
+                        <Tooltip contentStyle={tooltipStyle} labelFormatter={(depth) => `${options?.labels?.[categoryKey] || yTitle || 'Depth'}: ${depth}`}/>
+                        <Legend wrapperStyle={legendStyle}/>
+                        {windows.map((band, index) => ( <Area key={`window-${index}`} dataKey={`__window${index}`} name={band.label || `${options?.labels?.[band.lower] || band.lower} – ${options?.labels?.[band.upper] || band.upper}`} fill={band.color || colors[(dataKeys.length + index) % colors.length]} fillOpacity={options?.fillOpacity ?? 0.2} stroke="none" tooltipType="none" isAnimationActive={false} /> ))}
+                        {dataKeys.map((key, index) => ( <Line key={key} type={options?.lineType || "linear"} dataKey={key} stroke={colors[index % colors.length]} name={options?.labels?.[key] || key} strokeWidth={2} dot={depthData.length < 50} connectNulls={options?.connectNulls ?? true} activeDot={{ r: 5 }} /> ))}
+                        {casingShoes.map((shoe, index) => ( <ReferenceLine key={`shoe-${index}`} y={shoe.depth} stroke={shoeStroke} strokeDasharray="6 3" ifOverflow="extendDomain" label={{ value: `▼ ${shoe.label || `Shoe ${shoe.depth}`}`, position: 'insideBottomRight', fill: shoeStroke, fontSize: 11 }} /> ))}
+                        {renderReferenceMarks()}
+                    </ComposedChart></ResponsiveContainer> );
+                }
                  default:
                     // This case should not be reachable if validation passed.
                     console.error(`[GraphRenderer] Unexpected chart type in renderChart switch: ${type}`);
@@ -267,11 +400,40 @@ export default function GraphRenderer({ type, data, options = {}, title }: Graph
         }
     };
 
-    // 6. Final component structure (Keep as is)
+    // 6. Export: the drawn chart as SVG or PNG in the current theme, the points as CSV
+    const exportChartImage = async (format: 'svg' | 'png') => {
+        if (!chartRef.current) throw new Error('The chart has not been drawn yet.');
+        const image = buildChartSvg(chartRef.current, title, EXPORT_THEMES[darkMode ? 'dark' : 'light']);
+        const blob = format === 'svg'
+            ? new Blob([image.svg], { type: 'image/svg+xml;charset=utf-8' })
+            : await svgToPng(image.svg, image.width, image.height);
+        downloadBlob(blob, toFileName(title, 'chart', format));
+    };
+    const exportActions = [
+        { label: 'Download PNG', run: () => exportChartImage('png') },
+        { label: 'Download SVG', run: () => exportChartImage('svg') },
+        { label: 'Download data (CSV)', run: () => downloadDelimited(graphToCsv({ data, units }), toFileName(title, 'chart-data', 'csv'), ',') },
+    ];
+
+    // 7. Final component structure
     return (
-        <div className="bg-white dark:bg-slate-800 p-4 rounded-lg border border-slate-200 dark:border-slate-700 shadow-sm mt-4 mb-2 overflow-hidden">
+        <div className="relative bg-white dark:bg-slate-800 p-4 rounded-lg border border-slate-200 dark:border-slate-700 shadow-sm mt-4 mb-2 overflow-hidden">
+            <div className="absolute top-2 right-2 z-10 flex items-center gap-1">
+                {onEdit && (
+                    <button
+                        type="button"
+                        onClick={onEdit}
+                        className={`p-1 rounded-md transition-colors ${darkMode ? 'text-slate-400 hover:bg-slate-700 hover:text-slate-200' : 'text-slate-500 hover:bg-slate-100 hover:text-slate-800'}`}
+                        aria-label="Edit chart"
+                        title="Edit chart"
+                    >
+                        <PencilSquareIcon className="h-4 w-4" />
+                    </button>
+                )}
+                <ExportMenu actions={exportActions} darkMode={darkMode} title="Export chart" />
+            </div>
             {renderTitle()}
-            <div style={{ width: '100%', height: chartHeight }} className="text-xs text-slate-700 dark:text-slate-300">
+            <div ref={chartRef} style={{ width: '100%', height: chartHeight }} className="text-xs text-slate-700 dark:text-slate-300">
                 {renderChart()}
             </div>
         </div>
@@ -0,0 +1,254 @@
+// src/app/components/KillSheet.tsx
+'use client';
+
+import React, { useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import GraphRenderer from './GraphRenderer';
+import TableRenderer from './TableRenderer';
+import {
+    KillSheetPrefill, KillSheetInputs, KillSheetResult, CapacitySection, AnnulusSection,
+    KILL_SHEET_FIELDS, KILL_SHEET_EXAMPLE, KILL_SHEET_REFERENCE, CAPACITY_UNIT, SECTION_LENGTH_UNIT,
+    computeKillSheet, getMissingKillSheetFields, isCompleteKillSheet,
+} from '@/lib/killSheet';
+import { formatNumber } from '@/lib/formulas';
+import { UnitSystem, convertValue, unitForSystem, toUnitSystem, convertGraphData, convertTableData } from '@/lib/units';
+import { PlusIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+// --- Form State ---
+// Fields are edited as text in the current unit system and converted to oilfield units to calculate
+type SectionRow = { label: string; capacity: string; length: string; openHole: boolean };
+type FormState = {
+    values: Record<string, string>;
+    drillString: SectionRow[];
+    annulus: SectionRow[];
+};
+
+const toDisplay = (value: number | undefined, unit: string, unitSystem: UnitSystem): string =>
+    value === undefined ? '' : formatNumber(convertValue(value, unit, unitForSystem(unit, unitSystem)));
+
+const parseDisplay = (text: string, unit: string, unitSystem: UnitSystem): number | undefined => {
+    if (text.trim() === '') return undefined;
+    const value = Number(text);
+    return Number.isFinite(value) ? convertValue(value, unitForSystem(unit, unitSystem), unit) : undefined;
+};
+
+function toFormState(prefill: KillSheetPrefill, unitSystem: UnitSystem): FormState {
+    const toRow = (section: CapacitySection | AnnulusSection): SectionRow => ({
+        label: section.label,
+        capacity: toDisplay(section.capacity, CAPACITY_UNIT, unitSystem),
+        length: toDisplay(section.length, SECTION_LENGTH_UNIT, unitSystem),
+        openHole: 'openHole' in section ? section.openHole : false,
+    });
+    // Without sections, offer empty rows laid out like the handbook example
+    const blankRows = (sections: (CapacitySection | AnnulusSection)[]) =>
+        sections.map(section => ({ ...toRow(section), capacity: '', length: '' }));
+    return {
+        values: Object.fromEntries(KILL_SHEET_FIELDS.map(field => [field.name, toDisplay(prefill[field.name], field.unit, unitSystem)])),
+        drillString: prefill.drillString ? prefill.drillString.map(toRow) : blankRows(KILL_SHEET_EXAMPLE.drillString),
+        annulus: prefill.annulus ? prefill.annulus.map(toRow) : blankRows(KILL_SHEET_EXAMPLE.annulus),
+    };
+}
+
+function toPrefill(form: FormState, unitSystem: UnitSystem): KillSheetPrefill {
+    const prefill: KillSheetPrefill = {};
+    for (const field of KILL_SHEET_FIELDS) {
+        const value = parseDisplay(form.values[field.name] || '', field.unit, unitSystem);
+        if (value !== undefined) prefill[field.name] = value;
+    }
+    const toSections = (rows: SectionRow[]) => rows.flatMap(row => {
+        const capacity = parseDisplay(row.capacity, CAPACITY_UNIT, unitSystem);
+        const length = parseDisplay(row.length, SECTION_LENGTH_UNIT, unitSystem);
+        return capacity !== undefined && length !== undefined ? [{ label: row.label, capacity, length, openHole: row.openHole }] : [];
+    });
+    const drillString = toSections(form.drillString).map(({ label, capacity, length }) => ({ label, capacity, length }));
+    const annulus = toSections(form.annulus);
+    if (drillString.length > 0) prefill.drillString = drillString;
+    if (annulus.length > 0) prefill.annulus = annulus;
+    return prefill;
+}
+
+// Computes the sheet once every required value is filled in
+function calculate(inputs: KillSheetPrefill): { sheet: { inputs: KillSheetInputs; result: KillSheetResult } | null; error: string | null } {
+    if (!isCompleteKillSheet(inputs)) return { sheet: null, error: null };
+    try {
+        return { sheet: { inputs, result: computeKillSheet(inputs) }, error: null };
+    } catch (error) {
+        return { sheet: null, error: error instanceof Error ? error.message : 'Kill sheet calculation failed.' };
+    }
+}
+
+// --- KillSheet Component ---
+type KillSheetProps = {
+    prefill?: KillSheetPrefill; // Oilfield units, e.g. from the chat's open_kill_sheet tool call
+    unitSystem: UnitSystem;
+    darkMode: boolean;
+    onClose: () => void;
+    onAddToChat: (inputs: KillSheetInputs, result: KillSheetResult) => void;
+};
+
+export default function KillSheet({ prefill, unitSystem, darkMode, onClose, onAddToChat }: KillSheetProps) {
+    const [form, setForm] = useState<FormState>(() => toFormState(prefill || {}, unitSystem));
+    const [formUnitSystem, setFormUnitSystem] = useState<UnitSystem>(unitSystem);
+
+    // Re-express the entered values when the unit toggle changes
+    if (formUnitSystem !== unitSystem) {
+        setForm(toFormState(toPrefill(form, formUnitSystem), unitSystem));
+        setFormUnitSystem(unitSystem);
+    }
+
+    const inputs = toPrefill(form, unitSystem);
+    const missing = getMissingKillSheetFields(inputs);
+    const { sheet, error: calculationError } = calculate(inputs);
+    const result = sheet?.result;
+
+    const show = (value: number, unit: string): string => {
+        const converted = toUnitSystem(value, unit, unitSystem);
+        return `${formatNumber(converted.value)} ${converted.unit}`;
+    };
+
+    const setValue = (name: string, text: string) => setForm(prev => ({ ...prev, values: { ...prev.values, [name]: text } }));
+    const updateRow = (list: 'drillString' | 'annulus', index: number, patch: Partial<SectionRow>) =>
+        setForm(prev => ({ ...prev, [list]: prev[list].map((row, i) => (i === index ? { ...row, ...patch } : row)) }));
+    const addRow = (list: 'drillString' | 'annulus') =>
+        setForm(prev => ({ ...prev, [list]: [...prev[list], { label: '', capacity: '', length: '', openHole: list === 'annulus' }] }));
+    const removeRow = (list: 'drillString' | 'annulus', index: number) =>
+        setForm(prev => ({ ...prev, [list]: prev[list].filter((_, i) => i !== index) }));
+
+    const inputClass = `w-full px-2 py-1 text-sm rounded border focus:outline-none focus:ring-1 focus:ring-blue-500 ${
+        darkMode ? 'bg-slate-800 border-slate-600 text-white placeholder-slate-500' : 'bg-white border-slate-300 text-slate-900 placeholder-slate-400'
+    }`;
+    const headingClass = `text-sm font-semibold mt-4 mb-2 ${darkMode ? 'text-slate-200' : 'text-slate-800'}`;
+    const capacityUnit = unitForSystem(CAPACITY_UNIT, unitSystem);
+    const lengthUnit = unitForSystem(SECTION_LENGTH_UNIT, unitSystem);
+
+    const renderSections = (list: 'drillString' | 'annulus', examples: (CapacitySection | AnnulusSection)[]) => (
+        <div className="space-y-2">
+            {form[list].map((row, index) => {
+                const example = examples[index];
+                return (
+                    <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                        <input className={`${inputClass} col-span-4`} value={row.label} placeholder={example?.label || 'Section'} onChange={e => updateRow(list, index, { label: e.target.value })} aria-label="Section name" />
+                        <input className={`${inputClass} col-span-3`} value={row.capacity} inputMode="decimal" placeholder={example ? toDisplay(example.capacity, CAPACITY_UNIT, unitSystem) : capacityUnit} onChange={e => updateRow(list, index, { capacity: e.target.value })} aria-label={`Capacity, ${capacityUnit}`} />
+                        <input className={`${inputClass} col-span-3`} value={row.length} inputMode="decimal" placeholder={example ? toDisplay(example.length, SECTION_LENGTH_UNIT, unitSystem) : lengthUnit} onChange={e => updateRow(list, index, { length: e.target.value })} aria-label={`Length, ${lengthUnit}`} />
+                        {list === 'annulus' ? (
+                            <label className={`col-span-1 flex items-center gap-1 text-xs ${darkMode ? 'text-slate-300' : 'text-slate-600'}`} title="Open hole section (bit to shoe)">
+                                <input type="checkbox" checked={row.openHole} onChange={e => updateRow(list, index, { openHole: e.target.checked })} />
+                                OH
+                            </label>
+                        ) : <span className="col-span-1" />}
+                        <button type="button" onClick={() => removeRow(list, index)} className={`col-span-1 p-1 rounded ${darkMode ? 'text-slate-400 hover:text-red-400' : 'text-slate-500 hover:text-red-600'}`} aria-label="Remove section">
+                            <TrashIcon className="h-4 w-4" />
+                        </button>
+                    </div>
+                );
+            })}
+            <button type="button" onClick={() => addRow(list)} className={`inline-flex items-center gap-1 text-xs ${darkMode ? 'text-blue-400 hover:underline' : 'text-blue-600 hover:underline'}`}>
+                <PlusIcon className="h-4 w-4" /> Add section
+            </button>
+        </div>
+    );
+
+    return (
+        <div className={`absolute inset-0 z-20 overflow-y-auto p-4 ${darkMode ? 'bg-slate-900 text-slate-100' : 'bg-slate-50 text-slate-900'}`}>
+            <div className="flex items-center justify-between mb-2">
+                <div>
+                    <h3 className="text-lg font-semibold">Normal Kill Sheet</h3>
+                    <p className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>Handbook Chapter 4, Pressure Control (p. {KILL_SHEET_REFERENCE.page}). Placeholders show the handbook&apos;s worked example.</p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <button type="button" onClick={() => setForm(toFormState(KILL_SHEET_EXAMPLE, unitSystem))} className={`px-3 py-1 text-xs rounded-md border ${darkMode ? 'border-slate-600 hover:bg-slate-800' : 'border-slate-300 hover:bg-slate-200'}`}>
+                        Load example
+                    </button>
+                    <button type="button" onClick={onClose} className={`p-1 rounded-full ${darkMode ? 'hover:bg-slate-800' : 'hover:bg-slate-200'}`} aria-label="Close kill sheet" title="Close kill sheet">
+                        <XMarkIcon className="h-5 w-5" />
+                    </button>
+                </div>
+            </div>
+
+            {/* Pre-recorded and kick data */}
+            <h4 className={headingClass}>Pre-recorded Data &amp; Kick Data</h4>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-2">
+                {KILL_SHEET_FIELDS.map(field => {
+                    const unit = unitForSystem(field.unit, unitSystem);
+                    return (
+                        <label key={field.name} className="text-xs">
+                            <span className={darkMode ? 'text-slate-300' : 'text-slate-600'}>
+                                {field.label}{unit ? `, ${unit}` : ''}{field.optional ? ' (optional)' : ''}
+                            </span>
+                            <input
+                                className={inputClass}
+                                value={form.values[field.name] || ''}
+                                inputMode="decimal"
+                                placeholder={toDisplay(KILL_SHEET_EXAMPLE[field.name], field.unit, unitSystem)}
+                                onChange={e => setValue(field.name, e.target.value)}
+                            />
+                        </label>
+                    );
+                })}
+            </div>
+
+            <h4 className={headingClass}>Drill String (capacity {capacityUnit}, length {lengthUnit})</h4>
+            {renderSections('drillString', KILL_SHEET_EXAMPLE.drillString)}
+
+            <h4 className={headingClass}>Annulus (capacity {capacityUnit}, length {lengthUnit}; OH = open hole)</h4>
+            {renderSections('annulus', KILL_SHEET_EXAMPLE.annulus)}
+
+            {/* Results */}
+            <h4 className={headingClass}>Calculations</h4>
+            {calculationError && <p className={`text-sm ${darkMode ? 'text-red-300' : 'text-red-700'}`}>{calculationError}</p>}
+            {!result && !calculationError && (
+                <p className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>Still needed: {missing.join(', ')}.</p>
+            )}
+            {sheet && result && (
+                <div className="space-y-3">
+                    <dl className="grid grid-cols-2 sm:grid-cols-3 gap-2 text-sm">
+                        {[
+                            ['Kill weight mud', show(result.killMudWeightRounded, 'ppg')],
+                            ['Initial circulating pressure', show(result.icp, 'psi')],
+                            ['Final circulating pressure', show(result.fcp, 'psi')],
+                            ['Strokes to bit', `${result.strokesToBit} stk`],
+                            ['Bit to shoe strokes', result.bitToShoeStrokes !== null ? `${result.bitToShoeStrokes} stk` : '—'],
+                            ['Bit to surface strokes', `${result.bitToSurfaceStrokes} stk`],
+                            ['Drill string volume', show(result.drillStringVolume, 'bbl')],
+                            ['Annular volume', show(result.annularVolume, 'bbl')],
+                            ['Max. allowable SICP', result.maasp !== null ? show(result.maasp, 'psi') : '—'],
+                        ].map(([label, value]) => (
+                            <div key={label} className={`p-2 rounded border ${darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}>
+                                <dt className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>{label}</dt>
+                                <dd className="font-semibold font-mono">{value}</dd>
+                            </div>
+                        ))}
+                    </dl>
+
+                    {result.warnings.length > 0 && (
+                        <ul className={`text-xs list-disc pl-5 ${darkMode ? 'text-amber-300' : 'text-amber-700'}`}>
+                            {result.warnings.map(warning => <li key={warning}>{warning}</li>)}
+                        </ul>
+                    )}
+
+                    <div className="overflow-x-auto">
+                        <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>{result.latex}</ReactMarkdown>
+                    </div>
+
+                    {(() => {
+                        const graph = convertGraphData(result.graph, unitSystem);
+                        return <GraphRenderer type={graph.type} data={graph.data} options={graph.options} title={graph.title} />;
+                    })()}
+                    <TableRenderer tableData={convertTableData(result.table, unitSystem)} darkMode={darkMode} />
+
+                    <div className="flex justify-end">
+                        <button
+                            type="button"
+                            onClick={() => onAddToChat(sheet.inputs, result)}
+                            className="px-4 py-2 text-sm font-medium rounded-md bg-blue-600 text-white hover:bg-blue-700"
+                        >
+                            Add to conversation
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,182 @@
+// src/app/components/ReportExporter.tsx
+'use client';
+
+import React, { useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import ChatMessageContent from './ChatMessageContent';
+import { ReportMessage, buildReportHtml, buildReportMarkdown, formatReportDate, printReportHtml } from '@/lib/reportExport';
+import { EXPORT_THEMES, buildChartSvg, downloadBlob, toFileName } from '@/lib/dataExport';
+import { UnitSystem, UNIT_SYSTEM_LABELS } from '@/lib/units';
+import { DocumentTextIcon, ExclamationTriangleIcon, PrinterIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+type ReportFormat = 'html' | 'markdown' | 'pdf';
+
+type ReportExporterProps = {
+    title: string; // The conversation's name, the report's default title
+    messages: ReportMessage[];
+    wellName: string | null; // The active well, if any
+    unitSystem: UnitSystem;
+    darkMode: boolean;
+    onClose: () => void;
+};
+
+// e.g. "Question 2: What is the ECD at 10,000 ft…"
+function describeMessages(messages: ReportMessage[]): string[] {
+    const counts = { user: 0, assistant: 0 };
+    return messages.map(message => {
+        const line = message.content.trim().split('\n')[0] || '(charts and tables)';
+        return `${message.role === 'user' ? 'Question' : 'Answer'} ${++counts[message.role]}: ${line.length > 70 ? `${line.slice(0, 67).trimEnd()}…` : line}`;
+    });
+}
+
+export default function ReportExporter({ title, messages, wellName, unitSystem, darkMode, onClose }: ReportExporterProps) {
+    const [selected, setSelected] = useState<boolean[]>(() => messages.map(() => true));
+    const [reportTitle, setReportTitle] = useState(title);
+    const [reportWell, setReportWell] = useState(wellName ?? '');
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const previewRef = useRef<HTMLDivElement>(null);
+
+    const labels = describeMessages(messages);
+    const chosen = messages.filter((_, i) => selected[i]);
+
+    const exportReport = async (format: ReportFormat) => {
+        setBusy(true);
+        setError(null);
+        try {
+            const report = { title: reportTitle.trim() || title, wellName: reportWell.trim() || null, date: Date.now(), unitSystem, messages: chosen };
+            const fileName = (extension: string) => toFileName(report.title, 'report', extension);
+            if (format === 'markdown') {
+                downloadBlob(new Blob([buildReportMarkdown(report)], { type: 'text/markdown;charset=utf-8' }), fileName('md'));
+                return;
+            }
+
+            // Math as MathML, which browsers draw without KaTeX's stylesheet and fonts
+            const { renderToStaticMarkup } = await import('react-dom/server');
+            const html = buildReportHtml(report, {
+                markdown: text => renderToStaticMarkup(
+                    <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[[rehypeKatex, { output: 'mathml' }]]}>{text}</ReactMarkdown>
+                ),
+                // Charts as drawn in the preview below, on a white page
+                chartSvg: (messageIndex, partIndex, graph) => {
+                    const container = previewRef.current?.querySelector(`[data-report-message="${messageIndex}"] [data-part-index="${partIndex}"]`);
+                    if (!(container instanceof HTMLElement)) return null;
+                    try {
+                        return buildChartSvg(container, graph.title, EXPORT_THEMES.light).svg;
+                    } catch (chartError) {
+                        console.warn(`[ReportExporter] Chart ${partIndex} of message ${messageIndex} is given as data:`, chartError);
+                        return null;
+                    }
+                },
+            });
+            if (format === 'pdf') await printReportHtml(html);
+            else downloadBlob(new Blob([html], { type: 'text/html;charset=utf-8' }), fileName('html'));
+        } catch (exportError) {
+            console.error(`[ReportExporter] The ${format} report failed:`, exportError);
+            setError(exportError instanceof Error ? exportError.message : 'The report could not be created.');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const inputClass = `px-2 py-1 rounded border text-sm ${darkMode ? 'bg-slate-900 border-slate-600 text-slate-100' : 'bg-white border-slate-300 text-slate-900'}`;
+    const buttonClass = `inline-flex items-center gap-1 px-3 py-1 rounded-md text-sm border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+        darkMode ? 'bg-slate-800 border-slate-600 text-slate-200 hover:bg-slate-700' : 'bg-white border-slate-300 text-slate-700 hover:bg-slate-100'
+    }`;
+    // Position of each chosen message in the report, which the chart lookup goes by
+    const reportIndexes = selected.map((_, i) => selected.slice(0, i).filter(Boolean).length);
+
+    return (
+        <div className={`absolute inset-0 z-20 overflow-y-auto p-4 ${darkMode ? 'bg-slate-900 text-slate-100' : 'bg-slate-50 text-slate-900'}`}>
+            <div className="flex items-center justify-between mb-2">
+                <div>
+                    <h3 className="text-lg font-semibold">Export Report</h3>
+                    <p className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                        The chosen messages with their charts, tables, sources and a calculation appendix, in {UNIT_SYSTEM_LABELS[unitSystem]} units. Made in this browser.
+                    </p>
+                </div>
+                <button type="button" onClick={onClose} className={`p-1 rounded-full ${darkMode ? 'hover:bg-slate-800' : 'hover:bg-slate-200'}`} aria-label="Close report export" title="Close report export">
+                    <XMarkIcon className="h-5 w-5" />
+                </button>
+            </div>
+
+            {error && (
+                <p className={`flex items-center gap-1 mb-3 p-2 rounded text-xs border ${darkMode ? 'bg-amber-950/40 border-amber-800 text-amber-200' : 'bg-amber-50 border-amber-300 text-amber-900'}`}>
+                    <ExclamationTriangleIcon className="h-4 w-4 flex-shrink-0" />
+                    {error}
+                </p>
+            )}
+
+            <div className="flex flex-wrap items-end gap-3 mb-3">
+                <label className="flex flex-col gap-1 flex-1 min-w-[12rem]">
+                    <span className="text-xs font-semibold">Title</span>
+                    <input type="text" value={reportTitle} onChange={e => setReportTitle(e.target.value)} className={inputClass} />
+                </label>
+                <label className="flex flex-col gap-1">
+                    <span className="text-xs font-semibold">Well</span>
+                    <input type="text" value={reportWell} onChange={e => setReportWell(e.target.value)} placeholder="None" className={inputClass} />
+                </label>
+                <span className={`text-xs pb-1.5 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>Dated {formatReportDate(Date.now())}</span>
+            </div>
+
+            <fieldset className={`mb-3 p-2 rounded border ${darkMode ? 'border-slate-700' : 'border-slate-300'}`}>
+                <legend className="px-1 text-xs font-semibold">
+                    Messages ({chosen.length} of {messages.length}) ·{' '}
+                    <button type="button" onClick={() => setSelected(messages.map(() => true))} className={`hover:underline ${darkMode ? 'text-blue-400' : 'text-blue-600'}`}>All</button>{' '}
+                    <button type="button" onClick={() => setSelected(messages.map(() => false))} className={`hover:underline ${darkMode ? 'text-blue-400' : 'text-blue-600'}`}>None</button>
+                </legend>
+                <ul className="max-h-40 overflow-y-auto custom-scrollbar text-sm">
+                    {labels.map((label, i) => (
+                        <li key={i}>
+                            <label className="flex items-center gap-2 py-0.5">
+                                <input type="checkbox" checked={selected[i]} onChange={() => setSelected(prev => prev.map((value, j) => (j === i ? !value : value)))} />
+                                <span className="truncate" title={label}>{label}</span>
+                            </label>
+                        </li>
+                    ))}
+                </ul>
+            </fieldset>
+
+            <div className="flex flex-wrap gap-2 mb-4">
+                <button type="button" onClick={() => exportReport('html')} disabled={busy || chosen.length === 0} className={buttonClass}>
+                    <DocumentTextIcon className="h-4 w-4" /> HTML
+                </button>
+                <button type="button" onClick={() => exportReport('markdown')} disabled={busy || chosen.length === 0} className={buttonClass}>
+                    <DocumentTextIcon className="h-4 w-4" /> Markdown
+                </button>
+                <button type="button" onClick={() => exportReport('pdf')} disabled={busy || chosen.length === 0} className={buttonClass} title="Opens the print dialog; choose Save as PDF">
+                    <PrinterIcon className="h-4 w-4" /> PDF
+                </button>
+            </div>
+
+            {/* Preview, which the HTML and PDF take their charts from */}
+            <div ref={previewRef} className="p-5 space-y-4 rounded-lg border border-slate-300 bg-white text-slate-900">
+                {chosen.length === 0 ? (
+                    <p className="text-center text-sm text-slate-500">Choose the messages to include.</p>
+                ) : messages.map((message, i) => {
+                    if (!selected[i]) return null;
+                    return (
+                        <div key={i} data-report-message={reportIndexes[i]}>
+                            <p className="text-xs font-semibold text-slate-500">{labels[i].split(':')[0]}</p>
+                            {message.role === 'assistant' ? (
+                                <ChatMessageContent
+                                    content={message.content}
+                                    parts={message.parts}
+                                    sources={message.sources}
+                                    calculations={message.calculations}
+                                    warnings={message.warnings}
+                                    unitSystem={unitSystem}
+                                    darkMode={false}
+                                />
+                            ) : (
+                                <p className="px-3 py-2 border-l-4 border-blue-600 bg-blue-50" style={{ whiteSpace: 'pre-wrap' }}>{message.content}</p>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,200 @@
+// src/app/components/ShareDialog.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import type { Conversation } from '@/lib/conversationStore';
+import type { ShareLink } from '@/lib/serverConversations';
+import { OWNER_KEY_HEADER, ensureConversationKey } from '@/lib/conversationKeys';
+import { CheckIcon, ClipboardDocumentIcon, ExclamationTriangleIcon, LinkIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+// Expiry choices in days; null lasts until revoked
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+    { label: 'Never', days: null },
+    { label: '1 day', days: 1 },
+    { label: '7 days', days: 7 },
+    { label: '30 days', days: 30 },
+];
+
+const shareUrl = (token: string) => `${window.location.origin}/share/${token}`;
+
+// An API error as text, e.g. "Invalid request body: 'title' must be at most 200 characters."
+async function readError(response: Response): Promise<string> {
+    const data = await response.json().catch(() => null);
+    return data?.error ? `${data.error}${data.details ? `: ${data.details}` : ''}` : `API error ${response.status}`;
+}
+
+type ShareDialogProps = {
+    conversation: Conversation; // As it was when sharing was opened
+    darkMode: boolean;
+    onClose: () => void;
+};
+
+export default function ShareDialog({ conversation, darkMode, onClose }: ShareDialogProps) {
+    const [shares, setShares] = useState<ShareLink[] | null>(null); // null until the upload finishes
+    const [expiryDays, setExpiryDays] = useState<number | null>(null);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [copiedToken, setCopiedToken] = useState<string | null>(null);
+    // Every request but the share page itself needs the key this browser owns the conversation by
+    const [ownerHeaders] = useState(() => ({ [OWNER_KEY_HEADER]: ensureConversationKey(conversation.id) }));
+
+    // Links show the conversation as stored on the server, so upload it as it is now first
+    useEffect(() => {
+        let cancelled = false;
+        const base = `/api/conversations/${encodeURIComponent(conversation.id)}`;
+        fetch(base, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json', ...ownerHeaders },
+            body: JSON.stringify({ title: conversation.title, messages: conversation.messages }),
+        })
+            .then(async response => (response.ok ? fetch(`${base}/shares`, { headers: ownerHeaders }) : Promise.reject(new Error(await readError(response)))))
+            .then(async response => (response.ok ? response.json() : Promise.reject(new Error(await readError(response)))))
+            .then((data: { shares?: ShareLink[] }) => {
+                if (!cancelled) setShares(Array.isArray(data.shares) ? data.shares : []);
+            })
+            .catch(error => {
+                console.error("Failed to upload the conversation for sharing:", error);
+                if (!cancelled) setError(`The conversation could not be uploaded. ${error instanceof Error ? error.message : ''}`.trim());
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [conversation, ownerHeaders]);
+
+    const createLink = async () => {
+        setBusy(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/conversations/${encodeURIComponent(conversation.id)}/shares`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', ...ownerHeaders },
+                body: JSON.stringify(expiryDays === null ? {} : { expiresInDays: expiryDays }),
+            });
+            if (!response.ok) throw new Error(await readError(response));
+            const link: ShareLink = await response.json();
+            setShares(prev => [...(prev ?? []), link]);
+        } catch (error) {
+            console.error("Failed to create a share link:", error);
+            setError(`The link could not be created. ${error instanceof Error ? error.message : ''}`.trim());
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const revokeLink = async (token: string) => {
+        setBusy(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/conversations/${encodeURIComponent(conversation.id)}/shares/${encodeURIComponent(token)}`, { method: 'DELETE', headers: ownerHeaders });
+            if (!response.ok) throw new Error(await readError(response));
+            const link: ShareLink = await response.json();
+            setShares(prev => (prev ?? []).map(share => (share.token === token ? link : share)));
+        } catch (error) {
+            console.error("Failed to revoke a share link:", error);
+            setError(`The link could not be revoked. ${error instanceof Error ? error.message : ''}`.trim());
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const copyLink = async (token: string) => {
+        try {
+            await navigator.clipboard.writeText(shareUrl(token));
+            setCopiedToken(token);
+            setTimeout(() => setCopiedToken(current => (current === token ? null : current)), 2000);
+        } catch (error) {
+            console.error("Failed to copy the share link:", error);
+            setError('The link could not be copied; select it and copy it instead.');
+        }
+    };
+
+    const buttonClass = `inline-flex items-center gap-1 px-3 py-1 rounded-md text-sm border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+        darkMode ? 'bg-slate-800 border-slate-600 text-slate-200 hover:bg-slate-700' : 'bg-white border-slate-300 text-slate-700 hover:bg-slate-100'
+    }`;
+    const now = Date.now();
+
+    return (
+        <div className={`absolute inset-0 z-20 overflow-y-auto p-4 ${darkMode ? 'bg-slate-900 text-slate-100' : 'bg-slate-50 text-slate-900'}`}>
+            <div className="flex items-center justify-between mb-2">
+                <div>
+                    <h3 className="text-lg font-semibold">Share “{conversation.title}”</h3>
+                    <p className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                        Anyone with a link can read the conversation as it is now, without changing it. Sharing again updates what the links show.
+                    </p>
+                </div>
+                <button type="button" onClick={onClose} className={`p-1 rounded-full ${darkMode ? 'hover:bg-slate-800' : 'hover:bg-slate-200'}`} aria-label="Close sharing" title="Close sharing">
+                    <XMarkIcon className="h-5 w-5" />
+                </button>
+            </div>
+
+            {error && (
+                <p className={`flex items-center gap-1 mb-3 p-2 rounded text-xs border ${darkMode ? 'bg-amber-950/40 border-amber-800 text-amber-200' : 'bg-amber-50 border-amber-300 text-amber-900'}`}>
+                    <ExclamationTriangleIcon className="h-4 w-4 flex-shrink-0" />
+                    {error}
+                </p>
+            )}
+
+            <div className="flex flex-wrap items-end gap-2 mb-4">
+                <label className="flex flex-col gap-1 text-sm">
+                    <span className="text-xs font-semibold">Link expires</span>
+                    <select
+                        value={expiryDays ?? ''}
+                        onChange={e => setExpiryDays(e.target.value === '' ? null : Number(e.target.value))}
+                        className={`px-2 py-1 rounded border text-sm ${darkMode ? 'bg-slate-900 border-slate-600 text-slate-100' : 'bg-white border-slate-300 text-slate-900'}`}
+                    >
+                        {EXPIRY_OPTIONS.map(option => <option key={option.label} value={option.days ?? ''}>{option.label}</option>)}
+                    </select>
+                </label>
+                <button type="button" onClick={createLink} disabled={busy || shares === null} className={buttonClass}>
+                    <LinkIcon className="h-4 w-4" /> Create link
+                </button>
+            </div>
+
+            {shares === null ? (
+                !error && <p className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>Uploading the conversation…</p>
+            ) : shares.length === 0 ? (
+                <p className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>No links yet.</p>
+            ) : (
+                <ul className="space-y-2">
+                    {[...shares].reverse().map(share => {
+                        // As isShareActive on the server, which this browser code cannot import
+                        const active = share.revokedAt === null && (share.expiresAt === null || share.expiresAt > now);
+                        return (
+                            <li key={share.token} className={`p-2 rounded border text-sm ${darkMode ? 'border-slate-700' : 'border-slate-300'} ${active ? '' : 'opacity-60'}`}>
+                                <div className="flex items-center gap-2">
+                                    <input
+                                        type="text"
+                                        readOnly
+                                        value={shareUrl(share.token)}
+                                        onFocus={e => e.target.select()}
+                                        className={`flex-1 min-w-0 px-2 py-1 rounded border font-mono text-xs ${darkMode ? 'bg-slate-900 border-slate-600 text-slate-100' : 'bg-white border-slate-300 text-slate-900'}`}
+                                        aria-label="Share link"
+                                    />
+                                    {active && (
+                                        <>
+                                            <button type="button" onClick={() => copyLink(share.token)} className={buttonClass} title="Copy link">
+                                                {copiedToken === share.token ? <CheckIcon className="h-4 w-4" /> : <ClipboardDocumentIcon className="h-4 w-4" />}
+                                                {copiedToken === share.token ? 'Copied' : 'Copy'}
+                                            </button>
+                                            <button type="button" onClick={() => revokeLink(share.token)} disabled={busy} className={`${buttonClass} ${darkMode ? 'text-red-300' : 'text-red-600'}`}>
+                                                Revoke
+                                            </button>
+                                        </>
+                                    )}
+                                </div>
+                                <p className={`mt-1 text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                                    Created {new Date(share.createdAt).toLocaleString()} ·{' '}
+                                    {share.revokedAt !== null
+                                        ? `Revoked ${new Date(share.revokedAt).toLocaleString()}`
+                                        : share.expiresAt === null
+                                            ? 'Never expires'
+                                            : `${share.expiresAt > now ? 'Expires' : 'Expired'} ${new Date(share.expiresAt).toLocaleString()}`}
+                                </p>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,101 @@
+// src/app/components/SharedConversation.tsx
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import ChatMessageContent from './ChatMessageContent';
+import { readStoredMessages } from '@/lib/storedMessages';
+import { UnitSystem, DEFAULT_UNIT_SYSTEM, UNIT_SYSTEM_LABELS, isUnitSystem } from '@/lib/units';
+import { LockClosedIcon } from '@heroicons/react/24/outline';
+
+type SharedConversationProps = {
+    title: string;
+    messages: unknown[]; // As stored on the server
+    updatedAt: number;
+    expiresAt: number | null;
+};
+
+// A conversation opened from a share link: the chat's own rendering, with nothing to edit
+export default function SharedConversation({ title, messages: stored, updatedAt, expiresAt }: SharedConversationProps) {
+    const messages = useMemo(() => readStoredMessages(stored), [stored]);
+    const [darkMode, setDarkMode] = useState(false);
+    const [unitSystem, setUnitSystem] = useState<UnitSystem>(DEFAULT_UNIT_SYSTEM);
+
+    // The reader's own theme and units, as the chat keeps them
+    useEffect(() => {
+        try {
+            const savedDarkMode = localStorage.getItem('chatbot_dark_mode');
+            setDarkMode(savedDarkMode ? savedDarkMode === 'true' : window.matchMedia('(prefers-color-scheme: dark)').matches);
+            const savedUnitSystem = localStorage.getItem('chatbot_unit_system');
+            if (isUnitSystem(savedUnitSystem)) setUnitSystem(savedUnitSystem);
+        } catch (error) {
+            console.error("Failed to load preferences:", error);
+        }
+    }, []);
+
+    const otherUnitSystem: UnitSystem = unitSystem === 'oilfield' ? 'si' : 'oilfield';
+
+    return (
+        <div className={`flex flex-col w-full max-w-4xl mx-auto border rounded-lg shadow-xl overflow-hidden ${
+            darkMode ? 'bg-slate-900 border-slate-700 text-white' : 'bg-slate-50 border-slate-300 text-slate-900'
+        }`}>
+            {/* Header */}
+            <div className={`p-4 flex items-center justify-between gap-2 border-b shadow-sm ${
+                darkMode ? 'border-slate-700 bg-gradient-to-r from-slate-900 to-slate-800' : 'border-slate-200 bg-gradient-to-r from-slate-700 to-slate-900 text-white'
+            }`}>
+                <div className="min-w-0">
+                    <h2 className="text-lg font-semibold truncate">{title}</h2>
+                    <p className="flex items-center gap-1 text-xs text-slate-300">
+                        <LockClosedIcon className="h-3.5 w-3.5" />
+                        Read-only copy · updated {new Date(updatedAt).toLocaleString()}
+                        {expiresAt !== null && ` · link expires ${new Date(expiresAt).toLocaleString()}`}
+                    </p>
+                </div>
+                <button
+                    onClick={() => setUnitSystem(otherUnitSystem)}
+                    className={`flex-shrink-0 px-3 py-1 text-xs font-semibold rounded-full border focus:outline-none focus:ring-2 focus:ring-offset-2 ${
+                        darkMode ? 'border-slate-600 text-slate-200 hover:bg-slate-800 focus:ring-blue-500' : 'border-slate-500 text-white hover:bg-slate-800 focus:ring-blue-400'
+                    }`}
+                    aria-label={`Units: ${UNIT_SYSTEM_LABELS[unitSystem]}. Switch to ${UNIT_SYSTEM_LABELS[otherUnitSystem]} units`}
+                    title={`Switch to ${UNIT_SYSTEM_LABELS[otherUnitSystem]} units`}
+                >
+                    {UNIT_SYSTEM_LABELS[unitSystem]}
+                </button>
+            </div>
+
+            {/* Messages */}
+            <div className={`p-5 md:p-8 space-y-5 ${darkMode ? 'bg-slate-800' : 'bg-white'}`}>
+                {messages.length === 0 ? (
+                    <p className={`text-center ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>This conversation has no messages.</p>
+                ) : messages.map((message, index) => (
+                    <div key={index} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                        <div className={`px-4 py-3 rounded-xl shadow-sm max-w-xl md:max-w-2xl lg:max-w-[85%] break-words ${
+                            message.role === 'user'
+                                ? 'bg-blue-600 text-white'
+                                : darkMode ? 'bg-slate-700 text-slate-100 border border-slate-600' : 'bg-slate-100 text-slate-900 border border-slate-200'
+                        }`}>
+                            {message.role === 'assistant' ? (
+                                <ChatMessageContent
+                                    content={message.content}
+                                    parts={message.parts}
+                                    sources={message.sources}
+                                    calculations={message.calculations}
+                                    warnings={message.warnings}
+                                    unitSystem={unitSystem}
+                                    darkMode={darkMode}
+                                />
+                            ) : (
+                                <span style={{ whiteSpace: 'pre-wrap' }}>{message.content}</span>
+                            )}
+                            {message.stopped && (
+                                <p className={`mt-2 text-xs italic ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>Stopped before the answer was complete.</p>
+                            )}
+                            {message.answeredBy && (
+                                <p className={`mt-2 text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>Answered by {message.answeredBy.model}</p>
+                            )}
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
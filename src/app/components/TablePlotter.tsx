@@ -0,0 +1,103 @@
+// src/app/components/TablePlotter.tsx
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import GraphRenderer from './GraphRenderer';
+import { GraphData, GraphType, GRAPH_TYPES, GRAPH_TYPE_LABELS, TableData, validateGraphData } from '@/lib/dataSchema';
+import { inferColumnKinds } from '@/lib/tableView';
+import { TablePlotChoice, suggestTablePlot, tableToGraph } from '@/lib/tablePlot';
+import { ChatBubbleLeftEllipsisIcon, ExclamationTriangleIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+// What the category column is used as, by chart type
+const CATEGORY_LABELS: Record<GraphType, string> = {
+    line: 'Categories', bar: 'Categories', area: 'Categories', composed: 'Categories', pie: 'Slice names', scatter: 'X values', depth: 'Depth',
+};
+
+type TablePlotterProps = {
+    table: TableData; // As displayed, i.e. in the current unit system
+    darkMode: boolean;
+    onAdd: (graph: GraphData) => void;
+    onCancel: () => void;
+};
+
+export default function TablePlotter({ table, darkMode, onAdd, onCancel }: TablePlotterProps) {
+    const kinds = useMemo(() => inferColumnKinds(table), [table]);
+    const [choice, setChoice] = useState<TablePlotChoice>(() => suggestTablePlot(table, kinds));
+
+    const validation = validateGraphData(tableToGraph(table, choice));
+    const singleValue = choice.type === 'pie' || choice.type === 'scatter';
+
+    const toggleValueColumn = (column: number) => setChoice(current => ({
+        ...current,
+        valueColumns: current.valueColumns.includes(column)
+            ? current.valueColumns.filter(value => value !== column)
+            : [...current.valueColumns, column].sort((a, b) => a - b),
+    }));
+
+    const inputClass = `px-2 py-1 rounded border text-sm ${darkMode ? 'bg-slate-900 border-slate-600 text-slate-100' : 'bg-white border-slate-300 text-slate-900'}`;
+    const buttonClass = (primary: boolean) => `inline-flex items-center gap-1 px-3 py-1 rounded-md text-sm border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+        primary
+            ? darkMode ? 'bg-indigo-700 border-indigo-600 text-white hover:bg-indigo-600' : 'bg-indigo-600 border-indigo-600 text-white hover:bg-indigo-700'
+            : darkMode ? 'bg-slate-800 border-slate-600 text-slate-200 hover:bg-slate-700' : 'bg-white border-slate-300 text-slate-700 hover:bg-slate-100'
+    }`;
+
+    return (
+        <div className={`mt-3 p-3 rounded-lg border text-sm ${darkMode ? 'border-indigo-700 text-slate-200' : 'border-indigo-300 text-slate-800'}`}>
+            <div className="flex flex-wrap items-end gap-3">
+                <label className="flex flex-col gap-1">
+                    <span className="text-xs font-semibold">Chart type</span>
+                    <select value={choice.type} onChange={e => setChoice({ ...choice, type: e.target.value as GraphType })} className={inputClass}>
+                        {GRAPH_TYPES.map(type => <option key={type} value={type}>{GRAPH_TYPE_LABELS[type]}</option>)}
+                    </select>
+                </label>
+                <label className="flex flex-col gap-1">
+                    <span className="text-xs font-semibold">{CATEGORY_LABELS[choice.type]}</span>
+                    <select value={choice.categoryColumn} onChange={e => setChoice({ ...choice, categoryColumn: Number(e.target.value) })} className={inputClass}>
+                        {table.headers.map((header, column) => <option key={column} value={column}>{header}</option>)}
+                    </select>
+                </label>
+                <div className="flex flex-col gap-1">
+                    <span className="text-xs font-semibold">{singleValue ? 'Value (first selected)' : 'Values'}</span>
+                    <div className="flex flex-wrap gap-3 py-1">
+                        {table.headers.map((header, column) => column !== choice.categoryColumn && (
+                            <label key={column} className={`inline-flex items-center gap-1 ${kinds[column] === 'number' ? '' : 'opacity-60'}`}>
+                                <input type="checkbox" checked={choice.valueColumns.includes(column)} onChange={() => toggleValueColumn(column)} />
+                                {header}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            {validation.ok ? (
+                <GraphRenderer
+                    type={validation.value.type}
+                    data={validation.value.data}
+                    options={validation.value.options}
+                    units={validation.value.units}
+                    title={validation.value.title}
+                    darkMode={darkMode}
+                />
+            ) : (
+                <div className={`mt-3 p-3 rounded-lg border ${darkMode ? 'bg-amber-950/40 border-amber-800 text-amber-200' : 'bg-amber-50 border-amber-300 text-amber-900'}`}>
+                    <p className="flex items-center gap-1 font-semibold">
+                        <ExclamationTriangleIcon className="h-4 w-4" />
+                        These columns cannot be drawn as a {GRAPH_TYPE_LABELS[choice.type].toLowerCase()} chart
+                    </p>
+                    <ul className="mt-1 list-disc pl-5 text-xs">
+                        {validation.errors.map((error, i) => <li key={i} className="font-mono">{error}</li>)}
+                    </ul>
+                </div>
+            )}
+
+            <div className="mt-3 flex justify-end gap-2">
+                <button type="button" onClick={onCancel} className={buttonClass(false)}>
+                    <XMarkIcon className="h-4 w-4" /> Close
+                </button>
+                <button type="button" onClick={() => validation.ok && onAdd(validation.value)} disabled={!validation.ok} className={buttonClass(true)}>
+                    <ChatBubbleLeftEllipsisIcon className="h-4 w-4" /> Add chart to chat
+                </button>
+            </div>
+        </div>
+    );
+}
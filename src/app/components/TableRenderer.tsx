@@ -0,0 +1,185 @@
+// src/app/components/TableRenderer.tsx
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import type { GraphData, TableData } from '@/lib/dataSchema';
+import { copyText, downloadDelimited, tableToDelimited, toFileName, withUnit } from '@/lib/dataExport';
+import { PRECISION_OPTIONS, Precision, TableSort, arrangeRows, formatTableCell, inferColumnKinds } from '@/lib/tableView';
+import ExportMenu from './ExportMenu';
+import TablePlotter from './TablePlotter';
+import { ChartBarIcon, ChevronDownIcon, ChevronUpDownIcon, ChevronUpIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+
+// Long tables only draw the rows in view (plus a margin), at a fixed row height
+const ROW_HEIGHT = 37; // px: one line of text-sm with py-2 and the row divider
+const BODY_HEIGHT = 480; // px: the scroll area's maximum height
+const VIRTUALIZE_FROM = 100; // rows
+const OVERSCAN = 10; // rows drawn beyond each edge of the view
+
+type TableRendererProps = {
+    tableData: TableData;
+    darkMode: boolean;
+    onPlot?: (graph: GraphData) => void; // Shows a "plot this table" button; receives the chart to add
+};
+
+export default function TableRenderer({ tableData, darkMode, onPlot }: TableRendererProps) {
+    const [filter, setFilter] = useState('');
+    const [sort, setSort] = useState<TableSort | null>(null);
+    const [precision, setPrecision] = useState<Precision>('auto');
+    const [scrollTop, setScrollTop] = useState(0);
+    const [isPlotting, setIsPlotting] = useState(false);
+
+    const kinds = useMemo(() => inferColumnKinds(tableData), [tableData]);
+    const rows = useMemo(() => arrangeRows(tableData, kinds, precision, filter, sort), [tableData, kinds, precision, filter, sort]);
+    const paddedCells = useMemo(() => new Set((tableData.paddedCells ?? []).map(([row, column]) => `${row}:${column}`)), [tableData.paddedCells]);
+    const hasNumbers = kinds.includes('number');
+
+    // Rows drawn: all of them, or for long tables the ones in view with spacers for the rest
+    const virtualized = rows.length > VIRTUALIZE_FROM;
+    const start = virtualized ? Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN) : 0;
+    const end = virtualized ? Math.min(rows.length, Math.ceil((scrollTop + BODY_HEIGHT) / ROW_HEIGHT) + OVERSCAN) : rows.length;
+
+    // Clicking a header sorts ascending, then descending, then back to the answer's order
+    const toggleSort = (column: number) => setSort(current => {
+        if (current?.column !== column) return { column, direction: 'asc' };
+        return current.direction === 'asc' ? { column, direction: 'desc' } : null;
+    });
+
+    // Export: CSV and TSV files, or tab-separated text on the clipboard to paste into Excel
+    const exportActions = [
+        { label: 'Copy for Excel', run: () => copyText(tableToDelimited(tableData, '\t')), done: 'Copied' },
+        { label: 'Download CSV', run: () => downloadDelimited(tableToDelimited(tableData, ','), toFileName(tableData.title, 'table', 'csv'), ',') },
+        { label: 'Download TSV', run: () => downloadDelimited(tableToDelimited(tableData, '\t'), toFileName(tableData.title, 'table', 'tsv'), '\t') },
+    ];
+
+    const inputClass = `px-2 py-1 rounded border text-sm ${darkMode ? 'bg-slate-900 border-slate-600 text-slate-100' : 'bg-white border-slate-300 text-slate-900'}`;
+    const renderSortIcon = (column: number) => {
+        if (sort?.column !== column) return <ChevronUpDownIcon className="h-4 w-4 opacity-40" />;
+        return sort.direction === 'asc' ? <ChevronUpIcon className="h-4 w-4" /> : <ChevronDownIcon className="h-4 w-4" />;
+    };
+
+    return (
+        <div className={`relative mt-4 mb-2 ${darkMode ? 'bg-slate-800' : 'bg-white'} p-4 rounded-lg ${darkMode ? 'border border-slate-700' : 'border border-slate-200'} shadow-sm`} style={{ whiteSpace: 'normal' }}>
+            <div className="absolute top-2 right-2 z-10 flex items-center gap-1">
+                {onPlot && (
+                    <button
+                        type="button"
+                        onClick={() => setIsPlotting(open => !open)}
+                        className={`p-1 rounded-md transition-colors ${darkMode ? 'text-slate-400 hover:bg-slate-700 hover:text-slate-200' : 'text-slate-500 hover:bg-slate-100 hover:text-slate-800'}`}
+                        aria-label="Plot this table"
+                        aria-expanded={isPlotting}
+                        title="Plot this table"
+                    >
+                        <ChartBarIcon className="h-4 w-4" />
+                    </button>
+                )}
+                <ExportMenu actions={exportActions} darkMode={darkMode} title="Export table" />
+            </div>
+            {tableData.title && <h4 className={`text-md font-semibold text-center mb-3 ${onPlot ? 'px-16' : 'px-8'} ${darkMode ? 'text-slate-200' : 'text-slate-800'}`}>{tableData.title}</h4>}
+
+            {/* Filter and precision */}
+            <div className={`flex flex-wrap items-center gap-3 mb-2 text-sm ${tableData.title ? '' : 'mt-5'} ${darkMode ? 'text-slate-300' : 'text-slate-600'}`}>
+                <label className="relative flex items-center">
+                    <MagnifyingGlassIcon className="absolute left-2 h-4 w-4 opacity-50" />
+                    <input
+                        type="search"
+                        value={filter}
+                        onChange={e => setFilter(e.target.value)}
+                        placeholder="Filter rows"
+                        className={`${inputClass} pl-7 w-44`}
+                        aria-label="Filter rows"
+                    />
+                </label>
+                {hasNumbers && (
+                    <label className="flex items-center gap-1">
+                        Decimals
+                        <select
+                            value={String(precision)}
+                            onChange={e => setPrecision(e.target.value === 'auto' ? 'auto' : Number(e.target.value))}
+                            className={inputClass}
+                        >
+                            {PRECISION_OPTIONS.map(option => <option key={option} value={String(option)}>{option === 'auto' ? 'Auto' : option}</option>)}
+                        </select>
+                    </label>
+                )}
+                <span className="text-xs">
+                    {rows.length === tableData.rows.length ? `${rows.length} row${rows.length === 1 ? '' : 's'}` : `${rows.length} of ${tableData.rows.length} rows`}
+                </span>
+            </div>
+
+            <div
+                className={`overflow-auto ${darkMode ? 'border border-slate-700' : 'border border-slate-200'}`}
+                style={{ maxHeight: BODY_HEIGHT }}
+                onScroll={virtualized ? e => setScrollTop(e.currentTarget.scrollTop) : undefined}
+            >
+                <table className={`min-w-full divide-y ${darkMode ? 'divide-slate-700' : 'divide-slate-300'}`}>
+                    <thead className={`sticky top-0 z-[1] ${darkMode ? 'bg-slate-900' : 'bg-slate-100'}`}>
+                        <tr>
+                            {tableData.headers.map((header, hIndex) => {
+                                const unit = tableData.units?.[hIndex];
+                                return (
+                                    <th
+                                        key={hIndex}
+                                        scope="col"
+                                        aria-sort={sort?.column === hIndex ? (sort.direction === 'asc' ? 'ascending' : 'descending') : 'none'}
+                                        className={`px-4 py-2 text-sm font-semibold whitespace-nowrap ${kinds[hIndex] === 'number' ? 'text-right' : 'text-left'} ${darkMode ? 'text-slate-200' : 'text-slate-900'}`}
+                                    >
+                                        <button type="button" onClick={() => toggleSort(hIndex)} className="inline-flex items-center gap-1 hover:underline" title="Sort by this column">
+                                            {withUnit(header, unit)}
+                                            {renderSortIcon(hIndex)}
+                                        </button>
+                                    </th>
+                                );
+                            })}
+                        </tr>
+                    </thead>
+                    <tbody className={`divide-y ${darkMode ? 'divide-slate-700 bg-slate-800' : 'divide-slate-200 bg-white'}`}>
+                        {start > 0 && <tr aria-hidden="true" style={{ height: start * ROW_HEIGHT }} />}
+                        {rows.slice(start, end).map(row => (
+                            <tr key={row.index} className={darkMode ? 'hover:bg-slate-900' : 'hover:bg-slate-50'} style={virtualized ? { height: ROW_HEIGHT } : undefined}>
+                                {row.cells.map((cell, cIndex) => {
+                                    const padded = paddedCells.has(`${row.index}:${cIndex}`);
+                                    return (
+                                        <td
+                                            key={cIndex}
+                                            title={padded ? 'Missing from the answer; left empty' : undefined}
+                                            className={`whitespace-nowrap px-4 py-2 text-sm ${kinds[cIndex] === 'number' ? 'text-right tabular-nums' : ''} ${
+                                                padded
+                                                    ? darkMode ? 'bg-amber-950/40 ring-1 ring-inset ring-amber-700' : 'bg-amber-50 ring-1 ring-inset ring-amber-300'
+                                                    : ''
+                                            } ${darkMode ? 'text-slate-300' : 'text-slate-700'}`}
+                                        >
+                                            {padded ? '—' : formatTableCell(cell, kinds[cIndex], precision)}
+                                        </td>
+                                    );
+                                })}
+                            </tr>
+                        ))}
+                        {end < rows.length && <tr aria-hidden="true" style={{ height: (rows.length - end) * ROW_HEIGHT }} />}
+                    </tbody>
+                </table>
+                {rows.length === 0 && filter.trim() && (
+                    <p className={`px-4 py-3 text-sm italic ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>No rows match “{filter}”.</p>
+                )}
+            </div>
+
+            {paddedCells.size > 0 && (
+                <p className={`mt-2 text-xs ${darkMode ? 'text-amber-300' : 'text-amber-700'}`}>
+                    {paddedCells.size} highlighted cell{paddedCells.size === 1 ? ' was' : 's were'} missing from the answer and {paddedCells.size === 1 ? 'is' : 'are'} left empty.
+                </p>
+            )}
+
+            {/* Plot this table: a chart from the rows as shown, without asking the model */}
+            {onPlot && isPlotting && (
+                <TablePlotter
+                    table={tableData}
+                    darkMode={darkMode}
+                    onAdd={graph => {
+                        onPlot(graph);
+                        setIsPlotting(false);
+                    }}
+                    onCancel={() => setIsPlotting(false)}
+                />
+            )}
+        </div>
+    );
+}
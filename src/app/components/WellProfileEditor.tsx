@@ -0,0 +1,291 @@
+// src/app/components/WellProfileEditor.tsx
+'use client';
+
+import React, { useState } from 'react';
+import {
+    WellProfile, HoleSectionKind, TubularKind, ProfileField,
+    WELL_DEPTH_FIELDS, FLUID_FIELDS, HOLE_SECTION_FIELDS, TUBULAR_FIELDS, HOLE_SECTION_KIND_LABELS, TUBULAR_KIND_LABELS,
+    createWellProfile, parseWellProfile,
+} from '@/lib/wellProfile';
+import { formatNumber } from '@/lib/formulas';
+import { UnitSystem, convertValue, unitForSystem } from '@/lib/units';
+import { CheckCircleIcon, PlusIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+// --- Form State ---
+// Values are edited as text in the current unit system and stored in oilfield units
+type HoleSectionRow = { label: string; kind: HoleSectionKind; values: Record<string, string> };
+type TubularRow = { label: string; kind: TubularKind; values: Record<string, string> };
+type FormState = {
+    name: string;
+    depths: Record<string, string>;
+    fluid: Record<string, string>;
+    holeSections: HoleSectionRow[];
+    tubulars: TubularRow[];
+};
+
+const toDisplay = (value: number | undefined, unit: string, unitSystem: UnitSystem): string =>
+    value === undefined ? '' : formatNumber(convertValue(value, unit, unitForSystem(unit, unitSystem)));
+
+const parseDisplay = (text: string, unit: string, unitSystem: UnitSystem): number | undefined => {
+    if (text.trim() === '') return undefined;
+    const value = Number(text);
+    return Number.isFinite(value) ? convertValue(value, unitForSystem(unit, unitSystem), unit) : undefined;
+};
+
+function displayFields<K extends string>(source: Partial<Record<K, number>>, fields: ProfileField<K>[], unitSystem: UnitSystem): Record<string, string> {
+    return Object.fromEntries(fields.map(field => [field.name, toDisplay(source[field.name], field.unit, unitSystem)]));
+}
+
+function parseFields<K extends string>(form: Record<string, string>, fields: ProfileField<K>[], unitSystem: UnitSystem): Partial<Record<K, number>> {
+    const values: Partial<Record<K, number>> = {};
+    for (const field of fields) {
+        const value = parseDisplay(form[field.name] || '', field.unit, unitSystem);
+        if (value !== undefined) values[field.name] = value;
+    }
+    return values;
+}
+
+function toFormState(profile: WellProfile, unitSystem: UnitSystem): FormState {
+    return {
+        name: profile.name,
+        depths: displayFields(profile, WELL_DEPTH_FIELDS, unitSystem),
+        fluid: displayFields(profile.fluid, FLUID_FIELDS, unitSystem),
+        holeSections: profile.holeSections.map(section => ({ label: section.label, kind: section.kind, values: displayFields(section, HOLE_SECTION_FIELDS, unitSystem) })),
+        tubulars: profile.tubulars.map(tubular => ({ label: tubular.label, kind: tubular.kind, values: displayFields(tubular, TUBULAR_FIELDS, unitSystem) })),
+    };
+}
+
+// Incomplete rows are dropped by parseWellProfile
+function toProfile(form: FormState, base: WellProfile, unitSystem: UnitSystem): WellProfile {
+    return parseWellProfile({
+        id: base.id,
+        name: form.name,
+        ...parseFields(form.depths, WELL_DEPTH_FIELDS, unitSystem),
+        holeSections: form.holeSections.map(row => ({ label: row.label, kind: row.kind, ...parseFields(row.values, HOLE_SECTION_FIELDS, unitSystem) })),
+        tubulars: form.tubulars.map(row => ({ label: row.label, kind: row.kind, ...parseFields(row.values, TUBULAR_FIELDS, unitSystem) })),
+        fluid: parseFields(form.fluid, FLUID_FIELDS, unitSystem),
+        updatedAt: Date.now(),
+    }) ?? base;
+}
+
+// --- WellProfileForm Component ---
+type WellProfileFormProps = {
+    profile: WellProfile;
+    unitSystem: UnitSystem;
+    darkMode: boolean;
+    onSave: (profile: WellProfile) => void;
+};
+
+function WellProfileForm({ profile, unitSystem, darkMode, onSave }: WellProfileFormProps) {
+    const [form, setForm] = useState<FormState>(() => toFormState(profile, unitSystem));
+    const [saved, setSaved] = useState(false);
+
+    const update = (patch: Partial<FormState>) => {
+        setForm(prev => ({ ...prev, ...patch }));
+        setSaved(false);
+    };
+    const updateHoleSection = (index: number, patch: Partial<HoleSectionRow>) =>
+        update({ holeSections: form.holeSections.map((row, i) => (i === index ? { ...row, ...patch } : row)) });
+    const updateTubular = (index: number, patch: Partial<TubularRow>) =>
+        update({ tubulars: form.tubulars.map((row, i) => (i === index ? { ...row, ...patch } : row)) });
+
+    const handleSave = () => {
+        const next = toProfile(form, profile, unitSystem);
+        onSave(next);
+        setForm(toFormState(next, unitSystem)); // Show what was kept, e.g. without incomplete rows
+        setSaved(true);
+    };
+
+    const inputClass = `w-full px-2 py-1 text-sm rounded border focus:outline-none focus:ring-1 focus:ring-blue-500 ${
+        darkMode ? 'bg-slate-800 border-slate-600 text-white placeholder-slate-500' : 'bg-white border-slate-300 text-slate-900 placeholder-slate-400'
+    }`;
+    const labelClass = darkMode ? 'text-slate-300' : 'text-slate-600';
+    const headingClass = `text-sm font-semibold mt-4 mb-2 ${darkMode ? 'text-slate-200' : 'text-slate-800'}`;
+    const removeClass = `p-1 rounded ${darkMode ? 'text-slate-400 hover:text-red-400' : 'text-slate-500 hover:text-red-600'}`;
+    const addClass = `inline-flex items-center gap-1 text-xs ${darkMode ? 'text-blue-400 hover:underline' : 'text-blue-600 hover:underline'}`;
+    const withUnit = (field: ProfileField<string>) => {
+        const unit = unitForSystem(field.unit, unitSystem);
+        return `${field.label}${unit ? `, ${unit}` : ''}`;
+    };
+
+    const renderFields = (fields: ProfileField<string>[], values: Record<string, string>, onChange: (name: string, text: string) => void) => (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-2">
+            {fields.map(field => (
+                <label key={field.name} className="text-xs">
+                    <span className={labelClass}>{withUnit(field)}</span>
+                    <input className={inputClass} value={values[field.name] || ''} inputMode="decimal" onChange={e => onChange(field.name, e.target.value)} />
+                </label>
+            ))}
+        </div>
+    );
+
+    return (
+        <div>
+            <label className="text-xs block">
+                <span className={labelClass}>Well name</span>
+                <input className={inputClass} value={form.name} onChange={e => update({ name: e.target.value })} />
+            </label>
+
+            <h4 className={headingClass}>Depths &amp; Leak-off Test</h4>
+            {renderFields(WELL_DEPTH_FIELDS, form.depths, (name, text) => update({ depths: { ...form.depths, [name]: text } }))}
+
+            <h4 className={headingClass}>Hole Sections (casing program and open hole)</h4>
+            <div className="space-y-2">
+                {form.holeSections.map((row, index) => (
+                    <div key={index} className="grid grid-cols-12 gap-2 items-end">
+                        <input className={`${inputClass} col-span-2`} value={row.label} placeholder="e.g. 9 5/8 in casing" onChange={e => updateHoleSection(index, { label: e.target.value })} aria-label="Section name" />
+                        <select className={`${inputClass} col-span-2`} value={row.kind} onChange={e => updateHoleSection(index, { kind: e.target.value as HoleSectionKind })} aria-label="Section type">
+                            {(Object.keys(HOLE_SECTION_KIND_LABELS) as HoleSectionKind[]).map(kind => <option key={kind} value={kind}>{HOLE_SECTION_KIND_LABELS[kind]}</option>)}
+                        </select>
+                        {HOLE_SECTION_FIELDS.map(field => (
+                            <input
+                                key={field.name}
+                                className={`${inputClass} ${field.name === 'shoeTvd' ? 'col-span-1' : 'col-span-2'}`}
+                                value={row.values[field.name] || ''}
+                                inputMode="decimal"
+                                placeholder={withUnit(field)}
+                                title={withUnit(field)}
+                                disabled={field.name === 'shoeTvd' && row.kind === 'open-hole'}
+                                onChange={e => updateHoleSection(index, { values: { ...row.values, [field.name]: e.target.value } })}
+                                aria-label={withUnit(field)}
+                            />
+                        ))}
+                        <button type="button" onClick={() => update({ holeSections: form.holeSections.filter((_, i) => i !== index) })} className={`col-span-1 ${removeClass}`} aria-label="Remove section">
+                            <TrashIcon className="h-4 w-4" />
+                        </button>
+                    </div>
+                ))}
+                <button type="button" onClick={() => update({ holeSections: [...form.holeSections, { label: '', kind: 'casing', values: {} }] })} className={addClass}>
+                    <PlusIcon className="h-4 w-4" /> Add section
+                </button>
+            </div>
+
+            <h4 className={headingClass}>Drill String (surface to bit)</h4>
+            <div className="space-y-2">
+                {form.tubulars.map((row, index) => (
+                    <div key={index} className="grid grid-cols-12 gap-2 items-end">
+                        <input className={`${inputClass} col-span-3`} value={row.label} placeholder="e.g. 5 in DP" onChange={e => updateTubular(index, { label: e.target.value })} aria-label="Tubular name" />
+                        <select className={`${inputClass} col-span-2`} value={row.kind} onChange={e => updateTubular(index, { kind: e.target.value as TubularKind })} aria-label="Tubular type">
+                            {(Object.keys(TUBULAR_KIND_LABELS) as TubularKind[]).map(kind => <option key={kind} value={kind}>{TUBULAR_KIND_LABELS[kind]}</option>)}
+                        </select>
+                        {TUBULAR_FIELDS.map(field => (
+                            <input
+                                key={field.name}
+                                className={`${inputClass} col-span-2`}
+                                value={row.values[field.name] || ''}
+                                inputMode="decimal"
+                                placeholder={withUnit(field)}
+                                title={withUnit(field)}
+                                onChange={e => updateTubular(index, { values: { ...row.values, [field.name]: e.target.value } })}
+                                aria-label={withUnit(field)}
+                            />
+                        ))}
+                        <button type="button" onClick={() => update({ tubulars: form.tubulars.filter((_, i) => i !== index) })} className={`col-span-1 ${removeClass}`} aria-label="Remove tubular">
+                            <TrashIcon className="h-4 w-4" />
+                        </button>
+                    </div>
+                ))}
+                <button type="button" onClick={() => update({ tubulars: [...form.tubulars, { label: '', kind: 'drill-pipe', values: {} }] })} className={addClass}>
+                    <PlusIcon className="h-4 w-4" /> Add tubular
+                </button>
+            </div>
+
+            <h4 className={headingClass}>Mud &amp; Pump</h4>
+            {renderFields(FLUID_FIELDS, form.fluid, (name, text) => update({ fluid: { ...form.fluid, [name]: text } }))}
+
+            <div className="flex items-center justify-end gap-3 mt-4">
+                {saved && <span className={`text-xs ${darkMode ? 'text-green-400' : 'text-green-700'}`}>Saved</span>}
+                <button type="button" onClick={handleSave} className="px-4 py-2 text-sm font-medium rounded-md bg-blue-600 text-white hover:bg-blue-700">
+                    Save well
+                </button>
+            </div>
+        </div>
+    );
+}
+
+// --- WellProfileEditor Component ---
+type WellProfileEditorProps = {
+    profiles: WellProfile[];
+    activeId: string | null; // Profile sent with chat requests
+    unitSystem: UnitSystem;
+    darkMode: boolean;
+    onChange: (profiles: WellProfile[], activeId: string | null) => void;
+    onClose: () => void;
+};
+
+export default function WellProfileEditor({ profiles, activeId, unitSystem, darkMode, onChange, onClose }: WellProfileEditorProps) {
+    const [selectedId, setSelectedId] = useState<string | null>(activeId ?? profiles[0]?.id ?? null);
+    const selected = profiles.find(profile => profile.id === selectedId);
+
+    const addProfile = () => {
+        const profile = createWellProfile(`Well ${profiles.length + 1}`);
+        onChange([...profiles, profile], activeId ?? profile.id);
+        setSelectedId(profile.id);
+    };
+
+    const saveProfile = (profile: WellProfile) => {
+        onChange(profiles.map(p => (p.id === profile.id ? profile : p)), activeId);
+    };
+
+    const deleteProfile = (id: string) => {
+        const remaining = profiles.filter(p => p.id !== id);
+        onChange(remaining, activeId === id ? null : activeId);
+        setSelectedId(remaining[0]?.id ?? null);
+    };
+
+    const buttonClass = `px-3 py-1 text-xs rounded-md border ${darkMode ? 'border-slate-600 hover:bg-slate-800' : 'border-slate-300 hover:bg-slate-200'}`;
+
+    return (
+        <div className={`absolute inset-0 z-20 overflow-y-auto p-4 ${darkMode ? 'bg-slate-900 text-slate-100' : 'bg-slate-50 text-slate-900'}`}>
+            <div className="flex items-center justify-between mb-2">
+                <div>
+                    <h3 className="text-lg font-semibold">Well Profiles</h3>
+                    <p className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>The active well is sent with every question and fills in calculator inputs you leave out. Stored in this browser only.</p>
+                </div>
+                <button type="button" onClick={onClose} className={`p-1 rounded-full ${darkMode ? 'hover:bg-slate-800' : 'hover:bg-slate-200'}`} aria-label="Close well profiles" title="Close well profiles">
+                    <XMarkIcon className="h-5 w-5" />
+                </button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+                <select
+                    className={`px-2 py-1 text-sm rounded border ${darkMode ? 'bg-slate-800 border-slate-600 text-white' : 'bg-white border-slate-300 text-slate-900'}`}
+                    value={selectedId ?? ''}
+                    onChange={e => setSelectedId(e.target.value || null)}
+                    disabled={profiles.length === 0}
+                    aria-label="Well to edit"
+                >
+                    {profiles.length === 0 && <option value="">No wells yet</option>}
+                    {profiles.map(profile => (
+                        <option key={profile.id} value={profile.id}>{profile.name}{profile.id === activeId ? ' (active)' : ''}</option>
+                    ))}
+                </select>
+                <button type="button" onClick={addProfile} className={`${buttonClass} inline-flex items-center gap-1`}>
+                    <PlusIcon className="h-4 w-4" /> New well
+                </button>
+                {selected && (selected.id === activeId ? (
+                    <button type="button" onClick={() => onChange(profiles, null)} className={`${buttonClass} inline-flex items-center gap-1`} title="Stop sending this well with questions">
+                        <CheckCircleIcon className={`h-4 w-4 ${darkMode ? 'text-green-400' : 'text-green-600'}`} /> Active
+                    </button>
+                ) : (
+                    <button type="button" onClick={() => onChange(profiles, selected.id)} className={buttonClass}>
+                        Make active
+                    </button>
+                ))}
+                {selected && (
+                    <button type="button" onClick={() => deleteProfile(selected.id)} className={`${buttonClass} ${darkMode ? 'text-red-300' : 'text-red-700'}`}>
+                        Delete
+                    </button>
+                )}
+            </div>
+
+            {selected ? (
+                <WellProfileForm key={`${selected.id}-${unitSystem}`} profile={selected} unitSystem={unitSystem} darkMode={darkMode} onSave={saveProfile} />
+            ) : (
+                <p className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-600'}`}>
+                    Create a well to describe its hole sections, drill string and mud once instead of restating them in every question.
+                </p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,26 @@
+// src/app/share/[id]/page.tsx
+import { notFound } from 'next/navigation';
+import SharedConversation from '../../components/SharedConversation';
+import { getConversationStorage, getSharedConversation } from '@/lib/serverConversations';
+
+// Links can be revoked or expire at any time, so the page is never cached
+export const dynamic = 'force-dynamic';
+
+export default async function SharePage({ params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const storage = getConversationStorage();
+    const shared = storage ? await getSharedConversation(storage, id) : null;
+    // Unknown, revoked and expired links look the same to the reader
+    if (!shared) notFound();
+
+    return (
+        <div className="container mx-auto py-8 px-4">
+            <SharedConversation
+                title={shared.conversation.title}
+                messages={shared.conversation.messages}
+                updatedAt={shared.conversation.updatedAt}
+                expiresAt={shared.link.expiresAt}
+            />
+        </div>
+    );
+}
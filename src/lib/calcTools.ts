@@ -0,0 +1,252 @@
+// src/lib/calcTools.ts
+// Exposes the formula library to the model as OpenAI-style tools and runs the calls server-side.
+import { FORMULAS, FormulaDefinition, FormulaResult, getFormula, resolveFormulaInputs, evaluateFormula, formulaUnit, formatNumber } from './formulas';
+import { KillSheetPrefill, KILL_SHEET_FIELDS, CAPACITY_UNIT, SECTION_LENGTH_UNIT, parseKillSheetPrefill, isCompleteKillSheet, getMissingKillSheetFields, computeKillSheet } from './killSheet';
+import { UnitSystem, convertValue, unitForSystem, toUnitSystem } from './units';
+import { WellProfile, getProfileDefaults, getKillSheetPrefill } from './wellProfile';
+
+// --- Types ---
+export type ToolDefinition = {
+    type: 'function';
+    function: {
+        name: string;
+        description: string;
+        parameters: {
+            type: 'object';
+            properties: Record<string, { type: string; description: string; [key: string]: unknown }>;
+            required: string[];
+        };
+    };
+};
+
+export type ToolCall = {
+    id: string;
+    type: 'function';
+    function: { name: string; arguments: string };
+};
+
+/**
+ * One executed tool call, returned to the client as the "calculation trace".
+ */
+export type CalculationTrace = {
+    id: string; // tool_call_id from the provider
+    tool: string;
+    formulaId: string | null;
+    title: string;
+    inputs: Record<string, unknown>; // Arguments exactly as the model sent them
+    result?: FormulaResult;
+    error?: string;
+};
+
+const TOOL_PREFIX = 'calc_';
+
+// Tool names allow [a-zA-Z0-9_-]; formula ids use hyphens, tools use underscores
+export const toolNameForFormula = (formulaId: string): string => TOOL_PREFIX + formulaId.replace(/-/g, '_');
+const formulaIdForTool = (toolName: string): string => toolName.slice(TOOL_PREFIX.length).replace(/_/g, '-');
+
+// --- Tool Definitions ---
+
+function toToolDefinition(formula: FormulaDefinition, unitSystem: UnitSystem, profileDefaults: Record<string, number> = {}): ToolDefinition {
+    const converted = [...formula.inputs, formula.output].some(item => formulaUnit(formula, item.unit, unitSystem) !== item.unit);
+    return {
+        type: 'function',
+        function: {
+            name: toolNameForFormula(formula.id),
+            description: `${formula.title}: ${formula.description} (Handbook p. ${formula.reference.page})`
+                + (converted ? ` Takes and returns SI units as listed in the parameters; the result is in ${formulaUnit(formula, formula.output.unit, unitSystem) || 'no unit'}.` : ''),
+            parameters: {
+                type: 'object',
+                properties: Object.fromEntries(formula.inputs.map(input => {
+                    const unit = formulaUnit(formula, input.unit, unitSystem);
+                    const profileValue = profileDefaults[input.name];
+                    const defaultNote = profileValue !== undefined
+                        ? ` (default ${formatNumber(convertValue(profileValue, input.unit, unit))} from the active well profile)`
+                        : input.defaultValue !== undefined ? ` (default ${input.defaultValue})` : '';
+                    return [
+                        input.name,
+                        {
+                            type: 'number',
+                            description: `${input.label}${unit ? `, ${unit}` : ''}${defaultNote}`,
+                        },
+                    ];
+                })),
+                required: formula.inputs.filter(input => input.defaultValue === undefined && profileDefaults[input.name] === undefined).map(input => input.name),
+            },
+        },
+    };
+}
+
+const toolsBySystem = new Map<UnitSystem, ToolDefinition[]>();
+
+/**
+ * The calculator tools, with parameter units described in the given unit system. Inputs the
+ * well profile supplies become optional and list the profile's value as their default.
+ */
+export function getCalculatorTools(unitSystem: UnitSystem, profile?: WellProfile | null): ToolDefinition[] {
+    if (profile) return FORMULAS.map(formula => toToolDefinition(formula, unitSystem, getProfileDefaults(profile, formula)));
+    let tools = toolsBySystem.get(unitSystem);
+    if (!tools) {
+        tools = FORMULAS.map(formula => toToolDefinition(formula, unitSystem));
+        toolsBySystem.set(unitSystem, tools);
+    }
+    return tools;
+}
+
+// --- Execution ---
+
+/**
+ * Runs one tool call with arguments in `unitSystem`; omitted arguments come from the well
+ * profile if it has them. Never throws: failures are recorded in the trace and reported back
+ * to the model so it can correct its arguments.
+ */
+export function executeToolCall(call: ToolCall, unitSystem: UnitSystem, profile?: WellProfile | null): CalculationTrace {
+    const toolName = call.function?.name || '';
+    const formula = toolName.startsWith(TOOL_PREFIX) ? getFormula(formulaIdForTool(toolName)) : undefined;
+    const trace: CalculationTrace = { id: call.id, tool: toolName, formulaId: formula?.id ?? null, title: formula?.title ?? toolName, inputs: {} };
+
+    if (!formula) {
+        trace.error = `Unknown tool '${toolName}'.`;
+        return trace;
+    }
+
+    try {
+        trace.inputs = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+    } catch {
+        trace.error = `Tool arguments are not valid JSON: ${call.function.arguments}`;
+        return trace;
+    }
+
+    const { values, errors } = resolveFormulaInputs(formula, trace.inputs, unitSystem, profile ? getProfileDefaults(profile, formula) : {});
+    if (errors.length > 0) {
+        trace.error = errors.join(' ');
+        return trace;
+    }
+
+    try {
+        trace.result = evaluateFormula(formula, values, unitSystem);
+    } catch (error) {
+        trace.error = error instanceof Error ? error.message : 'Calculation failed.';
+    }
+    return trace;
+}
+
+/**
+ * The content of the `tool` message sent back to the model for an executed call.
+ */
+export function toolResultMessage(trace: CalculationTrace): { role: 'tool'; tool_call_id: string; content: string } {
+    const content = trace.result
+        ? {
+            result: trace.result.result,
+            inputs: trace.result.inputs,
+            working_latex: trace.result.latex.markdown,
+            handbook_page: trace.result.reference.page,
+        }
+        : { error: trace.error };
+    return { role: 'tool', tool_call_id: trace.id, content: JSON.stringify(content) };
+}
+
+// --- Kill Sheet Tool ---
+export const KILL_SHEET_TOOL_NAME = 'open_kill_sheet';
+
+/**
+ * Human-readable name of a tool, e.g. for "Running Hydrostatic Pressure..." status lines.
+ */
+export function getToolTitle(toolName: string): string {
+    if (toolName === KILL_SHEET_TOOL_NAME) return 'Kill Sheet';
+    const formula = toolName.startsWith(TOOL_PREFIX) ? getFormula(formulaIdForTool(toolName)) : undefined;
+    return formula?.title ?? toolName;
+}
+
+/**
+ * Tool that opens the interactive kill sheet in the UI, pre-filled with the kick data the
+ * model extracted from the conversation. Values are described in `unitSystem`.
+ */
+export function getKillSheetTool(unitSystem: UnitSystem): ToolDefinition {
+    const capacityUnit = unitForSystem(CAPACITY_UNIT, unitSystem);
+    const lengthUnit = unitForSystem(SECTION_LENGTH_UNIT, unitSystem);
+    const sectionSchema = (description: string, openHole: boolean) => ({
+        type: 'array',
+        description,
+        items: {
+            type: 'object',
+            properties: {
+                label: { type: 'string', description: 'Section name, e.g. "Drill pipe"' },
+                capacity: { type: 'number', description: `Capacity, ${capacityUnit}` },
+                length: { type: 'number', description: `Length, ${lengthUnit}` },
+                ...(openHole ? { openHole: { type: 'boolean', description: 'True if the section is in open hole (below the casing shoe)' } } : {}),
+            },
+            required: ['capacity', 'length'],
+        },
+    });
+    return {
+        type: 'function',
+        function: {
+            name: KILL_SHEET_TOOL_NAME,
+            description: 'Opens the interactive Normal Kill Sheet (Handbook Chapter 4) for the user, pre-filled with the values given. '
+                + 'Call it when the user reports a kick or asks how to kill a well. Pass only values the user actually stated; the user completes the rest. '
+                + 'Values missing from the call are taken from the active well profile, if any. '
+                + 'When the sheet is complete the result includes kill weight mud, ICP, FCP, strokes to bit and the step-down schedule.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    ...Object.fromEntries(KILL_SHEET_FIELDS.map(field => {
+                        const unit = unitForSystem(field.unit, unitSystem);
+                        return [field.name, { type: 'number', description: `${field.label}, ${unit}` }];
+                    })),
+                    drillString: sectionSchema('Drill string sections from surface to bit', false),
+                    annulus: sectionSchema('Annulus sections from bit to surface', true),
+                },
+                required: [],
+            },
+        },
+    };
+}
+
+/**
+ * Runs an open_kill_sheet call, filling values the model left out from the well profile.
+ * Returns the prefill for the UI (oilfield units) and the tool message for the model: the
+ * computed sheet if complete, otherwise the missing fields.
+ */
+export function executeKillSheetCall(call: ToolCall, unitSystem: UnitSystem, profile?: WellProfile | null): { prefill: KillSheetPrefill; message: ReturnType<typeof toolResultMessage> } {
+    let args: unknown = {};
+    let errors: string[] = [];
+    try {
+        args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+    } catch {
+        errors = [`Tool arguments are not valid JSON: ${call.function.arguments}`];
+    }
+    const parsed = parseKillSheetPrefill(args, unitSystem);
+    const prefill: KillSheetPrefill = { ...(profile ? getKillSheetPrefill(profile) : {}), ...parsed.prefill };
+    errors = [...errors, ...parsed.errors];
+
+    let content: Record<string, unknown> = { opened: true, errors: errors.length > 0 ? errors : undefined };
+    if (isCompleteKillSheet(prefill)) {
+        try {
+            const sheet = computeKillSheet(prefill);
+            const report = (value: number, unit: string) => {
+                const converted = toUnitSystem(value, unit, unitSystem);
+                return `${formatNumber(converted.value)} ${converted.unit}`;
+            };
+            content = {
+                ...content,
+                kill_weight_mud: report(sheet.killMudWeightRounded, 'ppg'),
+                initial_circulating_pressure: report(sheet.icp, 'psi'),
+                final_circulating_pressure: report(sheet.fcp, 'psi'),
+                strokes_to_bit: sheet.strokesToBit,
+                bit_to_surface_strokes: sheet.bitToSurfaceStrokes,
+                max_allowable_shut_in_casing_pressure: sheet.maasp !== null ? report(sheet.maasp, 'psi') : undefined,
+                schedule: sheet.schedule.map(line => ({ strokes: line.strokes, pressure: report(line.pressure, 'psi') })),
+                warnings: sheet.warnings,
+                working_latex: sheet.latex,
+                handbook_page: sheet.reference.page,
+                note: 'The completed kill sheet, its pressure chart table and graph are shown to the user; summarise it rather than repeating the schedule.',
+            };
+        } catch (error) {
+            content.errors = [...errors, error instanceof Error ? error.message : 'Kill sheet calculation failed.'];
+        }
+    } else {
+        content.missing = getMissingKillSheetFields(prefill);
+        content.note = 'The kill sheet is open for the user with the values given. Ask for, or let the user enter, the missing values.';
+    }
+    return { prefill, message: { role: 'tool', tool_call_id: call.id, content: JSON.stringify(content) } };
+}
@@ -0,0 +1,205 @@
+// src/lib/chartEditing.ts
+// The edits the chart editor makes to a GraphData: switching chart type (reshaping the points
+// where the new type needs it), hiding series, renaming axes, reordering points and editing
+// values. Every edit returns a new graph; the editor validates the result before saving it.
+import {
+    AXIS_OPTION_FIELDS, AxisId, GraphData, GraphOptions, GraphType,
+    getCategoryKey, getDepthKey, getSeriesKeys
+} from './dataSchema';
+
+// --- Types ---
+type ChartFamily = 'category' | 'pie' | 'scatter' | 'depth';
+
+// A graph as category data: a label per point plus numeric series
+type CategoryShape = {
+    points: Record<string, unknown>[];
+    categoryKey: string;
+    series: string[];
+    units: Record<string, string>;
+};
+
+const getFamily = (type: string): ChartFamily => {
+    const lower = type.toLowerCase();
+    return lower === 'pie' || lower === 'scatter' || lower === 'depth' ? lower : 'category';
+};
+
+const toNumber = (value: unknown): number | null => {
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    const parsed = typeof value === 'string' ? parseFloat(value.replace(/,/g, '')) : NaN;
+    return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Units re-keyed after the points' keys were renamed; keys without a unit are left out
+function mapUnits(units: Record<string, string> | undefined, mapping: Record<string, string>): Record<string, string> {
+    const mapped: Record<string, string> = {};
+    for (const [from, to] of Object.entries(mapping)) {
+        if (units?.[from]) mapped[to] = units[from];
+    }
+    return mapped;
+}
+
+// --- Reading ---
+
+/**
+ * The series the editor can switch on and off: the numeric series of line, bar, area and
+ * composed charts and the curves of depth charts. Pie and scatter charts have a single series.
+ */
+export function getEditableSeries(graph: GraphData): string[] {
+    const family = getFamily(graph.type);
+    if (family === 'category') return getSeriesKeys(graph.data, getCategoryKey(graph.data));
+    if (family === 'depth') return getSeriesKeys(graph.data, getDepthKey(graph.options));
+    return [];
+}
+
+// The key labelling each point (kept as text in the value grid), if the chart type has one
+export function getLabelKey(graph: GraphData): string | null {
+    const family = getFamily(graph.type);
+    if (family === 'category') return getCategoryKey(graph.data);
+    if (family === 'pie') return 'name';
+    return null;
+}
+
+// Whether points keep the order they are given in (depth and scatter charts are positioned by value)
+export const canReorderPoints = (graph: GraphData): boolean => ['category', 'pie'].includes(getFamily(graph.type));
+
+// --- Changing Type ---
+
+function toCategoryShape(graph: GraphData): CategoryShape {
+    const family = getFamily(graph.type);
+    if (family === 'pie') {
+        return { points: graph.data, categoryKey: 'name', series: ['value'], units: mapUnits(graph.units, { value: 'value' }) };
+    }
+    if (family === 'scatter') {
+        return {
+            points: graph.data.map(point => ({ name: String(point.x ?? ''), y: point.y })),
+            categoryKey: 'name',
+            series: ['y'],
+            units: mapUnits(graph.units, { x: 'name', y: 'y' }),
+        };
+    }
+    if (family === 'depth') {
+        const depthKey = getDepthKey(graph.options);
+        const curves = getSeriesKeys(graph.data, depthKey);
+        return {
+            points: graph.data.map(point => {
+                const rest = { ...point };
+                delete rest[depthKey];
+                return { name: String(point[depthKey] ?? ''), ...rest };
+            }),
+            categoryKey: 'name',
+            series: curves,
+            units: { ...mapUnits(graph.units, Object.fromEntries(curves.map(key => [key, key]))), ...mapUnits(graph.units, { [depthKey]: 'name' }) },
+        };
+    }
+    const categoryKey = getCategoryKey(graph.data) ?? 'name';
+    return { points: graph.data, categoryKey, series: getSeriesKeys(graph.data, categoryKey), units: { ...(graph.units ?? {}) } };
+}
+
+// Options that only mean something for some chart types are dropped when switching away from them
+function optionsFor(options: GraphOptions | undefined, from: ChartFamily, to: ChartFamily, type: GraphType): GraphOptions {
+    const next: GraphOptions = { ...(options ?? {}) };
+    if (type !== 'composed') delete next.chartConfig;
+    if (to !== 'depth') {
+        delete next.depthKey;
+        delete next.windows;
+        delete next.casingShoes;
+    } else if (from !== 'depth') {
+        delete next.depthKey;
+    }
+    if (to !== 'category') delete next.y2Axis;
+    if (to === 'pie' || to === 'scatter') delete next.hiddenSeries;
+    if (from !== to) delete next.note;
+    return next;
+}
+
+/**
+ * The graph drawn as `type`. Line, bar, area and composed charts share their points; other
+ * switches go through category data (label plus series), taking the first visible series where
+ * the new type has only one, and reading labels as numbers where it needs them.
+ */
+export function changeGraphType(graph: GraphData, type: GraphType): GraphData {
+    const from = getFamily(graph.type);
+    const to = getFamily(type);
+    if (graph.type.toLowerCase() === type) return graph;
+    const options = optionsFor(graph.options, from, to, type);
+
+    if (from === 'category' && to === 'category') {
+        if (type === 'composed' && !Array.isArray(options.chartConfig)) {
+            const mark = graph.type.toLowerCase() === 'bar' || graph.type.toLowerCase() === 'area' ? graph.type.toLowerCase() as 'bar' | 'area' : 'line';
+            options.chartConfig = getEditableSeries(graph).map(dataKey => ({ type: mark, dataKey }));
+        }
+        return { ...graph, type, options };
+    }
+
+    const shape = toCategoryShape(graph);
+    const hidden = graph.options?.hiddenSeries ?? [];
+    const first = shape.series.find(key => !hidden.includes(key)) ?? shape.series[0] ?? 'value';
+
+    switch (to) {
+        case 'pie':
+            return {
+                ...graph, type, options,
+                data: shape.points.map(point => ({ name: String(point[shape.categoryKey] ?? ''), value: point[first] ?? null })),
+                units: mapUnits(shape.units, { [first]: 'value' }),
+            };
+        case 'scatter':
+            return {
+                ...graph, type, options,
+                data: shape.points.map((point, i) => ({ x: toNumber(point[shape.categoryKey]) ?? i + 1, y: point[first] ?? null })),
+                units: mapUnits(shape.units, { [shape.categoryKey]: 'x', [first]: 'y' }),
+            };
+        case 'depth':
+            return {
+                ...graph, type, options,
+                data: shape.points.map(point => {
+                    const curves = { ...point };
+                    delete curves[shape.categoryKey];
+                    return { depth: toNumber(point[shape.categoryKey]), ...curves };
+                }),
+                units: { ...mapUnits(shape.units, Object.fromEntries(shape.series.map(key => [key, key]))), ...mapUnits(shape.units, { [shape.categoryKey]: 'depth' }) },
+            };
+        default:
+            if (type === 'composed') options.chartConfig = shape.series.map(dataKey => ({ type: 'line', dataKey }));
+            return { ...graph, type, options, data: shape.points, units: shape.units };
+    }
+}
+
+// --- Other Edits ---
+
+export function toggleSeries(graph: GraphData, key: string): GraphData {
+    const hidden = graph.options?.hiddenSeries ?? [];
+    const hiddenSeries = hidden.includes(key) ? hidden.filter(hiddenKey => hiddenKey !== key) : [...hidden, key];
+    const options: GraphOptions = { ...(graph.options ?? {}), hiddenSeries };
+    if (hiddenSeries.length === 0) delete options.hiddenSeries;
+    return { ...graph, options };
+}
+
+// An empty name removes the axis title (the unit alone is then shown)
+export function renameAxis(graph: GraphData, axis: AxisId, name: string): GraphData {
+    const field = AXIS_OPTION_FIELDS[axis];
+    const axisOptions = { ...(graph.options?.[field] ?? {}) };
+    if (name.trim()) axisOptions.name = name;
+    else delete axisOptions.name;
+    return { ...graph, options: { ...(graph.options ?? {}), [field]: axisOptions } };
+}
+
+// Moves the point at `index` by `offset` places (e.g. -1 moves a category one place earlier)
+export function movePoint(graph: GraphData, index: number, offset: number): GraphData {
+    const target = index + offset;
+    if (index < 0 || index >= graph.data.length || target < 0 || target >= graph.data.length) return graph;
+    const data = [...graph.data];
+    const [point] = data.splice(index, 1);
+    data.splice(target, 0, point);
+    return { ...graph, data };
+}
+
+/**
+ * Sets one value from the grid. Labels stay text; other cells become numbers, an empty cell
+ * becomes null, and text that is not a number is kept so validation can point it out.
+ */
+export function setPointValue(graph: GraphData, index: number, key: string, input: string): GraphData {
+    const isLabel = key === getLabelKey(graph);
+    const trimmed = input.trim();
+    const value = isLabel ? input : trimmed === '' ? null : toNumber(trimmed) ?? input;
+    return { ...graph, data: graph.data.map((point, i) => (i === index ? { ...point, [key]: value } : point)) };
+}
@@ -0,0 +1,66 @@
+// src/lib/chatStream.ts
+// Server-sent events between the chat route and the Chatbot, and a reader for SSE bodies
+// (used for both the provider's stream and the route's own).
+import type { ContentPart } from './responseEnvelope';
+
+// --- Types ---
+// While streaming, the answer arrives as markdown deltas and whole chart/table parts; the
+// `done` response carries the final envelope, which replaces that preview
+export type ChatStreamEvent =
+    | { type: 'delta'; content: string } // More markdown, continuing the current text part
+    | { type: 'part'; part: ContentPart } // A complete chart or table
+    | { type: 'pending' } // A chart or table has started arriving
+    | { type: 'reset' } // The text streamed so far preceded tool calls and is not part of the answer
+    | { type: 'tool'; name: string; title: string } // A calculator is running
+    | { type: 'retry'; model: string; reason: string; delayMs: number } // The last attempt failed; trying `model` after delayMs
+    | { type: 'repair'; blocks: number } // The answer is complete; its invalid data blocks are being corrected
+    | { type: 'done'; response: Record<string, unknown> } // Same body as the non-streaming JSON response
+    | { type: 'error'; error: string; details: string; status: number };
+
+export const SSE_CONTENT_TYPE = 'text/event-stream';
+
+export const encodeStreamEvent = (event: ChatStreamEvent): string => `data: ${JSON.stringify(event)}\n\n`;
+
+// --- Reading ---
+
+/**
+ * Yields the `data:` payload of each event in an SSE body. Comment lines (": keep-alive")
+ * and other fields are skipped; multi-line data is joined with newlines.
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+        for (;;) {
+            const { done, value } = await reader.read();
+            buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+            const events = buffer.split(/\r?\n\r?\n/);
+            buffer = done ? '' : events.pop() ?? '';
+            for (const event of events) {
+                const data = event
+                    .split(/\r?\n/)
+                    .filter(line => line.startsWith('data:'))
+                    .map(line => line.slice(5).replace(/^ /, ''));
+                if (data.length > 0) yield data.join('\n');
+            }
+            if (done) return;
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+/**
+ * Parses the route's events; malformed payloads are skipped.
+ */
+export async function* readChatStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+    for await (const data of readServerSentEvents(body)) {
+        try {
+            const event = JSON.parse(data);
+            if (event && typeof event.type === 'string') yield event as ChatStreamEvent;
+        } catch {
+            console.warn('Skipping malformed chat stream event:', data);
+        }
+    }
+}
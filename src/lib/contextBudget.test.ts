@@ -0,0 +1,54 @@
+// src/lib/contextBudget.test.ts
+import { describe, expect, it } from 'vitest';
+import { budgetConversation, estimateTokens, getHistoryBudget } from './contextBudget';
+
+const table = { title: 'Kill Schedule', headers: ['Strokes', 'Pressure'], units: [null, 'psi'], rows: Array.from({ length: 50 }, (_, i) => [i * 100, 1480 - i * 5]) };
+const turns = [
+    { role: 'user', content: 'Give me the kill schedule as a table.' },
+    { role: 'assistant', content: 'Here it is.', parts: [{ type: 'markdown', text: 'Here it is.' }, { type: 'table', table }] },
+    { role: 'user', content: 'And the hydrostatic pressure of 12 ppg mud at 10,000 ft?' },
+];
+
+describe('getHistoryBudget', () => {
+    it('reserves the answer, the fixed texts and a safety margin', () => {
+        expect(estimateTokens('12345678')).toBe(2);
+        expect(getHistoryBudget(1000, 200, ['x'.repeat(400)])).toBe(1000 * 0.9 - 200 - 104);
+        expect(getHistoryBudget(100, 200, [])).toBe(0);
+    });
+});
+
+describe('budgetConversation', () => {
+    it('sends everything that fits unchanged', () => {
+        const { messages, summary, report } = budgetConversation(turns, 100000);
+        expect(messages).toHaveLength(3);
+        expect(messages[1].content).toContain('<!--TABLE_DATA:');
+        expect(summary).toBeNull();
+        expect(report.compacted).toEqual([]);
+    });
+
+    it('still reads the single data block older clients send', () => {
+        const legacy = [turns[0], { role: 'assistant', content: 'Here it is.', tableData: table }, turns[2]];
+        expect(budgetConversation(legacy, 100000).messages).toEqual(budgetConversation(turns, 100000).messages);
+    });
+
+    it('shortens older data blocks first', () => {
+        const { messages, report } = budgetConversation(turns, 150);
+        expect(report.compacted).toEqual([{ index: 1, action: 'data-stripped' }]);
+        expect(messages[1].content).toBe('Here it is.\n\n[Data omitted: table "Kill Schedule", columns Strokes, Pressure (psi), 50 rows]');
+        expect(report.historyTokens).toBeLessThanOrEqual(150);
+    });
+
+    it('summarises older turns and always keeps the question', () => {
+        const longTurns = [{ role: 'user', content: `Give me the kill schedule as a table. ${'Show each step. '.repeat(120)}` }, ...turns.slice(1)];
+        const { messages, summary, report } = budgetConversation(longTurns, 400);
+        expect(messages).toEqual([{ role: 'user', content: turns[2].content }]);
+        expect(summary).toContain('- User: Give me the kill schedule as a table.');
+        expect(report.compacted.map(c => c.action)).toEqual(['summarised', 'summarised']);
+    });
+
+    it('sends the question even when it alone is over budget', () => {
+        const { messages, report } = budgetConversation(turns, 1);
+        expect(messages).toEqual([{ role: 'user', content: turns[2].content }]);
+        expect(report.compacted.map(c => c.action)).toEqual(['dropped', 'dropped']);
+    });
+});
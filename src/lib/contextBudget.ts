@@ -0,0 +1,198 @@
+// src/lib/contextBudget.ts
+// Fits the conversation history into the model's context window. Tokens are estimated, not
+// counted: the budget keeps a safety margin instead of depending on each model's tokenizer.
+// Over budget, older turns are compacted in steps: data blocks become short descriptors,
+// then whole exchanges are summarised, and finally the oldest summaries are dropped.
+
+// --- Types ---
+export type ContextCompaction = 'data-stripped' | 'summarised' | 'dropped';
+
+export const CONTEXT_COMPACTION_LABELS: Record<ContextCompaction, string> = {
+    'data-stripped': 'Chart/table data shortened in the model context',
+    'summarised': 'Summarised in the model context',
+    'dropped': 'No longer in the model context',
+};
+
+// A message as the Chatbot sends it: answers carry their content parts (markdown, charts and
+// tables in reading order) besides the plain text; older clients sent one graphData/tableData
+export type ConversationTurn = {
+    role: string;
+    content: string;
+    parts?: unknown;
+    graphData?: unknown;
+    tableData?: unknown;
+};
+
+export type ContextReport = {
+    budgetTokens: number; // Estimated tokens available for the history
+    historyTokens: number; // Estimated tokens of the history as sent, summary included
+    compacted: { index: number; action: ContextCompaction }[]; // Indexes into the request's messages
+};
+
+export type BudgetedConversation = {
+    messages: { role: string; content: string }[];
+    summary: string | null; // Summarised earlier exchanges, for the system prompt
+    report: ContextReport;
+};
+
+// --- Estimation ---
+const CHARS_PER_TOKEN = 4; // Typical for English prose; JSON and LaTeX run a little denser
+const MESSAGE_OVERHEAD_TOKENS = 4; // Role and separators per message
+const SAFETY_MARGIN = 0.1; // Share of the window left unused to absorb estimation error
+const SUMMARY_CHARS_PER_MESSAGE = 240;
+const MAX_SUMMARY_SHARE = 0.25; // Oldest summary lines are dropped beyond this share of the budget, so recent turns stay whole
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+const estimateMessageTokens = (content: string): number => estimateTokens(content) + MESSAGE_OVERHEAD_TOKENS;
+
+/**
+ * Tokens left for the history once the answer and the fixed parts of the request
+ * (system prompt with the handbook passages, tool definitions) are reserved.
+ */
+export function getHistoryBudget(contextTokens: number, answerTokens: number, reservedTexts: string[]): number {
+    const reserved = reservedTexts.reduce((sum, text) => sum + estimateMessageTokens(text), 0);
+    return Math.max(0, Math.floor(contextTokens * (1 - SAFETY_MARGIN)) - answerTokens - reserved);
+}
+
+// --- Rendering Turns ---
+const DATA_BLOCK_PATTERN = /<!--(GRAPH|TABLE)_DATA:[\s\S]*?-->/g;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// e.g. 'line chart "Pressure vs Depth", 12 points, series Pressure (psi), Temperature (°F)'
+function describeGraph(graph: Record<string, unknown>): string {
+    const data = Array.isArray(graph.data) ? graph.data : [];
+    const units = isRecord(graph.units) ? graph.units : {};
+    const keys = Array.from(new Set(data.flatMap(point => (isRecord(point) ? Object.keys(point) : []))))
+        .filter(key => key !== 'name' && key !== 'label' && data.some(point => isRecord(point) && typeof point[key] === 'number'));
+    const series = keys.map(key => (typeof units[key] === 'string' ? `${key} (${units[key]})` : key));
+    return [
+        `${typeof graph.type === 'string' ? graph.type : 'unknown'} chart${typeof graph.title === 'string' ? ` "${graph.title}"` : ''}`,
+        `${data.length} point${data.length === 1 ? '' : 's'}`,
+        ...(series.length > 0 ? [`series ${series.join(', ')}`] : []),
+    ].join(', ');
+}
+
+// e.g. 'table "Kill Schedule", columns Strokes, Pressure (psi), 11 rows'
+function describeTable(table: Record<string, unknown>): string {
+    const headers = Array.isArray(table.headers) ? table.headers.map(String) : [];
+    const units = Array.isArray(table.units) ? table.units : [];
+    const rows = Array.isArray(table.rows) ? table.rows.length : 0;
+    const columns = headers.map((header, i) => (typeof units[i] === 'string' && units[i] ? `${header} (${units[i]})` : header));
+    return `table${typeof table.title === 'string' ? ` "${table.title}"` : ''}, columns ${columns.join(', ') || 'none'}, ${rows} row${rows === 1 ? '' : 's'}`;
+}
+
+// Describes a data block written inline in the content (e.g. from an interrupted answer)
+function describeInlineBlock(block: string, kind: string): string {
+    try {
+        const parsed = JSON.parse(block.slice(block.indexOf(':') + 1, -3));
+        if (isRecord(parsed)) return kind === 'GRAPH' ? describeGraph(parsed) : describeTable(parsed);
+    } catch { /* Fall through to the generic descriptor */ }
+    return kind === 'GRAPH' ? 'chart' : 'table';
+}
+
+// Text, or a chart/table; `source` holds the JSON of a block that failed validation, sent back as written
+type TurnPiece =
+    | { text: string }
+    | { kind: 'GRAPH' | 'TABLE'; data: Record<string, unknown>; source?: string };
+
+// The turn in reading order; legacy single data fields go at the end of the content
+function getTurnPieces(turn: ConversationTurn): TurnPiece[] {
+    const pieces: TurnPiece[] = [];
+    if (Array.isArray(turn.parts)) {
+        for (const part of turn.parts) {
+            if (!isRecord(part)) continue;
+            if (part.type === 'markdown' && typeof part.text === 'string') pieces.push({ text: part.text });
+            else if (part.type === 'graph' && isRecord(part.graph)) pieces.push({ kind: 'GRAPH', data: part.graph });
+            else if (part.type === 'table' && isRecord(part.table)) pieces.push({ kind: 'TABLE', data: part.table });
+            else if (part.type === 'invalid' && typeof part.source === 'string') pieces.push({ kind: part.kind === 'table' ? 'TABLE' : 'GRAPH', data: {}, source: part.source });
+        }
+    } else {
+        pieces.push({ text: turn.content });
+    }
+    if (isRecord(turn.graphData)) pieces.push({ kind: 'GRAPH', data: turn.graphData });
+    if (isRecord(turn.tableData)) pieces.push({ kind: 'TABLE', data: turn.tableData });
+    return pieces;
+}
+
+/**
+ * The text sent for one message: with `withData` the charts and tables are included, where
+ * they appeared, as the markers the model writes; otherwise each becomes a one-line descriptor.
+ */
+function renderTurn(turn: ConversationTurn, withData: boolean): string {
+    const render = (piece: TurnPiece): string => {
+        if ('text' in piece) return piece.text;
+        if (withData) return `<!--${piece.kind}_DATA:${piece.source ?? JSON.stringify(piece.data)}-->`;
+        if (piece.source !== undefined) return `[Data omitted: invalid ${piece.kind === 'GRAPH' ? 'chart' : 'table'}]`;
+        return `[Data omitted: ${piece.kind === 'GRAPH' ? describeGraph(piece.data) : describeTable(piece.data)}]`;
+    };
+    const content = getTurnPieces(turn).map(piece => render(piece).trim()).filter(Boolean).join('\n\n');
+    return withData ? content : content.replace(DATA_BLOCK_PATTERN, (block, kind: string) => `[Data omitted: ${describeInlineBlock(block, kind)}]`);
+}
+
+const hasData = (turn: ConversationTurn): boolean => getTurnPieces(turn).some(piece => !('text' in piece)) || /<!--(GRAPH|TABLE)_DATA:/.test(turn.content);
+
+// One summary line: the start of the message, cut at a sentence or word boundary
+function summariseTurn(turn: ConversationTurn): string {
+    const text = renderTurn(turn, false).replace(/\s+/g, ' ').trim();
+    let excerpt = text;
+    if (text.length > SUMMARY_CHARS_PER_MESSAGE) {
+        const cut = text.slice(0, SUMMARY_CHARS_PER_MESSAGE);
+        const sentenceEnd = cut.lastIndexOf('. ');
+        excerpt = `${sentenceEnd > SUMMARY_CHARS_PER_MESSAGE / 2 ? cut.slice(0, sentenceEnd + 1) : cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length)} …`;
+    }
+    return `- ${turn.role === 'user' ? 'User' : 'Assistant'}: ${excerpt}`;
+}
+
+// --- Budgeting ---
+
+/**
+ * Compacts the history, oldest turns first, until its estimated size fits `budgetTokens`.
+ * The last message (the question being asked) is always sent in full; if it alone exceeds
+ * the budget everything older is dropped and the request is sent anyway.
+ */
+export function budgetConversation(turns: ConversationTurn[], budgetTokens: number): BudgetedConversation {
+    const last = turns.length - 1;
+    const states: ('full' | ContextCompaction)[] = turns.map(() => 'full');
+    const full = turns.map(turn => renderTurn(turn, true));
+    const stripped = turns.map((turn, i) => (hasData(turn) ? renderTurn(turn, false) : full[i]));
+    const summaries = turns.map(summariseTurn);
+
+    const buildSummary = (): string | null => {
+        const lines = summaries.filter((_, i) => states[i] === 'summarised');
+        return lines.length > 0 ? lines.join('\n') : null;
+    };
+    const total = (): number => {
+        const summary = buildSummary();
+        return turns.reduce((sum, _, i) => {
+            if (states[i] === 'full') return sum + estimateMessageTokens(full[i]);
+            if (states[i] === 'data-stripped') return sum + estimateMessageTokens(stripped[i]);
+            return sum;
+        }, summary ? estimateMessageTokens(summary) : 0);
+    };
+
+    // 1. Shorten the data blocks of older turns
+    for (let i = 0; i < last && total() > budgetTokens; i++) {
+        if (hasData(turns[i])) states[i] = 'data-stripped';
+    }
+    // 2. Summarise older turns, keeping the history that remains starting at a user message
+    for (let i = 0; i < last && (total() > budgetTokens || (i > 0 && states[i - 1] !== 'full' && states[i - 1] !== 'data-stripped' && turns[i].role !== 'user')); i++) {
+        states[i] = 'summarised';
+        for (let j = 0; j < i && estimateMessageTokens(buildSummary() ?? '') > budgetTokens * MAX_SUMMARY_SHARE; j++) {
+            if (states[j] === 'summarised') states[j] = 'dropped';
+        }
+    }
+    // 3. Drop the oldest summaries
+    for (let i = 0; i < last && total() > budgetTokens; i++) {
+        if (states[i] === 'summarised') states[i] = 'dropped';
+    }
+
+    const messages = turns
+        .map((turn, i) => ({ role: turn.role, content: states[i] === 'full' ? full[i] : stripped[i], state: states[i] }))
+        .filter(message => message.state === 'full' || message.state === 'data-stripped')
+        .map(({ role, content }) => ({ role, content }));
+    const compacted = states.flatMap((state, index) => (state === 'full' ? [] : [{ index, action: state }]));
+
+    return { messages, summary: buildSummary(), report: { budgetTokens, historyTokens: total(), compacted } };
+}
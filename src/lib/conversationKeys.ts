@@ -0,0 +1,41 @@
+// src/lib/conversationKeys.ts
+// The owner key of each conversation this browser has uploaded for sharing. The server keeps
+// only a hash of it and asks for the key on every request except the read-only share page, so
+// a conversation cannot be read, changed or deleted by its id alone.
+
+// Header the conversation routes read the key from
+export const OWNER_KEY_HEADER = 'X-Conversation-Key';
+
+const KEYS_KEY = 'chatbot_conversation_keys';
+
+function readKeys(): Record<string, string> {
+    try {
+        const saved = JSON.parse(localStorage.getItem(KEYS_KEY) || '{}');
+        return typeof saved === 'object' && saved !== null && !Array.isArray(saved) ? saved : {};
+    } catch (error) {
+        console.warn(`[conversationKeys] Could not read ${KEYS_KEY}:`, error);
+        return {};
+    }
+}
+
+// The conversation's key, or null if it was never uploaded from this browser
+export const getConversationKey = (id: string): string | null => {
+    const key = readKeys()[id];
+    return typeof key === 'string' ? key : null;
+};
+
+// The conversation's key, made (and kept) the first time it is shared
+export function ensureConversationKey(id: string): string {
+    const existing = getConversationKey(id);
+    if (existing) return existing;
+    const bytes = crypto.getRandomValues(new Uint8Array(24));
+    const key = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+    localStorage.setItem(KEYS_KEY, JSON.stringify({ ...readKeys(), [id]: key }));
+    return key;
+}
+
+export function forgetConversationKey(id: string): void {
+    const keys = readKeys();
+    delete keys[id];
+    localStorage.setItem(KEYS_KEY, JSON.stringify(keys));
+}
@@ -0,0 +1,163 @@
+// src/lib/conversationStore.ts
+// Named conversations kept in the browser's IndexedDB, which holds far more than the ~5 MB
+// localStorage allows for chart-heavy histories. The database schema is versioned: each
+// upgrade step runs once, in order, and the first one imports the single conversation that
+// was kept in localStorage before conversations existed.
+
+// --- Types ---
+export type Conversation = {
+    id: string;
+    title: string;
+    pinned: boolean;
+    createdAt: number;
+    updatedAt: number;
+    messages: unknown[]; // Checked by the chat when loaded, as stored messages always were
+};
+
+export const DEFAULT_CONVERSATION_TITLE = 'New conversation';
+
+// Bump when the stored shape changes, adding the step that upgrades to it in MIGRATIONS
+export const CONVERSATION_SCHEMA_VERSION = 1;
+
+const DB_NAME = 'chatbot_conversations';
+const STORE = 'conversations';
+export const LEGACY_HISTORY_KEY = 'chatbot_history_v3';
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// --- Conversations ---
+
+export function createConversation(messages: unknown[] = [], title = DEFAULT_CONVERSATION_TITLE): Conversation {
+    const id = typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `conversation-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const now = Date.now();
+    return { id, title, pinned: false, createdAt: now, updatedAt: now, messages };
+}
+
+// A title from the first question, e.g. "What is the ECD at 10,000 ft with…"
+export function titleFromMessages(messages: unknown[]): string | null {
+    const first = messages.find(message => isObject(message) && message.role === 'user' && typeof message.content === 'string' && message.content.trim());
+    if (!isObject(first)) return null;
+    const line = String(first.content).trim().split('\n')[0];
+    return line.length > 60 ? `${line.slice(0, 57).trimEnd()}…` : line;
+}
+
+// Pinned conversations first, then the most recently updated
+export const sortConversations = (conversations: Conversation[]): Conversation[] =>
+    [...conversations].sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.updatedAt - a.updatedAt);
+
+// A stored record, or null if it is not a conversation
+function parseConversation(raw: unknown): Conversation | null {
+    if (!isObject(raw) || typeof raw.id !== 'string' || !raw.id || !Array.isArray(raw.messages)) return null;
+    const createdAt = typeof raw.createdAt === 'number' ? raw.createdAt : Date.now();
+    return {
+        id: raw.id,
+        title: typeof raw.title === 'string' && raw.title.trim() ? raw.title : DEFAULT_CONVERSATION_TITLE,
+        pinned: raw.pinned === true,
+        createdAt,
+        updatedAt: typeof raw.updatedAt === 'number' ? raw.updatedAt : createdAt,
+        messages: raw.messages,
+    };
+}
+
+// --- Migrations ---
+
+/**
+ * The conversation kept in localStorage before this store existed, or null if there is none.
+ * History that cannot be parsed is left where it is rather than thrown away.
+ */
+function readLegacyHistory(): Conversation | null {
+    try {
+        const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+        if (!saved) return null;
+        const messages = JSON.parse(saved);
+        if (!Array.isArray(messages)) {
+            console.warn(`[conversationStore] ${LEGACY_HISTORY_KEY} is not a list of messages; leaving it in localStorage.`);
+            return null;
+        }
+        if (messages.length === 0) return null;
+        return createConversation(messages, titleFromMessages(messages) ?? 'Imported conversation');
+    } catch (error) {
+        console.warn(`[conversationStore] Could not read ${LEGACY_HISTORY_KEY}; leaving it in localStorage.`, error);
+        return null;
+    }
+}
+
+// Upgrade steps by the schema version they produce. Each runs inside the upgrade transaction.
+const MIGRATIONS: Record<number, (db: IDBDatabase, transaction: IDBTransaction) => void> = {
+    1: (db, transaction) => {
+        const store = db.createObjectStore(STORE, { keyPath: 'id' });
+        const legacy = readLegacyHistory();
+        if (!legacy) return;
+        store.add(legacy);
+        // The old key goes only once the import is committed
+        transaction.addEventListener('complete', () => {
+            console.log(`[conversationStore] Imported ${legacy.messages.length} messages from ${LEGACY_HISTORY_KEY}.`);
+            localStorage.removeItem(LEGACY_HISTORY_KEY);
+        });
+    },
+};
+
+// --- Database ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') return reject(new Error('IndexedDB is not available in this browser.'));
+        const request = indexedDB.open(DB_NAME, CONVERSATION_SCHEMA_VERSION);
+
+        request.onupgradeneeded = event => {
+            const transaction = request.transaction;
+            if (!transaction) return;
+            for (let version = event.oldVersion + 1; version <= CONVERSATION_SCHEMA_VERSION; version++) {
+                console.log(`[conversationStore] Upgrading the conversation store to schema version ${version}.`);
+                MIGRATIONS[version](request.result, transaction);
+            }
+        };
+        request.onsuccess = () => {
+            const db = request.result;
+            // Another tab upgrading the schema needs this connection closed
+            db.onversionchange = () => {
+                db.close();
+                dbPromise = null;
+            };
+            resolve(db);
+        };
+        request.onerror = () => reject(request.error ?? new Error('The conversation store could not be opened.'));
+        request.onblocked = () => console.warn('[conversationStore] Waiting for other tabs to close the conversation store.');
+    });
+    dbPromise.catch(() => {
+        dbPromise = null;
+    });
+    return dbPromise;
+}
+
+// Runs `work` in a transaction and resolves with its result once the transaction completes
+async function withStore<T>(mode: IDBTransactionMode, work: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE, mode);
+        const request = work(transaction.objectStore(STORE));
+        transaction.oncomplete = () => resolve(request ? request.result : undefined);
+        transaction.onerror = () => reject(transaction.error ?? new Error('The conversation store could not be updated.'));
+        transaction.onabort = () => reject(transaction.error ?? new Error('The conversation store update was aborted.'));
+    });
+}
+
+// --- Reading and Writing ---
+
+export async function loadConversations(): Promise<Conversation[]> {
+    const records = await withStore<unknown[]>('readonly', store => store.getAll());
+    const conversations = (records ?? []).map(parseConversation).filter((c): c is Conversation => c !== null);
+    if (conversations.length < (records?.length ?? 0)) console.warn(`[conversationStore] Skipped ${(records?.length ?? 0) - conversations.length} unreadable conversation records.`);
+    return sortConversations(conversations);
+}
+
+export async function saveConversation(conversation: Conversation): Promise<void> {
+    await withStore('readwrite', store => store.put(conversation));
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+    await withStore('readwrite', store => store.delete(id));
+}
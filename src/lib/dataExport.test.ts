@@ -0,0 +1,36 @@
+// src/lib/dataExport.test.ts
+import { describe, expect, it } from 'vitest';
+import { graphToCsv, tableToDelimited, toDelimited, toFileName, withUnit } from './dataExport';
+
+describe('withUnit', () => {
+    it('adds the unit unless the header names it as a whole token', () => {
+        expect(withUnit('Formation Depth', 'm')).toBe('Formation Depth (m)');
+        expect(withUnit('Time', 's')).toBe('Time (s)');
+        expect(withUnit('Pressure (psi)', 'psi')).toBe('Pressure (psi)');
+        expect(withUnit('Depth [m]', 'm')).toBe('Depth [m]');
+        expect(withUnit('TVD, ft', 'ft')).toBe('TVD, ft');
+        expect(withUnit('Cost', '$/ft')).toBe('Cost ($/ft)');
+        expect(withUnit('Line', null)).toBe('Line');
+    });
+});
+
+describe('delimited export', () => {
+    it('quotes cells that need it and defuses formulas', () => {
+        expect(toDelimited(['Name', 'Note'], [['a,b', 'say "hi"'], ['=SUM(A1)', -5]], ',')).toBe('Name,Note\r\n"a,b","say ""hi"""\r\n\'=SUM(A1),-5');
+    });
+
+    it('writes table headers with their units', () => {
+        const table = { headers: ['Formation Depth', 'Pressure (psi)'], rows: [[1000, 520]], units: ['m', 'psi'] };
+        expect(tableToDelimited(table, '\t')).toBe('Formation Depth (m)\tPressure (psi)\r\n1000\t520');
+    });
+
+    it('writes one chart column per data key', () => {
+        const graph = { data: [{ name: 'A', Time: 1 }, { name: 'B', Time: 2, Rate: 3 }], units: { Time: 's' } };
+        expect(graphToCsv(graph)).toBe('name,Time (s),Rate\r\nA,1,\r\nB,2,3');
+    });
+
+    it('makes file names from titles', () => {
+        expect(toFileName('Pore Pressure vs Depth', 'chart', 'csv')).toBe('pore-pressure-vs-depth.csv');
+        expect(toFileName(undefined, 'chart', 'png')).toBe('chart.png');
+    });
+});
@@ -0,0 +1,194 @@
+// src/lib/dataExport.ts
+// Client-side export of charts and tables for reports: CSV/TSV text, a standalone SVG of a
+// drawn chart (with its title and legend), a PNG rendered from that SVG, and file downloads.
+// Everything runs in the browser; nothing is sent anywhere.
+import type { TableData } from './dataSchema';
+
+// --- Types ---
+export type Delimiter = ',' | '\t';
+
+// Colours of an exported chart, following the app's light or dark theme
+export type ExportTheme = { background: string; text: string; grid: string };
+
+export const EXPORT_THEMES: Record<'light' | 'dark', ExportTheme> = {
+    light: { background: '#ffffff', text: '#1e293b', grid: '#e5e7eb' }, // white, slate-800, gray-200
+    dark: { background: '#1e293b', text: '#e2e8f0', grid: '#334155' }, // slate-800, slate-200, slate-700
+};
+
+// The parts of a graph its CSV is made of
+type ExportableGraph = { data: Record<string, unknown>[]; units?: Record<string, string> };
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// --- Delimited Text ---
+
+// A cell as CSV/TSV text. Fields holding the delimiter, quotes or line breaks are quoted
+// (RFC 4180); text starting with = + - @ gets a leading ' so spreadsheets do not run it as a formula.
+function formatCell(value: unknown, delimiter: Delimiter): string {
+    if (value === null || value === undefined) return '';
+    let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    if (typeof value === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`;
+    return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Rows of cells as CSV (delimiter ",") or TSV ("\t"), with CRLF line ends as Excel expects.
+ */
+export function toDelimited(headers: string[], rows: unknown[][], delimiter: Delimiter): string {
+    return [headers, ...rows].map(row => row.map(cell => formatCell(cell, delimiter)).join(delimiter)).join('\r\n');
+}
+
+/**
+ * Whether a header already names its unit as a whole token: "Pressure (psi)", "Depth [m]" or
+ * "Time, s". "Formation Depth" does not name "m", nor "Time" "s".
+ */
+export function headerHasUnit(header: string, unit: string): boolean {
+    const escaped = unit.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`[([]\\s*${escaped}\\s*[)\\]]|,\\s*${escaped}\\s*$`, 'i').test(header);
+}
+
+// A column header with its unit, as the renderers show it
+export const withUnit = (header: string, unit: unknown): string => (typeof unit === 'string' && unit && !headerHasUnit(header, unit) ? `${header} (${unit})` : header);
+
+export function tableToDelimited(table: TableData, delimiter: Delimiter): string {
+    return toDelimited(table.headers.map((header, i) => withUnit(header, table.units?.[i])), table.rows, delimiter);
+}
+
+/**
+ * The points of a chart as CSV: one column per data key in order of first appearance (with
+ * its unit, if tagged) and one row per point.
+ */
+export function graphToCsv(graph: ExportableGraph): string {
+    const keys = Array.from(new Set(graph.data.flatMap(point => Object.keys(point))));
+    return toDelimited(keys.map(key => withUnit(key, graph.units?.[key])), graph.data.map(point => keys.map(key => point[key])), ',');
+}
+
+// --- Files ---
+
+// e.g. "Pore Pressure vs Depth" -> "pore-pressure-vs-depth.csv"
+export function toFileName(title: string | undefined, fallback: string, extension: string): string {
+    const base = (title || '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+    return `${base || fallback}.${extension}`;
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// CSV and TSV start with a byte order mark so Excel reads units like °F as UTF-8
+export function downloadDelimited(text: string, fileName: string, delimiter: Delimiter): void {
+    downloadBlob(new Blob(['\uFEFF', text], { type: `${delimiter === ',' ? 'text/csv' : 'text/tab-separated-values'};charset=utf-8` }), fileName);
+}
+
+export async function copyText(text: string): Promise<void> {
+    if (!navigator.clipboard) throw new Error('The clipboard is not available in this browser.');
+    await navigator.clipboard.writeText(text);
+}
+
+// --- Chart Images ---
+
+/**
+ * A standalone SVG of the chart drawn inside `container`: the recharts surface on the theme's
+ * background, the title above it and the legend (HTML in the page) redrawn below it.
+ */
+export function buildChartSvg(container: HTMLElement, title: string | undefined, theme: ExportTheme): { svg: string; width: number; height: number } {
+    const surface = container.querySelector('.recharts-wrapper > svg');
+    if (!surface) throw new Error('The chart has not been drawn yet.');
+    const chartWidth = Math.round(surface.getBoundingClientRect().width) || Number(surface.getAttribute('width')) || 600;
+    const chartHeight = Math.round(surface.getBoundingClientRect().height) || Number(surface.getAttribute('height')) || 300;
+
+    const padding = 16;
+    const titleHeight = title ? 32 : 0;
+    const legendRow = 20;
+    const legendItems = Array.from(container.querySelectorAll('.recharts-legend-item')).map(item => ({
+        icon: item.querySelector('svg'),
+        text: item.textContent?.trim() ?? '',
+    }));
+
+    // Legend items flow left to right and wrap at the chart width (text width estimated)
+    const placed: { icon: Element | null; text: string; x: number; y: number }[] = [];
+    let x = 0;
+    let y = 0;
+    for (const item of legendItems) {
+        const itemWidth = 14 + 6 + item.text.length * 7 + 16;
+        if (x > 0 && x + itemWidth > chartWidth) {
+            x = 0;
+            y += legendRow;
+        }
+        placed.push({ ...item, x, y });
+        x += itemWidth;
+    }
+    const legendHeight = placed.length > 0 ? y + legendRow + 8 : 0;
+
+    const width = chartWidth + padding * 2;
+    const height = padding + titleHeight + chartHeight + legendHeight + padding;
+    const element = (name: string, attributes: Record<string, string | number>) => {
+        const node = document.createElementNS(SVG_NS, name);
+        for (const [key, value] of Object.entries(attributes)) node.setAttribute(key, String(value));
+        return node;
+    };
+
+    const root = element('svg', { xmlns: SVG_NS, width, height, viewBox: `0 0 ${width} ${height}`, 'font-family': 'Arial, Helvetica, sans-serif' });
+    root.appendChild(element('rect', { width, height, fill: theme.background }));
+    if (title) {
+        const heading = element('text', { x: width / 2, y: padding + 18, 'text-anchor': 'middle', 'font-size': 16, 'font-weight': 600, fill: theme.text });
+        heading.textContent = title;
+        root.appendChild(heading);
+    }
+
+    const chart = surface.cloneNode(true) as SVGSVGElement;
+    chart.setAttribute('x', String(padding));
+    chart.setAttribute('y', String(padding + titleHeight));
+    chart.setAttribute('width', String(chartWidth));
+    chart.setAttribute('height', String(chartHeight));
+    // The grid is coloured by a Tailwind class in the page, which the file would not have
+    chart.querySelectorAll('.recharts-cartesian-grid line').forEach(line => line.setAttribute('stroke', theme.grid));
+    root.appendChild(chart);
+
+    const legendTop = padding + titleHeight + chartHeight + 8;
+    for (const item of placed) {
+        const group = element('g', { transform: `translate(${padding + item.x}, ${legendTop + item.y})` });
+        if (item.icon) {
+            const icon = item.icon.cloneNode(true) as SVGSVGElement;
+            icon.setAttribute('x', '0');
+            icon.setAttribute('y', '0');
+            icon.setAttribute('width', '14');
+            icon.setAttribute('height', '14');
+            group.appendChild(icon);
+        }
+        const label = element('text', { x: 20, y: 11, 'font-size': 12, fill: theme.text });
+        label.textContent = item.text;
+        group.appendChild(label);
+        root.appendChild(group);
+    }
+
+    return { svg: new XMLSerializer().serializeToString(root), width, height };
+}
+
+/**
+ * Renders an SVG to a PNG at `scale` times its size (2 keeps it sharp in documents).
+ */
+export function svgToPng(svg: string, width: number, height: number, scale = 2): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.round(width * scale);
+            canvas.height = Math.round(height * scale);
+            const context = canvas.getContext('2d');
+            if (!context) return reject(new Error('The PNG could not be created (no canvas support).'));
+            context.scale(scale, scale);
+            context.drawImage(image, 0, 0, width, height);
+            canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('The PNG could not be created.'))), 'image/png');
+        };
+        image.onerror = () => reject(new Error('The chart image could not be rendered.'));
+        image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+    });
+}
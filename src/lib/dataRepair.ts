@@ -0,0 +1,121 @@
+// src/lib/dataRepair.ts
+// One repair round trip for chart and table parts that fail the schema: the model is shown each
+// invalid block with the validator's errors and asked for the corrected blocks only. A correction
+// is swapped in only if it passes the same checks; otherwise the part stays invalid.
+import type { ProviderMessage } from './llmProviders';
+import type { DataBlockKind } from './dataSchema';
+import { ContentPart, DraftPart, finishDraftPart, splitMarkedAnswer } from './responseEnvelope';
+
+// --- Types ---
+export type InvalidDataBlock = {
+    index: number; // Position among the answer's parts
+    kind: DataBlockKind;
+    source: string; // The JSON as written
+    errors: string[];
+};
+
+export type DataBlockRepair = {
+    index: number;
+    kind: DataBlockKind;
+    errors: string[]; // What the validator reported for the block as answered
+    repaired: boolean;
+    remainingErrors?: string[]; // Why the correction was not used
+};
+
+// Recorded in the response when an answer had invalid blocks
+export type DataRepairReport = {
+    model: string; // Model asked for the corrections
+    error?: string; // The repair request itself failed; no block was changed
+    blocks: DataBlockRepair[];
+};
+
+// --- Finding ---
+
+/**
+ * The charts and tables of an answer that did not parse or failed validation, in order.
+ */
+export function findInvalidDataBlocks(parts: ContentPart[]): InvalidDataBlock[] {
+    return parts.flatMap((part, index) => (part.type === 'invalid' ? [{ index, kind: part.kind, source: part.source, errors: part.errors }] : []));
+}
+
+// --- Repair Request ---
+const REPAIR_INSTRUCTIONS = `You correct the JSON data blocks of a drilling engineering assistant. Each block below failed validation; the errors say exactly what is wrong.
+Reply with one JSON object and nothing else: {"blocks": [<corrected block 1>, <corrected block 2>, ...]}, in the order given.
+Keep the values, labels, titles and units; change only what the errors require. Convert values to plain numbers (no units or thousands separators inside the number) and use null for a missing value.
+
+Graph block: {"type": "line" | "bar" | "area" | "composed" | "pie" | "scatter" | "depth", "data": [...], "options"?: {...}, "units"?: {"<data key>": "<unit>"}, "title"?: "..."}
+- line, bar, area, composed: every point has a "name" label and numeric series values, e.g. {"name": "5000", "Pressure": 3120}.
+- composed: options.chartConfig lists the series, e.g. [{"type": "bar", "dataKey": "Pressure"}, {"type": "line", "dataKey": "Temperature"}].
+- pie: points are {"name": "...", "value": <number>}; scatter: points are {"x": <number>, "y": <number>}.
+- depth: every point has a numeric "depth" (or the key in options.depthKey) and numeric curve values, e.g. {"depth": 5000, "Pore_Pressure": 9.1}; options.windows entries name two curves as "lower" and "upper", options.casingShoes entries have a numeric "depth".
+- options.xAxis, options.yAxis and options.y2Axis may have a "name", a "unit" and "scale": "linear" | "log"; options.y2Axis.series lists numeric series keys. options.referenceLines entries are {"axis": "x" | "y" | "y2", "value": <number or category>}; options.annotations entries are {"x": <number or category>, "y": <number>, "label": "..."}.
+Table block: {"headers": ["..."], "rows": [[one value per header], ...], "units"?: [unit or null per header], "title"?: "..."}`;
+
+/**
+ * The messages of the repair request: the instructions, then every invalid block with its errors.
+ */
+export function buildRepairMessages(invalid: InvalidDataBlock[]): ProviderMessage[] {
+    const blocks = invalid.map((block, i) => [
+        `Block ${i + 1} (${block.kind === 'graph' ? 'chart' : 'table'}) errors:`,
+        ...block.errors.map(error => `- ${error}`),
+        '```json',
+        block.source,
+        '```',
+    ].join('\n'));
+    return [
+        { role: 'system', content: REPAIR_INSTRUCTIONS },
+        { role: 'user', content: `Correct ${invalid.length === 1 ? 'this block' : `these ${invalid.length} blocks`}.\n\n${blocks.join('\n\n')}` },
+    ];
+}
+
+// --- Applying Corrections ---
+
+// The correction for each invalid block: from {"blocks": [...]} in order, a bare object when
+// only one block was sent, or (from models that answer in their usual format) marked blocks
+// paired by kind in order
+function readCorrections(invalid: InvalidDataBlock[], reply: string): (DraftPart | null)[] {
+    const toDraft = (kind: DataBlockKind, value: unknown): DraftPart => ({ type: kind, value, source: JSON.stringify(value ?? null, null, 2) });
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(reply.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''));
+    } catch {
+        parsed = undefined;
+    }
+    if (typeof parsed === 'object' && parsed !== null && Array.isArray((parsed as { blocks?: unknown }).blocks)) {
+        const blocks = (parsed as { blocks: unknown[] }).blocks;
+        return invalid.map((block, i) => (i < blocks.length ? toDraft(block.kind, blocks[i]) : null));
+    }
+    if (typeof parsed === 'object' && parsed !== null && invalid.length === 1) return [toDraft(invalid[0].kind, parsed)];
+
+    const marked = splitMarkedAnswer(reply).filter(draft => draft.type !== 'markdown');
+    return invalid.map(block => {
+        const index = marked.findIndex(draft => draft.type === block.kind);
+        return index < 0 ? null : marked.splice(index, 1)[0];
+    });
+}
+
+/**
+ * Swaps the corrections in `reply` into `parts`. Each correction goes through `prepare` (the
+ * same clean-up the answer's blocks had) and is used only if it then passes validation.
+ */
+export function applyDataBlockRepairs(
+    parts: ContentPart[],
+    invalid: InvalidDataBlock[],
+    reply: string,
+    prepare: (kind: DataBlockKind, data: unknown) => unknown,
+): { parts: ContentPart[]; repairs: DataBlockRepair[] } {
+    const corrections = readCorrections(invalid, reply);
+    const repaired = [...parts];
+
+    const repairs = invalid.map((block, i): DataBlockRepair => {
+        const base = { index: block.index, kind: block.kind, errors: block.errors };
+        const correction = corrections[i];
+        if (!correction) return { ...base, repaired: false, remainingErrors: ['No corrected block was returned.'] };
+
+        const part = finishDraftPart(correction, prepare);
+        if (part.type === 'invalid') return { ...base, repaired: false, remainingErrors: part.errors };
+        repaired[block.index] = part;
+        return { ...base, repaired: true };
+    });
+    return { parts: repaired, repairs };
+}
@@ -0,0 +1,464 @@
+// src/lib/dataSchema.ts
+// The shape of the chart and table blocks an answer carries, shared by the API route (which
+// checks, and if need be repairs, what the model wrote) and the Chatbot (which renders it).
+// The checks follow what GraphRenderer and TableRenderer can draw, for every point and row,
+// and each error names the offending field, e.g. 'data[2].value: expected a number, got string "12 %"'.
+
+// --- Types ---
+export type DataBlockKind = 'graph' | 'table';
+
+export const GRAPH_TYPES = ['line', 'bar', 'pie', 'scatter', 'area', 'composed', 'depth'] as const;
+export type GraphType = typeof GRAPH_TYPES[number];
+
+// Names shown where the user picks a chart type
+export const GRAPH_TYPE_LABELS: Record<GraphType, string> = {
+    line: 'Line', bar: 'Bar', pie: 'Pie', scatter: 'Scatter', area: 'Area', composed: 'Composed', depth: 'Depth track',
+};
+
+// Series of a composed chart, drawn with the given mark
+export type ComposedSeries = { type: 'line' | 'bar' | 'area'; dataKey: string; name?: string };
+
+// Shaded band of a depth chart between two of its curves, e.g. pore pressure to fracture gradient
+export type DepthWindow = { lower: string; upper: string; label?: string; color?: string };
+
+// Casing shoe marked across a depth chart, at a depth in the unit of the depth key
+export type CasingShoe = { depth: number; label?: string };
+
+export const DEFAULT_DEPTH_KEY = 'depth';
+
+export type AxisId = 'x' | 'y' | 'y2';
+
+// The option field of each axis
+export const AXIS_OPTION_FIELDS: Record<AxisId, 'xAxis' | 'yAxis' | 'y2Axis'> = { x: 'xAxis', y: 'yAxis', y2: 'y2Axis' };
+
+export type AxisOptions = {
+    name?: string; // Axis title; the unit is appended unless the name already gives it
+    unit?: string; // Defaults to the unit shared by the keys plotted along the axis
+    scale?: 'linear' | 'log'; // Log axes leave out values that are not positive
+};
+
+// Line across the plot at a value of one axis, e.g. MAASP on the pressure axis
+export type GraphReferenceLine = { axis: AxisId; value: number | string; label?: string; color?: string };
+
+// Labelled point at axis coordinates; y is on the secondary axis when axis is "y2"
+export type GraphAnnotation = { x: number | string; y: number; label: string; axis?: 'y' | 'y2'; color?: string };
+
+export type GraphOptions = {
+    xAxis?: AxisOptions;
+    yAxis?: AxisOptions;
+    y2Axis?: AxisOptions & { series?: string[] }; // Secondary Y axis on the right, for the listed series
+    referenceLines?: GraphReferenceLine[];
+    annotations?: GraphAnnotation[];
+    hiddenSeries?: string[]; // Series switched off in the chart editor
+    chartConfig?: ComposedSeries[]; // Required for composed charts
+    depthKey?: string; // Depth charts: the key holding each point's depth (default "depth")
+    windows?: DepthWindow[]; // Depth charts: drilling-window bands
+    casingShoes?: CasingShoe[]; // Depth charts: casing shoe markers
+    height?: number;
+    note?: string; // Set by the server when it had to correct the data
+    [option: string]: unknown;
+};
+
+export type GraphData = {
+    type: string; // One of GRAPH_TYPES, in any case
+    data: Record<string, unknown>[];
+    options?: GraphOptions;
+    units?: Record<string, string>; // Unit of each numeric data key
+    title?: string;
+};
+
+export type TableData = {
+    headers: string[];
+    rows: unknown[][];
+    units?: (string | null)[]; // Unit of each column, parallel to headers
+    title?: string;
+    paddedCells?: [number, number][]; // [row, column] of cells the server filled with null (short or malformed rows)
+};
+
+export type ValidationResult<T> =
+    | { ok: true; value: T }
+    | { ok: false; errors: string[] };
+
+const MAX_ERRORS = 12; // Beyond this the list is cut, with a count of the rest
+
+// --- Helpers ---
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// e.g. 'string "12 %"', 'null', 'an array'
+function describeValue(value: unknown): string {
+    if (value === undefined) return 'nothing';
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'an array';
+    if (typeof value === 'string') return `string ${JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value)}`;
+    if (typeof value === 'number') return Number.isFinite(value) ? `number ${value}` : String(value);
+    if (typeof value === 'object') return 'an object';
+    return `${typeof value} ${String(value)}`;
+}
+
+// Collects the errors of one block, counting those beyond MAX_ERRORS
+function createErrorList() {
+    const errors: string[] = [];
+    let dropped = 0;
+    return {
+        add: (path: string, message: string) => {
+            if (errors.length < MAX_ERRORS) errors.push(path ? `${path}: ${message}` : message);
+            else dropped++;
+        },
+        expect: (path: string, expected: string, value: unknown) => {
+            if (errors.length < MAX_ERRORS) errors.push(`${path}: expected ${expected}, got ${describeValue(value)}`);
+            else dropped++;
+        },
+        list: (): string[] => (dropped > 0 ? [...errors, `…and ${dropped} more error${dropped === 1 ? '' : 's'}`] : errors),
+    };
+}
+
+type ErrorList = ReturnType<typeof createErrorList>;
+
+function checkTitle(value: Record<string, unknown>, errors: ErrorList): void {
+    if (value.title !== undefined && typeof value.title !== 'string') errors.expect('title', 'a string', value.title);
+}
+
+// --- Graphs ---
+
+// The parts of a graph the axis helpers read; the data may not have been validated
+type AxisSource = { type?: unknown; data: unknown[]; options?: unknown; units?: unknown };
+
+/**
+ * The key that labels the category axis of a line, bar, area or composed chart: "name" when
+ * the first point has one, otherwise its first string-valued key (as GraphRenderer picks it).
+ */
+export function getCategoryKey(data: Record<string, unknown>[]): string | null {
+    const first = data[0];
+    if (!first) return null;
+    if (Object.prototype.hasOwnProperty.call(first, 'name')) return 'name';
+    return Object.keys(first).find(key => typeof first[key] === 'string') ?? null;
+}
+
+// Keys other than the category that hold a number in at least one point
+export function getSeriesKeys(data: Record<string, unknown>[], categoryKey: string | null): string[] {
+    const keys = Array.from(new Set(data.flatMap(point => Object.keys(point))));
+    return keys.filter(key => key !== categoryKey && data.some(point => isNumber(point[key])));
+}
+
+// The series assigned to the secondary Y axis
+export function getSecondarySeries(options: unknown): string[] {
+    const y2Axis = isRecord(options) ? options.y2Axis : undefined;
+    return isRecord(y2Axis) && Array.isArray(y2Axis.series) ? y2Axis.series.filter((key): key is string => typeof key === 'string') : [];
+}
+
+/**
+ * The data keys plotted along each axis: the category (or "x"/"y" of a scatter) and the series,
+ * split between the primary and secondary Y axes. Depth charts plot their curves along X.
+ */
+export function getAxisKeys(graph: AxisSource): Record<AxisId, string[]> {
+    const type = typeof graph.type === 'string' ? graph.type.toLowerCase() : '';
+    const points = graph.data.filter(isRecord);
+    if (type === 'pie') return { x: [], y: [], y2: [] };
+    if (type === 'scatter') return { x: ['x'], y: ['y'], y2: [] };
+    if (type === 'depth') {
+        const depthKey = getDepthKey(graph.options);
+        return { x: getSeriesKeys(points, depthKey), y: [depthKey], y2: [] };
+    }
+    const categoryKey = getCategoryKey(points);
+    const series = getSeriesKeys(points, categoryKey);
+    const secondary = getSecondarySeries(graph.options);
+    return {
+        x: categoryKey ? [categoryKey] : [],
+        y: series.filter(key => !secondary.includes(key)),
+        y2: series.filter(key => secondary.includes(key)),
+    };
+}
+
+/**
+ * The unit of an axis: its `unit` option, otherwise the unit that all keys plotted along it
+ * share in `units`.
+ */
+export function getAxisUnit(graph: AxisSource, axis: AxisId): string | undefined {
+    const axisOptions = isRecord(graph.options) ? graph.options[AXIS_OPTION_FIELDS[axis]] : undefined;
+    if (isRecord(axisOptions) && typeof axisOptions.unit === 'string' && axisOptions.unit) return axisOptions.unit;
+    const units = graph.units;
+    if (!isRecord(units)) return undefined;
+    const axisUnits = new Set(getAxisKeys(graph)[axis].map(key => units[key]));
+    const [unit] = Array.from(axisUnits);
+    return axisUnits.size === 1 && typeof unit === 'string' && unit ? unit : undefined;
+}
+
+// Axis titles and scales, the secondary axis series (`series` is null where the chart type has
+// no secondary axis), reference lines and annotations
+function checkAxisOptions(options: Record<string, unknown>, series: string[] | null, errors: ErrorList): void {
+    for (const field of Object.values(AXIS_OPTION_FIELDS)) {
+        const axis = options[field];
+        if (axis === undefined) continue;
+        if (!isRecord(axis)) {
+            errors.expect(`options.${field}`, 'an object', axis);
+            continue;
+        }
+        for (const key of ['name', 'unit']) {
+            if (axis[key] !== undefined && typeof axis[key] !== 'string') errors.expect(`options.${field}.${key}`, 'a string', axis[key]);
+        }
+        if (axis.scale !== undefined && axis.scale !== 'linear' && axis.scale !== 'log') errors.expect(`options.${field}.scale`, '"linear" or "log"', axis.scale);
+    }
+
+    const y2Axis = options.y2Axis;
+    if (isRecord(y2Axis) && y2Axis.series !== undefined) {
+        if (series === null) errors.add('options.y2Axis', 'a secondary axis is only supported on line, bar, area and composed charts');
+        else if (!Array.isArray(y2Axis.series)) errors.expect('options.y2Axis.series', 'an array of series keys', y2Axis.series);
+        else {
+            y2Axis.series.forEach((key, i) => {
+                if (typeof key !== 'string') errors.expect(`options.y2Axis.series[${i}]`, 'a series key', key);
+                else if (!series.includes(key)) errors.add(`options.y2Axis.series[${i}]`, `"${key}" is not a numeric series of data (series: ${series.join(', ')})`);
+            });
+        }
+    }
+
+    if (options.referenceLines !== undefined) {
+        if (!Array.isArray(options.referenceLines)) errors.expect('options.referenceLines', 'an array of { "axis": "x" | "y" | "y2", "value": ... }', options.referenceLines);
+        else {
+            options.referenceLines.forEach((line, i) => {
+                const path = `options.referenceLines[${i}]`;
+                if (!isRecord(line)) return errors.expect(path, 'an object', line);
+                if (line.axis !== 'x' && line.axis !== 'y' && line.axis !== 'y2') errors.expect(`${path}.axis`, '"x", "y" or "y2"', line.axis);
+                if (!isNumber(line.value) && typeof line.value !== 'string') errors.expect(`${path}.value`, 'a number (or a category label on a category axis)', line.value);
+                if (line.label !== undefined && typeof line.label !== 'string') errors.expect(`${path}.label`, 'a string', line.label);
+            });
+        }
+    }
+
+    if (options.annotations !== undefined) {
+        if (!Array.isArray(options.annotations)) errors.expect('options.annotations', 'an array of { "x": ..., "y": <number>, "label": "..." }', options.annotations);
+        else {
+            options.annotations.forEach((note, i) => {
+                const path = `options.annotations[${i}]`;
+                if (!isRecord(note)) return errors.expect(path, 'an object', note);
+                if (!isNumber(note.x) && typeof note.x !== 'string') errors.expect(`${path}.x`, 'a number (or a category label on a category axis)', note.x);
+                if (!isNumber(note.y)) errors.expect(`${path}.y`, 'a number', note.y);
+                if (typeof note.label !== 'string') errors.expect(`${path}.label`, 'a string', note.label);
+                if (note.axis !== undefined && note.axis !== 'y' && note.axis !== 'y2') errors.expect(`${path}.axis`, '"y" or "y2"', note.axis);
+            });
+        }
+    }
+}
+
+// The key holding the depth of each point of a depth chart
+export function getDepthKey(options: unknown): string {
+    return isRecord(options) && typeof options.depthKey === 'string' && options.depthKey ? options.depthKey : DEFAULT_DEPTH_KEY;
+}
+
+// A depth chart's windows must span two of its curves; its casing shoes need a numeric depth
+function checkDepthOptions(options: Record<string, unknown>, curves: string[], errors: ErrorList): void {
+    if (options.windows !== undefined) {
+        if (!Array.isArray(options.windows)) errors.expect('options.windows', 'an array of { "lower": <curve>, "upper": <curve> }', options.windows);
+        else {
+            options.windows.forEach((band, i) => {
+                const path = `options.windows[${i}]`;
+                if (!isRecord(band)) return errors.expect(path, 'an object', band);
+                for (const edge of ['lower', 'upper']) {
+                    if (typeof band[edge] !== 'string') errors.expect(`${path}.${edge}`, 'the data key of a curve', band[edge]);
+                    else if (!curves.includes(band[edge] as string)) errors.add(`${path}.${edge}`, `"${band[edge]}" is not a curve of data (curves: ${curves.join(', ')})`);
+                }
+                if (band.label !== undefined && typeof band.label !== 'string') errors.expect(`${path}.label`, 'a string', band.label);
+            });
+        }
+    }
+    if (options.casingShoes !== undefined) {
+        if (!Array.isArray(options.casingShoes)) errors.expect('options.casingShoes', 'an array of { "depth": <number>, "label"?: "..." }', options.casingShoes);
+        else {
+            options.casingShoes.forEach((shoe, i) => {
+                const path = `options.casingShoes[${i}]`;
+                if (!isRecord(shoe)) return errors.expect(path, 'an object', shoe);
+                if (!isNumber(shoe.depth)) errors.expect(`${path}.depth`, 'a number', shoe.depth);
+                if (shoe.label !== undefined && typeof shoe.label !== 'string') errors.expect(`${path}.label`, 'a string', shoe.label);
+            });
+        }
+    }
+}
+
+/**
+ * Checks a parsed GRAPH_DATA block. Every point is checked, not just the first: a pie needs
+ * "name" and a numeric "value", a scatter numeric "x" and "y", a depth chart a numeric depth
+ * plus numeric curves, and the other types a category key plus at least one numeric series
+ * whose values are numbers or null throughout.
+ */
+export function validateGraphData(value: unknown): ValidationResult<GraphData> {
+    const errors = createErrorList();
+    if (!isRecord(value)) {
+        errors.expect('', 'an object with "type" and "data"', value);
+        return { ok: false, errors: errors.list() };
+    }
+
+    const type = typeof value.type === 'string' ? value.type.toLowerCase() : null;
+    if (type === null) errors.expect('type', `one of ${GRAPH_TYPES.join(', ')}`, value.type);
+    else if (!(GRAPH_TYPES as readonly string[]).includes(type)) errors.add('type', `"${value.type}" is not a supported chart type (${GRAPH_TYPES.join(', ')})`);
+
+    const options = value.options;
+    if (options !== undefined && !isRecord(options)) errors.expect('options', 'an object', options);
+    if (isRecord(options) && options.hiddenSeries !== undefined && !(Array.isArray(options.hiddenSeries) && options.hiddenSeries.every(key => typeof key === 'string'))) {
+        errors.expect('options.hiddenSeries', 'an array of series keys', options.hiddenSeries);
+    }
+
+    if (value.units !== undefined) {
+        if (!isRecord(value.units)) errors.expect('units', 'an object mapping data keys to units', value.units);
+        else {
+            for (const [key, unit] of Object.entries(value.units)) {
+                if (typeof unit !== 'string') errors.expect(`units.${key}`, 'a string', unit);
+            }
+        }
+    }
+    checkTitle(value, errors);
+
+    if (!Array.isArray(value.data) || value.data.length === 0) {
+        if (Array.isArray(value.data)) errors.add('data', 'expected at least one point, got an empty array');
+        else errors.expect('data', 'a non-empty array of points', value.data);
+        return { ok: false, errors: errors.list() };
+    }
+    const points: Record<string, unknown>[] = [];
+    value.data.forEach((point, i) => {
+        if (isRecord(point)) points.push(point);
+        else errors.expect(`data[${i}]`, 'an object', point);
+    });
+    if (points.length < value.data.length || type === null) return { ok: false, errors: errors.list() };
+
+    switch (type) {
+        case 'pie':
+            points.forEach((point, i) => {
+                if (typeof point.name !== 'string' && !isNumber(point.name)) errors.expect(`data[${i}].name`, 'a label (string)', point.name);
+                if (!isNumber(point.value)) errors.expect(`data[${i}].value`, 'a number', point.value);
+            });
+            break;
+
+        case 'scatter':
+            points.forEach((point, i) => {
+                if (!isNumber(point.x)) errors.expect(`data[${i}].x`, 'a number', point.x);
+                if (!isNumber(point.y)) errors.expect(`data[${i}].y`, 'a number', point.y);
+            });
+            if (isRecord(options)) checkAxisOptions(options, null, errors);
+            break;
+
+        case 'depth': {
+            const depthKey = getDepthKey(options);
+            points.forEach((point, i) => {
+                if (!isNumber(point[depthKey])) errors.expect(`data[${i}].${depthKey}`, 'a number (the depth)', point[depthKey]);
+            });
+            const curves = getSeriesKeys(points, depthKey);
+            if (curves.length === 0) {
+                errors.add('data', `no numeric curve besides the depth "${depthKey}" (found keys: ${Object.keys(points[0]).join(', ')})`);
+                break;
+            }
+            points.forEach((point, i) => {
+                for (const key of curves) {
+                    if (point[key] !== undefined && point[key] !== null && !isNumber(point[key])) errors.expect(`data[${i}].${key}`, 'a number or null', point[key]);
+                }
+            });
+            if (isRecord(options)) {
+                checkDepthOptions(options, curves, errors);
+                checkAxisOptions(options, null, errors);
+            }
+            break;
+        }
+
+        case 'line':
+        case 'bar':
+        case 'area':
+        case 'composed': {
+            const categoryKey = getCategoryKey(points);
+            if (categoryKey === null) {
+                errors.add('data[0]', `no category key; give every point a "name" string (found keys: ${Object.keys(points[0]).join(', ') || 'none'})`);
+                break;
+            }
+            const seriesKeys = getSeriesKeys(points, categoryKey);
+            if (seriesKeys.length === 0) {
+                errors.add('data', `no numeric series besides the category "${categoryKey}" (found keys: ${Object.keys(points[0]).join(', ')})`);
+                break;
+            }
+            points.forEach((point, i) => {
+                if (point[categoryKey] === undefined || point[categoryKey] === null) errors.add(`data[${i}]`, `missing the category "${categoryKey}"`);
+                for (const key of seriesKeys) {
+                    if (point[key] !== undefined && point[key] !== null && !isNumber(point[key])) errors.expect(`data[${i}].${key}`, 'a number or null', point[key]);
+                }
+            });
+            if (isRecord(options)) checkAxisOptions(options, seriesKeys, errors);
+
+            if (type === 'composed') {
+                const chartConfig = isRecord(options) ? options.chartConfig : undefined;
+                if (!Array.isArray(chartConfig) || chartConfig.length === 0) {
+                    errors.expect('options.chartConfig', 'a non-empty array of { "type": "line" | "bar" | "area", "dataKey": <series> }', chartConfig);
+                    break;
+                }
+                chartConfig.forEach((series, i) => {
+                    const path = `options.chartConfig[${i}]`;
+                    if (!isRecord(series)) return errors.expect(path, 'an object', series);
+                    if (series.type !== 'line' && series.type !== 'bar' && series.type !== 'area') errors.expect(`${path}.type`, '"line", "bar" or "area"', series.type);
+                    if (typeof series.dataKey !== 'string') errors.expect(`${path}.dataKey`, 'a string', series.dataKey);
+                    else if (!seriesKeys.includes(series.dataKey)) errors.add(`${path}.dataKey`, `"${series.dataKey}" is not a numeric key of data (series: ${seriesKeys.join(', ')})`);
+                });
+            }
+            break;
+        }
+    }
+
+    const list = errors.list();
+    return list.length > 0 ? { ok: false, errors: list } : { ok: true, value: value as GraphData };
+}
+
+// --- Tables ---
+
+/**
+ * Checks a parsed TABLE_DATA block: string headers, rows of exactly one plain value per
+ * header, and units (if any) parallel to the headers.
+ */
+export function validateTableData(value: unknown): ValidationResult<TableData> {
+    const errors = createErrorList();
+    if (!isRecord(value)) {
+        errors.expect('', 'an object with "headers" and "rows"', value);
+        return { ok: false, errors: errors.list() };
+    }
+
+    const headers = value.headers;
+    if (!Array.isArray(headers) || headers.length === 0) {
+        if (Array.isArray(headers)) errors.add('headers', 'expected at least one header, got an empty array');
+        else errors.expect('headers', 'a non-empty array of strings', headers);
+    } else {
+        headers.forEach((header, i) => {
+            if (typeof header !== 'string') errors.expect(`headers[${i}]`, 'a string', header);
+        });
+    }
+    const columns = Array.isArray(headers) ? headers.length : 0;
+
+    if (!Array.isArray(value.rows)) {
+        errors.expect('rows', 'an array of rows', value.rows);
+    } else {
+        value.rows.forEach((row, i) => {
+            if (!Array.isArray(row)) return errors.expect(`rows[${i}]`, 'an array of cells', row);
+            if (columns > 0 && row.length !== columns) errors.add(`rows[${i}]`, `expected ${columns} cell${columns === 1 ? '' : 's'} (one per header), got ${row.length}`);
+            row.forEach((cell, j) => {
+                if (cell !== null && typeof cell !== 'string' && typeof cell !== 'boolean' && !isNumber(cell)) errors.expect(`rows[${i}][${j}]`, 'a string, number or null', cell);
+            });
+        });
+    }
+
+    if (value.units !== undefined) {
+        if (!Array.isArray(value.units)) errors.expect('units', 'an array parallel to headers', value.units);
+        else {
+            if (columns > 0 && value.units.length !== columns) errors.add('units', `expected ${columns} entries (one per header), got ${value.units.length}`);
+            value.units.forEach((unit, i) => {
+                if (unit !== null && typeof unit !== 'string') errors.expect(`units[${i}]`, 'a string or null', unit);
+            });
+        }
+    }
+    if (value.paddedCells !== undefined) {
+        const rowCount = Array.isArray(value.rows) ? value.rows.length : 0;
+        if (!Array.isArray(value.paddedCells)) errors.expect('paddedCells', 'an array of [row, column] pairs', value.paddedCells);
+        else value.paddedCells.forEach((cell, i) => {
+            const inTable = Array.isArray(cell) && cell.length === 2
+                && Number.isInteger(cell[0]) && cell[0] >= 0 && cell[0] < rowCount
+                && Number.isInteger(cell[1]) && cell[1] >= 0 && cell[1] < columns;
+            if (!inTable) errors.expect(`paddedCells[${i}]`, 'a [row, column] pair inside the table', cell);
+        });
+    }
+    checkTitle(value, errors);
+
+    const list = errors.list();
+    return list.length > 0 ? { ok: false, errors: list } : { ok: true, value: value as TableData };
+}
@@ -0,0 +1,105 @@
+// src/lib/formulas.test.ts
+import { describe, expect, it } from 'vitest';
+import { FORMULAS, evaluateFormula, formatNumber, getFormula, resolveFormulaInputs, unitToLatex } from './formulas';
+
+const formula = (id: string) => {
+    const definition = getFormula(id);
+    if (!definition) throw new Error(`No formula '${id}'`);
+    return definition;
+};
+
+describe('resolveFormulaInputs', () => {
+    it('reports missing, out-of-range and unknown inputs', () => {
+        const { errors } = resolveFormulaInputs(formula('hydrostatic-pressure'), { mudWeight: -1, depth: 10000 });
+        expect(errors).toEqual([
+            "Input 'mudWeight' must be at least 0 ppg.",
+            "Missing input 'tvd' (True vertical depth, ft).",
+            "Unknown input(s) for 'hydrostatic-pressure': depth. Expected: mudWeight, tvd.",
+        ]);
+    });
+
+    it('states the limit of an input that is too large with its unit', () => {
+        const { errors } = resolveFormulaInputs(formula('pump-output-triplex'), { linerDiameter: 6, strokeLength: 12, efficiency: 150 });
+        expect(errors).toEqual(["Input 'efficiency' must be at most 100 %."]);
+    });
+
+    it('reads numeric text and falls back to default values', () => {
+        const { values, errors } = resolveFormulaInputs(formula('pump-output-triplex'), { linerDiameter: '6', strokeLength: 12 });
+        expect(errors).toEqual([]);
+        expect(values).toEqual({ linerDiameter: 6, strokeLength: 12, efficiency: 100 });
+    });
+
+    it('falls back to the active well profile for missing inputs', () => {
+        const { values, errors } = resolveFormulaInputs(formula('hydrostatic-pressure'), { mudWeight: 10 }, 'oilfield', { mudWeight: 12, tvd: 9500 });
+        expect(errors).toEqual([]);
+        expect(values).toEqual({ mudWeight: 10, tvd: 9500 });
+    });
+
+    it('converts SI inputs to oilfield units', () => {
+        const { values, errors } = resolveFormulaInputs(formula('hydrostatic-pressure'), { mudWeight: 1438, tvd: '3048' }, 'si');
+        expect(errors).toEqual([]);
+        expect(values.tvd).toBe(10000);
+        expect(values.mudWeight).toBeCloseTo(12, 2);
+    });
+});
+
+describe('annulus inputs', () => {
+    it.each([
+        ['annular-velocity', { flowRate: 500 }],
+        ['annular-capacity', {}],
+    ])('rejects a hole no larger than the pipe for %s', (id, inputs) => {
+        const expected = ["Input 'holeDiameter' (Hole size or casing ID) must be larger than 'pipeOD' (Pipe, tubing or collar OD)."];
+        expect(resolveFormulaInputs(formula(id), { ...inputs, holeDiameter: 5, pipeOD: 8.5 }).errors).toEqual(expected);
+        expect(resolveFormulaInputs(formula(id), { ...inputs, holeDiameter: 8.5, pipeOD: 8.5 }).errors).toEqual(expected);
+    });
+
+    it('throws instead of returning a negative annular velocity or capacity', () => {
+        expect(() => evaluateFormula(formula('annular-velocity'), { flowRate: 500, holeDiameter: 5, pipeOD: 8.5 })).toThrow(/must be larger than 'pipeOD'/);
+        expect(() => evaluateFormula(formula('annular-capacity'), { holeDiameter: 5, pipeOD: 8.5 })).toThrow(/must be larger than 'pipeOD'/);
+    });
+});
+
+describe('evaluateFormula', () => {
+    it('computes hydrostatic pressure with the working', () => {
+        const result = evaluateFormula(formula('hydrostatic-pressure'), { mudWeight: 12, tvd: 10000 });
+        expect(result.result).toEqual({ label: 'Hydrostatic pressure', value: 6240, unit: 'psi' });
+        expect(result.latex.steps).toEqual(['HP = MW \\times 0.052 \\times TVD', 'HP = 12 \\times 0.052 \\times 10000', 'HP = 6240\\ \\text{psi}']);
+    });
+
+    it('reports SI results with the conversions in the working', () => {
+        const result = evaluateFormula(formula('hydrostatic-pressure'), { mudWeight: 12, tvd: 10000 }, 'si');
+        expect(result.result.unit).toBe('kPa');
+        expect(result.result.value).toBeCloseTo(43023.5, 0);
+        expect(result.latex.steps[0]).toMatch(/^MW = .* = 12\\ \\text\{ppg\}$/);
+    });
+
+    it('computes annular velocity for a valid annulus', () => {
+        const result = evaluateFormula(formula('annular-velocity'), { flowRate: 500, holeDiameter: 8.5, pipeOD: 5 });
+        expect(result.result.value).toBeCloseTo(259.26, 2);
+    });
+
+    it('throws when the result is undefined', () => {
+        expect(() => evaluateFormula(formula('mud-weight-from-pressure'), { pressure: 5200, tvd: 0 })).toThrow('is undefined for these inputs');
+    });
+
+    it('gives every formula a finite result for its own inputs', () => {
+        for (const definition of FORMULAS) {
+            const values = Object.fromEntries(definition.inputs.map((input, i) => [input.name, input.defaultValue ?? 10 - i]));
+            expect(Number.isFinite(evaluateFormula(definition, values).result.value), definition.id).toBe(true);
+        }
+    });
+});
+
+describe('formatting', () => {
+    it('formats numbers to six significant figures', () => {
+        expect(formatNumber(0.1 + 0.2)).toBe('0.3');
+        expect(formatNumber(259.2592592)).toBe('259.259');
+        expect(formatNumber(12345678.9)).toBe('12345679');
+    });
+
+    it('renders units as LaTeX', () => {
+        expect(unitToLatex('lb/ft3')).toBe('\\text{lb/ft}^3');
+        expect(unitToLatex('m3/stk')).toBe('\\text{m}^3\\text{/stk}');
+        expect(unitToLatex('°F')).toBe('^\\circ\\text{F}');
+    });
+});
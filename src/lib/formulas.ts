@@ -0,0 +1,436 @@
+// src/lib/formulas.ts
+// Deterministic implementations of the Chapter 1 "Basic Formulas" from the handbook,
+// using the book's constants (0.052, 1029.4, 1714, ...) exactly as printed.
+import { UnitSystem, convertValue, unitForSystem } from './units';
+
+// --- Types ---
+export type FormulaInput = {
+    name: string; // Key in the inputs object, e.g. "mudWeight"
+    label: string;
+    symbol: string; // LaTeX symbol used in the general formula, e.g. "MW"
+    unit: string; // Oilfield unit, e.g. "ppg"
+    defaultValue?: number;
+    min?: number; // Inclusive lower bound
+    max?: number;
+};
+
+export type FormulaOutput = {
+    label: string;
+    symbol: string;
+    unit: string;
+};
+
+export type FormulaReference = {
+    sectionId: string; // Section id in src/generated/pdf-content.json, e.g. "ch1.2"
+    page: number; // Printed page number
+};
+
+export type FormulaDefinition = {
+    id: string;
+    title: string;
+    description: string;
+    inputs: FormulaInput[];
+    output: FormulaOutput;
+    reference: FormulaReference;
+    fixedUnits?: boolean; // Units are part of the formula (e.g. °F to °C) and are never converted
+    // Error for inputs that are each in range but impossible together (e.g. pipe OD above hole size)
+    checkInputs?: (v: Record<string, number>) => string | null;
+    compute: (v: Record<string, number>) => number;
+    // Right-hand side of the formula as LaTeX; receives either the input symbols or the substituted values
+    expression: (v: Record<string, string>) => string;
+};
+
+export type FormulaResult = {
+    formulaId: string;
+    title: string;
+    unitSystem: UnitSystem; // System of the reported inputs and result; the working is always in oilfield units
+    inputs: { name: string; label: string; value: number; unit: string }[];
+    result: { label: string; value: number; unit: string };
+    latex: {
+        formula: string; // General formula
+        steps: string[]; // Substituted working, one line each
+        markdown: string; // Display-math block ready for the chat's KaTeX renderer
+    };
+    reference: FormulaReference;
+};
+
+// --- Formatting Helpers ---
+
+/**
+ * Formats a number for the working steps: 6 significant figures, no trailing zeros.
+ */
+export function formatNumber(value: number): string {
+    if (!Number.isFinite(value)) return String(value);
+    if (Math.abs(value) >= 1e6) return value.toFixed(0);
+    return String(parseFloat(value.toPrecision(6)));
+}
+
+/**
+ * Renders a unit as LaTeX text, e.g. "lb/ft3" -> "\text{lb/ft}^3", "m3/stk" -> "\text{m}^3\text{/stk}", "°F" -> "^\circ\text{F}".
+ */
+export function unitToLatex(unit: string): string {
+    if (!unit) return '';
+    if (unit.startsWith('°')) return `^\\circ\\text{${unit.slice(1)}}`;
+    if (unit === '%') return '\\%';
+    if (unit === '$') return '\\text{\\$}';
+    // A 2 or 3 directly after a letter is an exponent (ft3, m3/stk, lb/100ft2)
+    return unit.split(/(?<=[a-zA-Z])([23])(?![0-9])/)
+        .map((part, i) => (i % 2 === 1 ? `^${part}` : part ? `\\text{${part.replace(/\$/g, '\\$')}}` : ''))
+        .join('');
+}
+
+// --- Formula Library (Chapter 1) ---
+const MUD_WEIGHT: FormulaInput = { name: 'mudWeight', label: 'Mud weight', symbol: 'MW', unit: 'ppg', min: 0 };
+const TVD: FormulaInput = { name: 'tvd', label: 'True vertical depth', symbol: 'TVD', unit: 'ft', min: 0 };
+const HOLE_DIAMETER: FormulaInput = { name: 'holeDiameter', label: 'Hole size or casing ID', symbol: 'D_h', unit: 'in', min: 0 };
+const PIPE_OD: FormulaInput = { name: 'pipeOD', label: 'Pipe, tubing or collar OD', symbol: 'D_p', unit: 'in', min: 0 };
+// The annulus needs a hole (or casing ID) larger than the pipe inside it
+const checkAnnulus = (v: Record<string, number>): string | null =>
+    v.holeDiameter > v.pipeOD ? null : `Input 'holeDiameter' (${HOLE_DIAMETER.label}) must be larger than 'pipeOD' (${PIPE_OD.label}).`;
+const EFFICIENCY: FormulaInput = { name: 'efficiency', label: 'Pump efficiency', symbol: 'E', unit: '%', defaultValue: 100, min: 0, max: 100 };
+
+export const FORMULAS: FormulaDefinition[] = [
+    {
+        id: 'pressure-gradient',
+        title: 'Pressure Gradient',
+        description: 'Pressure gradient, psi/ft, from mud weight, ppg.',
+        inputs: [MUD_WEIGHT],
+        output: { label: 'Pressure gradient', symbol: '\\text{psi/ft}', unit: 'psi/ft' },
+        reference: { sectionId: 'ch1.1', page: 4 },
+        compute: v => v.mudWeight * 0.052,
+        expression: v => `${v.mudWeight} \\times 0.052`,
+    },
+    {
+        id: 'mud-weight-from-gradient',
+        title: 'Mud Weight from Pressure Gradient',
+        description: 'Convert a pressure gradient, psi/ft, to mud weight, ppg.',
+        inputs: [{ name: 'pressureGradient', label: 'Pressure gradient', symbol: 'G', unit: 'psi/ft', min: 0 }],
+        output: { label: 'Mud weight', symbol: 'MW', unit: 'ppg' },
+        reference: { sectionId: 'ch1.1', page: 4 },
+        compute: v => v.pressureGradient / 0.052,
+        expression: v => `${v.pressureGradient} \\div 0.052`,
+    },
+    {
+        id: 'hydrostatic-pressure',
+        title: 'Hydrostatic Pressure',
+        description: 'Hydrostatic pressure, psi, from mud weight, ppg, and TVD, ft.',
+        inputs: [MUD_WEIGHT, TVD],
+        output: { label: 'Hydrostatic pressure', symbol: 'HP', unit: 'psi' },
+        reference: { sectionId: 'ch1.2', page: 5 },
+        compute: v => v.mudWeight * 0.052 * v.tvd,
+        expression: v => `${v.mudWeight} \\times 0.052 \\times ${v.tvd}`,
+    },
+    {
+        id: 'mud-weight-from-pressure',
+        title: 'Converting Pressure into Mud Weight',
+        description: 'Mud weight, ppg, equivalent to a pressure, psi, at a TVD, ft.',
+        inputs: [{ name: 'pressure', label: 'Pressure', symbol: 'P', unit: 'psi', min: 0 }, { ...TVD, min: 1 }],
+        output: { label: 'Mud weight', symbol: 'MW', unit: 'ppg' },
+        reference: { sectionId: 'ch1.3', page: 5 },
+        compute: v => v.pressure / 0.052 / v.tvd,
+        expression: v => `${v.pressure} \\div 0.052 \\div ${v.tvd}`,
+    },
+    {
+        id: 'specific-gravity',
+        title: 'Specific Gravity',
+        description: 'Specific gravity from mud weight, ppg.',
+        inputs: [MUD_WEIGHT],
+        output: { label: 'Specific gravity', symbol: 'SG', unit: 'SG' },
+        reference: { sectionId: 'ch1.4', page: 6 },
+        compute: v => v.mudWeight / 8.33,
+        expression: v => `${v.mudWeight} \\div 8.33`,
+    },
+    {
+        id: 'ecd',
+        title: 'Equivalent Circulating Density',
+        description: 'ECD, ppg, from annular pressure loss, psi, TVD, ft, and mud weight in use, ppg.',
+        inputs: [{ name: 'annularPressureLoss', label: 'Annular pressure loss', symbol: 'P_{an}', unit: 'psi', min: 0 }, { ...TVD, min: 1 }, MUD_WEIGHT],
+        output: { label: 'Equivalent circulating density', symbol: 'ECD', unit: 'ppg' },
+        reference: { sectionId: 'ch1.5', page: 7 },
+        compute: v => v.annularPressureLoss / 0.052 / v.tvd + v.mudWeight,
+        expression: v => `${v.annularPressureLoss} \\div 0.052 \\div ${v.tvd} + ${v.mudWeight}`,
+    },
+    {
+        id: 'max-allowable-mud-weight',
+        title: 'Maximum Allowable Mud Weight',
+        description: 'Maximum allowable mud weight, ppg, from leak-off test data.',
+        inputs: [
+            { name: 'leakOffPressure', label: 'Leak-off pressure', symbol: 'P_{LOT}', unit: 'psi', min: 0 },
+            { name: 'shoeTvd', label: 'Casing shoe TVD', symbol: 'TVD_{shoe}', unit: 'ft', min: 1 },
+            { ...MUD_WEIGHT, label: 'Test mud weight' },
+        ],
+        output: { label: 'Maximum allowable mud weight', symbol: 'MW_{max}', unit: 'ppg' },
+        reference: { sectionId: 'ch1.6', page: 7 },
+        compute: v => v.leakOffPressure / 0.052 / v.shoeTvd + v.mudWeight,
+        expression: v => `${v.leakOffPressure} \\div 0.052 \\div ${v.shoeTvd} + ${v.mudWeight}`,
+    },
+    {
+        id: 'pump-output-triplex',
+        title: 'Pump Output (Triplex)',
+        description: 'Triplex pump output, bbl/stk, from liner diameter and stroke length, adjusted for efficiency.',
+        inputs: [
+            { name: 'linerDiameter', label: 'Liner diameter', symbol: 'D', unit: 'in', min: 0 },
+            { name: 'strokeLength', label: 'Stroke length', symbol: 'S', unit: 'in', min: 0 },
+            EFFICIENCY,
+        ],
+        output: { label: 'Pump output', symbol: 'PO', unit: 'bbl/stk' },
+        reference: { sectionId: 'ch1.7', page: 7 },
+        compute: v => 0.000243 * v.linerDiameter ** 2 * v.strokeLength * (v.efficiency / 100),
+        expression: v => `0.000243 \\times ${v.linerDiameter}^2 \\times ${v.strokeLength} \\times \\frac{${v.efficiency}}{100}`,
+    },
+    {
+        id: 'pump-output-duplex',
+        title: 'Pump Output (Duplex)',
+        description: 'Duplex pump output, bbl/stk, from liner diameter, rod diameter and stroke length, adjusted for efficiency.',
+        inputs: [
+            { name: 'linerDiameter', label: 'Liner diameter', symbol: 'D', unit: 'in', min: 0 },
+            { name: 'rodDiameter', label: 'Rod diameter', symbol: 'd', unit: 'in', min: 0 },
+            { name: 'strokeLength', label: 'Stroke length', symbol: 'S', unit: 'in', min: 0 },
+            EFFICIENCY,
+        ],
+        output: { label: 'Pump output', symbol: 'PO', unit: 'bbl/stk' },
+        reference: { sectionId: 'ch1.7', page: 8 },
+        compute: v => 0.000162 * v.strokeLength * (2 * v.linerDiameter ** 2 - v.rodDiameter ** 2) * (v.efficiency / 100),
+        expression: v => `0.000162 \\times ${v.strokeLength} \\times [2(${v.linerDiameter})^2 - ${v.rodDiameter}^2] \\times \\frac{${v.efficiency}}{100}`,
+    },
+    {
+        id: 'annular-velocity',
+        title: 'Annular Velocity',
+        description: 'Annular velocity, ft/min, from circulation rate, gpm, hole size and pipe OD.',
+        inputs: [{ name: 'flowRate', label: 'Circulation rate', symbol: 'Q', unit: 'gpm', min: 0 }, HOLE_DIAMETER, PIPE_OD],
+        output: { label: 'Annular velocity', symbol: 'AV', unit: 'ft/min' },
+        reference: { sectionId: 'ch1.8', page: 9 },
+        checkInputs: checkAnnulus,
+        compute: v => (24.5 * v.flowRate) / (v.holeDiameter ** 2 - v.pipeOD ** 2),
+        expression: v => `\\frac{24.5 \\times ${v.flowRate}}{${v.holeDiameter}^2 - ${v.pipeOD}^2}`,
+    },
+    {
+        id: 'annular-capacity',
+        title: 'Annular Capacity',
+        description: 'Annular capacity, bbl/ft, between hole or casing and pipe.',
+        inputs: [HOLE_DIAMETER, PIPE_OD],
+        output: { label: 'Annular capacity', symbol: 'C_{an}', unit: 'bbl/ft' },
+        reference: { sectionId: 'ch1.9', page: 11 },
+        checkInputs: checkAnnulus,
+        compute: v => (v.holeDiameter ** 2 - v.pipeOD ** 2) / 1029.4,
+        expression: v => `\\frac{${v.holeDiameter}^2 - ${v.pipeOD}^2}{1029.4}`,
+    },
+    {
+        id: 'capacity',
+        title: 'Capacity of Tubulars and Open Hole',
+        description: 'Capacity, bbl/ft, of drill pipe, collars, tubing, casing or hole from its ID.',
+        inputs: [{ name: 'innerDiameter', label: 'Inside diameter', symbol: 'ID', unit: 'in', min: 0 }],
+        output: { label: 'Capacity', symbol: 'C', unit: 'bbl/ft' },
+        reference: { sectionId: 'ch1.9', page: 14 },
+        compute: v => v.innerDiameter ** 2 / 1029.4,
+        expression: v => `\\frac{${v.innerDiameter}^2}{1029.4}`,
+    },
+    {
+        id: 'buoyancy-factor',
+        title: 'Buoyancy Factor',
+        description: 'Buoyancy factor from mud weight, ppg.',
+        inputs: [MUD_WEIGHT],
+        output: { label: 'Buoyancy factor', symbol: 'BF', unit: '' },
+        reference: { sectionId: 'ch1.11', page: 17 },
+        compute: v => (65.5 - v.mudWeight) / 65.5,
+        expression: v => `\\frac{65.5 - ${v.mudWeight}}{65.5}`,
+    },
+    {
+        id: 'formation-temperature',
+        title: 'Formation Temperature',
+        description: 'Estimated formation temperature, °F, from surface temperature and geothermal gradient.',
+        inputs: [
+            { name: 'surfaceTemperature', label: 'Ambient surface temperature', symbol: 'T_s', unit: '°F' },
+            { name: 'temperatureGradient', label: 'Temperature increase per ft', symbol: 'G_T', unit: '°F/ft', min: 0 },
+            TVD,
+        ],
+        output: { label: 'Formation temperature', symbol: 'FT', unit: '°F' },
+        reference: { sectionId: 'ch1.14', page: 20 },
+        compute: v => v.surfaceTemperature + v.temperatureGradient * v.tvd,
+        expression: v => `${v.surfaceTemperature} + (${v.temperatureGradient} \\times ${v.tvd})`,
+    },
+    {
+        id: 'hydraulic-horsepower',
+        title: 'Hydraulic Horsepower',
+        description: 'Hydraulic horsepower from circulating pressure, psi, and circulating rate, gpm.',
+        inputs: [
+            { name: 'pressure', label: 'Circulating pressure', symbol: 'P', unit: 'psi', min: 0 },
+            { name: 'flowRate', label: 'Circulating rate', symbol: 'Q', unit: 'gpm', min: 0 },
+        ],
+        output: { label: 'Hydraulic horsepower', symbol: 'HHP', unit: 'hp' },
+        reference: { sectionId: 'ch1.15', page: 20 },
+        compute: v => (v.pressure * v.flowRate) / 1714,
+        expression: v => `\\frac{${v.pressure} \\times ${v.flowRate}}{1714}`,
+    },
+    {
+        id: 'pump-pressure-stroke',
+        title: 'Pump Pressure/Pump Stroke Relationship',
+        description: "New circulating pressure, psi, after a pump rate change (roughneck's formula).",
+        inputs: [
+            { name: 'presentPressure', label: 'Present circulating pressure', symbol: 'P_1', unit: 'psi', min: 0 },
+            { name: 'newPumpRate', label: 'New pump rate', symbol: 'SPM_2', unit: 'spm', min: 0 },
+            { name: 'oldPumpRate', label: 'Old pump rate', symbol: 'SPM_1', unit: 'spm', min: 1 },
+        ],
+        output: { label: 'New circulating pressure', symbol: 'P_2', unit: 'psi' },
+        reference: { sectionId: 'ch1.17', page: 22 },
+        compute: v => v.presentPressure * (v.newPumpRate / v.oldPumpRate) ** 2,
+        expression: v => `${v.presentPressure} \\times \\left(\\frac{${v.newPumpRate}}{${v.oldPumpRate}}\\right)^2`,
+    },
+    {
+        id: 'cost-per-foot',
+        title: 'Cost Per Foot',
+        description: 'Drilling cost, $/ft, from bit cost, rig cost, rotating and trip time, and footage per bit.',
+        inputs: [
+            { name: 'bitCost', label: 'Bit cost', symbol: 'B', unit: '$', min: 0 },
+            { name: 'rigCost', label: 'Rig cost', symbol: 'C_R', unit: '$/hr', min: 0 },
+            { name: 'rotatingTime', label: 'Rotating time', symbol: 't', unit: 'hr', min: 0 },
+            { name: 'tripTime', label: 'Round trip time', symbol: 'T', unit: 'hr', min: 0 },
+            { name: 'footage', label: 'Footage per bit', symbol: 'F', unit: 'ft', min: 1 },
+        ],
+        output: { label: 'Drilling cost', symbol: 'C_T', unit: '$/ft' },
+        reference: { sectionId: 'ch1.18', page: 23 },
+        compute: v => (v.bitCost + v.rigCost * (v.rotatingTime + v.tripTime)) / v.footage,
+        expression: v => `\\frac{${v.bitCost} + ${v.rigCost}(${v.rotatingTime} + ${v.tripTime})}{${v.footage}}`,
+    },
+    {
+        id: 'fahrenheit-to-celsius',
+        title: 'Temperature Conversion (°F to °C)',
+        description: 'Convert temperature, °F, to °C.',
+        inputs: [{ name: 'fahrenheit', label: 'Temperature', symbol: 'T_F', unit: '°F' }],
+        output: { label: 'Temperature', symbol: 'T_C', unit: '°C' },
+        reference: { sectionId: 'ch1.19', page: 23 },
+        fixedUnits: true,
+        compute: v => ((v.fahrenheit - 32) * 5) / 9,
+        expression: v => `\\frac{(${v.fahrenheit} - 32) \\times 5}{9}`,
+    },
+    {
+        id: 'celsius-to-fahrenheit',
+        title: 'Temperature Conversion (°C to °F)',
+        description: 'Convert temperature, °C, to °F.',
+        inputs: [{ name: 'celsius', label: 'Temperature', symbol: 'T_C', unit: '°C' }],
+        output: { label: 'Temperature', symbol: 'T_F', unit: '°F' },
+        reference: { sectionId: 'ch1.19', page: 23 },
+        fixedUnits: true,
+        compute: v => (v.celsius * 9) / 5 + 32,
+        expression: v => `(${v.celsius} \\times 9) \\div 5 + 32`,
+    },
+];
+
+const FORMULAS_BY_ID = new Map(FORMULAS.map(formula => [formula.id, formula]));
+
+export function getFormula(id: string): FormulaDefinition | undefined {
+    return FORMULAS_BY_ID.get(id);
+}
+
+// --- Evaluation ---
+
+/**
+ * The unit a formula input or output is given in under `unitSystem`.
+ */
+export function formulaUnit(formula: FormulaDefinition, unit: string, unitSystem: UnitSystem): string {
+    return formula.fixedUnits ? unit : unitForSystem(unit, unitSystem);
+}
+
+/**
+ * Checks raw inputs against a formula's declared inputs. Missing inputs fall back to
+ * `fallbacks` (e.g. the active well profile, oilfield units), then to their default value.
+ * Supplied values are in `unitSystem` and are converted to the handbook's oilfield units.
+ * Returns the resolved oilfield values and a list of human-readable errors.
+ */
+export function resolveFormulaInputs(formula: FormulaDefinition, rawInputs: unknown, unitSystem: UnitSystem = 'oilfield', fallbacks: Record<string, number> = {}): { values: Record<string, number>; errors: string[] } {
+    const values: Record<string, number> = {};
+    const errors: string[] = [];
+    const provided = typeof rawInputs === 'object' && rawInputs !== null ? rawInputs as Record<string, unknown> : {};
+    for (const input of formula.inputs) {
+        const unit = formulaUnit(formula, input.unit, unitSystem); // Unit the caller supplies the value in
+        let value = provided[input.name];
+        const usesDefault = value === undefined || value === null || value === '';
+        if (usesDefault) value = fallbacks[input.name] ?? input.defaultValue;
+        if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) value = Number(value);
+
+        if (value === undefined) {
+            errors.push(`Missing input '${input.name}' (${input.label}, ${unit || 'dimensionless'}).`);
+            continue;
+        }
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+            errors.push(`Input '${input.name}' must be a finite number.`);
+            continue;
+        }
+        // Fallbacks and defaults are already in the handbook's units
+        const handbookValue = usesDefault ? value : convertValue(value, unit, input.unit);
+        if (input.min !== undefined && handbookValue < input.min) {
+            errors.push(`Input '${input.name}' must be at least ${[formatNumber(convertValue(input.min, input.unit, unit)), unit].filter(Boolean).join(' ')}.`);
+        } else if (input.max !== undefined && handbookValue > input.max) {
+            errors.push(`Input '${input.name}' must be at most ${[formatNumber(convertValue(input.max, input.unit, unit)), unit].filter(Boolean).join(' ')}.`);
+        } else {
+            values[input.name] = handbookValue;
+        }
+    }
+
+    const unknown = Object.keys(provided).filter(key => !formula.inputs.some(input => input.name === key));
+    if (unknown.length > 0) {
+        errors.push(`Unknown input(s) for '${formula.id}': ${unknown.join(', ')}. Expected: ${formula.inputs.map(i => i.name).join(', ')}.`);
+    }
+    const combinationError = errors.length === 0 ? formula.checkInputs?.(values) : null;
+    if (combinationError) errors.push(combinationError);
+    return { values, errors };
+}
+
+/**
+ * Evaluates a formula with already-validated oilfield inputs and builds the LaTeX working.
+ * Inputs and result are reported in `unitSystem`; for SI the working starts with the input
+ * conversions and ends with the result conversion, since the handbook constants are oilfield.
+ * Throws if the inputs fail the formula's own check (e.g. pipe OD above hole size) or the result
+ * is not a finite number.
+ */
+export function evaluateFormula(formula: FormulaDefinition, values: Record<string, number>, unitSystem: UnitSystem = 'oilfield'): FormulaResult {
+    const inputError = formula.checkInputs?.(values);
+    if (inputError) throw new Error(inputError);
+    const value = formula.compute(values);
+    if (!Number.isFinite(value)) {
+        throw new Error(`'${formula.title}' is undefined for these inputs (division by zero or invalid range).`);
+    }
+    const reportedInputs = formula.inputs.map(input => {
+        const unit = formulaUnit(formula, input.unit, unitSystem);
+        return { name: input.name, label: input.label, value: convertValue(values[input.name], input.unit, unit), unit };
+    });
+    const resultUnit = formulaUnit(formula, formula.output.unit, unitSystem);
+    const resultValue = convertValue(value, formula.output.unit, resultUnit);
+
+    const withUnit = (n: number, unit: string): string => {
+        const latexUnit = unitToLatex(unit);
+        return `${formatNumber(n)}${latexUnit ? `\\ ${latexUnit}` : ''}`;
+    };
+    const conversionSteps = formula.inputs
+        .filter((input, i) => reportedInputs[i].unit !== input.unit)
+        .map(input => {
+            const reported = reportedInputs.find(r => r.name === input.name)!;
+            return `${input.symbol} = ${withUnit(reported.value, reported.unit)} = ${withUnit(values[input.name], input.unit)}`;
+        });
+
+    const symbols = Object.fromEntries(formula.inputs.map(input => [input.name, input.symbol]));
+    const substituted = Object.fromEntries(formula.inputs.map(input => [input.name, formatNumber(values[input.name])]));
+    const generalFormula = `${formula.output.symbol} = ${formula.expression(symbols)}`;
+    const resultStep = resultUnit !== formula.output.unit
+        ? `${formula.output.symbol} = ${withUnit(value, formula.output.unit)} = ${withUnit(resultValue, resultUnit)}`
+        : `${formula.output.symbol} = ${withUnit(value, formula.output.unit)}`;
+    const steps = [
+        ...conversionSteps,
+        generalFormula,
+        `${formula.output.symbol} = ${formula.expression(substituted)}`,
+        resultStep,
+    ];
+    return {
+        formulaId: formula.id,
+        title: formula.title,
+        unitSystem,
+        inputs: reportedInputs,
+        result: { label: formula.output.label, value: resultValue, unit: resultUnit },
+        latex: {
+            formula: generalFormula,
+            steps,
+            markdown: `$$\n\\begin{aligned}\n${steps.map(step => step.replace(' = ', ' &= ')).join(' \\\\\n')}\n\\end{aligned}\n$$`,
+        },
+        reference: formula.reference,
+    };
+}
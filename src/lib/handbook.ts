@@ -0,0 +1,247 @@
+// src/lib/handbook.ts
+// Schema and loader for src/generated/pdf-content.json (written by scripts/extract-pdf-text.mjs)
+
+// --- Schema Types ---
+export const HANDBOOK_SCHEMA_VERSION = 2;
+
+export type HandbookSectionKind = 'chapter' | 'section' | 'appendix' | 'index';
+
+export type HandbookSection = {
+    id: string; // e.g. "ch4" or "ch4.1"
+    kind: HandbookSectionKind;
+    number: number | null;
+    title: string;
+    page: number | null; // Printed page number where the section starts
+    children?: HandbookSection[];
+};
+
+export type HandbookPage = {
+    index: number; // 1-based page index within the PDF
+    number: number | null; // Printed page number from the running header, if any
+    text: string;
+};
+
+export type HandbookSpan = {
+    page: number; // PDF page index
+    start: number; // Character offsets into the page text
+    end: number;
+    sectionId: string | null;
+};
+
+export type HandbookChunk = HandbookSpan & {
+    id: string;
+};
+
+export type HandbookDocument = {
+    version: number;
+    pages: HandbookPage[];
+    sections: HandbookSection[];
+    spans: HandbookSpan[];
+    chunks: HandbookChunk[];
+    sectionsById: Map<string, HandbookSection>;
+};
+
+// Chunking parameters for the legacy { content } shape, mirroring extract-pdf-text.mjs
+const LEGACY_CHUNK_SIZE = 1200;
+const LEGACY_CHUNK_OVERLAP = 200;
+
+// --- Validation Helpers ---
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isInteger = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value);
+const isNullableInteger = (value: unknown): value is number | null => value === null || isInteger(value);
+const isNullableString = (value: unknown): value is string | null => value === null || typeof value === 'string';
+
+function validateSection(value: unknown, path: string): HandbookSection {
+    if (!isObject(value) || typeof value.id !== 'string' || typeof value.title !== 'string') {
+        throw new Error(`${path} must have string 'id' and 'title'.`);
+    }
+    if (!['chapter', 'section', 'appendix', 'index'].includes(value.kind as string)) {
+        throw new Error(`${path} has unknown kind '${String(value.kind)}'.`);
+    }
+    if (!isNullableInteger(value.number) || !isNullableInteger(value.page)) {
+        throw new Error(`${path} 'number' and 'page' must be integers or null.`);
+    }
+    let children: HandbookSection[] | undefined;
+    if (value.children !== undefined) {
+        if (!Array.isArray(value.children)) {
+            throw new Error(`${path}.children must be an array.`);
+        }
+        children = value.children.map((child, i) => validateSection(child, `${path}.children[${i}]`));
+    }
+    return {
+        id: value.id,
+        kind: value.kind as HandbookSectionKind,
+        number: value.number,
+        title: value.title,
+        page: value.page,
+        children,
+    };
+}
+
+function validateSpan(value: unknown, path: string, pages: HandbookPage[]): HandbookSpan {
+    if (!isObject(value) || !isInteger(value.page) || !isInteger(value.start) || !isInteger(value.end) || !isNullableString(value.sectionId)) {
+        throw new Error(`${path} must have integer 'page', 'start', 'end' and a string or null 'sectionId'.`);
+    }
+    const page = pages[value.page - 1];
+    if (!page || value.start < 0 || value.end > page.text.length || value.start > value.end) {
+        throw new Error(`${path} range ${value.start}-${value.end} is outside page ${value.page}.`);
+    }
+    return { page: value.page, start: value.start, end: value.end, sectionId: value.sectionId };
+}
+
+function indexSections(sections: HandbookSection[], map = new Map<string, HandbookSection>()): Map<string, HandbookSection> {
+    for (const section of sections) {
+        map.set(section.id, section);
+        if (section.children) indexSections(section.children, map);
+    }
+    return map;
+}
+
+/**
+ * Splits text into overlapping chunks, preferring to end on a line break.
+ * Only used for the legacy shape, which has no build-time chunks.
+ */
+function chunkText(text: string): { start: number; end: number }[] {
+    const ranges: { start: number; end: number }[] = [];
+    let start = 0;
+    while (start < text.length) {
+        let end = Math.min(start + LEGACY_CHUNK_SIZE, text.length);
+        if (end < text.length) {
+            const lastBreak = text.lastIndexOf('\n', end);
+            if (lastBreak > start + LEGACY_CHUNK_SIZE * 0.66) end = lastBreak;
+        }
+        if (text.slice(start, end).trim().length > 0) ranges.push({ start, end });
+        if (end >= text.length) break;
+        start = Math.max(end - LEGACY_CHUNK_OVERLAP, start + 1);
+    }
+    return ranges;
+}
+
+// --- Loading ---
+
+/**
+ * Converts the legacy `{ content }` shape (optionally with content-offset chunks) into a
+ * single-page document with no section tree.
+ */
+function parseLegacyHandbook(raw: Record<string, unknown>): HandbookDocument {
+    const content = raw.content;
+    if (typeof content !== 'string') {
+        throw new Error("Pre-extracted PDF content is invalid or missing 'content' key.");
+    }
+    const pages: HandbookPage[] = [{ index: 1, number: null, text: content }];
+    const legacyChunks = Array.isArray(raw.chunks) ? raw.chunks : null;
+    const ranges = legacyChunks
+        ? legacyChunks.map((chunk, i) => validateSpan({ ...chunk, page: 1, sectionId: null }, `chunks[${i}]`, pages))
+        : chunkText(content);
+
+    return {
+        version: 1,
+        pages,
+        sections: [],
+        spans: content.length > 0 ? [{ page: 1, start: 0, end: content.length, sectionId: null }] : [],
+        chunks: ranges.map((range, i) => ({ id: `c${i}`, page: 1, start: range.start, end: range.end, sectionId: null })),
+        sectionsById: new Map(),
+    };
+}
+
+/**
+ * Validates the generated handbook JSON and returns a normalized document.
+ * Accepts the current versioned schema and the original `{ content }` shape.
+ * Throws an Error describing the first problem found.
+ */
+export function parseHandbookData(raw: unknown): HandbookDocument {
+    if (!isObject(raw)) {
+        throw new Error('Pre-extracted PDF data is not a JSON object.');
+    }
+    if (raw.version === undefined) {
+        return parseLegacyHandbook(raw);
+    }
+    if (raw.version !== HANDBOOK_SCHEMA_VERSION) {
+        throw new Error(`Unsupported pre-extracted PDF schema version ${String(raw.version)} (expected ${HANDBOOK_SCHEMA_VERSION}). Re-run 'npm run extract-pdf'.`);
+    }
+    if (!Array.isArray(raw.pages) || !Array.isArray(raw.sections) || !Array.isArray(raw.spans) || !Array.isArray(raw.chunks)) {
+        throw new Error("Pre-extracted PDF data must contain 'pages', 'sections', 'spans' and 'chunks' arrays.");
+    }
+
+    const pages: HandbookPage[] = raw.pages.map((page: unknown, i: number) => {
+        if (!isObject(page) || page.index !== i + 1 || !isNullableInteger(page.number) || typeof page.text !== 'string') {
+            throw new Error(`pages[${i}] must have 'index' ${i + 1}, a nullable integer 'number' and string 'text'.`);
+        }
+        return { index: page.index, number: page.number, text: page.text };
+    });
+    const sections = raw.sections.map((section: unknown, i: number) => validateSection(section, `sections[${i}]`));
+    const sectionsById = indexSections(sections);
+
+    const checkSectionRef = <T extends HandbookSpan>(span: T, path: string): T => {
+        if (span.sectionId !== null && !sectionsById.has(span.sectionId)) {
+            throw new Error(`${path} refers to unknown section '${span.sectionId}'.`);
+        }
+        return span;
+    };
+    const spans = raw.spans.map((span: unknown, i: number) => checkSectionRef(validateSpan(span, `spans[${i}]`, pages), `spans[${i}]`));
+    const chunks = raw.chunks.map((chunk: unknown, i: number) => {
+        if (!isObject(chunk) || typeof chunk.id !== 'string') {
+            throw new Error(`chunks[${i}] must have a string 'id'.`);
+        }
+        return checkSectionRef({ id: chunk.id, ...validateSpan(chunk, `chunks[${i}]`, pages) }, `chunks[${i}]`);
+    });
+
+    return { version: raw.version, pages, sections, spans, chunks, sectionsById };
+}
+
+/**
+ * Returns the text covered by a span or chunk.
+ */
+export function getSpanText(doc: HandbookDocument, span: HandbookSpan): string {
+    return doc.pages[span.page - 1].text.slice(span.start, span.end);
+}
+
+/**
+ * Total length of the page text, for logging.
+ */
+export function getHandbookLength(doc: HandbookDocument): number {
+    return doc.pages.reduce((sum, page) => sum + page.text.length, 0);
+}
+
+// --- Citations ---
+
+/**
+ * A handbook passage cited in an answer. Returned by /api/chat and persisted with the message.
+ */
+export type HandbookSource = {
+    id: string; // Tag used in the prompt and answer, e.g. "S1"
+    chunkId: string;
+    page: number | null; // Printed page number
+    pdfPage: number;
+    sectionId: string | null;
+    section: string | null; // e.g. "4.1 Kill Sheets & Related Calculations"
+    chapter: string | null; // e.g. "Chapter 4: Pressure Control"
+    excerpt: string;
+    score: number;
+};
+
+/**
+ * Returns the chain of sections from the top-level entry down to `sectionId`, or [] if unknown.
+ */
+export function getSectionPath(doc: HandbookDocument, sectionId: string | null): HandbookSection[] {
+    if (!sectionId) return [];
+    const walk = (sections: HandbookSection[], trail: HandbookSection[]): HandbookSection[] | null => {
+        for (const section of sections) {
+            const path = [...trail, section];
+            if (section.id === sectionId) return path;
+            const found = section.children ? walk(section.children, path) : null;
+            if (found) return found;
+        }
+        return null;
+    };
+    return walk(doc.sections, []) || [];
+}
+
+/**
+ * Human-readable label for a section, e.g. "Chapter 4: Pressure Control" or "4.1 Kill Sheets".
+ */
+export function formatSectionLabel(section: HandbookSection, parent?: HandbookSection): string {
+    if (section.kind === 'chapter') return `Chapter ${section.number}: ${section.title}`;
+    if (section.kind === 'section' && parent?.number && section.number) return `${parent.number}.${section.number} ${section.title}`;
+    return section.title;
+}
@@ -0,0 +1,47 @@
+// src/lib/killSheet.test.ts
+import { describe, expect, it } from 'vitest';
+import { KILL_SHEET_EXAMPLE, computeKillSheet, getMissingKillSheetFields, isCompleteKillSheet, parseKillSheetPrefill } from './killSheet';
+
+describe('computeKillSheet', () => {
+    const result = computeKillSheet(KILL_SHEET_EXAMPLE);
+
+    it('matches the handbook worked example', () => {
+        expect(result.killMudWeightRounded).toBe(10.5);
+        expect(result.icp).toBe(1480);
+        expect(result.fcp).toBe(1094);
+        expect(result.drillStringVolume).toBeCloseTo(181.52, 2);
+        expect(result.strokesToBit).toBe(1335);
+    });
+
+    it('steps the drill pipe pressure down from ICP to FCP in ten lines', () => {
+        expect(result.schedule).toHaveLength(11);
+        expect(result.schedule[0]).toEqual({ line: 0, strokes: 0, pressure: 1480 });
+        expect(result.schedule[10]).toEqual({ line: 10, strokes: 1335, pressure: 1094 });
+        expect(result.table.rows).toHaveLength(11);
+    });
+
+    it('warns when the casing pressure exceeds MAASP', () => {
+        expect(result.maasp).not.toBeNull();
+        const overPressure = computeKillSheet({ ...KILL_SHEET_EXAMPLE, sicp: (result.maasp ?? 0) + 100 });
+        expect(overPressure.warnings.some(warning => warning.includes('maximum allowable shut-in casing pressure'))).toBe(true);
+    });
+
+    it('rejects inputs that make the sheet undefined', () => {
+        expect(() => computeKillSheet({ ...KILL_SHEET_EXAMPLE, pumpOutput: 0 })).toThrow('Pump output must be greater than 0 bbl/stk.');
+        expect(() => computeKillSheet({ ...KILL_SHEET_EXAMPLE, drillString: [] })).toThrow('Drill string volume must be greater than 0 bbl.');
+    });
+});
+
+describe('parseKillSheetPrefill', () => {
+    it('converts SI values to oilfield units and reports bad fields', () => {
+        const { prefill, errors } = parseKillSheetPrefill({ tvd: 3048, sidpp: 'lots', drillString: [{ capacity: 0.01, length: 100 }], colour: 'red' }, 'si');
+        expect(prefill.tvd).toBe(10000);
+        expect(prefill.drillString?.[0].length).toBeCloseTo(328.084, 3);
+        expect(errors).toEqual(["'sidpp' must be a non-negative number.", 'Unknown kill sheet field(s): colour.']);
+    });
+
+    it('lists what is still missing', () => {
+        expect(isCompleteKillSheet(KILL_SHEET_EXAMPLE)).toBe(true);
+        expect(getMissingKillSheetFields({ ...KILL_SHEET_EXAMPLE, annulus: [] })).toEqual(['Annulus capacities and lengths']);
+    });
+});
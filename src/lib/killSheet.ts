@@ -0,0 +1,306 @@
+// src/lib/killSheet.ts
+// Normal kill sheet from Chapter 4 (Pressure Control), following the handbook's worked example:
+// KWM, ICP, FCP, strokes and the ten-line drill pipe pressure step-down chart.
+import { FormulaReference, formatNumber, unitToLatex } from './formulas';
+import { UnitSystem, convertValue, unitForSystem } from './units';
+
+// --- Types ---
+export type KillSheetValues = {
+    originalMudWeight: number; // ppg
+    md: number; // ft
+    tvd: number; // ft
+    killRatePressure: number; // psi, slow circulating rate pressure
+    killRate?: number; // spm the kill rate pressure was taken at
+    pumpOutput: number; // bbl/stk
+    sidpp: number; // psi
+    sicp: number; // psi
+    pitGain: number; // bbl
+    leakOffPressure?: number; // psi
+    leakOffMudWeight?: number; // ppg
+    shoeTvd?: number; // ft
+};
+
+export type CapacitySection = {
+    label: string; // e.g. "Drill pipe" or "Drill pipe/casing"
+    capacity: number; // bbl/ft
+    length: number; // ft
+};
+
+export type AnnulusSection = CapacitySection & {
+    openHole: boolean; // Counts towards bit-to-shoe strokes
+};
+
+export type KillSheetInputs = KillSheetValues & {
+    drillString: CapacitySection[];
+    annulus: AnnulusSection[];
+};
+
+/**
+ * Whatever is known so far, e.g. from the user's description of a kick. Always oilfield units.
+ */
+export type KillSheetPrefill = Partial<KillSheetValues> & {
+    drillString?: CapacitySection[];
+    annulus?: AnnulusSection[];
+};
+
+export type KillSheetField = {
+    name: keyof KillSheetValues;
+    label: string;
+    unit: string; // Oilfield unit
+    optional?: boolean;
+};
+
+export type KillSheetScheduleLine = {
+    line: number;
+    strokes: number;
+    pressure: number; // Drill pipe pressure, psi
+};
+
+export type KillSheetResult = {
+    drillStringVolume: number; // bbl
+    annularVolume: number; // bbl
+    openHoleVolume: number; // bbl
+    strokesToBit: number;
+    bitToShoeStrokes: number | null; // Null when no annulus section is marked as open hole
+    bitToSurfaceStrokes: number;
+    killMudWeight: number; // ppg, unrounded
+    killMudWeightRounded: number; // ppg, to 0.1 as on the handbook's kill sheet
+    icp: number; // psi
+    fcp: number; // psi
+    psiPerStroke: number;
+    maxAllowableMudWeight: number | null; // ppg, from the leak-off test if given
+    maasp: number | null; // psi, maximum allowable shut-in casing pressure
+    schedule: KillSheetScheduleLine[];
+    warnings: string[];
+    latex: string; // Display-math working for the chat's KaTeX renderer
+    table: { title: string; headers: string[]; rows: (number | null)[][]; units: (string | null)[] };
+    graph: { type: 'line'; title: string; data: { name: string; Pressure: number }[]; options: Record<string, unknown>; units: Record<string, string> };
+    reference: FormulaReference;
+};
+
+// --- Fields ---
+export const KILL_SHEET_FIELDS: KillSheetField[] = [
+    { name: 'originalMudWeight', label: 'Original mud weight (OMW)', unit: 'ppg' },
+    { name: 'md', label: 'Measured depth (MD)', unit: 'ft' },
+    { name: 'tvd', label: 'True vertical depth (TVD)', unit: 'ft' },
+    { name: 'killRatePressure', label: 'Kill rate pressure (KRP)', unit: 'psi' },
+    { name: 'killRate', label: 'Kill rate', unit: 'spm', optional: true },
+    { name: 'pumpOutput', label: 'Pump output', unit: 'bbl/stk' },
+    { name: 'sidpp', label: 'Shut-in drill pipe pressure (SIDPP)', unit: 'psi' },
+    { name: 'sicp', label: 'Shut-in casing pressure (SICP)', unit: 'psi' },
+    { name: 'pitGain', label: 'Pit gain', unit: 'bbl' },
+    { name: 'leakOffPressure', label: 'Leak-off test pressure', unit: 'psi', optional: true },
+    { name: 'leakOffMudWeight', label: 'Leak-off test mud weight', unit: 'ppg', optional: true },
+    { name: 'shoeTvd', label: 'Casing shoe TVD', unit: 'ft', optional: true },
+];
+
+export const CAPACITY_UNIT = 'bbl/ft';
+export const SECTION_LENGTH_UNIT = 'ft';
+export const KILL_SHEET_LINES = 10; // The handbook's pressure chart has ten steps from ICP to FCP
+export const KILL_SHEET_REFERENCE: FormulaReference = { sectionId: 'ch4.1', page: 82 };
+
+// --- Parsing ---
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function parseSections(raw: unknown, path: string, unitSystem: UnitSystem, errors: string[], annulus: boolean): AnnulusSection[] | undefined {
+    if (raw === undefined || raw === null) return undefined;
+    if (!Array.isArray(raw)) {
+        errors.push(`'${path}' must be an array of sections.`);
+        return undefined;
+    }
+    const capacityUnit = unitForSystem(CAPACITY_UNIT, unitSystem);
+    const lengthUnit = unitForSystem(SECTION_LENGTH_UNIT, unitSystem);
+    const sections: AnnulusSection[] = [];
+    raw.forEach((section, i) => {
+        const capacity = isObject(section) ? Number(section.capacity) : NaN;
+        const length = isObject(section) ? Number(section.length) : NaN;
+        if (!isObject(section) || !Number.isFinite(capacity) || !Number.isFinite(length) || capacity < 0 || length < 0) {
+            errors.push(`${path}[${i}] needs a non-negative 'capacity' (${capacityUnit}) and 'length' (${lengthUnit}).`);
+            return;
+        }
+        sections.push({
+            label: typeof section.label === 'string' && section.label.trim() ? section.label.trim() : `Section ${i + 1}`,
+            capacity: convertValue(capacity, capacityUnit, CAPACITY_UNIT),
+            length: convertValue(length, lengthUnit, SECTION_LENGTH_UNIT),
+            openHole: annulus ? section.openHole === true : false,
+        });
+    });
+    return sections;
+}
+
+/**
+ * Reads a partial kill sheet given in `unitSystem` (e.g. tool arguments) and converts it to
+ * oilfield units. Unknown or invalid values are reported in `errors` and left out.
+ */
+export function parseKillSheetPrefill(raw: unknown, unitSystem: UnitSystem): { prefill: KillSheetPrefill; errors: string[] } {
+    const prefill: KillSheetPrefill = {};
+    const errors: string[] = [];
+    if (!isObject(raw)) return { prefill, errors: raw === undefined ? [] : ['Kill sheet data must be an object.'] };
+
+    for (const field of KILL_SHEET_FIELDS) {
+        const value = raw[field.name];
+        if (value === undefined || value === null || value === '') continue;
+        const number = typeof value === 'string' ? Number(value) : value;
+        if (typeof number !== 'number' || !Number.isFinite(number) || number < 0) {
+            errors.push(`'${field.name}' must be a non-negative number.`);
+            continue;
+        }
+        prefill[field.name] = convertValue(number, unitForSystem(field.unit, unitSystem), field.unit);
+    }
+
+    const drillString = parseSections(raw.drillString, 'drillString', unitSystem, errors, false);
+    if (drillString) prefill.drillString = drillString.map(({ label, capacity, length }) => ({ label, capacity, length }));
+    const annulus = parseSections(raw.annulus, 'annulus', unitSystem, errors, true);
+    if (annulus) prefill.annulus = annulus;
+
+    const known = new Set<string>([...KILL_SHEET_FIELDS.map(field => field.name), 'drillString', 'annulus']);
+    const unknown = Object.keys(raw).filter(key => !known.has(key));
+    if (unknown.length > 0) errors.push(`Unknown kill sheet field(s): ${unknown.join(', ')}.`);
+
+    return { prefill, errors };
+}
+
+/**
+ * Labels of the required values a prefill is still missing.
+ */
+export function getMissingKillSheetFields(prefill: KillSheetPrefill): string[] {
+    const missing = KILL_SHEET_FIELDS.filter(field => !field.optional && prefill[field.name] === undefined).map(field => field.label);
+    if (!prefill.drillString || prefill.drillString.length === 0) missing.push('Drill string capacities and lengths');
+    if (!prefill.annulus || prefill.annulus.length === 0) missing.push('Annulus capacities and lengths');
+    return missing;
+}
+
+export const isCompleteKillSheet = (prefill: KillSheetPrefill): prefill is KillSheetInputs => getMissingKillSheetFields(prefill).length === 0;
+
+// --- Calculation ---
+const sumVolume = (sections: CapacitySection[]): number => sections.reduce((sum, section) => sum + section.capacity * section.length, 0);
+const sumLength = (sections: CapacitySection[]): number => sections.reduce((sum, section) => sum + section.length, 0);
+
+/**
+ * Computes the kill sheet. Rounds the way the handbook's example does: KWM to 0.1 ppg,
+ * pressures and strokes to whole numbers. Throws if the inputs make a result undefined.
+ */
+export function computeKillSheet(inputs: KillSheetInputs): KillSheetResult {
+    const { originalMudWeight: omw, tvd, sidpp, killRatePressure: krp, pumpOutput } = inputs;
+    if (!(omw > 0)) throw new Error('Original mud weight must be greater than 0 ppg.');
+    if (!(tvd > 0)) throw new Error('True vertical depth must be greater than 0 ft.');
+    if (!(pumpOutput > 0)) throw new Error('Pump output must be greater than 0 bbl/stk.');
+
+    const drillStringVolume = sumVolume(inputs.drillString);
+    const annularVolume = sumVolume(inputs.annulus);
+    const openHoleSections = inputs.annulus.filter(section => section.openHole);
+    const openHoleVolume = sumVolume(openHoleSections);
+    if (!(drillStringVolume > 0)) throw new Error('Drill string volume must be greater than 0 bbl.');
+
+    const strokesToBit = Math.round(drillStringVolume / pumpOutput);
+    const bitToShoeStrokes = openHoleSections.length > 0 ? Math.round(openHoleVolume / pumpOutput) : null;
+    const bitToSurfaceStrokes = Math.round(annularVolume / pumpOutput);
+
+    // KWM = SIDPP ÷ 0.052 ÷ TVD + OMW; ICP = SIDPP + KRP; FCP = KWM × KRP ÷ OMW
+    const killMudWeight = sidpp / 0.052 / tvd + omw;
+    const killMudWeightRounded = Math.round(killMudWeight * 10) / 10;
+    const icp = Math.round(sidpp + krp);
+    const fcp = Math.round(killMudWeightRounded * krp / omw);
+    const psiPerStroke = (icp - fcp) / strokesToBit;
+
+    // Maximum allowable shut-in casing pressure from the leak-off test, if recorded
+    let maxAllowableMudWeight: number | null = null;
+    let maasp: number | null = null;
+    if (inputs.leakOffPressure !== undefined && inputs.leakOffMudWeight !== undefined && inputs.shoeTvd && inputs.shoeTvd > 0) {
+        maxAllowableMudWeight = inputs.leakOffPressure / 0.052 / inputs.shoeTvd + inputs.leakOffMudWeight;
+        maasp = Math.round((maxAllowableMudWeight - omw) * 0.052 * inputs.shoeTvd);
+    }
+
+    const schedule: KillSheetScheduleLine[] = [];
+    for (let line = 0; line <= KILL_SHEET_LINES; line++) {
+        schedule.push({
+            line,
+            strokes: Math.round(strokesToBit * line / KILL_SHEET_LINES),
+            pressure: Math.round(icp - (icp - fcp) * line / KILL_SHEET_LINES),
+        });
+    }
+
+    const warnings: string[] = [];
+    const checkLength = (sections: CapacitySection[], name: string) => {
+        const length = sumLength(sections);
+        if (inputs.md > 0 && Math.abs(length - inputs.md) > inputs.md * 0.01) {
+            warnings.push(`${name} sections total ${formatNumber(length)} ft but measured depth is ${formatNumber(inputs.md)} ft.`);
+        }
+    };
+    checkLength(inputs.drillString, 'Drill string');
+    checkLength(inputs.annulus, 'Annulus');
+    if (tvd > inputs.md) warnings.push('True vertical depth is greater than measured depth.');
+    if (maasp !== null && inputs.sicp > maasp) {
+        warnings.push(`SICP (${formatNumber(inputs.sicp)} psi) exceeds the maximum allowable shut-in casing pressure (${formatNumber(maasp)} psi).`);
+    }
+
+    const withUnit = (value: number, unit: string) => `${formatNumber(value)}\\ ${unitToLatex(unit)}`;
+    const steps = [
+        `KWM &= SIDPP \\div 0.052 \\div TVD + OMW = ${formatNumber(sidpp)} \\div 0.052 \\div ${formatNumber(tvd)} + ${formatNumber(omw)} = ${formatNumber(killMudWeight)} \\approx ${withUnit(killMudWeightRounded, 'ppg')}`,
+        `ICP &= SIDPP + KRP = ${formatNumber(sidpp)} + ${formatNumber(krp)} = ${withUnit(icp, 'psi')}`,
+        `FCP &= KWM \\times KRP \\div OMW = ${formatNumber(killMudWeightRounded)} \\times ${formatNumber(krp)} \\div ${formatNumber(omw)} = ${withUnit(fcp, 'psi')}`,
+        `STB &= V_{ds} \\div PO = ${formatNumber(drillStringVolume)} \\div ${formatNumber(pumpOutput)} = ${withUnit(strokesToBit, 'stk')}`,
+        `\\text{psi/stk} &= (ICP - FCP) \\div STB = (${icp} - ${fcp}) \\div ${strokesToBit} = ${formatNumber(psiPerStroke)}`,
+    ];
+
+    return {
+        drillStringVolume,
+        annularVolume,
+        openHoleVolume,
+        strokesToBit,
+        bitToShoeStrokes,
+        bitToSurfaceStrokes,
+        killMudWeight,
+        killMudWeightRounded,
+        icp,
+        fcp,
+        psiPerStroke,
+        maxAllowableMudWeight,
+        maasp,
+        schedule,
+        warnings,
+        latex: `$$\n\\begin{aligned}\n${steps.join(' \\\\\n')}\n\\end{aligned}\n$$`,
+        table: {
+            title: 'Kill Sheet Pressure Chart',
+            headers: ['Line', 'Strokes', 'Drill pipe pressure'],
+            rows: schedule.map(line => [line.line, line.strokes, line.pressure]),
+            units: [null, 'stk', 'psi'],
+        },
+        graph: {
+            type: 'line',
+            title: 'Drill Pipe Pressure Step-Down',
+            data: schedule.map(line => ({ name: String(line.strokes), Pressure: line.pressure })),
+            options: { labels: { Pressure: 'Drill pipe pressure (psi)' }, xAxisLabel: 'Strokes', connectNulls: true },
+            units: { Pressure: 'psi' },
+        },
+        reference: KILL_SHEET_REFERENCE,
+    };
+}
+
+/**
+ * The handbook's worked example (Chapter 4, "Normal Kill Sheet"), used as the blank sheet's placeholders.
+ */
+export const KILL_SHEET_EXAMPLE: KillSheetInputs = {
+    originalMudWeight: 9.6,
+    md: 10525,
+    tvd: 10000,
+    killRatePressure: 1000,
+    killRate: 50,
+    pumpOutput: 0.136,
+    sidpp: 480,
+    sicp: 600,
+    pitGain: 35,
+    leakOffPressure: 1130,
+    leakOffMudWeight: 9.0,
+    shoeTvd: 4000,
+    drillString: [
+        { label: 'Drill pipe', capacity: 0.01776, length: 9925 },
+        { label: 'HWDP', capacity: 0.00883, length: 240 },
+        { label: 'Drill collars', capacity: 0.0087, length: 360 },
+    ],
+    annulus: [
+        { label: 'Drill collar/open hole', capacity: 0.0836, length: 360, openHole: true },
+        { label: 'Drill pipe/open hole', capacity: 0.1215, length: 6165, openHole: true },
+        { label: 'Drill pipe/casing', capacity: 0.1303, length: 4000, openHole: false },
+    ],
+};
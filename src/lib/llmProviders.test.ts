@@ -0,0 +1,23 @@
+// src/lib/llmProviders.test.ts
+import { describe, expect, it } from 'vitest';
+import { CompletionOutcome, isToolsUnsupportedError } from './llmProviders';
+
+const failure = (status: number, details: string, code?: number): CompletionOutcome =>
+    ({ ok: false, status, error: 'API Request Failed', details, code });
+
+describe('isToolsUnsupportedError', () => {
+    it.each([
+        ['OpenRouter', failure(404, 'No endpoints found that support tool use. Try disabling "calculate".', 404)],
+        ['vLLM', failure(400, '"auto" tool choice requires --enable-auto-tool-choice and --tool-call-parser to be set', 400)],
+        ['Ollama', failure(400, 'registry.ollama.ai/library/gemma:2b does not support tools')],
+    ])('recognises the %s error', (_, outcome) => {
+        expect(isToolsUnsupportedError(outcome)).toBe(true);
+    });
+
+    it('ignores other errors that mention tools', () => {
+        expect(isToolsUnsupportedError(failure(429, 'Rate limit exceeded for tool use', 429))).toBe(false);
+        expect(isToolsUnsupportedError(failure(400, 'Invalid tool_call_id: call_1', 400))).toBe(false);
+        expect(isToolsUnsupportedError(failure(502, 'Upstream error'))).toBe(false);
+        expect(isToolsUnsupportedError({ ok: true, responseData: {} })).toBe(false);
+    });
+});
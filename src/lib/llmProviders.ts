@@ -0,0 +1,453 @@
+// src/lib/llmProviders.ts
+// Chat completion backends behind one interface, chosen by environment configuration:
+// OpenRouter, any OpenAI-compatible server (e.g. llama.cpp or Ollama on the rig network) and a
+// deterministic mock for offline development.
+import type { ToolCall } from './calcTools';
+import { SSE_CONTENT_TYPE, readServerSentEvents } from './chatStream';
+
+// --- Types ---
+export type LlmProviderId = 'openrouter' | 'openai-compatible' | 'mock';
+
+export const LLM_PROVIDER_IDS: LlmProviderId[] = ['openrouter', 'openai-compatible', 'mock'];
+
+// How the answer envelope is requested: a JSON schema, plain JSON mode, or not at all (data markers in text)
+export type StructuredOutputMode = 'json_schema' | 'json_object' | 'off';
+
+export const STRUCTURED_OUTPUT_MODES: StructuredOutputMode[] = ['json_schema', 'json_object', 'off'];
+
+export type LlmConfig = {
+    provider: LlmProviderId;
+    baseUrl: string; // Without the trailing /chat/completions, e.g. "http://10.0.0.5:11434/v1"
+    apiKey?: string;
+    defaultModel: string;
+    models: string[]; // Models the UI may choose from; always includes the default
+    maxTokens: number;
+    contextTokens: number; // Context window of the models; the history is compacted to fit
+    temperature?: number; // Left to the server's default when unset
+    fallbackModels: string[]; // Tried in order when the chosen model is rate-limited or down
+    timeoutMs: number; // An attempt is abandoned after this long without a response (or new streamed text)
+    maxRetries: number; // Retries of the same model before falling back to the next
+    retryBaseDelayMs: number; // Backoff before retry n is base * 2^n, capped at retryMaxDelayMs
+    retryMaxDelayMs: number; // A longer Retry-After moves on to the next model instead of waiting
+    circuitBreakerThreshold: number; // Consecutive failures that take a model out of rotation
+    circuitBreakerCooldownMs: number; // How long it stays out before one trial request
+    structuredOutput: StructuredOutputMode;
+};
+
+export type ProviderMessage = {
+    role: string;
+    content: string | null;
+    tool_calls?: ToolCall[];
+    tool_call_id?: string;
+};
+
+export type CompletionRequest = {
+    model: string;
+    messages: ProviderMessage[];
+    tools?: unknown[];
+    tool_choice?: 'auto' | 'none';
+    response_format?: { type: 'json_object' } | { type: 'json_schema'; json_schema: { name: string; strict?: boolean; schema: Record<string, unknown> } };
+};
+
+export type CompletionResponse = {
+    choices?: { message?: ProviderMessage; finish_reason?: string }[];
+    error?: { code?: number; type?: string; message?: string };
+    [key: string]: unknown;
+};
+
+// Failures carry the HTTP status and body fields the route responds with
+export type CompletionOutcome =
+    | { ok: true; responseData: CompletionResponse }
+    | { ok: false; status: number; error: string; details: string; code?: number; retryAfterMs?: number };
+
+export type CompletionOptions = {
+    signal?: AbortSignal; // Aborts the upstream request, e.g. when the user presses Stop
+    onDelta?: (content: string) => void; // Requests a streamed completion and receives its text as it arrives
+};
+
+export type LlmProvider = {
+    id: LlmProviderId;
+    complete(request: CompletionRequest, options?: CompletionOptions): Promise<CompletionOutcome>;
+};
+
+// One chunk of a streamed completion (OpenAI-compatible)
+type CompletionChunk = {
+    id?: string;
+    model?: string;
+    choices?: {
+        delta?: { content?: string | null; tool_calls?: { index: number; id?: string; type?: 'function'; function?: { name?: string; arguments?: string } }[] };
+        finish_reason?: string | null;
+    }[];
+    error?: CompletionResponse['error'];
+};
+
+// --- Configuration ---
+const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+const OPENROUTER_DEFAULT_MODEL = 'nvidia/llama-3.1-nemotron-70b-instruct:free';
+const MOCK_MODEL = 'mock';
+const DEFAULT_MAX_TOKENS = 4096;
+const DEFAULT_CONTEXT_TOKENS = 16384;
+
+const isProviderId = (value: unknown): value is LlmProviderId => LLM_PROVIDER_IDS.includes(value as LlmProviderId);
+
+const parseList = (value: string | undefined): string[] => (value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+
+// Reads a non-negative (or, with min 1, positive) integer setting
+function parseIntegerSetting(env: Record<string, string | undefined>, name: string, defaultValue: number, min = 0): number {
+    const raw = env[name]?.trim();
+    if (!raw) return defaultValue;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < min) {
+        throw new Error(`Server configuration error: ${name} must be an integer of at least ${min}, not '${raw}'.`);
+    }
+    return value;
+}
+
+/**
+ * Reads the provider configuration from the environment:
+ * LLM_PROVIDER (openrouter | openai-compatible | mock, default openrouter), LLM_BASE_URL,
+ * LLM_API_KEY (OPENROUTER_API_KEY for OpenRouter), LLM_MODEL, LLM_MODELS (comma-separated
+ * allowlist), LLM_MAX_TOKENS, LLM_CONTEXT_TOKENS, LLM_TEMPERATURE, LLM_FALLBACK_MODELS, LLM_TIMEOUT_MS,
+ * LLM_MAX_RETRIES, LLM_RETRY_BASE_DELAY_MS, LLM_RETRY_MAX_DELAY_MS,
+ * LLM_CIRCUIT_BREAKER_THRESHOLD, LLM_CIRCUIT_BREAKER_COOLDOWN_MS and LLM_STRUCTURED_OUTPUT
+ * (json_schema | json_object | off; off by default except for the mock).
+ * Throws on an unusable configuration.
+ */
+export function getLlmConfig(env: Record<string, string | undefined> = process.env): LlmConfig {
+    const provider = env.LLM_PROVIDER?.trim() || 'openrouter';
+    if (!isProviderId(provider)) {
+        throw new Error(`Server configuration error: LLM_PROVIDER must be one of ${LLM_PROVIDER_IDS.join(', ')}, not '${provider}'.`);
+    }
+
+    const listed = parseList(env.LLM_MODELS);
+    const fallbackModel = provider === 'openrouter' ? OPENROUTER_DEFAULT_MODEL : provider === 'mock' ? MOCK_MODEL : undefined;
+    const defaultModel = env.LLM_MODEL?.trim() || listed[0] || fallbackModel;
+    if (!defaultModel) {
+        throw new Error('Server configuration error: LLM_MODEL (or LLM_MODELS) must name the model served at LLM_BASE_URL.');
+    }
+
+    let baseUrl = env.LLM_BASE_URL?.trim() || (provider === 'openrouter' ? OPENROUTER_BASE_URL : '');
+    if (provider === 'openai-compatible' && !baseUrl) {
+        throw new Error('Server configuration error: LLM_BASE_URL is required for the openai-compatible provider, e.g. http://localhost:11434/v1.');
+    }
+    baseUrl = baseUrl.replace(/\/+$/, '').replace(/\/chat\/completions$/, '');
+
+    const apiKey = (provider === 'openrouter' ? env.OPENROUTER_API_KEY || env.LLM_API_KEY : env.LLM_API_KEY)?.trim() || undefined;
+    if (provider === 'openrouter' && !apiKey) {
+        throw new Error('Server configuration error: API Key is missing (set OPENROUTER_API_KEY).');
+    }
+
+    const maxTokens = parseIntegerSetting(env, 'LLM_MAX_TOKENS', DEFAULT_MAX_TOKENS, 1);
+    const contextTokens = parseIntegerSetting(env, 'LLM_CONTEXT_TOKENS', DEFAULT_CONTEXT_TOKENS, 1);
+    if (contextTokens <= maxTokens) {
+        throw new Error(`Server configuration error: LLM_CONTEXT_TOKENS (${contextTokens}) must be larger than LLM_MAX_TOKENS (${maxTokens}).`);
+    }
+    const structuredOutput = env.LLM_STRUCTURED_OUTPUT?.trim() || (provider === 'mock' ? 'json_schema' : 'off');
+    if (!STRUCTURED_OUTPUT_MODES.includes(structuredOutput as StructuredOutputMode)) {
+        throw new Error(`Server configuration error: LLM_STRUCTURED_OUTPUT must be one of ${STRUCTURED_OUTPUT_MODES.join(', ')}, not '${structuredOutput}'.`);
+    }
+    const temperature = env.LLM_TEMPERATURE ? parseFloat(env.LLM_TEMPERATURE) : undefined;
+    if (temperature !== undefined && !(temperature >= 0 && temperature <= 2)) {
+        throw new Error(`Server configuration error: LLM_TEMPERATURE must be between 0 and 2, not '${env.LLM_TEMPERATURE}'.`);
+    }
+
+    return {
+        provider,
+        baseUrl,
+        apiKey,
+        defaultModel,
+        models: [defaultModel, ...listed.filter(model => model !== defaultModel)],
+        maxTokens,
+        contextTokens,
+        temperature,
+        fallbackModels: parseList(env.LLM_FALLBACK_MODELS).filter(model => model !== defaultModel),
+        timeoutMs: parseIntegerSetting(env, 'LLM_TIMEOUT_MS', 60_000, 1),
+        maxRetries: parseIntegerSetting(env, 'LLM_MAX_RETRIES', 2),
+        retryBaseDelayMs: parseIntegerSetting(env, 'LLM_RETRY_BASE_DELAY_MS', 1_000),
+        retryMaxDelayMs: parseIntegerSetting(env, 'LLM_RETRY_MAX_DELAY_MS', 20_000),
+        circuitBreakerThreshold: parseIntegerSetting(env, 'LLM_CIRCUIT_BREAKER_THRESHOLD', 3, 1),
+        circuitBreakerCooldownMs: parseIntegerSetting(env, 'LLM_CIRCUIT_BREAKER_COOLDOWN_MS', 60_000),
+        structuredOutput: structuredOutput as StructuredOutputMode,
+    };
+}
+
+/**
+ * Returns the requested model if the configuration allows it, the default model if none was
+ * requested, or null for a model that is not allowed.
+ */
+export function resolveModel(config: LlmConfig, requested: unknown): string | null {
+    if (requested === undefined || requested === null || requested === '') return config.defaultModel;
+    return typeof requested === 'string' && config.models.includes(requested) ? requested : null;
+}
+
+// --- OpenAI-compatible HTTP Provider (OpenRouter, llama.cpp, Ollama, vLLM, ...) ---
+
+/**
+ * Reads a Retry-After header (delay in seconds, or an HTTP date) as milliseconds.
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+    const text = value?.trim();
+    if (!text) return undefined;
+    if (/^\d+(?:\.\d+)?$/.test(text)) return Math.round(parseFloat(text) * 1000);
+    const date = Date.parse(text);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Maps an error object from the provider (in a JSON body or a stream chunk) to a failed outcome.
+ */
+function providerErrorOutcome(error: NonNullable<CompletionResponse['error']>, retryAfterMs?: number): CompletionOutcome {
+    console.error('LLM provider returned an error in the response body:', error);
+    let statusCode = 502;
+    const errorCode = error.code;
+    const errorType = error.type;
+    if (errorCode === 400 || errorType === 'invalid_request_error') statusCode = 400;
+    else if (errorCode === 401 || errorType === 'authentication_error') statusCode = 401;
+    else if (errorCode === 402 || errorType === 'billing_error') statusCode = 402;
+    else if (errorCode === 429 || errorType === 'rate_limit_error') statusCode = 429;
+    else if ((errorCode !== undefined && errorCode >= 500) || errorType === 'api_error') statusCode = 502;
+    return { ok: false, status: statusCode, error: 'API Request Failed', details: error.message || 'Unknown error from API provider.', code: errorCode, retryAfterMs };
+}
+
+/**
+ * Whether a failure is the provider refusing tool calling for the model: OpenRouter's 404 "No
+ * endpoints found that support tool use", or the 400 an OpenAI-compatible server (vLLM, Ollama)
+ * gives a model or server without tool support. Other errors that mention a tool do not count.
+ */
+export function isToolsUnsupportedError(outcome: CompletionOutcome): boolean {
+    if (outcome.ok) return false;
+    if (outcome.code === 404) return /support tool use/i.test(outcome.details);
+    if (outcome.code === 400 || outcome.status === 400) {
+        return /does not support tools|tools? (?:use |calling )?(?:is |are )?not supported|"auto" tool choice requires/i.test(outcome.details);
+    }
+    return false;
+}
+
+/**
+ * Reads a streamed completion, passing text to `onDelta` and assembling the same response
+ * shape as a non-streamed completion (including tool calls sent in fragments).
+ */
+async function readCompletionStream(body: ReadableStream<Uint8Array>, onDelta: (content: string) => void): Promise<CompletionOutcome> {
+    let content = '';
+    let finishReason: string | undefined;
+    let meta: { id?: string; model?: string } = {};
+    const toolCalls: ToolCall[] = [];
+
+    for await (const data of readServerSentEvents(body)) {
+        if (data === '[DONE]') break;
+        let chunk: CompletionChunk;
+        try {
+            chunk = JSON.parse(data);
+        } catch {
+            console.warn('Skipping malformed stream chunk from the LLM provider:', data);
+            continue;
+        }
+        if (chunk.error) return providerErrorOutcome(chunk.error);
+        meta = { id: chunk.id ?? meta.id, model: chunk.model ?? meta.model };
+
+        const choice = chunk.choices?.[0];
+        if (choice?.delta?.content) {
+            content += choice.delta.content;
+            onDelta(choice.delta.content);
+        }
+        for (const fragment of choice?.delta?.tool_calls ?? []) {
+            const call = toolCalls[fragment.index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+            if (fragment.id) call.id = fragment.id;
+            if (fragment.function?.name) call.function.name += fragment.function.name;
+            if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+        }
+        if (choice?.finish_reason) finishReason = choice.finish_reason;
+    }
+
+    const calls = toolCalls.filter(Boolean);
+    const message: ProviderMessage = { role: 'assistant', content, ...(calls.length > 0 ? { tool_calls: calls } : {}) };
+    return { ok: true, responseData: { ...meta, choices: [{ message, finish_reason: finishReason }] } };
+}
+
+/**
+ * Sends chat completions to `{baseUrl}/chat/completions`. Upstream failures are returned as
+ * failed outcomes instead of thrown, so the tool loop can decide whether to retry.
+ * With `onDelta` the completion is streamed; error responses still arrive as JSON.
+ */
+function createOpenAiCompatibleProvider(config: LlmConfig, extraHeaders: Record<string, string> = {}): LlmProvider {
+    const url = `${config.baseUrl}/chat/completions`;
+    const name = config.provider === 'openrouter' ? 'OpenRouter' : `LLM server at ${config.baseUrl}`;
+
+    return {
+        id: config.provider,
+        async complete(request, { signal, onDelta } = {}) {
+            const body = {
+                ...request,
+                max_tokens: config.maxTokens,
+                ...(config.temperature !== undefined ? { temperature: config.temperature } : {}),
+                ...(onDelta ? { stream: true } : {}),
+            };
+            const response = await fetch(url, {
+                method: 'POST',
+                headers: {
+                    ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+                    ...extraHeaders,
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify(body),
+                signal,
+            });
+            console.log(`${name} response status: ${response.status}`);
+
+            // Robust Response Handling
+            let responseData: CompletionResponse;
+            const contentType = response.headers.get("content-type");
+            const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+
+            if (onDelta && response.ok && response.body && contentType?.includes(SSE_CONTENT_TYPE)) {
+                return readCompletionStream(response.body, onDelta);
+            }
+
+            if (!contentType || !contentType.includes("application/json")) {
+                const responseText = await response.text().catch(() => '[Could not read response text]');
+                console.error(`${name} returned non-JSON response. Status: ${response.status}. Content-Type: ${contentType}. Body: ${responseText}`);
+                const status = response.ok || response.status >= 500 ? 502 : response.status;
+                return { ok: false, status, error: 'API Error', details: `Upstream API returned unexpected content type '${contentType}'. Status: ${response.status}.`, retryAfterMs };
+            }
+
+            try {
+                responseData = await response.json();
+            } catch (e) {
+                console.error(`Failed to parse ${name} response JSON:`, e);
+                return { ok: false, status: 502, error: 'API Error', details: `Upstream API returned invalid JSON. Status: ${response.status}.` };
+            }
+
+            // Handle the provider's structured errors
+            if (responseData && responseData.error) {
+                return providerErrorOutcome(responseData.error, retryAfterMs);
+            }
+
+            // Handle general non-OK HTTP responses
+            if (!response.ok) {
+                console.error(`${name} HTTP error: ${response.status} ${response.statusText}. Body: ${JSON.stringify(responseData)}`);
+                return {
+                    ok: false,
+                    status: response.status >= 500 ? 502 : response.status,
+                    error: 'API Communication Error',
+                    details: `Upstream API request failed with status ${response.status}. ${response.statusText}`,
+                    retryAfterMs,
+                };
+            }
+
+            return { ok: true, responseData };
+        },
+    };
+}
+
+// --- Mock Provider ---
+
+// Model names the mock always fails with, to exercise retries and fallbacks offline
+const MOCK_FAILURES: Record<string, CompletionOutcome> = {
+    'mock-rate-limited': { ok: false, status: 429, error: 'API Request Failed', details: 'Mock rate limit.', code: 429, retryAfterMs: 1000 },
+    'mock-unavailable': { ok: false, status: 502, error: 'API Request Failed', details: 'Mock model is down.', code: 503 },
+};
+
+/**
+ * Answers without a model: the same conversation always gets the same reply. Asking for a
+ * table and/or a graph returns sample data blocks, so the whole UI can be exercised offline;
+ * "window" adds a depth chart with a drilling window and casing shoes, "malformed" adds a chart block that fails validation, to exercise the repair request. Any
+ * requested response_format gets an answer envelope.
+ * The models in MOCK_FAILURES always fail.
+ */
+function createMockProvider(config: LlmConfig): LlmProvider {
+    return {
+        id: 'mock',
+        async complete(request, { signal, onDelta } = {}) {
+            signal?.throwIfAborted();
+            if (MOCK_FAILURES[request.model]) return MOCK_FAILURES[request.model];
+            const question = [...request.messages].reverse().find(message => message.role === 'user')?.content ?? '';
+            const cites = request.messages.some(message => message.role === 'system' && message.content?.includes('[S1]'));
+
+            const text = [
+                `This is a mock response from model \`${request.model}\`; no language model was called.`,
+                `You asked: "${question.length > 200 ? `${question.slice(0, 200)}…` : question}"`,
+                `Hydrostatic pressure for $12 \\text{ ppg}$ mud at $10{,}000 \\text{ ft}$ TVD: $$0.052 \\times 12 \\times 10000 = 6240 \\text{ psi}$$${cites ? ' [S1]' : ''}`,
+            ];
+            const blocks: { kind: 'graph' | 'table'; data: Record<string, unknown> }[] = [];
+            if (/\btable\b/i.test(question)) {
+                blocks.push({ kind: 'table', data: {
+                    title: 'Hydrostatic Pressure (mock)',
+                    headers: ['TVD', 'Pressure'],
+                    units: ['ft', 'psi'],
+                    rows: [[5000, 3120], [10000, 6240], [15000, 9360]],
+                } });
+            }
+            if (/\b(graph|chart|plot)\b/i.test(question)) {
+                blocks.push({ kind: 'graph', data: {
+                    type: 'line',
+                    title: 'Hydrostatic Pressure (mock)',
+                    data: [{ name: '5000', Pressure: 3120 }, { name: '10000', Pressure: 6240 }, { name: '15000', Pressure: 9360 }],
+                    units: { Pressure: 'psi' },
+                    options: { xAxis: { name: 'TVD (ft)' }, yAxis: { name: 'Pressure (psi)' } },
+                } });
+            }
+            if (/\bwindow\b/i.test(question)) {
+                blocks.push({ kind: 'graph', data: {
+                    type: 'depth',
+                    title: 'Drilling Window (mock)',
+                    data: [
+                        { depth: 0, Pore_Pressure: 8.6, Mud_Weight: 9.2, Fracture_Gradient: 11.8 },
+                        { depth: 5000, Pore_Pressure: 9.1, Mud_Weight: 9.8, Fracture_Gradient: 13.2 },
+                        { depth: 10000, Pore_Pressure: 11.4, Mud_Weight: 12.0, Fracture_Gradient: 14.6 },
+                    ],
+                    units: { depth: 'ft', Pore_Pressure: 'ppg', Mud_Weight: 'ppg', Fracture_Gradient: 'ppg' },
+                    options: {
+                        windows: [{ lower: 'Pore_Pressure', upper: 'Fracture_Gradient', label: 'Drilling window' }],
+                        casingShoes: [{ depth: 4500, label: '13 3/8 in shoe' }, { depth: 9000, label: '9 5/8 in shoe' }],
+                    },
+                } });
+            }
+            if (/\bmalformed\b/i.test(question)) {
+                blocks.push({ kind: 'graph', data: {
+                    type: 'pie',
+                    title: 'Pressure Losses (mock, invalid)',
+                    data: [{ name: 'Drill string', value: 1450 }, { name: 'Bit', value: 'n/a' }, { name: 'Annulus' }],
+                } });
+            }
+            // An envelope when one was requested, otherwise text with data markers
+            const content = request.response_format
+                ? JSON.stringify({ parts: [{ type: 'markdown', text: text.join('\n\n') }, ...blocks.map(block => ({ type: block.kind, [block.kind]: block.data }))] })
+                : [...text, ...blocks.map(block => `<!--${block.kind === 'graph' ? 'GRAPH' : 'TABLE'}_DATA:${JSON.stringify(block.data)}-->`)].join('\n\n');
+
+            if (onDelta) {
+                for (const piece of content.match(/\S+\s*/g) ?? []) {
+                    signal?.throwIfAborted();
+                    onDelta(piece);
+                }
+            }
+            return {
+                ok: true,
+                responseData: {
+                    id: 'mock-completion',
+                    model: request.model,
+                    provider: config.provider,
+                    choices: [{ message: { role: 'assistant', content }, finish_reason: 'stop' }],
+                },
+            };
+        },
+    };
+}
+
+// --- Factory ---
+
+/**
+ * Creates the provider the configuration selects.
+ */
+export function createLlmProvider(config: LlmConfig): LlmProvider {
+    switch (config.provider) {
+        case 'openrouter':
+            return createOpenAiCompatibleProvider(config, {
+                'HTTP-Referer': process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000',
+                'X-Title': process.env.NEXT_PUBLIC_SITE_NAME || 'Drilling Assistant',
+            });
+        case 'openai-compatible':
+            return createOpenAiCompatibleProvider(config);
+        case 'mock':
+            return createMockProvider(config);
+    }
+}
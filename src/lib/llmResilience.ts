@@ -0,0 +1,198 @@
+// src/lib/llmResilience.ts
+// Keeps a chat completion going when the upstream model is slow, rate-limited or down:
+// per-attempt timeouts, exponential backoff that honours Retry-After, an ordered chain of
+// fallback models and a circuit breaker that skips a model that keeps failing.
+import type { LlmConfig, LlmProvider, CompletionRequest, CompletionOptions, CompletionOutcome } from './llmProviders';
+
+// --- Types ---
+export type CompletionAttempt = {
+    model: string;
+    ok: boolean;
+    status?: number; // HTTP status of a failed attempt (504 for a timeout)
+    details?: string;
+    durationMs: number;
+};
+
+// The outcome of the last attempt, with the model that produced it and every attempt made
+export type ResilientOutcome = CompletionOutcome & { model: string; attempts: CompletionAttempt[] };
+
+// Sent before waiting to retry the same model, or before moving on to the next one
+export type RetryNotice = {
+    failedModel: string;
+    nextModel: string;
+    delayMs: number;
+    reason: string;
+    streamed: boolean; // The failed attempt had already streamed text, which is now void
+};
+
+export type ResilientCompletionOptions = CompletionOptions & {
+    onRetry?: (notice: RetryNotice) => void;
+};
+
+// Rate limits, timeouts and server errors are worth another try; other 4xx are not
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+export const isRetryableStatus = (status: number): boolean => RETRYABLE_STATUSES.has(status);
+
+// --- Circuit Breaker ---
+// Per provider, server and model, for the lifetime of the server process
+type CircuitState = { failures: number; openUntil: number };
+const circuits = new Map<string, CircuitState>();
+
+const circuitKey = (config: LlmConfig, model: string): string => `${config.provider}|${config.baseUrl}|${model}`;
+
+/**
+ * True while a model is out of rotation. Once the cooldown has passed one request is let
+ * through: success closes the circuit, another failure opens it again.
+ */
+export function isCircuitOpen(config: LlmConfig, model: string, now = Date.now()): boolean {
+    const state = circuits.get(circuitKey(config, model));
+    return state !== undefined && state.openUntil > now;
+}
+
+function recordFailure(config: LlmConfig, model: string, now = Date.now()): void {
+    const key = circuitKey(config, model);
+    const state = circuits.get(key) ?? { failures: 0, openUntil: 0 };
+    state.failures++;
+    if (state.failures >= config.circuitBreakerThreshold) {
+        state.openUntil = now + config.circuitBreakerCooldownMs;
+        console.warn(`Circuit open for ${model} after ${state.failures} consecutive failures; skipping it for ${config.circuitBreakerCooldownMs / 1000} s.`);
+    }
+    circuits.set(key, state);
+}
+
+function recordSuccess(config: LlmConfig, model: string): void {
+    circuits.delete(circuitKey(config, model));
+}
+
+// --- Attempts ---
+
+// Resolves after `ms`, or rejects as soon as the signal aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Runs one request with the configured timeout, which restarts whenever streamed text arrives.
+ * Timeouts and network errors become failed outcomes; a user abort is rethrown.
+ */
+async function attemptCompletion(provider: LlmProvider, config: LlmConfig, request: CompletionRequest, { signal, onDelta }: CompletionOptions): Promise<{ outcome: CompletionOutcome; streamed: boolean }> {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (signal?.aborted) controller.abort();
+    signal?.addEventListener('abort', abort);
+
+    let timedOut = false;
+    let streamed = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const armTimer = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, config.timeoutMs);
+    };
+    armTimer();
+
+    try {
+        const outcome = await provider.complete(request, {
+            signal: controller.signal,
+            onDelta: onDelta ? content => {
+                streamed = true;
+                armTimer();
+                onDelta(content);
+            } : undefined,
+        });
+        return { outcome, streamed };
+    } catch (error) {
+        if (signal?.aborted) throw error; // Stopped by the user
+        if (timedOut) {
+            return { outcome: { ok: false, status: 504, error: 'Upstream Timeout', details: `${request.model} did not respond within ${config.timeoutMs / 1000} s.` }, streamed };
+        }
+        console.error(`Request to ${request.model} failed:`, error);
+        const message = error instanceof Error ? error.message : String(error);
+        return { outcome: { ok: false, status: 502, error: 'API Communication Error', details: `Could not reach ${request.model}: ${message}` }, streamed };
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', abort);
+    }
+}
+
+/**
+ * Requests a completion from the first model in `models` that answers. Each model gets up to
+ * `maxRetries` retries for rate limits, timeouts and server errors, with exponential backoff
+ * or the delay its Retry-After asks for; models whose circuit is open are skipped. Other
+ * failures (e.g. a 400 for unsupported tools) are returned at once for the caller to handle.
+ */
+export async function completeWithFallback(
+    provider: LlmProvider,
+    config: LlmConfig,
+    models: string[],
+    request: Omit<CompletionRequest, 'model'>,
+    options: ResilientCompletionOptions = {},
+): Promise<ResilientOutcome> {
+    const { onRetry, ...completionOptions } = options;
+    const attempts: CompletionAttempt[] = [];
+    const available = models.filter(model => !isCircuitOpen(config, model));
+    if (available.length === 0) {
+        const now = Date.now();
+        const reopensInMs = Math.min(...models.map(model => (circuits.get(circuitKey(config, model))?.openUntil ?? now) - now));
+        const details = `All configured models are failing and temporarily out of rotation (${models.join(', ')}). Try again in ${Math.ceil(reopensInMs / 1000)} s.`;
+        console.error(details);
+        return { ok: false, status: 503, error: 'Models Unavailable', details, model: models[0], attempts };
+    }
+    if (available.length < models.length) {
+        console.warn(`Skipping models with an open circuit: ${models.filter(model => !available.includes(model)).join(', ')}`);
+    }
+
+    let last: (Extract<CompletionOutcome, { ok: false }> & { model: string }) | undefined;
+    for (let index = 0; index < available.length; index++) {
+        const model = available[index];
+        for (let retry = 0; ; retry++) {
+            const started = Date.now();
+            const { outcome, streamed } = await attemptCompletion(provider, config, { ...request, model }, completionOptions);
+            const durationMs = Date.now() - started;
+
+            if (outcome.ok) {
+                attempts.push({ model, ok: true, durationMs });
+                recordSuccess(config, model);
+                if (attempts.length > 1) console.log(`${model} answered after ${attempts.length} attempts.`);
+                return { ...outcome, model, attempts };
+            }
+
+            attempts.push({ model, ok: false, status: outcome.status, details: outcome.details, durationMs });
+            last = { ...outcome, model };
+            if (!isRetryableStatus(outcome.status)) return { ...last, attempts };
+
+            recordFailure(config, model);
+            console.warn(`Attempt ${retry + 1} with ${model} failed (${outcome.status}): ${outcome.details}`);
+
+            // Retry the same model unless it is out of retries, its circuit just opened, or it asked for a longer wait than we allow
+            const delayMs = outcome.retryAfterMs ?? Math.min(config.retryMaxDelayMs, config.retryBaseDelayMs * 2 ** retry);
+            if (retry >= config.maxRetries || isCircuitOpen(config, model) || delayMs > config.retryMaxDelayMs) {
+                const nextModel = available[index + 1];
+                if (nextModel) {
+                    console.warn(`Falling back from ${model} to ${nextModel}.`);
+                    onRetry?.({ failedModel: model, nextModel, delayMs: 0, reason: outcome.details, streamed });
+                }
+                break;
+            }
+            onRetry?.({ failedModel: model, nextModel: model, delayMs, reason: outcome.details, streamed });
+            await sleep(delayMs, completionOptions.signal);
+        }
+    }
+
+    const tried = Array.from(new Set(attempts.map(attempt => attempt.model)));
+    return { ...last!, attempts, details: `${last!.details} (tried ${tried.join(', ')}; ${attempts.length} attempt${attempts.length === 1 ? '' : 's'})` };
+}
@@ -0,0 +1,311 @@
+// src/lib/reportExport.ts
+// A conversation (or some of its messages) as a standalone engineering report: Markdown with
+// charts and tables as fenced JSON, or a self-contained HTML document (math as MathML, charts
+// as inline SVG) that the browser can also print to PDF. Everything runs in the browser.
+import type { HandbookSource } from './handbook';
+import type { CalculationTrace } from './calcTools';
+import type { GraphData, TableData } from './dataSchema';
+import type { ContentPart } from './responseEnvelope';
+import type { VerificationWarning } from './verification';
+import { UnitSystem, UNIT_SYSTEM_LABELS, convertGraphData, convertTableData } from './units';
+import { inferColumnKinds, formatTableCell } from './tableView';
+import { withUnit } from './dataExport';
+
+// --- Types ---
+export type ReportMessage = {
+    role: 'user' | 'assistant';
+    content: string;
+    parts?: ContentPart[];
+    sources?: HandbookSource[];
+    calculations?: CalculationTrace[];
+    warnings?: VerificationWarning[];
+};
+
+export type Report = {
+    title: string;
+    wellName: string | null;
+    date: number; // When the report was made (epoch ms)
+    unitSystem: UnitSystem; // Charts and tables are converted to it, as the chat shows them
+    messages: ReportMessage[]; // The selected messages, in conversation order
+};
+
+// What only the page can produce: markdown rendered with its math, and the charts as drawn
+export type ReportRenderers = {
+    markdown: (text: string) => string; // HTML
+    chartSvg: (messageIndex: number, partIndex: number, graph: GraphData) => string | null; // null if not drawn
+};
+
+// A calculation with the answer it was made for, numbered A1, A2, … in the appendix
+export type ReportCalculation = { label: string; answer: number; calculation: CalculationTrace };
+
+// A handbook passage and the answers citing it (a passage's tag, e.g. "S1", is per answer)
+export type ReportReference = { source: HandbookSource; answers: number[] };
+
+// --- Contents ---
+
+// "Question 2" / "Answer 2": each role numbered in order
+function headingsOf(messages: ReportMessage[]): { heading: string; number: number }[] {
+    const counts = { user: 0, assistant: 0 };
+    return messages.map(message => {
+        const number = ++counts[message.role];
+        return { heading: `${message.role === 'user' ? 'Question' : 'Answer'} ${number}`, number };
+    });
+}
+
+// The message's parts in the report's unit system (messages without parts are one markdown part)
+export function reportParts(message: ReportMessage, unitSystem: UnitSystem): ContentPart[] {
+    return (message.parts ?? [{ type: 'markdown', text: message.content }]).map((part): ContentPart => {
+        if (part.type === 'graph') return { type: 'graph', graph: convertGraphData(part.graph, unitSystem) };
+        if (part.type === 'table') return { type: 'table', table: convertTableData(part.table, unitSystem) };
+        return part;
+    });
+}
+
+export function collectCalculations(messages: ReportMessage[]): ReportCalculation[] {
+    const headings = headingsOf(messages);
+    return messages.flatMap((message, i) => (message.role === 'assistant' ? message.calculations ?? [] : [])
+        .map(calculation => ({ answer: headings[i].number, calculation })))
+        .map((entry, i) => ({ label: `A${i + 1}`, ...entry }));
+}
+
+// Cited passages in order of first citation, each listed once
+export function collectReferences(messages: ReportMessage[]): ReportReference[] {
+    const headings = headingsOf(messages);
+    const references = new Map<string, ReportReference>();
+    messages.forEach((message, i) => {
+        if (message.role !== 'assistant') return;
+        for (const source of message.sources ?? []) {
+            const reference = references.get(source.chunkId) ?? { source, answers: [] };
+            if (!reference.answers.includes(headings[i].number)) reference.answers.push(headings[i].number);
+            references.set(source.chunkId, reference);
+        }
+    });
+    return Array.from(references.values());
+}
+
+// e.g. "Chapter 4: Pressure Control › 4.1 Kill Sheets, page 84"
+export function formatReference(source: HandbookSource): string {
+    const where = [source.chapter, source.section].filter(Boolean).join(' › ') || 'Handbook';
+    return `${where}, ${source.page !== null ? `page ${source.page}` : `PDF page ${source.pdfPage}`}`;
+}
+
+// e.g. "calc_hydrostatic_pressure(mudWeight=12, tvd=10000) = 6240 psi"
+function formatCalculationCall(calculation: CalculationTrace): string {
+    const call = `${calculation.tool}(${Object.entries(calculation.inputs).map(([name, value]) => `${name}=${String(value)}`).join(', ')})`;
+    return calculation.result ? `${call} = ${calculation.result.result.value} ${calculation.result.result.unit}` : call;
+}
+
+export const formatReportDate = (date: number): string =>
+    new Date(date).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+const listAnswers = (answers: number[]): string => `Cited in ${answers.length === 1 ? 'Answer' : 'Answers'} ${answers.join(', ')}`;
+
+// --- Markdown ---
+
+/**
+ * The report as Markdown. Text is kept as written (math stays LaTeX); charts and tables become
+ * fenced JSON blocks (```json graph / ```json table) holding the data as shown.
+ */
+export function buildReportMarkdown(report: Report): string {
+    const headings = headingsOf(report.messages);
+    const calculations = collectCalculations(report.messages);
+    const references = collectReferences(report.messages);
+    const lines: string[] = [
+        `# ${report.title}`,
+        '',
+        [report.wellName ? `**Well:** ${report.wellName}` : null, `**Date:** ${formatReportDate(report.date)}`, `**Units:** ${UNIT_SYSTEM_LABELS[report.unitSystem]}`].filter(Boolean).join(' · '),
+        '',
+    ];
+
+    report.messages.forEach((message, i) => {
+        lines.push(`## ${headings[i].heading}`, '');
+        if (message.role === 'user') {
+            lines.push(...message.content.trim().split('\n').map(line => `> ${line}`), '');
+            return;
+        }
+        for (const part of reportParts(message, report.unitSystem)) {
+            if (part.type === 'markdown') {
+                if (part.text.trim()) lines.push(part.text.trim(), '');
+            } else if (part.type === 'invalid') {
+                lines.push(`*This ${part.kind === 'graph' ? 'chart could not be drawn' : 'table could not be shown'}: ${part.errors.join('; ')}*`, '');
+            } else {
+                const title = part.type === 'graph' ? part.graph.title : part.table.title;
+                if (title) lines.push(`**${part.type === 'graph' ? 'Chart' : 'Table'}: ${title}**`, '');
+                lines.push(`\`\`\`json ${part.type}`, JSON.stringify(part.type === 'graph' ? part.graph : part.table, null, 2), '```', '');
+            }
+        }
+        if (message.warnings?.length) {
+            lines.push('**Arithmetic check:**', '', ...message.warnings.map(warning => `- $${warning.expression}$: ${warning.message}`), '');
+        }
+        if (message.sources?.length) {
+            lines.push(`**Sources:** ${message.sources.map(source => `[${source.id}] ${formatReference(source)}`).join('; ')}`, '');
+        }
+        const made = calculations.filter(entry => entry.answer === headings[i].number);
+        if (made.length > 0) lines.push(`*Calculations: ${made.map(entry => entry.label).join(', ')} (Appendix A)*`, '');
+    });
+
+    if (calculations.length > 0) {
+        lines.push('## Appendix A: Calculations', '');
+        for (const { label, answer, calculation } of calculations) {
+            lines.push(`### ${label}. ${calculation.title} (Answer ${answer})`, '', `\`${formatCalculationCall(calculation)}\``, '');
+            if (calculation.result) lines.push(calculation.result.latex.markdown.trim(), '', `Handbook page ${calculation.result.reference.page}`, '');
+            if (calculation.error) lines.push(`Error: ${calculation.error}`, '');
+        }
+    }
+    if (references.length > 0) {
+        lines.push(`## Appendix ${calculations.length > 0 ? 'B' : 'A'}: Handbook References`, '');
+        lines.push(...references.map(({ source, answers }) => `- ${formatReference(source)}. ${listAnswers(answers)}.`), '');
+    }
+    return lines.join('\n');
+}
+
+// --- HTML ---
+
+export const escapeHtml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+function tableHtml(table: TableData): string {
+    const kinds = inferColumnKinds(table);
+    const padded = new Set((table.paddedCells ?? []).map(([row, column]) => `${row}:${column}`));
+    const head = table.headers.map((header, column) => `<th>${escapeHtml(withUnit(header, table.units?.[column]))}</th>`).join('');
+    const body = table.rows.map((row, r) => `<tr>${table.headers.map((_, column) => (padded.has(`${r}:${column}`)
+        ? '<td class="padded">—</td>'
+        : `<td${kinds[column] === 'number' ? ' class="number"' : ''}>${escapeHtml(formatTableCell(row[column], kinds[column], 'auto'))}</td>`)).join('')}</tr>`).join('\n');
+    const note = padded.size > 0 ? `<p class="note">— marks ${padded.size === 1 ? 'a cell' : `${padded.size} cells`} missing from the data.</p>` : '';
+    return `<table>${table.title ? `<caption>${escapeHtml(table.title)}</caption>` : ''}<thead><tr>${head}</tr></thead><tbody>\n${body}\n</tbody></table>${note}`;
+}
+
+// A chart that was not drawn (e.g. all of its series hidden) is given as its points
+function graphFallbackHtml(graph: GraphData): string {
+    const keys = Array.from(new Set(graph.data.flatMap(point => Object.keys(point))));
+    return `<p class="note">The chart${graph.title ? ` “${escapeHtml(graph.title)}”` : ''} was not drawn; its data follows.</p>`
+        + tableHtml({ headers: keys, rows: graph.data.map(point => keys.map(key => point[key])), units: keys.map(key => graph.units?.[key] ?? null) });
+}
+
+const REPORT_CSS = `
+body { font-family: Arial, Helvetica, sans-serif; color: #1e293b; max-width: 800px; margin: 0 auto; padding: 24px; line-height: 1.5; }
+h1 { font-size: 24px; margin-bottom: 4px; }
+h2 { font-size: 18px; margin-top: 28px; border-bottom: 1px solid #cbd5e1; padding-bottom: 4px; }
+h3 { font-size: 15px; margin-bottom: 4px; }
+.meta { color: #475569; font-size: 13px; }
+.meta span + span::before { content: " · "; }
+blockquote { margin: 0; padding: 8px 12px; background: #eff6ff; border-left: 4px solid #2563eb; white-space: pre-wrap; }
+figure { margin: 16px 0; text-align: center; break-inside: avoid; }
+figure svg { max-width: 100%; height: auto; }
+table { border-collapse: collapse; margin: 12px 0; font-size: 13px; break-inside: avoid; }
+caption { font-weight: 600; margin-bottom: 4px; }
+th, td { border: 1px solid #cbd5e1; padding: 4px 8px; text-align: left; }
+th { background: #f1f5f9; }
+td.number { text-align: right; font-variant-numeric: tabular-nums; }
+td.padded { background: #fef3c7; color: #92400e; text-align: center; }
+pre, code { font-family: "Courier New", monospace; font-size: 12px; }
+pre { background: #f8fafc; padding: 8px; overflow-x: auto; }
+math[display="block"] { margin: 8px 0; overflow-x: auto; }
+.note { font-size: 12px; font-style: italic; color: #64748b; }
+.warnings { border: 1px solid #fecaca; background: #fef2f2; padding: 8px 12px; font-size: 13px; }
+.sources { font-size: 13px; }
+@page { size: A4; margin: 18mm; }
+@media print { body { padding: 0; max-width: none; } h2, h3 { break-after: avoid; } }
+`;
+
+/**
+ * The report as a standalone HTML document: no scripts or external files, so it opens the same
+ * anywhere and prints as it looks.
+ */
+export function buildReportHtml(report: Report, render: ReportRenderers): string {
+    const headings = headingsOf(report.messages);
+    const calculations = collectCalculations(report.messages);
+    const references = collectReferences(report.messages);
+    const sections: string[] = [];
+
+    report.messages.forEach((message, i) => {
+        const content: string[] = [`<h2>${headings[i].heading}</h2>`];
+        if (message.role === 'user') {
+            content.push(`<blockquote>${escapeHtml(message.content.trim())}</blockquote>`);
+            sections.push(`<section>${content.join('\n')}</section>`);
+            return;
+        }
+        reportParts(message, report.unitSystem).forEach((part, partIndex) => {
+            if (part.type === 'markdown') {
+                if (part.text.trim()) content.push(render.markdown(part.text.trim()));
+            } else if (part.type === 'graph') {
+                const svg = render.chartSvg(i, partIndex, part.graph);
+                content.push(svg ? `<figure>${svg}</figure>` : graphFallbackHtml(part.graph));
+            } else if (part.type === 'table') {
+                content.push(tableHtml(part.table));
+            } else {
+                content.push(`<p class="note">This ${part.kind === 'graph' ? 'chart could not be drawn' : 'table could not be shown'}: ${escapeHtml(part.errors.join('; '))}</p>`);
+            }
+        });
+        if (message.warnings?.length) {
+            content.push(`<div class="warnings"><strong>Arithmetic check:</strong>${render.markdown(message.warnings.map(warning => `- $${warning.expression}$: ${warning.message}`).join('\n'))}</div>`);
+        }
+        if (message.sources?.length) {
+            content.push(`<p class="sources"><strong>Sources:</strong> ${message.sources.map(source => `[${escapeHtml(source.id)}] ${escapeHtml(formatReference(source))}`).join('; ')}</p>`);
+        }
+        const made = calculations.filter(entry => entry.answer === headings[i].number);
+        if (made.length > 0) content.push(`<p class="note">Calculations: ${made.map(entry => entry.label).join(', ')} (Appendix A)</p>`);
+        sections.push(`<section>${content.join('\n')}</section>`);
+    });
+
+    if (calculations.length > 0) {
+        sections.push(`<section><h2>Appendix A: Calculations</h2>\n${calculations.map(({ label, answer, calculation }) => [
+            `<h3>${label}. ${escapeHtml(calculation.title)} (Answer ${answer})</h3>`,
+            `<p><code>${escapeHtml(formatCalculationCall(calculation))}</code></p>`,
+            calculation.result ? `${render.markdown(calculation.result.latex.markdown.trim())}<p class="note">Handbook page ${calculation.result.reference.page}</p>` : '',
+            calculation.error ? `<p>Error: ${escapeHtml(calculation.error)}</p>` : '',
+        ].join('\n')).join('\n')}</section>`);
+    }
+    if (references.length > 0) {
+        sections.push(`<section><h2>Appendix ${calculations.length > 0 ? 'B' : 'A'}: Handbook References</h2>\n<ul>${references
+            .map(({ source, answers }) => `<li>${escapeHtml(formatReference(source))}. <span class="note">${listAnswers(answers)}.</span></li>`).join('\n')}</ul></section>`);
+    }
+
+    const meta = [report.wellName ? `Well: ${report.wellName}` : null, `Date: ${formatReportDate(report.date)}`, `Units: ${UNIT_SYSTEM_LABELS[report.unitSystem]}`]
+        .filter((item): item is string => item !== null)
+        .map(item => `<span>${escapeHtml(item)}</span>`).join('');
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(report.title)}</title>
+<style>${REPORT_CSS}</style>
+</head>
+<body>
+<header><h1>${escapeHtml(report.title)}</h1><p class="meta">${meta}</p></header>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
+
+// --- PDF ---
+
+/**
+ * Opens the browser's print dialog for an HTML report, from which it is saved as PDF. The
+ * document is printed from a hidden frame, so nothing leaves the browser.
+ */
+export function printReportHtml(html: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const frame = document.createElement('iframe');
+        frame.style.position = 'fixed';
+        frame.style.width = '0';
+        frame.style.height = '0';
+        frame.style.border = '0';
+        frame.setAttribute('aria-hidden', 'true');
+        frame.onload = () => {
+            const view = frame.contentWindow;
+            if (!view) {
+                frame.remove();
+                return reject(new Error('The report could not be prepared for printing.'));
+            }
+            // The dialog blocks in most browsers; the frame goes once printing is over
+            view.addEventListener('afterprint', () => setTimeout(() => frame.remove(), 0));
+            view.focus();
+            view.print();
+            resolve();
+        };
+        frame.srcdoc = html;
+        document.body.appendChild(frame);
+    });
+}
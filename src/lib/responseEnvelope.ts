@@ -0,0 +1,327 @@
+// src/lib/responseEnvelope.ts
+// The chat answer as a versioned envelope of typed parts: markdown text, charts, tables,
+// calculator traces and handbook sources. Where the provider offers structured output the model
+// writes the envelope as JSON itself; otherwise its text is split at the GRAPH_DATA/TABLE_DATA
+// markers, which remain only as that fallback. The client renders the parts and never re-parses text.
+import type { HandbookSource } from './handbook';
+import type { CalculationTrace } from './calcTools';
+import type { CompletionRequest, StructuredOutputMode } from './llmProviders';
+import { DataBlockKind, GraphData, TableData, validateGraphData, validateTableData } from './dataSchema';
+
+// --- Types ---
+export const RESPONSE_ENVELOPE_VERSION = 1;
+
+export type MarkdownPart = { type: 'markdown'; text: string };
+export type GraphPart = { type: 'graph'; graph: GraphData; original?: GraphData }; // original: the chart as answered, once the user has edited it
+export type TablePart = { type: 'table'; table: TableData };
+// A chart or table that failed validation (and repair), with its JSON as written and the reasons
+export type InvalidDataPart = { type: 'invalid'; kind: DataBlockKind; source: string; errors: string[] };
+export type CalculationPart = { type: 'calculation'; calculation: CalculationTrace };
+export type SourcesPart = { type: 'sources'; sources: HandbookSource[] };
+
+// The body of an answer, in reading order
+export type ContentPart = MarkdownPart | GraphPart | TablePart | InvalidDataPart;
+export type ResponsePart = ContentPart | CalculationPart | SourcesPart;
+
+// How the parts were read from the model: its own JSON envelope, or text with data markers
+export type EnvelopeSource = 'structured' | 'markers';
+
+export type ResponseEnvelope = {
+    version: typeof RESPONSE_ENVELOPE_VERSION;
+    source: EnvelopeSource;
+    parts: ResponsePart[];
+};
+
+// A part as the model wrote it, before its data is cleaned up and validated
+export type DraftPart =
+    | MarkdownPart
+    | { type: DataBlockKind; value?: unknown; source: string; parseError?: string };
+
+// --- Structured Output ---
+
+// What the model is asked to return; calculation and sources parts are added by the server
+export const ENVELOPE_JSON_SCHEMA = {
+    type: 'object',
+    properties: {
+        parts: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    type: { type: 'string', enum: ['markdown', 'graph', 'table'] },
+                    text: { type: 'string' },
+                    graph: { type: 'object' },
+                    table: { type: 'object' },
+                },
+                required: ['type'],
+            },
+        },
+    },
+    required: ['parts'],
+};
+
+/**
+ * The `response_format` that asks the provider for an envelope, or undefined when structured
+ * output is off.
+ */
+export function getEnvelopeResponseFormat(mode: StructuredOutputMode): CompletionRequest['response_format'] {
+    if (mode === 'json_schema') return { type: 'json_schema', json_schema: { name: 'answer_envelope', strict: false, schema: ENVELOPE_JSON_SCHEMA } };
+    if (mode === 'json_object') return { type: 'json_object' };
+    return undefined;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Some models wrap JSON in a code fence even in JSON mode
+const stripCodeFence = (text: string): string => text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+/**
+ * Reads an answer written as an envelope, `{"parts": [...]}`. Returns null when the text is not
+ * one, so the caller can fall back to the markers. Markers inside a markdown part are still split out.
+ */
+export function parseStructuredAnswer(content: string): DraftPart[] | null {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(stripCodeFence(content));
+    } catch {
+        return null;
+    }
+    if (!isRecord(parsed) || !Array.isArray(parsed.parts)) return null;
+
+    const drafts: DraftPart[] = [];
+    parsed.parts.forEach((part, i) => {
+        if (isRecord(part) && part.type === 'markdown' && typeof part.text === 'string') {
+            drafts.push(...splitMarkedAnswer(part.text));
+        } else if (isRecord(part) && (part.type === 'graph' || part.type === 'table')) {
+            const value = part[part.type];
+            drafts.push({ type: part.type, value, source: JSON.stringify(value ?? null, null, 2) });
+        } else {
+            console.warn(`Skipping unrecognised part ${i} of the structured answer:`, part);
+        }
+    });
+    return drafts;
+}
+
+// --- Marker Fallback ---
+const MARKER_OPEN_PATTERN = /<!--(GRAPH|TABLE)_DATA:/g;
+const MARKER_CLOSE = '-->';
+
+function draftFromJson(kind: DataBlockKind, json: string): DraftPart {
+    try {
+        return { type: kind, value: JSON.parse(json), source: json };
+    } catch (error) {
+        return { type: kind, source: json, parseError: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` };
+    }
+}
+
+/**
+ * Finds the end of a marked block whose JSON starts at `start`. JSON may itself contain "-->",
+ * so the first closing marker after which the JSON parses wins. With `complete` (the whole
+ * answer is there) a block that never parses ends at its first closing marker; otherwise it is
+ * treated as still arriving.
+ */
+function findMarkerEnd(text: string, start: number, complete: boolean): { end: number; json: string } | null {
+    let first: { end: number; json: string } | null = null;
+    for (let close = text.indexOf(MARKER_CLOSE, start); close >= 0; close = text.indexOf(MARKER_CLOSE, close + 1)) {
+        const candidate = { end: close + MARKER_CLOSE.length, json: text.slice(start, close).trim() };
+        try {
+            JSON.parse(candidate.json);
+            return candidate;
+        } catch {
+            first ??= candidate;
+        }
+    }
+    return complete ? first : null;
+}
+
+/**
+ * Splits text with GRAPH_DATA/TABLE_DATA markers into markdown and data parts. A marker that is
+ * never closed is left in the text.
+ */
+export function splitMarkedAnswer(content: string): DraftPart[] {
+    const drafts: DraftPart[] = [];
+    const pushText = (text: string) => {
+        if (text.trim()) drafts.push({ type: 'markdown', text: text.trim() });
+    };
+    let cursor = 0;
+    const pattern = new RegExp(MARKER_OPEN_PATTERN.source, 'g');
+    for (let match = pattern.exec(content); match; match = pattern.exec(content)) {
+        const block = findMarkerEnd(content, match.index + match[0].length, true);
+        if (!block) break;
+        pushText(content.slice(cursor, match.index));
+        drafts.push(draftFromJson(match[1] === 'GRAPH' ? 'graph' : 'table', block.json));
+        cursor = pattern.lastIndex = block.end;
+    }
+    pushText(content.slice(cursor));
+    return drafts;
+}
+
+// --- Finishing Parts ---
+
+/**
+ * Turns a draft into a content part: data goes through `prepare` (the server's clean-up) and
+ * then the shared schema; data that fails either becomes an invalid part.
+ */
+export function finishDraftPart(draft: DraftPart, prepare?: (kind: DataBlockKind, data: unknown) => unknown): ContentPart {
+    if (draft.type === 'markdown') return draft;
+    if (draft.parseError !== undefined) return { type: 'invalid', kind: draft.type, source: draft.source, errors: [draft.parseError] };
+
+    const prepared = prepare ? prepare(draft.type, draft.value) : draft.value;
+    if (draft.type === 'graph') {
+        const result = validateGraphData(prepared);
+        return result.ok ? { type: 'graph', graph: result.value } : { type: 'invalid', kind: 'graph', source: JSON.stringify(prepared ?? null, null, 2), errors: result.errors };
+    }
+    const result = validateTableData(prepared);
+    return result.ok ? { type: 'table', table: result.value } : { type: 'invalid', kind: 'table', source: JSON.stringify(prepared ?? null, null, 2), errors: result.errors };
+}
+
+// The markdown of an answer as one text, e.g. for citation and arithmetic checks
+export const getMarkdownText = (parts: ResponsePart[]): string => parts
+    .flatMap(part => (part.type === 'markdown' ? [part.text] : []))
+    .join('\n\n');
+
+// --- Streaming ---
+
+export type PartStreamHandlers = {
+    onText: (text: string) => void; // More markdown, continuing the current text
+    onPart: (draft: DraftPart) => void; // A complete chart or table
+    onPending: () => void; // A chart or table has started arriving
+};
+
+// Length of the longest end of `text` that could be the start of `token`
+function partialSuffixLength(text: string, token: string): number {
+    for (let length = Math.min(token.length - 1, text.length); length > 0; length--) {
+        if (text.endsWith(token.slice(0, length))) return length;
+    }
+    return 0;
+}
+
+// Streams text with markers: prose as it arrives, each block once its closing marker is in
+function createMarkerStreamReader(handlers: PartStreamHandlers): (delta: string) => void {
+    let text = '';
+    let cursor = 0;
+    let pending = false;
+    const emit = (end: number) => {
+        if (end > cursor) handlers.onText(text.slice(cursor, end));
+        cursor = Math.max(cursor, end);
+    };
+
+    return delta => {
+        text += delta;
+        for (;;) {
+            const open = text.indexOf('<!--', cursor);
+            if (open < 0) return emit(text.length - partialSuffixLength(text, '<!--'));
+            emit(open);
+
+            const marker = /^<!--(GRAPH|TABLE)_DATA:/.exec(text.slice(open, open + 16));
+            if (!marker) {
+                const head = text.slice(open, open + 15);
+                if ('<!--GRAPH_DATA:'.startsWith(head) || '<!--TABLE_DATA:'.startsWith(head)) return; // May still become a marker
+                emit(open + 4); // An ordinary comment
+                continue;
+            }
+            if (!pending) handlers.onPending();
+            pending = true;
+            const block = findMarkerEnd(text, open + marker[0].length, false);
+            if (!block) return;
+            handlers.onPart(draftFromJson(marker[1] === 'GRAPH' ? 'graph' : 'table', block.json));
+            cursor = block.end;
+            pending = false;
+        }
+    };
+}
+
+// Index of the bracket that closes the object or array opening at `start`, or -1 if it has not arrived
+function findClosingBracket(text: string, start: number): number {
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (char === '\\') i++;
+            else if (char === '"') inString = false;
+        } else if (char === '"') {
+            inString = true;
+        } else if (char === '{' || char === '[') {
+            depth++;
+        } else if (char === '}' || char === ']') {
+            depth--;
+            if (depth === 0) return i;
+        }
+    }
+    return -1;
+}
+
+// The text so far of a markdown part still arriving, e.g. from '{"type": "markdown", "text": "The kill mud wei'
+function readPartialText(partial: string): string | null {
+    const match = /^\{\s*"type"\s*:\s*"markdown"\s*,\s*"text"\s*:\s*"((?:[^"\\]|\\.)*)(\\u[0-9a-fA-F]{0,3}|\\)?/.exec(partial);
+    if (!match) return null;
+    try {
+        return JSON.parse(`"${match[1]}"`);
+    } catch {
+        return null;
+    }
+}
+
+// Streams an envelope: each markdown part's text as it arrives, each data part once complete
+function createEnvelopeStreamReader(handlers: PartStreamHandlers): (delta: string) => void {
+    let json = '';
+    let position = -1; // Where to look for the next part, once the parts array has opened
+    let sentLength = 0; // Characters of the current markdown part already sent
+    let sentText = false;
+    let pending = false;
+
+    const sendText = (text: string) => {
+        if (text.length > sentLength) handlers.onText(`${sentLength === 0 && sentText ? '\n\n' : ''}${text.slice(sentLength)}`);
+        sentLength = Math.max(sentLength, text.length);
+        sentText = true;
+    };
+
+    return delta => {
+        json += delta;
+        if (position < 0) {
+            const start = /"parts"\s*:\s*\[/.exec(json);
+            if (!start) return;
+            position = start.index + start[0].length;
+        }
+        while (position < json.length) {
+            const open = json.indexOf('{', position);
+            if (open < 0) return;
+            const close = findClosingBracket(json, open);
+            if (close < 0) {
+                const partial = json.slice(open);
+                const text = readPartialText(partial);
+                if (text !== null) sendText(text);
+                else if (!pending && /^\{\s*"type"\s*:\s*"(graph|table)"/.test(partial)) {
+                    handlers.onPending();
+                    pending = true;
+                }
+                return;
+            }
+
+            let part: unknown;
+            try {
+                part = JSON.parse(json.slice(open, close + 1));
+            } catch {
+                part = null;
+            }
+            if (isRecord(part) && part.type === 'markdown' && typeof part.text === 'string') {
+                sendText(part.text);
+            } else if (isRecord(part) && (part.type === 'graph' || part.type === 'table')) {
+                const value = part[part.type];
+                handlers.onPart({ type: part.type, value, source: JSON.stringify(value ?? null, null, 2) });
+            }
+            sentLength = 0;
+            pending = false;
+            position = close + 1;
+        }
+    };
+}
+
+/**
+ * Reads a streamed answer in the format it was requested in, calling the handlers as prose and
+ * complete charts or tables arrive. The result is a preview: the final envelope replaces it.
+ */
+export function createPartStreamReader(source: EnvelopeSource, handlers: PartStreamHandlers): (delta: string) => void {
+    return source === 'structured' ? createEnvelopeStreamReader(handlers) : createMarkerStreamReader(handlers);
+}
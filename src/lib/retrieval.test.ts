@@ -0,0 +1,29 @@
+// src/lib/retrieval.test.ts
+import { describe, expect, it } from 'vitest';
+import { buildHandbookIndex, retrievePassages, tokenize } from './retrieval';
+
+const index = buildHandbookIndex([
+    { id: 'hp', text: 'Hydrostatic pressure, psi = mud weight, ppg x 0.052 x true vertical depth, ft' },
+    { id: 'av', text: 'Annular velocity, ft/min = 24.5 x pump output, gpm / (hole diameter squared - pipe OD squared)' },
+    { id: 'kill', text: 'Kill weight mud, ppg = shut-in drill pipe pressure / 0.052 / TVD + original mud weight' },
+]);
+
+describe('tokenize', () => {
+    it('keeps decimals whole and drops stop words and plurals', () => {
+        expect(tokenize('What is the pressure gradient at 0.052 psi per feets?')).toEqual(['pressure', 'gradient', '0.052', 'psi', 'per', 'feet']);
+    });
+});
+
+describe('retrievePassages', () => {
+    it('ranks the passage that shares the most terms first', () => {
+        const [first] = retrievePassages(index, [{ role: 'user', content: 'Hydrostatic pressure for 12 ppg mud at 10,000 ft true vertical depth' }]);
+        expect(first.id).toBe('hp');
+    });
+
+    it('ignores query words that name Object properties', () => {
+        const passages = retrievePassages(index, [{ role: 'user', content: 'constructor toString hasOwnProperty annular velocity' }]);
+        expect(passages.map(p => p.id)).toEqual(['av']);
+        expect(Number.isFinite(passages[0].score)).toBe(true);
+        expect(retrievePassages(index, [{ role: 'user', content: 'constructor valueOf' }])).toEqual([]);
+    });
+});
@@ -0,0 +1,142 @@
+// src/lib/retrieval.ts
+import cosineSimilarity from 'cosine-similarity';
+
+// --- Types ---
+export type IndexableChunk = {
+    id: string;
+    text: string;
+};
+
+export type ChatTurn = {
+    role: string;
+    content: string;
+};
+
+export type RetrievedPassage = {
+    id: string;
+    text: string;
+    score: number;
+};
+
+type IndexedChunk = IndexableChunk & {
+    vector: Record<string, number>; // Sparse TF-IDF vector keyed by term
+};
+
+export type HandbookIndex = {
+    chunks: IndexedChunk[];
+    idf: Record<string, number>;
+};
+
+// --- Tokenization ---
+const STOP_WORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'if', 'in',
+    'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'their', 'then', 'there',
+    'these', 'this', 'to', 'was', 'we', 'what', 'when', 'where', 'which', 'who', 'will', 'with', 'you', 'your',
+    'please', 'show', 'tell', 'give', 'explain', 'calculate', 'using', 'use',
+]);
+
+/**
+ * Lowercases and splits text into terms. Decimal numbers (e.g. 0.052) are kept whole,
+ * stop words are dropped and a trailing plural 's' is stripped.
+ */
+export function tokenize(text: string): string[] {
+    const rawTokens = text.toLowerCase().match(/[a-z]+|\d+(?:\.\d+)?/g) || [];
+    const terms: string[] = [];
+    for (const token of rawTokens) {
+        if (STOP_WORDS.has(token)) continue;
+        if (token.length < 2 && !/\d/.test(token)) continue;
+        terms.push(token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token);
+    }
+    return terms;
+}
+
+// Term-keyed records have no prototype, so a term such as "constructor" is never read from Object
+const termRecord = (): Record<string, number> => Object.create(null);
+
+function termFrequencies(terms: string[]): Record<string, number> {
+    const counts = termRecord();
+    for (const term of terms) counts[term] = (counts[term] || 0) + 1;
+    return counts;
+}
+
+// --- Index Construction ---
+
+/**
+ * Builds an in-memory TF-IDF index over the pre-generated handbook chunks.
+ */
+export function buildHandbookIndex(chunks: IndexableChunk[]): HandbookIndex {
+    const chunkCounts = chunks.map(chunk => termFrequencies(tokenize(chunk.text)));
+
+    const documentFrequency = termRecord();
+    for (const counts of chunkCounts) {
+        for (const term in counts) documentFrequency[term] = (documentFrequency[term] || 0) + 1;
+    }
+
+    const idf = termRecord();
+    for (const term in documentFrequency) {
+        idf[term] = Math.log((1 + chunks.length) / (1 + documentFrequency[term])) + 1;
+    }
+
+    const indexedChunks = chunks.map((chunk, i) => {
+        const vector = termRecord();
+        for (const term in chunkCounts[i]) {
+            vector[term] = (1 + Math.log(chunkCounts[i][term])) * idf[term];
+        }
+        return { id: chunk.id, text: chunk.text.trim(), vector };
+    });
+
+    return { chunks: indexedChunks, idf };
+}
+
+// --- Querying ---
+
+/**
+ * Builds a weighted TF-IDF query vector from the conversation. The latest user message
+ * dominates; earlier user turns and the last assistant reply add context for follow-ups.
+ */
+export function buildQueryVector(index: HandbookIndex, messages: ChatTurn[]): Record<string, number> {
+    const weightedTexts: { text: string; weight: number }[] = [];
+    const userTurns = messages.filter(m => m.role === 'user');
+    const latestUser = userTurns[userTurns.length - 1];
+    if (latestUser) weightedTexts.push({ text: latestUser.content, weight: 1 });
+    userTurns.slice(-4, -1).forEach(m => weightedTexts.push({ text: m.content, weight: 0.35 }));
+
+    const lastAssistant = [...messages].reverse().find(m => m.role === 'assistant');
+    if (lastAssistant) {
+        // Embedded data blocks are mostly JSON noise for retrieval purposes
+        const prose = lastAssistant.content.replace(/<!--(?:GRAPH|TABLE)_DATA:[\s\S]*?-->/g, '');
+        weightedTexts.push({ text: prose, weight: 0.2 });
+    }
+
+    const vector = termRecord();
+    for (const { text, weight } of weightedTexts) {
+        const counts = termFrequencies(tokenize(text));
+        for (const term in counts) {
+            const termIdf = index.idf[term];
+            if (!termIdf) continue; // Term never appears in the handbook
+            vector[term] = (vector[term] || 0) + weight * (1 + Math.log(counts[term])) * termIdf;
+        }
+    }
+    return vector;
+}
+
+/**
+ * Returns the top-k handbook passages by cosine similarity to the conversation query.
+ */
+export function retrievePassages(index: HandbookIndex, messages: ChatTurn[], topK = 6, minScore = 0.05): RetrievedPassage[] {
+    const queryVector = buildQueryVector(index, messages);
+    const queryTerms = Object.keys(queryVector);
+    if (queryTerms.length === 0) return [];
+
+    const scored: RetrievedPassage[] = [];
+    for (const chunk of index.chunks) {
+        // Skip chunks that share no terms with the query (similarity would be 0)
+        if (!queryTerms.some(term => term in chunk.vector)) continue;
+        const score = cosineSimilarity(queryVector, chunk.vector);
+        if (score !== false && score >= minScore) {
+            scored.push({ id: chunk.id, text: chunk.text, score });
+        }
+    }
+
+    return scored.sort((a, b) => b.score - a.score).slice(0, topK);
+}
@@ -0,0 +1,105 @@
+// src/lib/serverConversations.test.ts
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { OWNER_KEY_HEADER } from './conversationKeys';
+import {
+    ConversationStorage,
+    authorizeConversation,
+    authorizeConversationUpload,
+    createJsonFileStorage,
+    getConversationStoreConfig,
+    getSharedConversation,
+    hashOwnerKey,
+    isConversationId,
+    isShareActive,
+    parseConversationInput,
+} from './serverConversations';
+
+const KEY = 'owner-key-0123456789abcdef';
+const input = { title: 'Kill sheet', messages: [{ role: 'user', content: 'Kill sheet for 12 ppg mud' }] };
+
+describe('validation', () => {
+    it('reports what is wrong with a conversation body', () => {
+        expect(parseConversationInput(null)).toEqual({ ok: false, error: 'Request body must be a JSON object.' });
+        expect(parseConversationInput({ title: '  ', messages: [] })).toEqual({ ok: false, error: "Missing 'title' string." });
+        expect(parseConversationInput({ title: 'A', messages: 'none' })).toEqual({ ok: false, error: "'messages' must be an array." });
+        expect(parseConversationInput({ title: ' A ', messages: [] })).toEqual({ ok: true, value: { title: 'A', messages: [] } });
+    });
+
+    it('keeps ids to safe URL characters', () => {
+        expect(isConversationId('abc_123-x')).toBe(true);
+        expect(isConversationId('../etc')).toBe(false);
+        expect(isConversationId('')).toBe(false);
+    });
+
+    it('is off unless configured and rejects unknown stores', () => {
+        expect(getConversationStoreConfig({}).kind).toBe('off');
+        expect(getConversationStoreConfig({ CONVERSATION_STORE: 'json' }).kind).toBe('json');
+        expect(() => getConversationStoreConfig({ CONVERSATION_STORE: 'sql' })).toThrow("not 'sql'");
+    });
+});
+
+describe('JSON file storage', () => {
+    let directory: string;
+    let storage: ConversationStorage;
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'conversations-'));
+        storage = createJsonFileStorage(path.join(directory, 'conversations.json'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('shows a conversation through a share link only while the link is active', async () => {
+        await storage.put('c1', input, hashOwnerKey(KEY));
+        const link = await storage.createShare('c1', null);
+        expect((await getSharedConversation(storage, link.token))?.conversation.messages).toEqual(input.messages);
+        await storage.revokeShare('c1', link.token);
+        expect(await getSharedConversation(storage, link.token)).toBeNull();
+    });
+
+    it('answers a wrong key the same as an unknown id', async () => {
+        await storage.put('c1', input, hashOwnerKey(KEY));
+        const request = (key?: string) => new Request('http://localhost/api/conversations/c1', { headers: key ? { [OWNER_KEY_HEADER]: key } : {} });
+        expect(await authorizeConversation(storage, '../c1', request(KEY))).toMatchObject({ ok: false, status: 400 });
+        expect(await authorizeConversation(storage, 'c1', request())).toMatchObject({ ok: false, status: 401 });
+        const wrongKey = await authorizeConversation(storage, 'c1', request('another-key-0123456789'));
+        const unknownId = await authorizeConversation(storage, 'c2', request(KEY));
+        expect(wrongKey).toEqual({ ok: false, status: 404, body: { error: 'Not found', details: "No conversation with id 'c1' for this key." } });
+        expect(unknownId).toMatchObject({ ok: false, status: 404, body: { error: 'Not found' } });
+        expect(await authorizeConversation(storage, 'c1', request(KEY))).toMatchObject({ ok: true, key: KEY });
+    });
+
+    it('lets a key upload a new id or its own, and answers another key as for an unknown id', async () => {
+        await storage.put('c1', input, hashOwnerKey(KEY));
+        const request = (key: string) => new Request('http://localhost/api/conversations/c1', { method: 'PUT', headers: { [OWNER_KEY_HEADER]: key } });
+        expect(await authorizeConversationUpload(storage, 'c1', request(KEY))).toEqual({ ok: true, key: KEY });
+        expect(await authorizeConversationUpload(storage, 'c2', request('another-key-0123456789'))).toEqual({ ok: true, key: 'another-key-0123456789' });
+        expect(await authorizeConversationUpload(storage, 'c1', request('another-key-0123456789')))
+            .toEqual(await authorizeConversation(storage, 'c1', request('another-key-0123456789')));
+    });
+
+    it('keeps the first owner when a conversation is replaced', async () => {
+        await storage.put('c1', input, hashOwnerKey(KEY));
+        const replaced = await storage.put('c1', { ...input, title: 'Renamed' }, hashOwnerKey('another-key-0123456789'));
+        expect(replaced).toMatchObject({ title: 'Renamed', ownerKeyHash: hashOwnerKey(KEY) });
+    });
+
+    it('treats expired links as inactive', () => {
+        const link = { token: 't', conversationId: 'c1', createdAt: 0, expiresAt: 1000, revokedAt: null };
+        expect(isShareActive(link, 999)).toBe(true);
+        expect(isShareActive(link, 1000)).toBe(false);
+    });
+
+    it('revokes the share links of a deleted conversation', async () => {
+        await storage.put('c1', input, hashOwnerKey(KEY));
+        const link = await storage.createShare('c1', null);
+        expect(await storage.delete('c1')).toBe(true);
+        expect((await storage.getShare(link.token))?.revokedAt).not.toBeNull();
+        expect(await storage.delete('c1')).toBe(false);
+    });
+});
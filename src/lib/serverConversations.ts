@@ -0,0 +1,257 @@
+// src/lib/serverConversations.ts
+// Optional server-side copies of conversations, so one can be shared as a read-only link
+// (/share/<token>). Storage sits behind the ConversationStorage interface; the JSON-file store
+// here keeps everything in one file, which suits a single server. Share links can be revoked
+// and may expire; a link stops working either way without the conversation being touched.
+// Only an active link shows a conversation to others: every other request needs the owner key
+// the conversation was first uploaded with (see conversationKeys.ts), of which a hash is kept.
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { OWNER_KEY_HEADER } from './conversationKeys';
+
+// --- Types ---
+export type StoredConversation = {
+    id: string;
+    title: string;
+    messages: unknown[]; // As the browser stores them; checked again when shown
+    createdAt: number;
+    updatedAt: number;
+    ownerKeyHash: string; // SHA-256 of the owner key, hex
+};
+
+// A conversation as the routes return it to its owner
+export type ConversationResponse = Omit<StoredConversation, 'ownerKeyHash'>;
+
+export type ShareLink = {
+    token: string; // The id in /share/<token>
+    conversationId: string;
+    createdAt: number;
+    expiresAt: number | null; // null: until revoked
+    revokedAt: number | null;
+};
+
+export type ConversationInput = { title: string; messages: unknown[] };
+
+export interface ConversationStorage {
+    get(id: string): Promise<StoredConversation | null>;
+    // Creates the conversation or replaces its title and messages (the owner is kept on replace)
+    put(id: string, input: ConversationInput, ownerKeyHash: string): Promise<StoredConversation>;
+    // Also revokes its share links; false if there was no such conversation
+    delete(id: string): Promise<boolean>;
+    listShares(conversationId: string): Promise<ShareLink[]>;
+    createShare(conversationId: string, expiresAt: number | null): Promise<ShareLink>;
+    revokeShare(conversationId: string, token: string): Promise<ShareLink | null>;
+    getShare(token: string): Promise<ShareLink | null>;
+}
+
+export const CONVERSATION_STORE_KINDS = ['off', 'json'] as const;
+export type ConversationStoreKind = typeof CONVERSATION_STORE_KINDS[number];
+
+export type ConversationStoreConfig = { kind: ConversationStoreKind; path: string };
+
+const DEFAULT_STORE_PATH = '.data/conversations.json';
+
+// Response body of the conversation routes while server-side storage is off
+export const STORAGE_OFF_RESPONSE = { error: 'Not enabled', details: 'Server-side conversations are off (set CONVERSATION_STORE=json).' };
+
+export const MAX_TITLE_LENGTH = 200;
+export const MAX_SHARE_DAYS = 365;
+
+// --- Configuration ---
+
+/**
+ * Reads CONVERSATION_STORE (off | json, default off) and CONVERSATION_STORE_PATH (the JSON
+ * file, default .data/conversations.json under the working directory). Throws on an unknown kind.
+ */
+export function getConversationStoreConfig(env: Record<string, string | undefined> = process.env): ConversationStoreConfig {
+    const kind = env.CONVERSATION_STORE?.trim() || 'off';
+    if (!CONVERSATION_STORE_KINDS.includes(kind as ConversationStoreKind)) {
+        throw new Error(`Server configuration error: CONVERSATION_STORE must be one of ${CONVERSATION_STORE_KINDS.join(', ')}, not '${kind}'.`);
+    }
+    return { kind: kind as ConversationStoreKind, path: path.resolve(env.CONVERSATION_STORE_PATH?.trim() || DEFAULT_STORE_PATH) };
+}
+
+let storage: { key: string; value: ConversationStorage | null } | null = null;
+
+// The configured storage, or null when server-side conversations are off
+export function getConversationStorage(): ConversationStorage | null {
+    const config = getConversationStoreConfig();
+    const key = `${config.kind}:${config.path}`;
+    if (storage?.key !== key) storage = { key, value: config.kind === 'json' ? createJsonFileStorage(config.path) : null };
+    return storage.value;
+}
+
+// --- Validation ---
+
+/**
+ * A conversation from a request body: a title (trimmed, at most MAX_TITLE_LENGTH characters)
+ * and an array of messages. Returns the problem as text when the body does not fit.
+ */
+export function parseConversationInput(body: unknown): { ok: true; value: ConversationInput } | { ok: false; error: string } {
+    if (typeof body !== 'object' || body === null) return { ok: false, error: 'Request body must be a JSON object.' };
+    const { title, messages } = body as { title?: unknown; messages?: unknown };
+    if (typeof title !== 'string' || !title.trim()) return { ok: false, error: "Missing 'title' string." };
+    if (title.trim().length > MAX_TITLE_LENGTH) return { ok: false, error: `'title' must be at most ${MAX_TITLE_LENGTH} characters.` };
+    if (!Array.isArray(messages)) return { ok: false, error: "'messages' must be an array." };
+    return { ok: true, value: { title: title.trim(), messages } };
+}
+
+// Ids come from the browser (its IndexedDB ids); keep them to safe URL characters
+export const isConversationId = (value: string): boolean => /^[A-Za-z0-9_-]{1,100}$/.test(value);
+
+export const toConversationResponse = ({ id, title, messages, createdAt, updatedAt }: StoredConversation): ConversationResponse =>
+    ({ id, title, messages, createdAt, updatedAt });
+
+// --- Owner Keys ---
+
+export const hashOwnerKey = (key: string): string => createHash('sha256').update(key).digest('hex');
+
+// The owner key sent with a request, or null if there is none of a plausible length
+export function readOwnerKey(request: Request): string | null {
+    const key = request.headers.get(OWNER_KEY_HEADER)?.trim();
+    return key && key.length >= 16 && key.length <= 200 ? key : null;
+}
+
+export function isConversationOwner(conversation: StoredConversation, key: string): boolean {
+    const expected = Buffer.from(conversation.ownerKeyHash ?? '', 'hex');
+    const actual = Buffer.from(hashOwnerKey(key), 'hex');
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+type AuthorizationFailure = { ok: false; status: number; body: { error: string; details: string } };
+
+const notFound = (id: string): AuthorizationFailure =>
+    ({ ok: false, status: 404, body: { error: 'Not found', details: `No conversation with id '${id}' for this key.` } });
+
+// The request's owner key for a well-formed `id`, or the 400/401 response
+function readRequestKey(id: string, request: Request): { ok: true; key: string } | AuthorizationFailure {
+    if (!isConversationId(id)) return { ok: false, status: 400, body: { error: 'Invalid id', details: "Conversation ids are 1-100 letters, digits, '-' or '_'." } };
+    const key = readOwnerKey(request);
+    if (!key) return { ok: false, status: 401, body: { error: 'Unauthorized', details: `Send the conversation's owner key in the ${OWNER_KEY_HEADER} header.` } };
+    return { ok: true, key };
+}
+
+/**
+ * The conversation `id` for a request carrying its owner key, or the error response when the id
+ * is malformed, the key is missing, or there is no such conversation for that key. A wrong key
+ * looks the same as an unknown id, so ids cannot be probed.
+ */
+export async function authorizeConversation(storage: ConversationStorage, id: string, request: Request): Promise<
+    { ok: true; conversation: StoredConversation; key: string } | AuthorizationFailure
+> {
+    const authorized = readRequestKey(id, request);
+    if (!authorized.ok) return authorized;
+    const conversation = await storage.get(id);
+    if (!conversation || !isConversationOwner(conversation, authorized.key)) return notFound(id);
+    return { ok: true, conversation, key: authorized.key };
+}
+
+/**
+ * Like authorizeConversation, for creating or replacing the conversation `id`: a new id is
+ * allowed, and an id owned by another key gets the same 404 as in authorizeConversation.
+ */
+export async function authorizeConversationUpload(storage: ConversationStorage, id: string, request: Request): Promise<
+    { ok: true; key: string } | AuthorizationFailure
+> {
+    const authorized = readRequestKey(id, request);
+    if (!authorized.ok) return authorized;
+    const existing = await storage.get(id);
+    return existing && !isConversationOwner(existing, authorized.key) ? notFound(id) : authorized;
+}
+
+export const isShareActive = (link: ShareLink, now = Date.now()): boolean =>
+    link.revokedAt === null && (link.expiresAt === null || link.expiresAt > now);
+
+/**
+ * The conversation behind an active share link, or null if the link is unknown, revoked or
+ * expired (or its conversation is gone).
+ */
+export async function getSharedConversation(storage: ConversationStorage, token: string): Promise<{ conversation: StoredConversation; link: ShareLink } | null> {
+    const link = await storage.getShare(token);
+    if (!link || !isShareActive(link)) return null;
+    const conversation = await storage.get(link.conversationId);
+    return conversation ? { conversation, link } : null;
+}
+
+// --- JSON File Storage ---
+
+type JsonFileData = { version: 1; conversations: StoredConversation[]; shares: ShareLink[] };
+
+/**
+ * Storage in one JSON file. Writes go to a temporary file that then replaces the old one, one
+ * at a time, so a crash mid-write leaves the previous state.
+ */
+export function createJsonFileStorage(filePath: string): ConversationStorage {
+    let queue: Promise<unknown> = Promise.resolve();
+
+    const read = async (): Promise<JsonFileData> => {
+        try {
+            const data = JSON.parse(await fs.readFile(filePath, 'utf8'));
+            return {
+                version: 1,
+                conversations: Array.isArray(data?.conversations) ? data.conversations : [],
+                shares: Array.isArray(data?.shares) ? data.shares : [],
+            };
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') return { version: 1, conversations: [], shares: [] };
+            throw error;
+        }
+    };
+
+    const write = async (data: JsonFileData): Promise<void> => {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        const temporary = `${filePath}.${process.pid}.tmp`;
+        await fs.writeFile(temporary, JSON.stringify(data), 'utf8');
+        await fs.rename(temporary, filePath);
+    };
+
+    // Runs reads and read-modify-writes in order, so concurrent requests do not lose updates
+    const run = <T>(work: (data: JsonFileData) => T | Promise<T>, modifies: boolean): Promise<T> => {
+        const next = queue.then(async () => {
+            const data = await read();
+            const result = await work(data);
+            if (modifies) await write(data);
+            return result;
+        });
+        queue = next.catch(() => undefined);
+        return next;
+    };
+
+    return {
+        get: id => run(data => data.conversations.find(c => c.id === id) ?? null, false),
+
+        put: (id, input, ownerKeyHash) => run(data => {
+            const now = Date.now();
+            const existing = data.conversations.find(c => c.id === id);
+            const conversation: StoredConversation = { id, ...input, createdAt: existing?.createdAt ?? now, updatedAt: now, ownerKeyHash: existing?.ownerKeyHash ?? ownerKeyHash };
+            data.conversations = [...data.conversations.filter(c => c.id !== id), conversation];
+            return conversation;
+        }, true),
+
+        delete: id => run(data => {
+            const found = data.conversations.some(c => c.id === id);
+            data.conversations = data.conversations.filter(c => c.id !== id);
+            const now = Date.now();
+            data.shares = data.shares.map(link => (link.conversationId === id && link.revokedAt === null ? { ...link, revokedAt: now } : link));
+            return found;
+        }, true),
+
+        listShares: conversationId => run(data => data.shares.filter(link => link.conversationId === conversationId), false),
+
+        createShare: (conversationId, expiresAt) => run(data => {
+            const link: ShareLink = { token: randomBytes(18).toString('base64url'), conversationId, createdAt: Date.now(), expiresAt, revokedAt: null };
+            data.shares.push(link);
+            return link;
+        }, true),
+
+        revokeShare: (conversationId, token) => run(data => {
+            const link = data.shares.find(l => l.token === token && l.conversationId === conversationId);
+            if (!link) return null;
+            if (link.revokedAt === null) link.revokedAt = Date.now();
+            return link;
+        }, true),
+
+        getShare: token => run(data => data.shares.find(link => link.token === token) ?? null, false),
+    };
+}
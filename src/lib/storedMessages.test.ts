@@ -0,0 +1,23 @@
+// src/lib/storedMessages.test.ts
+import { describe, expect, it } from 'vitest';
+import { readStoredMessages } from './storedMessages';
+
+const table = { title: 'Kill Schedule', headers: ['Strokes', 'Pressure'], units: [null, 'psi'], rows: [[0, 1480], [1335, 1094]] };
+
+describe('readStoredMessages', () => {
+    it('skips entries that are not messages', () => {
+        expect(readStoredMessages([null, 'text', { role: 'system', content: 'x' }, { role: 'user', content: 'Hi' }]))
+            .toEqual([expect.objectContaining({ role: 'user', content: 'Hi' })]);
+    });
+
+    it('turns a data block saved before parts into a part after the text', () => {
+        const [message] = readStoredMessages([{ role: 'assistant', content: 'Here it is.', tableData: table }]);
+        expect(message.parts).toEqual([{ type: 'markdown', text: 'Here it is.' }, { type: 'table', table: expect.objectContaining({ title: 'Kill Schedule' }) }]);
+        expect(message).not.toHaveProperty('tableData');
+    });
+
+    it('drops malformed sources, warnings and compaction labels', () => {
+        const [message] = readStoredMessages([{ role: 'assistant', content: 'x', sources: [{ id: 1 }], warnings: 'none', contextCompaction: 'constructor' }]);
+        expect(message).toMatchObject({ sources: undefined, warnings: undefined, contextCompaction: undefined });
+    });
+});
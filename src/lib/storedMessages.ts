@@ -0,0 +1,174 @@
+// src/lib/storedMessages.ts
+// Chat messages as the browser keeps them (IndexedDB, server copies for sharing) and as the
+// chat API returns them. Everything read back is checked again here, so the chat and the
+// read-only share page show a stored conversation the same way.
+import type { HandbookSource } from './handbook';
+import type { CalculationTrace } from './calcTools';
+import { KillSheetPrefill, parseKillSheetPrefill } from './killSheet';
+import type { VerificationWarning } from './verification';
+import { ContextCompaction, CONTEXT_COMPACTION_LABELS } from './contextBudget';
+import { DataBlockKind, validateGraphData, validateTableData } from './dataSchema';
+import { ContentPart, RESPONSE_ENVELOPE_VERSION } from './responseEnvelope';
+
+// --- Types ---
+export type Message = {
+    role: 'user' | 'assistant';
+    content: string; // For answers with parts, their markdown
+    parts?: ContentPart[]; // The answer's markdown, charts and tables in reading order
+    sources?: HandbookSource[]; // Handbook passages the answer is based on
+    calculations?: CalculationTrace[]; // Calculator tool calls made while answering
+    killSheet?: KillSheetPrefill; // Kick data the assistant opened the kill sheet with (oilfield units)
+    warnings?: VerificationWarning[]; // Results in the answer's working that did not recompute
+    stopped?: boolean; // The user stopped the answer before it was complete
+    answeredBy?: AnsweredBy; // Model that produced the answer
+    contextCompaction?: ContextCompaction; // How the message was last shortened to fit the model context
+};
+
+// Which model answered, and whether it was a fallback for the one requested
+export type AnsweredBy = {
+    provider: string;
+    model: string;
+    requestedModel: string;
+    attempts: number;
+};
+
+// The envelope field of a chat API response, before it is checked
+export type ResponseEnvelopeInput = { version?: unknown; parts?: unknown };
+
+// --- Sanitizing ---
+
+// Keeps only well-formed sources (from the API or from persisted history)
+export const sanitizeSources = (value: unknown): HandbookSource[] | undefined => {
+    if (!Array.isArray(value)) return undefined;
+    const sources = value.filter((s): s is HandbookSource =>
+        typeof s === 'object' && s !== null && typeof s.id === 'string' && typeof s.excerpt === 'string' && typeof s.pdfPage === 'number'
+    );
+    return sources.length > 0 ? sources : undefined;
+};
+
+// Keeps only well-formed calculation traces (from the API or from persisted history)
+export const sanitizeCalculations = (value: unknown): CalculationTrace[] | undefined => {
+    if (!Array.isArray(value)) return undefined;
+    const calculations = value.filter((c): c is CalculationTrace =>
+        typeof c === 'object' && c !== null && typeof c.id === 'string' && typeof c.title === 'string' &&
+        (typeof c.error === 'string' || (typeof c.result === 'object' && c.result !== null && typeof c.result.latex?.markdown === 'string'))
+    );
+    return calculations.length > 0 ? calculations : undefined;
+};
+
+// Keeps only well-formed arithmetic warnings (from the API or from persisted history)
+export const sanitizeWarnings = (value: unknown): VerificationWarning[] | undefined => {
+    if (!Array.isArray(value)) return undefined;
+    const warnings = value.filter((w): w is VerificationWarning =>
+        typeof w === 'object' && w !== null && typeof w.segment === 'string' && typeof w.expression === 'string' &&
+        typeof w.stated === 'string' && typeof w.corrected === 'string' && typeof w.message === 'string'
+    );
+    return warnings.length > 0 ? warnings : undefined;
+};
+
+// Keeps a well-formed model attribution (from the API or from persisted history)
+export const sanitizeAnsweredBy = (value: unknown): AnsweredBy | undefined => {
+    if (typeof value !== 'object' || value === null) return undefined;
+    const { provider, model, requestedModel, attempts } = value as Record<string, unknown>;
+    if (typeof model !== 'string' || !model) return undefined;
+    return {
+        provider: typeof provider === 'string' ? provider : '',
+        model,
+        requestedModel: typeof requestedModel === 'string' ? requestedModel : model,
+        attempts: typeof attempts === 'number' ? attempts : 1,
+    };
+};
+
+export const isContextCompaction = (value: unknown): value is ContextCompaction =>
+    typeof value === 'string' && Object.prototype.hasOwnProperty.call(CONTEXT_COMPACTION_LABELS, value);
+
+// --- Content Parts ---
+
+// A chart or table checked against the shared schema; one that fails becomes an invalid part
+const toDataPart = (kind: DataBlockKind, value: unknown): ContentPart => {
+    if (kind === 'graph') {
+        const result = validateGraphData(value);
+        return result.ok ? { type: 'graph', graph: result.value } : { type: 'invalid', kind, source: JSON.stringify(value ?? null, null, 2), errors: result.errors };
+    }
+    const result = validateTableData(value);
+    return result.ok ? { type: 'table', table: result.value } : { type: 'invalid', kind, source: JSON.stringify(value ?? null, null, 2), errors: result.errors };
+};
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Rechecks content parts from the API or from persisted history; other part types are dropped
+const sanitizeParts = (value: unknown): ContentPart[] => {
+    if (!Array.isArray(value)) return [];
+    return value.flatMap((part): ContentPart[] => {
+        if (part?.type === 'markdown' && typeof part.text === 'string') return [{ type: 'markdown', text: part.text }];
+        if (part?.type === 'graph') {
+            // A chart edited in the chart editor keeps the chart as answered, if that is still valid
+            const graph = toDataPart('graph', part.graph);
+            const original = part.original === undefined ? null : validateGraphData(part.original);
+            return [graph.type === 'graph' && original?.ok ? { ...graph, original: original.value } : graph];
+        }
+        if (part?.type === 'table') return [toDataPart('table', part.table)];
+        if (part?.type === 'invalid' && (part.kind === 'graph' || part.kind === 'table') && typeof part.source === 'string' && isStringArray(part.errors)) {
+            return [{ type: 'invalid', kind: part.kind, source: part.source, errors: part.errors }];
+        }
+        return [];
+    });
+};
+
+// The parts of a stored message. History saved before parts existed had data blocks with their
+// offset in the content, or before that a single graphData or tableData field shown after the text.
+const readStoredParts = (message: Record<string, unknown>): ContentPart[] | undefined => {
+    if (Array.isArray(message.parts)) return sanitizeParts(message.parts);
+    const content = typeof message.content === 'string' ? message.content : '';
+    const blocks: { position: number; part: ContentPart }[] = [];
+    if (Array.isArray(message.blocks)) {
+        for (const block of message.blocks) {
+            const position = typeof block?.position === 'number' ? Math.min(Math.max(0, block.position), content.length) : content.length;
+            if (block?.kind === 'graph' || block?.kind === 'table') blocks.push({ position, part: toDataPart(block.kind, block.kind === 'graph' ? block.graph : block.table) });
+        }
+    }
+    if (message.graphData) blocks.push({ position: content.length, part: toDataPart('graph', message.graphData) });
+    if (message.tableData) blocks.push({ position: content.length, part: toDataPart('table', message.tableData) });
+    if (blocks.length === 0) return undefined;
+
+    const parts: ContentPart[] = [];
+    let cursor = 0;
+    for (const { position, part } of blocks.sort((x, y) => x.position - y.position)) {
+        if (content.slice(cursor, position).trim()) parts.push({ type: 'markdown', text: content.slice(cursor, position).trim() });
+        parts.push(part);
+        cursor = Math.max(cursor, position);
+    }
+    if (content.slice(cursor).trim()) parts.push({ type: 'markdown', text: content.slice(cursor).trim() });
+    return parts;
+};
+
+// The answer in a response envelope: its content parts, calculator traces and cited sources
+export const readEnvelope = (envelope: ResponseEnvelopeInput | undefined): { parts: ContentPart[]; calculations: unknown[]; sources: unknown } => {
+    if (envelope?.version !== RESPONSE_ENVELOPE_VERSION || !Array.isArray(envelope.parts)) {
+        throw new Error(`Unsupported response format (envelope version ${String(envelope?.version)}).`);
+    }
+    const parts = envelope.parts as { type?: unknown; calculation?: unknown; sources?: unknown }[];
+    return {
+        parts: sanitizeParts(parts),
+        calculations: parts.filter(part => part?.type === 'calculation').map(part => part.calculation),
+        sources: parts.find(part => part?.type === 'sources')?.sources,
+    };
+};
+
+// Keeps only valid kill sheet values (prefills are stored in oilfield units)
+export const sanitizeKillSheet = (value: unknown): KillSheetPrefill | undefined => {
+    if (typeof value !== 'object' || value === null) return undefined;
+    return parseKillSheetPrefill(value, 'oilfield').prefill;
+};
+
+// --- Stored Messages ---
+
+// Messages as stored in a conversation. Entries that are not messages are skipped rather than
+// costing the rest of the conversation.
+export const readStoredMessages = (stored: unknown[]): Message[] => stored.flatMap((raw): Message[] => {
+    if (typeof raw !== 'object' || raw === null) return [];
+    // Messages saved before parts carry data blocks, or a single graphData/tableData
+    const { blocks, graphData, tableData, ...m } = raw as Message & { blocks?: unknown; graphData?: unknown; tableData?: unknown };
+    if ((m.role !== 'user' && m.role !== 'assistant') || typeof m.content !== 'string') return [];
+    return [{ ...m, parts: readStoredParts({ ...m, blocks, graphData, tableData }), sources: sanitizeSources(m.sources), calculations: sanitizeCalculations(m.calculations), killSheet: sanitizeKillSheet(m.killSheet), warnings: sanitizeWarnings(m.warnings), answeredBy: sanitizeAnsweredBy(m.answeredBy), contextCompaction: isContextCompaction(m.contextCompaction) ? m.contextCompaction : undefined }];
+});
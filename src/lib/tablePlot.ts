@@ -0,0 +1,112 @@
+// src/lib/tablePlot.ts
+// Charts drawn from a table in the browser ("plot this table"): the user picks the category
+// column, the value columns and the chart type, and the rows become GraphData as they are,
+// with no model request that could change the numbers.
+import { GraphData, GraphOptions, GraphType, TableData } from './dataSchema';
+import { ColumnKind, inferColumnKinds } from './tableView';
+
+// --- Types ---
+export type TablePlotChoice = {
+    type: GraphType;
+    categoryColumn: number; // Labels of a category or pie chart, x of a scatter, depth of a depth chart
+    valueColumns: number[]; // Pie and scatter charts use the first
+};
+
+// "12,500" -> 12500; empty or non-numeric cells become null (a gap in the chart)
+const toNumber = (value: unknown): number | null => {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (typeof value !== 'string') return null;
+    const parsed = parseFloat(value.replace(/,/g, ''));
+    return Number.isFinite(parsed) ? parsed : null;
+};
+
+const toLabel = (value: unknown): string => (value === null || value === undefined ? '' : String(value));
+
+/**
+ * A starting choice for `table`: the first text column as categories (or the first column if
+ * all are numeric) and every other numeric column as values; a line chart over a numeric
+ * category column (e.g. depth or time), otherwise a bar chart.
+ */
+export function suggestTablePlot(table: TableData, kinds: ColumnKind[] = inferColumnKinds(table)): TablePlotChoice {
+    const textColumn = kinds.findIndex(kind => kind === 'text');
+    const categoryColumn = textColumn >= 0 ? textColumn : 0;
+    const valueColumns = kinds.flatMap((kind, column) => (kind === 'number' && column !== categoryColumn ? [column] : []));
+    return { type: kinds[categoryColumn] === 'number' ? 'line' : 'bar', categoryColumn, valueColumns };
+}
+
+// Column headers as data keys, made unique (and never the category chart's "name" key)
+function toDataKeys(headers: string[]): string[] {
+    const used = new Set<string>(['name']);
+    return headers.map((header, column) => {
+        const base = header.trim() || `Column ${column + 1}`;
+        let key = base;
+        for (let n = 2; used.has(key); n++) key = `${base} ${n}`;
+        used.add(key);
+        return key;
+    });
+}
+
+/**
+ * The table's rows as a chart of `choice.type`. The result is not validated here; the caller
+ * checks it with validateGraphData before showing or saving it.
+ */
+export function tableToGraph(table: TableData, choice: TablePlotChoice): GraphData {
+    const keys = toDataKeys(table.headers);
+    const unitOf = (column: number): string | null => (typeof table.units?.[column] === 'string' && table.units[column] ? table.units[column] : null);
+    const units: Record<string, string> = {};
+    const tagUnit = (key: string, column: number) => {
+        const unit = unitOf(column);
+        if (unit) units[key] = unit;
+    };
+    const categoryTitle = { name: table.headers[choice.categoryColumn] };
+    const values = choice.valueColumns.filter(column => column !== choice.categoryColumn && column < table.headers.length);
+    const first = values[0];
+    const base = { type: choice.type, ...(table.title ? { title: table.title } : {}) };
+
+    switch (choice.type) {
+        case 'pie':
+            if (first !== undefined) tagUnit('value', first);
+            return {
+                ...base,
+                data: table.rows.map(row => ({ name: toLabel(row[choice.categoryColumn]), value: first === undefined ? null : toNumber(row[first]) })),
+                ...(Object.keys(units).length > 0 ? { units } : {}),
+            };
+        case 'scatter':
+            tagUnit('x', choice.categoryColumn);
+            if (first !== undefined) tagUnit('y', first);
+            return {
+                ...base,
+                data: table.rows
+                    .map(row => ({ x: toNumber(row[choice.categoryColumn]), y: first === undefined ? null : toNumber(row[first]) }))
+                    .filter(point => point.x !== null && point.y !== null),
+                options: { xAxis: categoryTitle, ...(first !== undefined ? { yAxis: { name: table.headers[first] } } : {}) },
+                ...(Object.keys(units).length > 0 ? { units } : {}),
+            };
+        case 'depth':
+            tagUnit('depth', choice.categoryColumn);
+            values.forEach(column => tagUnit(keys[column], column));
+            return {
+                ...base,
+                data: table.rows
+                    .map(row => ({ depth: toNumber(row[choice.categoryColumn]), ...Object.fromEntries(values.map(column => [keys[column], toNumber(row[column])])) }))
+                    .filter(point => point.depth !== null)
+                    .sort((a, b) => (a.depth ?? 0) - (b.depth ?? 0)),
+                options: { yAxis: categoryTitle },
+                ...(Object.keys(units).length > 0 ? { units } : {}),
+            };
+        default: {
+            // Labels are text, so a category column's unit goes on the axis rather than the key
+            values.forEach(column => tagUnit(keys[column], column));
+            const categoryUnit = unitOf(choice.categoryColumn);
+            const options: GraphOptions = { xAxis: { ...categoryTitle, ...(categoryUnit ? { unit: categoryUnit } : {}) } };
+            // Composed: the first value column as bars, the others as lines
+            if (choice.type === 'composed') options.chartConfig = values.map((column, i) => ({ type: i === 0 ? 'bar' : 'line', dataKey: keys[column] }));
+            return {
+                ...base,
+                data: table.rows.map(row => ({ name: toLabel(row[choice.categoryColumn]), ...Object.fromEntries(values.map(column => [keys[column], toNumber(row[column])])) })),
+                options,
+                ...(Object.keys(units).length > 0 ? { units } : {}),
+            };
+        }
+    }
+}
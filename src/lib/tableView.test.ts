@@ -0,0 +1,49 @@
+// src/lib/tableView.test.ts
+import { describe, expect, it } from 'vitest';
+import { arrangeRows, formatTableCell, inferColumnKinds } from './tableView';
+
+const table = {
+    headers: ['Well', 'Depth', 'Active', 'Notes'],
+    rows: [
+        ['B-10', '1,250', true, null],
+        ['A-2', 300, false, null],
+        ['A-10', null, true, null],
+        ['C-1', 2000.5, false, null],
+    ],
+};
+
+describe('inferColumnKinds', () => {
+    it('reads numbers, numeric text, booleans and empty columns', () => {
+        expect(inferColumnKinds(table)).toEqual(['text', 'number', 'boolean', 'empty']);
+        expect(inferColumnKinds({ headers: ['Mud'], rows: [['12 ppg'], [10]] })).toEqual(['text']);
+    });
+});
+
+describe('formatTableCell', () => {
+    it('shows numbers at the chosen precision', () => {
+        expect(formatTableCell('1,250', 'number', 2)).toBe('1250.00');
+        expect(formatTableCell(1 / 3, 'number', 'auto')).toBe('0.333333');
+        expect(formatTableCell(true, 'boolean', 'auto')).toBe('Yes');
+        expect(formatTableCell(null, 'number', 0)).toBe('');
+    });
+});
+
+describe('arrangeRows', () => {
+    const kinds = inferColumnKinds(table);
+    const wells = (rows: { cells: unknown[] }[]) => rows.map(row => row.cells[0]);
+
+    it('sorts numbers numerically with empty cells last in either direction', () => {
+        expect(wells(arrangeRows(table, kinds, 'auto', '', { column: 1, direction: 'asc' }))).toEqual(['A-2', 'B-10', 'C-1', 'A-10']);
+        expect(wells(arrangeRows(table, kinds, 'auto', '', { column: 1, direction: 'desc' }))).toEqual(['C-1', 'B-10', 'A-2', 'A-10']);
+    });
+
+    it('sorts text naturally', () => {
+        expect(wells(arrangeRows(table, kinds, 'auto', '', { column: 0, direction: 'asc' }))).toEqual(['A-2', 'A-10', 'B-10', 'C-1']);
+    });
+
+    it('filters on the cells as shown and keeps each row its table index', () => {
+        const rows = arrangeRows(table, kinds, 1, '2000.5', null);
+        expect(rows).toEqual([{ index: 3, cells: table.rows[3] }]);
+        expect(arrangeRows(table, kinds, 'auto', 'yes', null).map(row => row.index)).toEqual([0, 2]);
+    });
+});
@@ -0,0 +1,82 @@
+// src/lib/tableView.ts
+// How the table component reads a TableData: the kind of values in each column, cells shown
+// at a chosen precision, text filtering and sorting. Arranged rows keep their index in the
+// table, so cells the server padded can still be found after sorting.
+import type { TableData } from './dataSchema';
+import { formatNumber } from './formulas';
+
+// --- Types ---
+export type ColumnKind = 'number' | 'text' | 'boolean' | 'empty';
+
+export type TableSort = { column: number; direction: 'asc' | 'desc' };
+
+// Decimal places of numeric columns; 'auto' shows six significant figures like the calculators
+export type Precision = 'auto' | number;
+
+export const PRECISION_OPTIONS: Precision[] = ['auto', 0, 1, 2, 3, 4];
+
+export type TableRow = { index: number; cells: unknown[] };
+
+// --- Columns ---
+
+// "1,250", "-0.5" and "3e-4" are numbers; "12 ppg" and "N/A" are not
+const toNumber = (value: unknown): number | null => {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (typeof value !== 'string') return null;
+    const text = value.trim().replace(/,/g, '');
+    return /^[-+]?(\d+(\.\d*)?|\.\d+)(e[-+]?\d+)?$/i.test(text) ? parseFloat(text) : null;
+};
+
+const isEmpty = (value: unknown): boolean => value === null || value === undefined || value === '';
+
+/**
+ * The kind of each column, from its non-empty cells: numeric when all of them are numbers (or
+ * numeric text), boolean when all are booleans, otherwise text.
+ */
+export function inferColumnKinds(table: TableData): ColumnKind[] {
+    return table.headers.map((_, column) => {
+        const values = table.rows.map(row => row[column]).filter(cell => !isEmpty(cell));
+        if (values.length === 0) return 'empty';
+        if (values.every(cell => toNumber(cell) !== null)) return 'number';
+        if (values.every(cell => typeof cell === 'boolean')) return 'boolean';
+        return 'text';
+    });
+}
+
+export function formatTableCell(value: unknown, kind: ColumnKind, precision: Precision): string {
+    if (value === null || value === undefined) return '';
+    const number = kind === 'number' ? toNumber(value) : null;
+    if (number !== null) return precision === 'auto' ? formatNumber(number) : number.toFixed(precision);
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// --- Rows ---
+
+// Empty cells sort last in either direction
+function compareCells(a: unknown, b: unknown, kind: ColumnKind): number {
+    if (isEmpty(a) || isEmpty(b)) return 0;
+    if (kind === 'number') return (toNumber(a) ?? 0) - (toNumber(b) ?? 0);
+    return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+}
+
+/**
+ * The rows to show: those with a cell containing `filter` (as shown, ignoring case), sorted
+ * by one column if `sort` is given. Rows that compare equal keep their order.
+ */
+export function arrangeRows(table: TableData, kinds: ColumnKind[], precision: Precision, filter: string, sort: TableSort | null): TableRow[] {
+    const query = filter.trim().toLowerCase();
+    const rows = table.rows
+        .map((cells, index) => ({ index, cells }))
+        .filter(row => !query || row.cells.some((cell, column) => formatTableCell(cell, kinds[column], precision).toLowerCase().includes(query)));
+    if (!sort) return rows;
+
+    const sign = sort.direction === 'asc' ? 1 : -1;
+    const kind = kinds[sort.column];
+    return rows.sort((x, y) => {
+        const a = x.cells[sort.column];
+        const b = y.cells[sort.column];
+        if (isEmpty(a) !== isEmpty(b)) return isEmpty(a) ? 1 : -1;
+        return sign * compareCells(a, b, kind);
+    });
+}
@@ -0,0 +1,57 @@
+// src/lib/units.test.ts
+import { describe, expect, it } from 'vitest';
+import { convertGraphData, convertTableData, convertValue, normalizeUnit, relabelUnit, toUnitSystem, unitForSystem } from './units';
+
+describe('convertValue', () => {
+    it('converts within a quantity and trims floating point noise', () => {
+        expect(convertValue(10000, 'ft', 'm')).toBe(3048);
+        expect(convertValue(3048, 'm', 'ft')).toBe(10000);
+        expect(convertValue(1, 'ppg', 'kg/m3')).toBeCloseTo(119.8264, 4);
+        expect(convertValue(100, 'bar', 'psi')).toBeCloseTo(1450.377, 3);
+        expect(convertValue(212, '°F', '°C')).toBe(100);
+    });
+
+    it('accepts aliases', () => {
+        expect(normalizeUnit(' lb/gal ')).toBe('ppg');
+        expect(convertValue(1, 'feet', 'm')).toBe(0.3048);
+    });
+
+    it('throws for unknown units and different quantities', () => {
+        expect(() => convertValue(1, 'furlong', 'm')).toThrow("Cannot convert 'furlong' to 'm': unknown unit.");
+        expect(() => convertValue(1, 'psi', 'ft')).toThrow("Cannot convert 'psi' (pressure) to 'ft' (length).");
+    });
+});
+
+describe('unit systems', () => {
+    it('maps units to their counterpart and leaves the rest alone', () => {
+        expect(unitForSystem('psi', 'si')).toBe('kPa');
+        expect(unitForSystem('kPa', 'si')).toBe('kPa');
+        expect(unitForSystem('MPa', 'oilfield')).toBe('psi');
+        expect(unitForSystem('spm', 'si')).toBe('spm');
+        expect(toUnitSystem(10000, 'ft', 'si')).toEqual({ value: 3048, unit: 'm' });
+    });
+
+    it('relabels a unit only where a label names it', () => {
+        expect(relabelUnit('Depth (ft)', 'ft', 'm')).toBe('Depth (m)');
+        expect(relabelUnit('TVD, ft', 'ft', 'm')).toBe('TVD, m');
+        expect(relabelUnit('Lift factor', 'ft', 'm')).toBe('Lift factor');
+    });
+});
+
+describe('data blocks', () => {
+    it('converts unit-tagged table columns and their headers', () => {
+        const table = { headers: ['TVD (ft)', 'Pressure', 'Note'], rows: [[10000, 6240, 'shoe']], units: ['ft', 'psi', null] };
+        const converted = convertTableData(table, 'si');
+        expect(converted.headers).toEqual(['TVD (m)', 'Pressure', 'Note']);
+        expect(converted.units).toEqual(['m', 'kPa', null]);
+        expect(converted.rows[0][0]).toBe(3048);
+        expect(converted.rows[0][1]).toBeCloseTo(43023.29, 2);
+        expect(converted.rows[0][2]).toBe('shoe');
+        expect(convertTableData(table, 'oilfield')).toBe(table);
+    });
+
+    it('converts unit-tagged graph series', () => {
+        const graph = { type: 'line', data: [{ name: 'A', Depth: 1000 }], units: { Depth: 'ft' } };
+        expect(convertGraphData(graph, 'si')).toMatchObject({ data: [{ name: 'A', Depth: 304.8 }], units: { Depth: 'm' } });
+    });
+});
@@ -0,0 +1,326 @@
+// src/lib/units.ts
+// Oilfield <-> SI unit conversion for calculator values and for unit-tagged table/graph data.
+import { AxisId, AXIS_OPTION_FIELDS, getAxisKeys, getAxisUnit, getDepthKey } from './dataSchema';
+
+// --- Types ---
+export type UnitSystem = 'oilfield' | 'si';
+
+export const UNIT_SYSTEMS: UnitSystem[] = ['oilfield', 'si'];
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = 'oilfield'; // The handbook's own units
+
+export const UNIT_SYSTEM_LABELS: Record<UnitSystem, string> = {
+    oilfield: 'Oilfield',
+    si: 'SI',
+};
+
+export const isUnitSystem = (value: unknown): value is UnitSystem => value === 'oilfield' || value === 'si';
+
+type UnitDefinition = {
+    quantity: string; // Units convert only within the same quantity
+    factor: number; // Multiplier to the quantity's base unit
+    offset?: number; // Added after the multiplier (temperatures only)
+    si?: string; // Counterpart when converting an oilfield unit to SI
+    oilfield?: string; // Counterpart when converting an SI unit to oilfield
+};
+
+// --- Unit Table ---
+// Base units: m, kPa, kg/m3, kPa/m, m3, m3/m, m/m3, m3/stk, L/min, m/min, m/hr, °C, °C/m, kW, kg, kg/m, N.m, $/m, m3/sk, mm2.
+// Units missing from the table (SG, %, hr, spm, $, ...) are the same in both systems and pass through unchanged.
+const UNITS: Record<string, UnitDefinition> = {
+    // Length
+    'ft': { quantity: 'length', factor: 0.3048, si: 'm' },
+    'in': { quantity: 'length', factor: 0.0254, si: 'mm' },
+    'm': { quantity: 'length', factor: 1, oilfield: 'ft' },
+    'mm': { quantity: 'length', factor: 0.001, oilfield: 'in' },
+    'cm': { quantity: 'length', factor: 0.01, oilfield: 'in' },
+
+    // Pressure (incl. gel strength / yield point)
+    'psi': { quantity: 'pressure', factor: 6.894757293168, si: 'kPa' },
+    'lb/100ft2': { quantity: 'pressure', factor: 0.000478802589804, si: 'Pa' },
+    'kPa': { quantity: 'pressure', factor: 1, oilfield: 'psi' },
+    'MPa': { quantity: 'pressure', factor: 1000, oilfield: 'psi' },
+    'bar': { quantity: 'pressure', factor: 100, oilfield: 'psi' },
+    'Pa': { quantity: 'pressure', factor: 0.001, oilfield: 'lb/100ft2' },
+
+    // Density. SG is the same in both systems; it converts to the others relative to water at 1000 kg/m3
+    'ppg': { quantity: 'density', factor: 119.826427316897, si: 'kg/m3' },
+    'lb/ft3': { quantity: 'density', factor: 16.018463373960, si: 'kg/m3' },
+    'lb/bbl': { quantity: 'density', factor: 2.853010174814, si: 'kg/m3' },
+    'SG': { quantity: 'density', factor: 1000 },
+    'kg/m3': { quantity: 'density', factor: 1, oilfield: 'ppg' },
+    'g/cm3': { quantity: 'density', factor: 1000, oilfield: 'ppg' },
+    'kg/L': { quantity: 'density', factor: 1000, oilfield: 'ppg' },
+
+    // Pressure gradient
+    'psi/ft': { quantity: 'pressureGradient', factor: 22.620594793858, si: 'kPa/m' },
+    'kPa/m': { quantity: 'pressureGradient', factor: 1, oilfield: 'psi/ft' },
+    'bar/m': { quantity: 'pressureGradient', factor: 100, oilfield: 'psi/ft' },
+
+    // Volume
+    'bbl': { quantity: 'volume', factor: 0.158987294928, si: 'm3' },
+    'gal': { quantity: 'volume', factor: 0.003785411784, si: 'L' },
+    'ft3': { quantity: 'volume', factor: 0.028316846592, si: 'm3' },
+    'm3': { quantity: 'volume', factor: 1, oilfield: 'bbl' },
+    'L': { quantity: 'volume', factor: 0.001, oilfield: 'gal' },
+
+    // Capacity and its reciprocal
+    'bbl/ft': { quantity: 'capacity', factor: 0.52161186, si: 'm3/m' },
+    'gal/ft': { quantity: 'capacity', factor: 0.01241933, si: 'L/m' },
+    'm3/m': { quantity: 'capacity', factor: 1, oilfield: 'bbl/ft' },
+    'L/m': { quantity: 'capacity', factor: 0.001, oilfield: 'gal/ft' },
+    'ft/bbl': { quantity: 'reciprocalCapacity', factor: 1.917134322828, si: 'm/m3' },
+    'm/m3': { quantity: 'reciprocalCapacity', factor: 1, oilfield: 'ft/bbl' },
+
+    // Pump output
+    'bbl/stk': { quantity: 'pumpOutput', factor: 0.158987294928, si: 'm3/stk' },
+    'gal/stk': { quantity: 'pumpOutput', factor: 0.003785411784, si: 'L/stk' },
+    'm3/stk': { quantity: 'pumpOutput', factor: 1, oilfield: 'bbl/stk' },
+    'L/stk': { quantity: 'pumpOutput', factor: 0.001, oilfield: 'gal/stk' },
+
+    // Flow rate
+    'gpm': { quantity: 'flowRate', factor: 3.785411784, si: 'L/min' },
+    'bbl/min': { quantity: 'flowRate', factor: 158.987294928, si: 'm3/min' },
+    'bbl/hr': { quantity: 'flowRate', factor: 2.649788248800, si: 'm3/hr' },
+    'L/min': { quantity: 'flowRate', factor: 1, oilfield: 'gpm' },
+    'm3/min': { quantity: 'flowRate', factor: 1000, oilfield: 'bbl/min' },
+    'm3/hr': { quantity: 'flowRate', factor: 1000 / 60, oilfield: 'bbl/hr' },
+
+    // Velocity and rate of penetration
+    'ft/min': { quantity: 'velocity', factor: 0.3048, si: 'm/min' },
+    'ft/sec': { quantity: 'velocity', factor: 18.288, si: 'm/sec' },
+    'm/min': { quantity: 'velocity', factor: 1, oilfield: 'ft/min' },
+    'm/sec': { quantity: 'velocity', factor: 60, oilfield: 'ft/sec' },
+    'ft/hr': { quantity: 'penetrationRate', factor: 0.3048, si: 'm/hr' },
+    'm/hr': { quantity: 'penetrationRate', factor: 1, oilfield: 'ft/hr' },
+
+    // Temperature and geothermal gradient
+    '°F': { quantity: 'temperature', factor: 5 / 9, offset: -160 / 9, si: '°C' },
+    '°C': { quantity: 'temperature', factor: 1, oilfield: '°F' },
+    '°F/ft': { quantity: 'temperatureGradient', factor: 5 / 9 / 0.3048, si: '°C/m' },
+    '°F/100ft': { quantity: 'temperatureGradient', factor: 5 / 9 / 30.48, si: '°C/100m' },
+    '°C/m': { quantity: 'temperatureGradient', factor: 1, oilfield: '°F/ft' },
+    '°C/100m': { quantity: 'temperatureGradient', factor: 0.01, oilfield: '°F/100ft' },
+
+    // Power, mass, weight per length and torque
+    'hp': { quantity: 'power', factor: 0.745699871582, si: 'kW' },
+    'kW': { quantity: 'power', factor: 1, oilfield: 'hp' },
+    'lb': { quantity: 'mass', factor: 0.45359237, si: 'kg' },
+    'klb': { quantity: 'mass', factor: 453.59237, si: 't' },
+    'kg': { quantity: 'mass', factor: 1, oilfield: 'lb' },
+    't': { quantity: 'mass', factor: 1000, oilfield: 'klb' },
+    'lb/ft': { quantity: 'linearWeight', factor: 1.488163943570, si: 'kg/m' },
+    'kg/m': { quantity: 'linearWeight', factor: 1, oilfield: 'lb/ft' },
+    'ft-lb': { quantity: 'torque', factor: 1.355817948331, si: 'N.m' },
+    'N.m': { quantity: 'torque', factor: 1, oilfield: 'ft-lb' },
+
+    // Cost per length, cement yield and nozzle area
+    '$/ft': { quantity: 'costPerLength', factor: 1 / 0.3048, si: '$/m' },
+    '$/m': { quantity: 'costPerLength', factor: 1, oilfield: '$/ft' },
+    'ft3/sk': { quantity: 'slurryYield', factor: 0.028316846592, si: 'm3/sk' },
+    'gal/sk': { quantity: 'slurryYield', factor: 0.003785411784, si: 'L/sk' },
+    'm3/sk': { quantity: 'slurryYield', factor: 1, oilfield: 'ft3/sk' },
+    'L/sk': { quantity: 'slurryYield', factor: 0.001, oilfield: 'gal/sk' },
+    'in2': { quantity: 'area', factor: 645.16, si: 'mm2' },
+    'mm2': { quantity: 'area', factor: 1, oilfield: 'in2' },
+};
+
+// Common spellings found in model output and the handbook text
+const UNIT_ALIASES: Record<string, string> = {
+    'feet': 'ft', 'foot': 'ft', 'inch': 'in', 'inches': 'in', 'in.': 'in', 'meter': 'm', 'meters': 'm', 'metre': 'm', 'metres': 'm',
+    'psig': 'psi', 'kpa': 'kPa', 'mpa': 'MPa',
+    'lb/gal': 'ppg', 'lbm/gal': 'ppg', 'lb/ft³': 'lb/ft3', 'pcf': 'lb/ft3', 'kg/m³': 'kg/m3', 'g/cm³': 'g/cm3', 'g/cc': 'g/cm3', 'sg': 'SG',
+    'bbls': 'bbl', 'ft³': 'ft3', 'cu ft': 'ft3', 'm³': 'm3', 'l': 'L', 'gallons': 'gal',
+    'm³/m': 'm3/m', 'm³/stk': 'm3/stk', 'bbl/stroke': 'bbl/stk', 'gal/min': 'gpm', 'bpm': 'bbl/min', 'l/min': 'L/min', 'lpm': 'L/min', 'm³/min': 'm3/min',
+    'fpm': 'ft/min', 'ft/s': 'ft/sec', 'm/s': 'm/sec', 'ft/h': 'ft/hr', 'm/h': 'm/hr',
+    '°f': '°F', 'degf': '°F', 'deg f': '°F', '°c': '°C', 'degc': '°C', 'deg c': '°C',
+    'lb/100 ft2': 'lb/100ft2', 'lb/100ft²': 'lb/100ft2', 'lbf/100ft2': 'lb/100ft2',
+    'lbs': 'lb', 'lb/ft.': 'lb/ft', 'ft-lbs': 'ft-lb', 'ft-lbf': 'ft-lb', 'ft·lb': 'ft-lb', 'nm': 'N.m', 'n·m': 'N.m', 'n.m': 'N.m',
+    'ft³/sk': 'ft3/sk', 'in²': 'in2', 'sq in': 'in2', 'mm²': 'mm2',
+};
+
+// --- Conversion ---
+
+/**
+ * Maps a unit string to its canonical table key, or returns it trimmed if it is not a known unit.
+ */
+export function normalizeUnit(unit: string): string {
+    const trimmed = unit.trim();
+    if (UNITS[trimmed]) return trimmed;
+    return UNIT_ALIASES[trimmed] || UNIT_ALIASES[trimmed.toLowerCase()] || trimmed;
+}
+
+export const isKnownUnit = (unit: string): boolean => normalizeUnit(unit) in UNITS;
+
+// Conversions go through floating point twice; trim the noise (e.g. 9.999999999998 -> 10)
+const roundConverted = (value: number): number => parseFloat(value.toPrecision(12));
+
+/**
+ * Converts a value between two units of the same quantity. Throws if either unit is unknown
+ * or the quantities differ (e.g. psi to ft).
+ */
+export function convertValue(value: number, fromUnit: string, toUnit: string): number {
+    const from = normalizeUnit(fromUnit);
+    const to = normalizeUnit(toUnit);
+    if (from === to) return value;
+    const fromDef = UNITS[from];
+    const toDef = UNITS[to];
+    if (!fromDef || !toDef) {
+        throw new Error(`Cannot convert '${fromUnit}' to '${toUnit}': unknown unit.`);
+    }
+    if (fromDef.quantity !== toDef.quantity) {
+        throw new Error(`Cannot convert '${fromUnit}' (${fromDef.quantity}) to '${toUnit}' (${toDef.quantity}).`);
+    }
+    const base = value * fromDef.factor + (fromDef.offset || 0);
+    return roundConverted((base - (toDef.offset || 0)) / toDef.factor);
+}
+
+/**
+ * Returns the unit a value in `unit` is shown in under `system`. Units that already belong to
+ * the system, and units that are the same in both systems, are returned unchanged.
+ */
+export function unitForSystem(unit: string, system: UnitSystem): string {
+    const definition = UNITS[normalizeUnit(unit)];
+    const counterpart = system === 'si' ? definition?.si : definition?.oilfield;
+    return counterpart || unit;
+}
+
+/**
+ * Converts a value into `system`, returning the new value and unit.
+ */
+export function toUnitSystem(value: number, unit: string, system: UnitSystem): { value: number; unit: string } {
+    const target = unitForSystem(unit, system);
+    return target === unit ? { value, unit } : { value: convertValue(value, unit, target), unit: target };
+}
+
+// --- Labels ---
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Rewrites a unit written in a label, e.g. "Depth (ft)" -> "Depth (m)" or "TVD, ft" -> "TVD, m".
+ * Labels that do not mention the unit are returned unchanged.
+ */
+export function relabelUnit(label: string, fromUnit: string, toUnit: string): string {
+    const pattern = new RegExp(`([(\\[]\\s*)${escapeRegExp(fromUnit)}(\\s*[)\\]])|(,\\s*)${escapeRegExp(fromUnit)}$`);
+    return label.replace(pattern, (_match, open, close, comma) => comma !== undefined ? `${comma}${toUnit}` : `${open}${toUnit}${close}`);
+}
+
+// --- Data Blocks ---
+type UnitTaggedTable = {
+    headers: string[];
+    rows: unknown[][];
+    units?: (string | null)[]; // Unit of each column, parallel to headers
+};
+
+type UnitTaggedGraph = {
+    type?: string;
+    data: unknown[];
+    units?: Record<string, string>; // Unit of each data key
+    options?: Record<string, unknown>;
+};
+
+/**
+ * Converts the numeric cells of unit-tagged table columns into `system` and updates the
+ * headers and `units` to match. Tables without `units` are returned unchanged.
+ */
+export function convertTableData<T extends UnitTaggedTable>(table: T, system: UnitSystem): T {
+    if (!Array.isArray(table.units)) return table;
+    const targets = table.units.map(unit => (typeof unit === 'string' && unit ? unitForSystem(unit, system) : unit));
+    if (targets.every((target, i) => target === table.units![i])) return table;
+
+    return {
+        ...table,
+        headers: table.headers.map((header, i) => {
+            const from = table.units![i];
+            const to = targets[i];
+            return typeof from === 'string' && typeof to === 'string' && from !== to ? relabelUnit(header, from, to) : header;
+        }),
+        rows: table.rows.map(row => Array.isArray(row)
+            ? row.map((cell, i) => {
+                const from = table.units![i];
+                const to = targets[i];
+                return typeof cell === 'number' && typeof from === 'string' && typeof to === 'string' && from !== to ? convertValue(cell, from, to) : cell;
+            })
+            : row),
+        units: targets,
+    };
+}
+
+/**
+ * Converts the unit-tagged data keys of a graph into `system`, relabelling series labels and
+ * axis names that mention the old unit. Graphs without `units` are returned unchanged.
+ */
+export function convertGraphData<T extends UnitTaggedGraph>(graph: T, system: UnitSystem): T {
+    if (!graph.units || typeof graph.units !== 'object') return graph;
+    const changes = Object.entries(graph.units)
+        .map(([key, unit]) => ({ key, from: unit, to: unitForSystem(unit, system) }))
+        .filter(change => change.from !== change.to);
+    if (changes.length === 0) return graph;
+
+    const relabel = (label: unknown): unknown => typeof label === 'string'
+        ? changes.reduce((text, change) => relabelUnit(text, change.from, change.to), label)
+        : label;
+
+    const data = graph.data.map(point => {
+        if (typeof point !== 'object' || point === null) return point;
+        const converted: Record<string, unknown> = { ...point };
+        for (const { key, from, to } of changes) {
+            if (typeof converted[key] === 'number') converted[key] = convertValue(converted[key] as number, from, to);
+        }
+        return converted;
+    });
+
+    // Relabel the option fields GraphRenderer displays
+    let options = graph.options;
+    if (options) {
+        options = { ...options };
+        for (const field of ['xAxisLabel', 'yAxisLabel', 'seriesName']) {
+            if (field in options) options[field] = relabel(options[field]);
+        }
+        for (const axis of ['xAxis', 'yAxis', 'y2Axis']) {
+            const axisOptions = options[axis];
+            if (typeof axisOptions === 'object' && axisOptions !== null && 'name' in axisOptions) {
+                options[axis] = { ...axisOptions, name: relabel((axisOptions as { name: unknown }).name) };
+            }
+        }
+        // Reference lines, annotations and axis units are given in the unit of their axis, which
+        // follows the keys plotted along it
+        const axisKeys = getAxisKeys(graph);
+        for (const axis of Object.keys(AXIS_OPTION_FIELDS) as AxisId[]) {
+            const change = changes.find(c => axisKeys[axis].includes(c.key));
+            if (!change || getAxisUnit(graph, axis) !== change.from) continue;
+            const field = AXIS_OPTION_FIELDS[axis];
+            const axisOptions = options[field];
+            if (typeof axisOptions === 'object' && axisOptions !== null && 'unit' in axisOptions) options[field] = { ...axisOptions, unit: change.to };
+            if (Array.isArray(options.referenceLines)) {
+                options.referenceLines = options.referenceLines.map(line => (line?.axis === axis && typeof line.value === 'number'
+                    ? { ...line, value: convertValue(line.value, change.from, change.to), label: relabel(line.label) }
+                    : line));
+            }
+            if (Array.isArray(options.annotations)) {
+                options.annotations = options.annotations.map(note => {
+                    if (axis === 'x' && typeof note?.x === 'number') return { ...note, x: convertValue(note.x, change.from, change.to) };
+                    if (axis !== 'x' && (note?.axis ?? 'y') === axis && typeof note?.y === 'number') return { ...note, y: convertValue(note.y, change.from, change.to) };
+                    return note;
+                });
+            }
+        }
+        const labels = options.labels;
+        if (typeof labels === 'object' && labels !== null) {
+            options.labels = Object.fromEntries(Object.entries(labels).map(([key, label]) => [key, relabel(label)]));
+        }
+        // Depth charts: casing shoes are given in the unit of the depth key
+        const depthChange = changes.find(change => change.key === getDepthKey(options));
+        if (depthChange && Array.isArray(options.casingShoes)) {
+            options.casingShoes = options.casingShoes.map(shoe => (typeof shoe === 'object' && shoe !== null && typeof shoe.depth === 'number'
+                ? { ...shoe, depth: convertValue(shoe.depth, depthChange.from, depthChange.to) }
+                : shoe));
+        }
+    }
+
+    return {
+        ...graph,
+        data,
+        options,
+        units: { ...graph.units, ...Object.fromEntries(changes.map(change => [change.key, change.to])) },
+    };
+}
@@ -0,0 +1,62 @@
+// src/lib/verification.test.ts
+import { describe, expect, it } from 'vitest';
+import { KILL_SHEET_EXAMPLE, computeKillSheet } from './killSheet';
+import { highlightVerificationWarnings, verifyAnswerArithmetic } from './verification';
+
+describe('verifyAnswerArithmetic', () => {
+    it('accepts correct and rounded results', () => {
+        expect(verifyAnswerArithmetic('$$HP = 0.052 \\times 12 \\times 10000 = 6240 \\text{ psi}$$')).toEqual([]);
+        expect(verifyAnswerArithmetic('$$AV = \\frac{24.5 \\times 500}{8.5^2 - 5^2} \\approx 259.3 \\text{ ft/min}$$')).toEqual([]);
+    });
+
+    it('flags a wrong result on the same line', () => {
+        const [warning, ...rest] = verifyAnswerArithmetic('$$HP = 0.052 \\times 12 \\times 10000 = 7000 \\text{ psi}$$');
+        expect(rest).toEqual([]);
+        expect(warning).toMatchObject({ statedValue: 7000, expectedValue: 6240, corrected: '6240' });
+        expect(warning.message).toBe('7000 should be 6240 (off by 12.1795%).');
+    });
+
+    it('skips symbolic steps', () => {
+        expect(verifyAnswerArithmetic('$$HP = MW \\times 0.052 \\times TVD$$')).toEqual([]);
+    });
+
+    it('checks aligned working continued on the next line', () => {
+        const aligned = '$$\\begin{aligned} HP &= 12 \\times 0.052 \\times 10000 \\\\ &= 7000 \\text{ psi} \\end{aligned}$$';
+        expect(verifyAnswerArithmetic(aligned)).toMatchObject([{ expression: '12 \\times 0.052 \\times 10000', statedValue: 7000, expectedValue: 6240 }]);
+        expect(verifyAnswerArithmetic(aligned.replace('7000', '6240'))).toEqual([]);
+    });
+
+    it('checks a result written in a separate block against the working for the same symbol', () => {
+        const separate = 'The pressure is $$HP = 12 \\times 0.052 \\times 10000$$ which gives $$HP = 7000 \\text{ psi}$$';
+        expect(verifyAnswerArithmetic(separate)).toMatchObject([{ segment: '$$HP = 7000 \\text{ psi}$$', statedValue: 7000, expectedValue: 6240 }]);
+        expect(verifyAnswerArithmetic(separate.replace('7000', '6240'))).toEqual([]);
+    });
+
+    it('accepts the kill sheet working', () => {
+        expect(verifyAnswerArithmetic(computeKillSheet(KILL_SHEET_EXAMPLE).latex)).toEqual([]);
+    });
+
+    it('ignores data blocks', () => {
+        expect(verifyAnswerArithmetic('<!--TABLE_DATA:{"title":"$2 \\\\times 3 = 7$"}-->')).toEqual([]);
+    });
+});
+
+describe('highlightVerificationWarnings', () => {
+    it('marks a wrong result with the corrected value', () => {
+        const content = '$$HP = 0.052 \\times 12 \\times 10000 = 7000 \\text{ psi}$$';
+        expect(highlightVerificationWarnings(content, verifyAnswerArithmetic(content)))
+            .toBe('$$HP = 0.052 \\times 12 \\times 10000 = {\\color{#dc2626}\\underline{7000 \\text{ psi}}\\;\\text{(check: 6240)}}$$');
+    });
+
+    it('marks every flagged result in a block', () => {
+        const content = '$$a = 2 \\times 3 = 7 \\\\ b = 4 \\times 5 = 21$$';
+        const highlighted = highlightVerificationWarnings(content, verifyAnswerArithmetic(content));
+        expect(highlighted).toBe('$$a = 2 \\times 3 = {\\color{#dc2626}\\underline{7}\\;\\text{(check: 6)}} \\\\ b = 4 \\times 5 = {\\color{#dc2626}\\underline{21}\\;\\text{(check: 20)}}$$');
+    });
+
+    it('marks a continued line without touching the working', () => {
+        const content = '$$HP &= 12 \\times 0.052 \\times 10000 \\\\ &= 7000 \\text{ psi}$$';
+        expect(highlightVerificationWarnings(content, verifyAnswerArithmetic(content)))
+            .toBe('$$HP &= 12 \\times 0.052 \\times 10000 \\\\ &= {\\color{#dc2626}\\underline{7000 \\text{ psi}}\\;\\text{(check: 6240)}}$$');
+    });
+});
@@ -0,0 +1,317 @@
+// src/lib/verification.ts
+// Checks the arithmetic the model writes in its LaTeX, e.g. "$0.052 \times 12 \times 10000 = 6240$",
+// by re-evaluating each computation with a small expression evaluator (no eval).
+import { formatNumber } from './formulas';
+
+// --- Types ---
+export type VerificationWarning = {
+    segment: string; // Math block as written in the answer, including its delimiters
+    expression: string; // LaTeX of the computation, e.g. "0.052 \times 12 \times 10000"
+    stated: string; // Result as written, e.g. "6,864 \text{ psi}"
+    statedValue: number;
+    expectedValue: number;
+    corrected: string; // Expected value formatted for display
+    relativeError: number; // (stated - expected) / expected
+    message: string;
+};
+
+// Allowed difference: 0.5% of the expected value, or the rounding of the stated value if larger
+export const VERIFICATION_RELATIVE_TOLERANCE = 0.005;
+
+// --- Expression Evaluator ---
+// Grammar: expr = term (('+'|'-') term)*; term = factor (('*'|'/') factor | '(' ...)*;
+// factor = ('+'|'-') factor | power; power = primary ('^' factor)?; primary = number | '(' expr ')' | 'sqrt' '(' expr ')'
+type Token = { type: 'number'; value: number } | { type: 'op'; value: string };
+
+function tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    const pattern = /\s*(?:(\d+(?:\.\d*)?|\.\d+)|(sqrt|[-+*/^()]))/y;
+    let index = 0;
+    while (index < expression.length) {
+        if (expression.slice(index).trim() === '') break;
+        pattern.lastIndex = index;
+        const match = pattern.exec(expression);
+        if (!match) throw new Error(`Unexpected character at ${index} in '${expression}'.`);
+        tokens.push(match[1] !== undefined ? { type: 'number', value: parseFloat(match[1]) } : { type: 'op', value: match[2] });
+        index = pattern.lastIndex;
+    }
+    return tokens;
+}
+
+/**
+ * Evaluates a plain arithmetic expression: numbers, + - * / ^, parentheses and sqrt().
+ * Throws on anything else, or if the result is not finite.
+ */
+export function evaluateExpression(expression: string): number {
+    const tokens = tokenize(expression);
+    let position = 0;
+    const peek = (): Token | undefined => tokens[position];
+    const isOp = (token: Token | undefined, ...values: string[]): boolean => token?.type === 'op' && values.includes(token.value);
+    const expect = (value: string) => {
+        if (!isOp(peek(), value)) throw new Error(`Expected '${value}' in '${expression}'.`);
+        position++;
+    };
+
+    const parseExpression = (): number => {
+        let value = parseTerm();
+        while (isOp(peek(), '+', '-')) {
+            const op = (tokens[position++] as { value: string }).value;
+            value = op === '+' ? value + parseTerm() : value - parseTerm();
+        }
+        return value;
+    };
+    const parseTerm = (): number => {
+        let value = parseFactor();
+        for (;;) {
+            if (isOp(peek(), '*', '/')) {
+                const op = (tokens[position++] as { value: string }).value;
+                value = op === '*' ? value * parseFactor() : value / parseFactor();
+            } else if (isOp(peek(), '(', 'sqrt')) {
+                value *= parseFactor(); // Implicit multiplication, e.g. 2(8.5^2 - 5^2)
+            } else {
+                return value;
+            }
+        }
+    };
+    const parseFactor = (): number => {
+        if (isOp(peek(), '+', '-')) {
+            const op = (tokens[position++] as { value: string }).value;
+            return op === '-' ? -parseFactor() : parseFactor();
+        }
+        const base = parsePrimary();
+        if (isOp(peek(), '^')) {
+            position++;
+            return base ** parseFactor();
+        }
+        return base;
+    };
+    const parsePrimary = (): number => {
+        const token = tokens[position++];
+        if (!token) throw new Error(`Unexpected end of '${expression}'.`);
+        if (token.type === 'number') return token.value;
+        if (token.value === '(') {
+            const value = parseExpression();
+            expect(')');
+            return value;
+        }
+        if (token.value === 'sqrt') {
+            expect('(');
+            const value = parseExpression();
+            expect(')');
+            return Math.sqrt(value);
+        }
+        throw new Error(`Unexpected '${token.value}' in '${expression}'.`);
+    };
+
+    const result = parseExpression();
+    if (position < tokens.length) throw new Error(`Unexpected '${String(tokens[position].value)}' in '${expression}'.`);
+    if (!Number.isFinite(result)) throw new Error(`'${expression}' does not evaluate to a finite number.`);
+    return result;
+}
+
+// --- LaTeX to Arithmetic ---
+
+// Index just past the brace group that starts at `start` ("{"), or -1 if unbalanced
+function groupEnd(text: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < text.length; i++) {
+        if (text[i] === '{') depth++;
+        else if (text[i] === '}' && --depth === 0) return i + 1;
+    }
+    return -1;
+}
+
+// Replaces \command{a}{b}... with build(a, b, ...), innermost arguments converted first
+function replaceCommand(text: string, command: RegExp, argumentCount: number, build: (args: string[]) => string): string | null {
+    let match: RegExpExecArray | null;
+    while ((match = command.exec(text)) !== null) {
+        let cursor = match.index + match[0].length;
+        const args: string[] = [];
+        for (let i = 0; i < argumentCount; i++) {
+            while (text[cursor] === ' ') cursor++;
+            if (text[cursor] !== '{') return null;
+            const end = groupEnd(text, cursor);
+            if (end < 0) return null;
+            args.push(text.slice(cursor + 1, end - 1));
+            cursor = end;
+        }
+        text = text.slice(0, match.index) + build(args) + text.slice(cursor);
+        command.lastIndex = 0;
+    }
+    return text;
+}
+
+/**
+ * Converts a LaTeX computation to a plain arithmetic expression, dropping \text{} units.
+ * Returns null if anything symbolic (variables, functions other than sqrt) remains.
+ */
+export function latexToArithmetic(latex: string): string | null {
+    let text = latex
+        .replace(/\\(?:text|mathrm|textrm|mbox|operatorname)\s*\{[^{}]*\}/g, ' ') // Units, e.g. \text{ psi}
+        .replace(/\\(?:left|right|displaystyle|quad|qquad)\b/g, ' ')
+        .replace(/\\[,;:! ]/g, ' ')
+        .replace(/\{,\}/g, '')
+        .replace(/(\d),(?=\d{3}(?!\d))/g, '$1') // Thousands separators
+        .replace(/\\times|\\cdot|×|·/g, '*')
+        .replace(/\\div|÷/g, '/')
+        .replace(/−/g, '-');
+
+    const fractions = replaceCommand(text, /\\[dt]?frac/g, 2, ([numerator, denominator]) => `((${numerator})/(${denominator}))`);
+    if (fractions === null) return null;
+    const roots = replaceCommand(fractions, /\\sqrt(?!\[)/g, 1, ([radicand]) => `sqrt(${radicand})`);
+    if (roots === null) return null;
+
+    text = roots.replace(/[{[]/g, '(').replace(/[}\]]/g, ')').trim();
+    if (!text || /\\|[a-zA-Z]/.test(text.replace(/sqrt/g, ''))) return null;
+    return text;
+}
+
+// --- Verification ---
+
+// A computation has at least one operator, not just a (signed) number
+const isComputation = (arithmetic: string): boolean => /sqrt|[*/^+]|\S\s*-/.test(arithmetic.replace(/^\s*[-+]/, ''));
+
+// Reads a stated result: a number, optionally followed by a unit, e.g. "0.624 psi/ft"
+function parseStated(side: string): number | null {
+    const match = side.trim().match(/^(-?\s*[\d.,{}]+)(.*)$/);
+    if (!match) return null;
+    const unit = match[2].replace(/\\(?:text|mathrm|textrm|mbox)\s*\{[^{}]*\}/g, '').replace(/\\[,;:! ]/g, '').trim();
+    if (unit && !/^[a-zA-Z°%µ\\][a-zA-Z0-9°%/^{}.\s\\-]*$/.test(unit)) return null;
+    const arithmetic = latexToArithmetic(match[1]);
+    if (arithmetic === null) return null;
+    try {
+        return evaluateExpression(arithmetic);
+    } catch {
+        return null;
+    }
+}
+
+// Half a unit in the last written decimal place, e.g. 0.005 for "0.62"
+function roundingAllowance(stated: string): number {
+    const number = stated.replace(/\{,\}|,/g, '').match(/\d+(?:\.(\d+))?/);
+    return number ? 0.5 * 10 ** -(number[1]?.length ?? 0) : 0;
+}
+
+const MATH_PATTERN = /\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)|\$([^$\n]+?)\$/g;
+
+// A left-hand symbol as a lookup key, e.g. "P_{h} " -> "P_h"
+const toSymbolKey = (side: string): string => side.replace(/[\s{}]/g, '');
+
+/**
+ * Finds "computation = result" pairs in the answer's math and flags results that differ from
+ * the recomputed value by more than the tolerance. Symbolic steps are skipped. Working is
+ * followed across lines: a line starting with "=" (e.g. "&= 7000 \text{ psi}" in an aligned
+ * block) continues from the last computation above it, and "HP = 7000" checks the computation
+ * last given for HP, in the same math block or an earlier one.
+ */
+export function verifyAnswerArithmetic(content: string, tolerance = VERIFICATION_RELATIVE_TOLERANCE): VerificationWarning[] {
+    const warnings: VerificationWarning[] = [];
+    const text = content.replace(/<!--[\s\S]*?-->/g, ''); // Graph and table data blocks
+    const symbols = new Map<string, string>(); // Left-hand symbol -> its last computation
+
+    // Flags `stated` if it is not the value of `expression`; false when either cannot be read
+    const check = (segment: string, expression: string, stated: string): boolean => {
+        const arithmetic = latexToArithmetic(expression);
+        if (arithmetic === null || !isComputation(arithmetic)) return false;
+
+        let expectedValue: number;
+        try {
+            expectedValue = evaluateExpression(arithmetic);
+        } catch {
+            return false;
+        }
+        // The result side may itself be a computation (chained working) or a number with a unit
+        const statedArithmetic = latexToArithmetic(stated);
+        let statedValue: number | null = null;
+        try {
+            statedValue = statedArithmetic !== null ? evaluateExpression(statedArithmetic) : parseStated(stated);
+        } catch {
+            statedValue = parseStated(stated);
+        }
+        if (statedValue === null) return false;
+
+        const difference = Math.abs(statedValue - expectedValue);
+        const allowed = Math.max(tolerance * Math.abs(expectedValue), statedArithmetic !== null && isComputation(statedArithmetic) ? 0 : roundingAllowance(stated), 1e-12);
+        if (difference <= allowed) return true;
+
+        const relativeError = expectedValue !== 0 ? (statedValue - expectedValue) / expectedValue : Infinity;
+        const corrected = formatNumber(expectedValue);
+        warnings.push({
+            segment,
+            expression,
+            stated,
+            statedValue,
+            expectedValue,
+            corrected,
+            relativeError,
+            message: `${formatNumber(statedValue)} should be ${corrected}`
+                + (Number.isFinite(relativeError) ? ` (off by ${formatNumber(Math.abs(relativeError) * 100)}%).` : '.'),
+        });
+        return true;
+    };
+
+    for (const match of text.matchAll(MATH_PATTERN)) {
+        const segment = match[0];
+        const math = match[1] ?? match[2] ?? match[3] ?? match[4] ?? '';
+        const lines = math.replace(/\\(?:begin|end)\{[a-z*]+\}/g, '').split(/\\\\/);
+        let carried: string | null = null; // Last computation in this block, for continuation lines
+
+        for (const line of lines) {
+            const sides = line.replace(/&/g, '').split(/=|\\approx|≈/).map(side => side.trim());
+            if (sides.length < 2) continue;
+            if (sides[0] === '' && carried) sides[0] = carried;
+
+            let lastComputation: string | null = null;
+            for (let i = 0; i < sides.length; i++) {
+                const arithmetic = latexToArithmetic(sides[i]);
+                if (arithmetic === null || !isComputation(arithmetic)) continue;
+                lastComputation = sides[i];
+                if (i < sides.length - 1) check(segment, sides[i], sides[i + 1]);
+            }
+
+            // A symbol on the left, e.g. "HP" in "HP = 12 \times 0.052 \times 10000"
+            const symbol = sides[0] && latexToArithmetic(sides[0]) === null ? toSymbolKey(sides[0]) : null;
+            if (lastComputation) {
+                carried = lastComputation;
+                if (symbol) symbols.set(symbol, lastComputation);
+            } else if (symbol && symbols.has(symbol)) {
+                // Its result, written apart from the working; checked once
+                check(segment, symbols.get(symbol) as string, sides[sides.length - 1]);
+                symbols.delete(symbol);
+            }
+        }
+    }
+    return warnings;
+}
+
+// The LaTeX that marks a flagged result, with the recomputed value next to it
+const markStated = (warning: VerificationWarning): string =>
+    `{\\color{#dc2626}\\underline{${warning.stated}}\\;\\text{(check: ${warning.corrected})}}`;
+
+/**
+ * Marks each flagged result in red with the recomputed value next to it, for display. A math
+ * block with several flagged results gets all of them marked.
+ */
+export function highlightVerificationWarnings(content: string, warnings: VerificationWarning[]): string {
+    const bySegment = new Map<string, VerificationWarning[]>();
+    for (const warning of warnings) bySegment.set(warning.segment, [...(bySegment.get(warning.segment) ?? []), warning]);
+
+    let highlighted = content;
+    for (const [segment, segmentWarnings] of bySegment) {
+        const start = highlighted.indexOf(segment);
+        if (start < 0) continue;
+        // Warnings come in reading order, so each stated result is looked for after the last one
+        let marked = '';
+        let cursor = 0;
+        for (const warning of segmentWarnings) {
+            const expressionAt = segment.indexOf(warning.expression, cursor);
+            const statedAt = segment.indexOf(warning.stated, expressionAt >= 0 ? expressionAt + warning.expression.length : cursor);
+            if (statedAt < 0) continue;
+            marked += segment.slice(cursor, statedAt) + markStated(warning);
+            cursor = statedAt + warning.stated.length;
+        }
+        marked += segment.slice(cursor);
+        highlighted = highlighted.slice(0, start) + marked + highlighted.slice(start + segment.length);
+    }
+    return highlighted;
+}
@@ -0,0 +1,22 @@
+// src/lib/wellProfile.test.ts
+import { describe, expect, it } from 'vitest';
+import { parseWellProfile } from './wellProfile';
+
+const tubular = (kind: unknown) => ({ kind, outerDiameter: 5, innerDiameter: 4.276, length: 9000 });
+
+describe('parseWellProfile', () => {
+    it('returns null for values that are not profiles', () => {
+        expect(parseWellProfile(null)).toBeNull();
+        expect(parseWellProfile({ name: 'No id' })).toBeNull();
+    });
+
+    it('drops incomplete sections and tubulars', () => {
+        const profile = parseWellProfile({ id: 'w1', holeSections: [{ innerDiameter: 8.5, top: 5000 }], tubulars: [{ outerDiameter: 5 }] });
+        expect(profile).toMatchObject({ id: 'w1', name: 'Unnamed well', holeSections: [], tubulars: [] });
+    });
+
+    it('keeps known tubular kinds and reads any other as other', () => {
+        const profile = parseWellProfile({ id: 'w1', tubulars: [tubular('drill-collar'), tubular('constructor'), tubular('toString'), tubular('casing')] });
+        expect(profile?.tubulars.map(t => t.kind)).toEqual(['drill-collar', 'other', 'other', 'other']);
+    });
+});
@@ -0,0 +1,314 @@
+// src/lib/wellProfile.ts
+// "Well context" profiles: the hole sections, drill string and mud of a well. Stored in the
+// browser, sent with each chat request, and used as defaults for the calculators and kill sheet.
+import { FormulaDefinition, formatNumber } from './formulas';
+import { KillSheetPrefill, CapacitySection, AnnulusSection } from './killSheet';
+import { UnitSystem, toUnitSystem } from './units';
+
+// --- Types ---
+// All values are stored in oilfield units, like the rest of the handbook calculations
+
+export type HoleSectionKind = 'casing' | 'liner' | 'open-hole';
+
+export type HoleSection = {
+    label: string; // e.g. "9 5/8 in casing"
+    kind: HoleSectionKind;
+    innerDiameter: number; // in, casing/liner ID or hole size
+    top: number; // ft MD
+    bottom: number; // ft MD, the shoe depth for casing and liners
+    shoeTvd?: number; // ft
+};
+
+export type TubularKind = 'drill-pipe' | 'heavy-weight' | 'drill-collar' | 'other';
+
+export type Tubular = {
+    label: string;
+    kind: TubularKind;
+    outerDiameter: number; // in
+    innerDiameter: number; // in
+    length: number; // ft
+};
+
+export type FluidProperties = {
+    mudWeight?: number; // ppg
+    plasticViscosity?: number; // cP
+    yieldPoint?: number; // lb/100ft2
+    flowRate?: number; // gpm
+    pumpOutput?: number; // bbl/stk
+    killRatePressure?: number; // psi, slow circulating rate pressure
+};
+
+export type WellDepths = {
+    md?: number; // ft, bit depth
+    tvd?: number; // ft, bit depth
+    leakOffPressure?: number; // psi
+    leakOffMudWeight?: number; // ppg
+};
+
+export type WellProfile = WellDepths & {
+    id: string;
+    name: string;
+    holeSections: HoleSection[]; // Casing program and open hole, any order
+    tubulars: Tubular[]; // Drill string from surface to bit
+    fluid: FluidProperties;
+    updatedAt: number; // Epoch ms
+};
+
+export type ProfileField<K extends string> = {
+    name: K;
+    label: string;
+    unit: string; // Oilfield unit
+};
+
+// --- Fields ---
+export const WELL_DEPTH_FIELDS: ProfileField<keyof WellDepths>[] = [
+    { name: 'md', label: 'Bit depth (MD)', unit: 'ft' },
+    { name: 'tvd', label: 'Bit depth (TVD)', unit: 'ft' },
+    { name: 'leakOffPressure', label: 'Leak-off test pressure', unit: 'psi' },
+    { name: 'leakOffMudWeight', label: 'Leak-off test mud weight', unit: 'ppg' },
+];
+
+export const FLUID_FIELDS: ProfileField<keyof FluidProperties>[] = [
+    { name: 'mudWeight', label: 'Mud weight', unit: 'ppg' },
+    { name: 'plasticViscosity', label: 'Plastic viscosity', unit: 'cP' },
+    { name: 'yieldPoint', label: 'Yield point', unit: 'lb/100ft2' },
+    { name: 'flowRate', label: 'Circulation rate', unit: 'gpm' },
+    { name: 'pumpOutput', label: 'Pump output', unit: 'bbl/stk' },
+    { name: 'killRatePressure', label: 'Kill rate pressure', unit: 'psi' },
+];
+
+export const HOLE_SECTION_FIELDS: ProfileField<'innerDiameter' | 'top' | 'bottom' | 'shoeTvd'>[] = [
+    { name: 'innerDiameter', label: 'ID / hole size', unit: 'in' },
+    { name: 'top', label: 'Top (MD)', unit: 'ft' },
+    { name: 'bottom', label: 'Bottom (MD)', unit: 'ft' },
+    { name: 'shoeTvd', label: 'Shoe TVD', unit: 'ft' },
+];
+
+export const TUBULAR_FIELDS: ProfileField<'outerDiameter' | 'innerDiameter' | 'length'>[] = [
+    { name: 'outerDiameter', label: 'OD', unit: 'in' },
+    { name: 'innerDiameter', label: 'ID', unit: 'in' },
+    { name: 'length', label: 'Length', unit: 'ft' },
+];
+
+export const HOLE_SECTION_KIND_LABELS: Record<HoleSectionKind, string> = {
+    'casing': 'Casing',
+    'liner': 'Liner',
+    'open-hole': 'Open hole',
+};
+
+export const TUBULAR_KIND_LABELS: Record<TubularKind, string> = {
+    'drill-pipe': 'Drill pipe',
+    'heavy-weight': 'HWDP',
+    'drill-collar': 'Drill collar',
+    'other': 'Other',
+};
+
+// --- Parsing ---
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readNumber = (value: unknown): number | undefined => {
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    return typeof number === 'number' && Number.isFinite(number) && number >= 0 ? number : undefined;
+};
+
+function readFields<K extends string>(raw: unknown, fields: ProfileField<K>[]): Partial<Record<K, number>> {
+    const values: Partial<Record<K, number>> = {};
+    if (!isObject(raw)) return values;
+    for (const field of fields) {
+        const value = readNumber(raw[field.name]);
+        if (value !== undefined) values[field.name] = value;
+    }
+    return values;
+}
+
+const readLabel = (value: unknown, fallback: string): string => (typeof value === 'string' && value.trim() ? value.trim() : fallback);
+
+/**
+ * Reads a profile from storage or a request body (oilfield units). Invalid values, sections
+ * and tubulars are dropped; returns null if the value is not a profile at all.
+ */
+export function parseWellProfile(raw: unknown): WellProfile | null {
+    if (!isObject(raw) || typeof raw.id !== 'string' || !raw.id) return null;
+
+    const holeSections: HoleSection[] = (Array.isArray(raw.holeSections) ? raw.holeSections : []).flatMap((section, i): HoleSection[] => {
+        const values = readFields(section, HOLE_SECTION_FIELDS);
+        if (!isObject(section) || values.innerDiameter === undefined || values.top === undefined || values.bottom === undefined || values.bottom < values.top) return [];
+        const kind = section.kind === 'casing' || section.kind === 'liner' || section.kind === 'open-hole' ? section.kind : 'open-hole';
+        return [{ label: readLabel(section.label, `Section ${i + 1}`), kind, innerDiameter: values.innerDiameter, top: values.top, bottom: values.bottom, ...(values.shoeTvd !== undefined ? { shoeTvd: values.shoeTvd } : {}) }];
+    });
+
+    const tubulars: Tubular[] = (Array.isArray(raw.tubulars) ? raw.tubulars : []).flatMap((tubular, i): Tubular[] => {
+        const values = readFields(tubular, TUBULAR_FIELDS);
+        if (!isObject(tubular) || values.outerDiameter === undefined || values.innerDiameter === undefined || values.length === undefined) return [];
+        const kind = typeof tubular.kind === 'string' && Object.prototype.hasOwnProperty.call(TUBULAR_KIND_LABELS, tubular.kind) ? tubular.kind as TubularKind : 'other';
+        return [{ label: readLabel(tubular.label, `Tubular ${i + 1}`), kind, outerDiameter: values.outerDiameter, innerDiameter: values.innerDiameter, length: values.length }];
+    });
+
+    return {
+        id: raw.id,
+        name: readLabel(raw.name, 'Unnamed well'),
+        ...readFields(raw, WELL_DEPTH_FIELDS),
+        holeSections,
+        tubulars,
+        fluid: readFields(raw.fluid, FLUID_FIELDS),
+        updatedAt: readNumber(raw.updatedAt) ?? Date.now(),
+    };
+}
+
+export function createWellProfile(name: string): WellProfile {
+    const id = typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `well-${Date.now()}`;
+    return { id, name, holeSections: [], tubulars: [], fluid: {}, updatedAt: Date.now() };
+}
+
+// --- Derived Values ---
+
+/**
+ * Bit depth, ft MD: the profile's MD, or the drill string length if MD is not set.
+ */
+export function getBitDepth(profile: WellProfile): number | undefined {
+    if (profile.md !== undefined) return profile.md;
+    const length = profile.tubulars.reduce((sum, tubular) => sum + tubular.length, 0);
+    return length > 0 ? length : undefined;
+}
+
+// The innermost hole section at a measured depth, i.e. the smallest ID that covers it
+function holeSectionAt(profile: WellProfile, md: number): HoleSection | undefined {
+    return profile.holeSections
+        .filter(section => section.top <= md && md <= section.bottom)
+        .sort((a, b) => a.innerDiameter - b.innerDiameter)[0];
+}
+
+// The deepest casing or liner shoe
+function lastShoe(profile: WellProfile): HoleSection | undefined {
+    return profile.holeSections
+        .filter(section => section.kind !== 'open-hole')
+        .sort((a, b) => b.bottom - a.bottom)[0];
+}
+
+// Pipe used for the single-pipe calculators (annular velocity, capacity): the drill pipe if listed
+const mainTubular = (profile: WellProfile): Tubular | undefined =>
+    profile.tubulars.find(tubular => tubular.kind === 'drill-pipe') || profile.tubulars[0];
+
+// Where each formula input can be read from a profile; "formulaId.input" entries take precedence
+const PROFILE_DEFAULTS: Record<string, (profile: WellProfile) => number | undefined> = {
+    'mudWeight': profile => profile.fluid.mudWeight,
+    'tvd': profile => profile.tvd,
+    'flowRate': profile => profile.fluid.flowRate,
+    'holeDiameter': profile => {
+        const bitDepth = getBitDepth(profile);
+        return bitDepth !== undefined ? holeSectionAt(profile, bitDepth)?.innerDiameter : undefined;
+    },
+    'pipeOD': profile => mainTubular(profile)?.outerDiameter,
+    'innerDiameter': profile => mainTubular(profile)?.innerDiameter,
+    'shoeTvd': profile => lastShoe(profile)?.shoeTvd,
+    'leakOffPressure': profile => profile.leakOffPressure,
+    'max-allowable-mud-weight.mudWeight': profile => profile.leakOffMudWeight,
+};
+
+/**
+ * Values the profile supplies for a formula's inputs, in oilfield units. Used when the caller
+ * leaves an input out.
+ */
+export function getProfileDefaults(profile: WellProfile, formula: FormulaDefinition): Record<string, number> {
+    const defaults: Record<string, number> = {};
+    for (const input of formula.inputs) {
+        const specific = PROFILE_DEFAULTS[`${formula.id}.${input.name}`];
+        const value = specific ? specific(profile) : PROFILE_DEFAULTS[input.name]?.(profile);
+        if (value !== undefined) defaults[input.name] = value;
+    }
+    return defaults;
+}
+
+// Capacity, bbl/ft, of a pipe bore or an annulus (handbook: ID^2 / 1029.4)
+const capacity = (outer: number, inner = 0): number => (outer ** 2 - inner ** 2) / 1029.4;
+
+/**
+ * Kill sheet values the profile already knows: mud, pump, depths, and the drill string and
+ * annulus capacities worked out from the tubulars and hole sections.
+ */
+export function getKillSheetPrefill(profile: WellProfile): KillSheetPrefill {
+    const prefill: KillSheetPrefill = {};
+    const set = <K extends keyof KillSheetPrefill>(name: K, value: KillSheetPrefill[K] | undefined) => {
+        if (value !== undefined) prefill[name] = value;
+    };
+    set('originalMudWeight', profile.fluid.mudWeight);
+    set('killRatePressure', profile.fluid.killRatePressure);
+    set('pumpOutput', profile.fluid.pumpOutput);
+    set('md', getBitDepth(profile));
+    set('tvd', profile.tvd);
+    set('leakOffPressure', profile.leakOffPressure);
+    set('leakOffMudWeight', profile.leakOffMudWeight);
+    set('shoeTvd', lastShoe(profile)?.shoeTvd);
+
+    if (profile.tubulars.length === 0) return prefill;
+    prefill.drillString = profile.tubulars.map((tubular): CapacitySection => ({
+        label: tubular.label,
+        capacity: capacity(tubular.innerDiameter),
+        length: tubular.length,
+    }));
+
+    // Split the annulus wherever the pipe or the hole changes, then list it from bit to surface
+    const tubularTops: number[] = [];
+    let bitDepth = 0;
+    for (const tubular of profile.tubulars) {
+        tubularTops.push(bitDepth);
+        bitDepth += tubular.length;
+    }
+    const boundaries = [...new Set([0, bitDepth, ...tubularTops, ...profile.holeSections.flatMap(section => [section.top, section.bottom])])]
+        .filter(depth => depth >= 0 && depth <= bitDepth)
+        .sort((a, b) => a - b);
+
+    const annulus: (AnnulusSection & { tubular: Tubular; hole: HoleSection })[] = [];
+    for (let i = 0; i < boundaries.length - 1; i++) {
+        const middle = (boundaries[i] + boundaries[i + 1]) / 2;
+        const tubular = profile.tubulars[tubularTops.filter(top => top <= middle).length - 1];
+        const hole = holeSectionAt(profile, middle);
+        if (!hole) return prefill; // The hole sections do not cover the string; let the user enter the annulus
+        const length = boundaries[i + 1] - boundaries[i];
+        const previous = annulus[annulus.length - 1];
+        if (previous && previous.tubular === tubular && previous.hole === hole) {
+            previous.length += length;
+        } else {
+            annulus.push({ label: `${tubular.label} / ${hole.label}`, capacity: capacity(hole.innerDiameter, tubular.outerDiameter), length, openHole: hole.kind === 'open-hole', tubular, hole });
+        }
+    }
+    prefill.annulus = annulus.reverse().map(({ label, capacity, length, openHole }) => ({ label, capacity, length, openHole }));
+    return prefill;
+}
+
+// --- Prompt ---
+
+/**
+ * The profile as plain text for the system message, in the user's unit system.
+ */
+export function describeWellProfile(profile: WellProfile, unitSystem: UnitSystem): string {
+    const show = (value: number | undefined, unit: string): string => {
+        if (value === undefined) return 'not set';
+        const converted = toUnitSystem(value, unit, unitSystem);
+        return `${formatNumber(converted.value)} ${converted.unit}`;
+    };
+    const lines = [`Well: "${profile.name}"`];
+
+    const depths = WELL_DEPTH_FIELDS.filter(field => profile[field.name] !== undefined);
+    if (depths.length > 0) lines.push(`- ${depths.map(field => `${field.label}: ${show(profile[field.name], field.unit)}`).join('; ')}`);
+
+    if (profile.holeSections.length > 0) {
+        lines.push('- Hole sections:');
+        [...profile.holeSections].sort((a, b) => a.top - b.top).forEach(section => {
+            const shoe = section.kind !== 'open-hole' && section.shoeTvd !== undefined ? `, shoe TVD ${show(section.shoeTvd, 'ft')}` : '';
+            lines.push(`  - ${section.label} (${HOLE_SECTION_KIND_LABELS[section.kind]}): ID ${show(section.innerDiameter, 'in')}, ${show(section.top, 'ft')} to ${show(section.bottom, 'ft')} MD${shoe}`);
+        });
+    }
+
+    if (profile.tubulars.length > 0) {
+        lines.push('- Drill string, surface to bit:');
+        profile.tubulars.forEach(tubular => {
+            lines.push(`  - ${tubular.label} (${TUBULAR_KIND_LABELS[tubular.kind]}): OD ${show(tubular.outerDiameter, 'in')}, ID ${show(tubular.innerDiameter, 'in')}, length ${show(tubular.length, 'ft')}`);
+        });
+    }
+
+    const fluid = FLUID_FIELDS.filter(field => profile.fluid[field.name] !== undefined);
+    if (fluid.length > 0) lines.push(`- Mud and pump: ${fluid.map(field => `${field.label}: ${show(profile.fluid[field.name], field.unit)}`).join('; ')}`);
+
+    return lines.join('\n');
+}